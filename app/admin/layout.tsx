@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+    title: 'Admin - Can I Charge?',
+    robots: { index: false, follow: false }
+}
+
+export default function AdminLayout({
+    children
+}: {
+    children: React.ReactNode
+}) {
+    return children
+}
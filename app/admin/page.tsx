@@ -0,0 +1,462 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { AdminDashboard } from '@/lib/admin-dashboard'
+import type { PipelineJobWithSteps } from '@/lib/pipeline-jobs'
+
+// Signed token from /api/admin/session, kept for the browser session only
+const SESSION_KEY = 'admin-session'
+// Poll while a job is queued or running
+const ACTIVE_POLL_MS = 15000
+
+type Action = 'refresh' | 'smart-update' | 'reaggregate'
+
+interface AdminSession {
+    token: string
+    subject: string
+    expires_at: string
+}
+
+function loadSession(): AdminSession | null {
+    const stored = sessionStorage.getItem(SESSION_KEY)
+    if (!stored) return null
+    const session: AdminSession = JSON.parse(stored)
+    return new Date(session.expires_at) > new Date() ? session : null
+}
+
+const STATUS_COLORS: Record<string, string> = {
+    queued: 'text-white/40',
+    running: 'text-neon-mid',
+    done: 'text-neon-high',
+    failed: 'text-neon-red'
+}
+
+function formatTime(iso: string | null): string {
+    return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+function formatDuration(job: PipelineJobWithSteps): string {
+    if (!job.started_at) return '—'
+    const end = job.finished_at ? new Date(job.finished_at) : new Date()
+    const seconds = Math.round((end.getTime() - new Date(job.started_at).getTime()) / 1000)
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <section className='rounded-2xl border border-white/10 bg-white/5 p-5 space-y-3'>
+            <h2 className='text-xs font-mono font-semibold text-white/70 uppercase tracking-widest'>
+                {title}
+            </h2>
+            {children}
+        </section>
+    )
+}
+
+export default function AdminPage() {
+    const [session, setSession] = useState<AdminSession | null>(null)
+    const [username, setUsername] = useState('')
+    const [password, setPassword] = useState('')
+    const [dashboard, setDashboard] = useState<AdminDashboard | null>(null)
+    const [expandedJob, setExpandedJob] = useState<string | null>(null)
+    const [state, setState] = useState('')
+    const [running, setRunning] = useState<Action | null>(null)
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+    useEffect(() => {
+        setSession(loadSession())
+    }, [])
+
+    const signOut = useCallback(() => {
+        sessionStorage.removeItem(SESSION_KEY)
+        setSession(null)
+        setDashboard(null)
+    }, [])
+
+    const loadDashboard = useCallback(async () => {
+        if (!session) return
+        try {
+            const response = await fetch('/api/admin/dashboard', {
+                headers: { authorization: `Bearer ${session.token}` }
+            })
+            if (response.status === 401) {
+                signOut()
+                setMessage({ ok: false, text: 'Session expired - sign in again' })
+                return
+            }
+            if (!response.ok) throw new Error(`Dashboard returned ${response.status}`)
+            setDashboard(await response.json())
+        } catch (error) {
+            console.error('Dashboard error:', error)
+            setMessage({ ok: false, text: 'Failed to load dashboard' })
+        }
+    }, [session, signOut])
+
+    useEffect(() => {
+        loadDashboard()
+    }, [loadDashboard])
+
+    const jobActive = dashboard?.jobs.some((job) => job.status === 'queued' || job.status === 'running')
+    useEffect(() => {
+        if (!jobActive) return
+        const timer = setInterval(loadDashboard, ACTIVE_POLL_MS)
+        return () => clearInterval(timer)
+    }, [jobActive, loadDashboard])
+
+    const handleSignIn = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setMessage(null)
+        try {
+            const response = await fetch('/api/admin/session', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ username, password })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                setMessage({ ok: false, text: result.error || 'Sign-in failed' })
+                return
+            }
+
+            sessionStorage.setItem(SESSION_KEY, JSON.stringify(result))
+            setSession(result)
+            setPassword('')
+        } catch (error) {
+            console.error('Sign-in error:', error)
+            setMessage({ ok: false, text: 'Sign-in failed' })
+        }
+    }
+
+    const runAction = async (action: Action) => {
+        const requests: Record<Action, { url: string; body?: object; label: string }> = {
+            refresh: { url: '/api/refresh-data', label: 'Full refresh' },
+            'smart-update': { url: '/api/smart-update', body: {}, label: 'Smart update' },
+            reaggregate: { url: '/api/admin/reaggregate', body: { state }, label: `Re-aggregating ${state}` }
+        }
+        const { url, body, label } = requests[action]
+
+        setRunning(action)
+        setMessage(null)
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    authorization: `Bearer ${session!.token}`,
+                    'content-type': 'application/json'
+                },
+                body: body ? JSON.stringify(body) : undefined
+            })
+            if (response.status === 401) {
+                signOut()
+                setMessage({ ok: false, text: 'Session expired - sign in again' })
+                return
+            }
+            const result = await response.json()
+
+            setMessage(
+                response.ok
+                    ? { ok: true, text: `${label} finished: ${result.message || 'success'}` }
+                    : { ok: false, text: `${label} failed: ${result.error || response.status}` }
+            )
+        } catch (error) {
+            console.error('Admin action error:', error)
+            setMessage({ ok: false, text: `${label} failed` })
+        } finally {
+            setRunning(null)
+            loadDashboard()
+        }
+    }
+
+    const inputClass =
+        'bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-neon-mid/50'
+    const buttonClass =
+        'px-4 py-2.5 rounded-xl text-xs font-mono uppercase tracking-widest border border-neon-mid/50 text-neon-mid hover:bg-neon-mid/10 disabled:opacity-50 transition-all'
+
+    if (!session) {
+        return (
+            <main className='min-h-screen flex items-center justify-center p-6 bg-background text-white'>
+                <form onSubmit={handleSignIn} className='w-full max-w-sm space-y-3'>
+                    <h1 className='text-sm font-mono font-semibold uppercase tracking-widest text-white/70'>
+                        Admin Sign In
+                    </h1>
+                    <input
+                        required
+                        autoComplete='username'
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder='Username'
+                        className={`w-full ${inputClass}`}
+                    />
+                    <input
+                        required
+                        type='password'
+                        autoComplete='current-password'
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder='Password'
+                        className={`w-full ${inputClass}`}
+                    />
+                    <button type='submit' className={`w-full ${buttonClass}`}>
+                        Sign In
+                    </button>
+                    {message && <p className='text-xs font-mono text-neon-red'>{message.text}</p>}
+                </form>
+            </main>
+        )
+    }
+
+    const progress = dashboard?.zip_progress
+
+    return (
+        <main className='min-h-screen p-6 bg-background text-white'>
+            <div className='max-w-5xl mx-auto space-y-5'>
+                <header className='flex items-center justify-between'>
+                    <h1 className='text-sm font-mono font-semibold uppercase tracking-widest text-white/70'>
+                        Pipeline Admin
+                    </h1>
+                    <div className='flex items-center gap-4 text-[10px] font-mono text-white/40 uppercase tracking-wider'>
+                        <span>{session.subject}</span>
+                        {dashboard && <span>Updated {formatTime(dashboard.generated_at)}</span>}
+                        <button onClick={loadDashboard} className='hover:text-white'>
+                            Reload
+                        </button>
+                        <button onClick={signOut} className='hover:text-white'>
+                            Sign Out
+                        </button>
+                    </div>
+                </header>
+
+                <Section title='Actions'>
+                    <div className='flex flex-wrap items-center gap-3'>
+                        <button
+                            onClick={() => runAction('refresh')}
+                            disabled={running !== null}
+                            className={buttonClass}
+                        >
+                            {running === 'refresh' ? 'Refreshing...' : 'Full Refresh'}
+                        </button>
+                        <button
+                            onClick={() => runAction('smart-update')}
+                            disabled={running !== null}
+                            className={buttonClass}
+                        >
+                            {running === 'smart-update' ? 'Updating...' : 'Smart Update'}
+                        </button>
+                        <input
+                            value={state}
+                            onChange={(e) => setState(e.target.value.toUpperCase())}
+                            placeholder='State (e.g. CO)'
+                            maxLength={2}
+                            className={`w-32 ${inputClass}`}
+                        />
+                        <button
+                            onClick={() => runAction('reaggregate')}
+                            disabled={running !== null || state.length !== 2}
+                            className={buttonClass}
+                        >
+                            {running === 'reaggregate' ? 'Re-aggregating...' : 'Re-aggregate State'}
+                        </button>
+                    </div>
+                    {message && (
+                        <p className={`text-xs font-mono ${message.ok ? 'text-neon-high' : 'text-neon-red'}`}>
+                            {message.text}
+                        </p>
+                    )}
+                </Section>
+
+                {!dashboard ? (
+                    <p className='text-xs font-mono text-white/40'>Loading...</p>
+                ) : (
+                    <>
+                        <Section title='ZIP Progress'>
+                            {progress ? (
+                                <div className='space-y-2'>
+                                    <div className='h-2 rounded-full bg-white/10 overflow-hidden'>
+                                        <div
+                                            className='h-full bg-neon-mid transition-all'
+                                            style={{ width: `${progress.percent}%` }}
+                                        />
+                                    </div>
+                                    <p className='text-xs font-mono text-white/60'>
+                                        {progress.completed} / {progress.total} changed ZIPs ({progress.percent}%) ·{' '}
+                                        <span className={STATUS_COLORS[progress.status]}>{progress.status}</span>
+                                    </p>
+                                </div>
+                            ) : (
+                                <p className='text-xs font-mono text-white/40'>
+                                    No nightly run has detected changes yet
+                                </p>
+                            )}
+                        </Section>
+
+                        <Section title='Refresh Runs'>
+                            {dashboard.jobs.length === 0 ? (
+                                <p className='text-xs font-mono text-white/40'>No jobs recorded</p>
+                            ) : (
+                                <table className='w-full text-xs font-mono'>
+                                    <thead className='text-white/40 text-left'>
+                                        <tr>
+                                            <th className='py-1'>Created</th>
+                                            <th>Kind</th>
+                                            <th>Triggered By</th>
+                                            <th>Status</th>
+                                            <th>Duration</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dashboard.jobs.map((job) => (
+                                            <JobRows
+                                                key={job.id}
+                                                job={job}
+                                                expanded={expandedJob === job.id}
+                                                onToggle={() =>
+                                                    setExpandedJob(expandedJob === job.id ? null : job.id)
+                                                }
+                                            />
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </Section>
+
+                        <Section title='Full Refresh Metrics'>
+                            {dashboard.metrics.length === 0 ? (
+                                <p className='text-xs font-mono text-white/40'>No full refreshes recorded</p>
+                            ) : (
+                                <table className='w-full text-xs font-mono'>
+                                    <thead className='text-white/40 text-left'>
+                                        <tr>
+                                            <th className='py-1'>When</th>
+                                            <th>Result</th>
+                                            <th>Duration</th>
+                                            <th>Fetched</th>
+                                            <th>Inserted</th>
+                                            <th>States</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dashboard.metrics.map((metrics) => (
+                                            <tr key={metrics.timestamp} className='border-t border-white/5'>
+                                                <td className='py-1'>{formatTime(metrics.timestamp)}</td>
+                                                <td
+                                                    className={metrics.success ? 'text-neon-high' : 'text-neon-red'}
+                                                    title={metrics.error_message || undefined}
+                                                >
+                                                    {metrics.success ? 'success' : 'failed'}
+                                                </td>
+                                                <td>{metrics.duration_seconds}s</td>
+                                                <td>{metrics.stations_fetched.toLocaleString()}</td>
+                                                <td>{metrics.stations_inserted.toLocaleString()}</td>
+                                                <td>{metrics.states_generated}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </Section>
+
+                        <Section title='Change Detection'>
+                            {dashboard.change_logs.length === 0 ? (
+                                <p className='text-xs font-mono text-white/40'>No changes logged</p>
+                            ) : (
+                                <table className='w-full text-xs font-mono'>
+                                    <thead className='text-white/40 text-left'>
+                                        <tr>
+                                            <th className='py-1'>Detected</th>
+                                            <th>Changes</th>
+                                            <th>States</th>
+                                            <th>Counties</th>
+                                            <th>ZIPs</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dashboard.change_logs.map((log) => (
+                                            <tr key={log.detected_at} className='border-t border-white/5'>
+                                                <td className='py-1'>{formatTime(log.detected_at)}</td>
+                                                <td>{log.total_changes.toLocaleString()}</td>
+                                                <td>{log.states.join(', ') || '—'}</td>
+                                                <td>{log.counties}</td>
+                                                <td>{log.zips}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </Section>
+
+                        <Section title='Audit Log'>
+                            {dashboard.audit_log.length === 0 ? (
+                                <p className='text-xs font-mono text-white/40'>No admin actions recorded</p>
+                            ) : (
+                                <table className='w-full text-xs font-mono'>
+                                    <thead className='text-white/40 text-left'>
+                                        <tr>
+                                            <th className='py-1'>When</th>
+                                            <th>Who</th>
+                                            <th>Action</th>
+                                            <th>Details</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dashboard.audit_log.map((entry) => (
+                                            <tr
+                                                key={`${entry.created_at}-${entry.action}`}
+                                                className='border-t border-white/5'
+                                            >
+                                                <td className='py-1'>{formatTime(entry.created_at)}</td>
+                                                <td title={entry.ip}>{entry.actor}</td>
+                                                <td>{entry.action}</td>
+                                                <td className='text-white/50'>
+                                                    {Object.keys(entry.details).length > 0
+                                                        ? JSON.stringify(entry.details)
+                                                        : ''}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </Section>
+                    </>
+                )}
+            </div>
+        </main>
+    )
+}
+
+function JobRows({
+    job,
+    expanded,
+    onToggle
+}: {
+    job: PipelineJobWithSteps
+    expanded: boolean
+    onToggle: () => void
+}) {
+    return (
+        <>
+            <tr onClick={onToggle} className='border-t border-white/5 cursor-pointer hover:bg-white/5'>
+                <td className='py-1'>{formatTime(job.created_at)}</td>
+                <td>{job.kind}</td>
+                <td>{job.triggered_by}</td>
+                <td className={STATUS_COLORS[job.status]} title={job.error || undefined}>
+                    {job.status}
+                </td>
+                <td>{formatDuration(job)}</td>
+            </tr>
+            {expanded &&
+                job.steps.map((step) => (
+                    <tr key={step.id} className='text-white/50'>
+                        <td className='pl-4 py-0.5' colSpan={2}>
+                            {step.position + 1}. {step.name}
+                        </td>
+                        <td>{step.retry_count > 0 ? `${step.retry_count} retries` : ''}</td>
+                        <td className={STATUS_COLORS[step.status]}>{step.status}</td>
+                        <td className='truncate max-w-xs' title={step.error || undefined}>
+                            {step.error || ''}
+                        </td>
+                    </tr>
+                ))}
+        </>
+    )
+}
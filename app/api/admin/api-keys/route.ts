@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, recordAdminAction } from '@/lib/admin-auth'
+import { createApiKey, listApiKeys, revokeApiKey } from '@/lib/api-keys'
+import { logError } from '@/lib/error-handling'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MAX_NAME_LENGTH = 100
+
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+// Every issued key with this month's usage
+export async function GET(request: NextRequest) {
+    if (!authenticateAdmin(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        return NextResponse.json({ api_keys: await listApiKeys() })
+    } catch (error) {
+        logError(error, 'api.admin.api-keys', { method: 'GET' })
+        return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 })
+    }
+}
+
+// Issue a key: { name, rate_limit_per_minute?, monthly_quota? }
+export async function POST(request: NextRequest) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+        return NextResponse.json(
+            { error: `name is required and must be at most ${MAX_NAME_LENGTH} characters` },
+            { status: 400 }
+        )
+    }
+
+    for (const field of ['rate_limit_per_minute', 'monthly_quota']) {
+        if (body[field] !== undefined && !isPositiveInteger(body[field])) {
+            return NextResponse.json({ error: `${field} must be a positive integer` }, { status: 400 })
+        }
+    }
+
+    try {
+        const { key, api_key } = await createApiKey({
+            name,
+            rateLimitPerMinute: body.rate_limit_per_minute,
+            monthlyQuota: body.monthly_quota,
+            createdBy: identity.subject
+        })
+        await recordAdminAction(request, identity, 'create-api-key', {
+            api_key_id: api_key.id,
+            name,
+            key_prefix: api_key.key_prefix
+        })
+
+        // The only time the key is shown
+        return NextResponse.json({ key, api_key }, { status: 201 })
+    } catch (error) {
+        logError(error, 'api.admin.api-keys', { method: 'POST', name })
+        return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 })
+    }
+}
+
+// Revoke a key: ?id=
+export async function DELETE(request: NextRequest) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id || !UUID_PATTERN.test(id)) {
+        return NextResponse.json({ error: 'id must be a UUID' }, { status: 400 })
+    }
+
+    try {
+        const apiKey = await revokeApiKey(id)
+        if (!apiKey) {
+            return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+        }
+        await recordAdminAction(request, identity, 'revoke-api-key', {
+            api_key_id: id,
+            key_prefix: apiKey.key_prefix
+        })
+
+        return NextResponse.json({ success: true, api_key: apiKey })
+    } catch (error) {
+        logError(error, 'api.admin.api-keys', { method: 'DELETE', id })
+        return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 })
+    }
+}
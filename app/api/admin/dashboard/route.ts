@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin } from '@/lib/admin-auth'
+import { loadAdminDashboard } from '@/lib/admin-dashboard'
+import { logError } from '@/lib/error-handling'
+
+// Data behind the /admin page
+export async function GET(request: NextRequest) {
+    if (!authenticateAdmin(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        return NextResponse.json(await loadAdminDashboard())
+    } catch (error) {
+        logError(error, 'api.admin.dashboard')
+
+        return NextResponse.json({ error: 'Failed to load dashboard' }, { status: 500 })
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, recordAdminAction } from '@/lib/admin-auth'
+import { ALL_STATE_CODES } from '@/lib/census-area-aggregation'
+import { logError } from '@/lib/error-handling'
+import { findActiveJob } from '@/lib/pipeline-jobs'
+import { SmartAggregator } from '@/lib/smart-aggregator'
+
+export const maxDuration = 300
+
+// Rebuild one state's rollups in production: { state }
+export async function POST(request: NextRequest) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const state = body && typeof body.state === 'string' ? body.state.trim().toUpperCase() : ''
+
+    if (!state) {
+        return NextResponse.json({ error: 'state is required' }, { status: 400 })
+    }
+
+    if (!ALL_STATE_CODES.includes(state)) {
+        return NextResponse.json({ error: `Unknown state: ${state}` }, { status: 400 })
+    }
+
+    try {
+        // A running job would swap its staging over the rebuilt rows
+        const activeJob = await findActiveJob()
+        if (activeJob) {
+            return NextResponse.json(
+                { error: `Job ${activeJob.id} is ${activeJob.status} - wait for it to finish before re-aggregating` },
+                { status: 409 }
+            )
+        }
+
+        await recordAdminAction(request, identity, 'reaggregate-state', { state })
+        const result = await SmartAggregator.reaggregateState(state)
+
+        return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+        logError(error, 'api.admin.reaggregate', { state })
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Re-aggregation failed',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
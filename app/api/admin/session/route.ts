@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    isAdminSignInEnabled,
+    issueAdminToken,
+    recordAdminAction,
+    verifyAdminCredentials
+} from '@/lib/admin-auth'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+
+// Sign in to the admin dashboard: { username, password }
+export async function POST(request: NextRequest) {
+    // Slows password guessing
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `admin-session-${clientId}`,
+        limit: 5, // 5 attempts per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many sign-in attempts. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    if (!isAdminSignInEnabled()) {
+        return NextResponse.json({ error: 'Admin sign-in is not configured' }, { status: 503 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { username, password } = body
+
+    if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+        return NextResponse.json({ error: 'username and password are required' }, { status: 400 })
+    }
+
+    if (!verifyAdminCredentials(username, password)) {
+        await recordAdminAction(request, null, 'sign-in-failed', { username })
+        return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 })
+    }
+
+    const identity = { subject: username, role: 'admin' as const }
+    await recordAdminAction(request, identity, 'sign-in')
+
+    return NextResponse.json({ ...issueAdminToken(username), subject: username })
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import {
+    parseChangeFilters,
+    queryStationChanges,
+    buildAtomFeed
+} from '@/lib/change-feed'
+
+const FEED_ENTRIES = 100
+
+// Atom export of /api/changes, e.g. ?state=CO&type=added&charger_type=dcfast
+export async function GET(request: NextRequest) {
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `changes-feed-${clientId}`,
+        limit: 30, // 30 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            { status: 429 }
+        )
+    }
+
+    const parsed = parseChangeFilters(request.nextUrl.searchParams)
+
+    if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    try {
+        const { changes } = await queryStationChanges(
+            parsed.filters,
+            1,
+            FEED_ENTRIES
+        )
+
+        const baseUrl =
+            process.env.NEXT_PUBLIC_URL || 'https://can-i-charge.vercel.app'
+        const feed = buildAtomFeed(changes, {
+            baseUrl,
+            selfUrl: `${baseUrl}/api/changes/feed${request.nextUrl.search}`
+        })
+
+        return new NextResponse(feed, {
+            headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' }
+        })
+    } catch (error) {
+        logError(error, 'api.changes.feed', { filters: parsed.filters })
+        return NextResponse.json(
+            { error: 'Failed to build change feed' },
+            { status: 500 }
+        )
+    }
+}
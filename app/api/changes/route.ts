@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateResponse, ChangesResponseSchema } from '@/lib/api-validation'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import { parseChangeFilters, queryStationChanges } from '@/lib/change-feed'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+export async function GET(request: NextRequest) {
+    // Rate limiting
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `changes-${clientId}`,
+        limit: 30, // 30 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const parsed = parseChangeFilters(searchParams)
+
+    if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`)
+
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return NextResponse.json(
+            { error: `page must be >= 1 and limit must be 1-${MAX_LIMIT}` },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { changes, total } = await queryStationChanges(
+            parsed.filters,
+            page,
+            limit
+        )
+
+        const response = {
+            success: true,
+            page,
+            limit,
+            total,
+            has_more: page * limit < total,
+            changes
+        }
+
+        const validatedResponse = validateResponse(
+            ChangesResponseSchema,
+            response,
+            'changes'
+        )
+
+        return NextResponse.json(validatedResponse)
+    } catch (error) {
+        logError(error, 'api.changes', { filters: parsed.filters, page, limit })
+        return NextResponse.json(
+            { error: 'Failed to load station changes' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
+import { db } from '@/lib/data-store'
 import { validateResponse, ChargingDataResponseSchema } from '@/lib/api-validation'
 import { ApiResponseError, logError } from '@/lib/error-handling'
+import { CENSUS_AREA_TABLES } from '@/lib/census-area-aggregation'
+import { checkApiKey } from '@/lib/api-keys'
 
 export async function GET(request: NextRequest) {
+    // Only requests made with an issued API key are metered
+    const apiKey = await checkApiKey(request)
+    if (apiKey?.rejection) {
+        return NextResponse.json(
+            { error: apiKey.rejection.error },
+            { status: apiKey.rejection.status, headers: apiKey.headers }
+        )
+    }
+
     const searchParams = request.nextUrl.searchParams
     const zoom = parseInt(searchParams.get('zoom') || '4')
     const north = parseFloat(searchParams.get('north') || '90')
@@ -14,6 +25,7 @@ export async function GET(request: NextRequest) {
     let tableName: string
     let granularity: string
     let useFunction = false
+    let censusLevel: 'tract' | 'block_group' | null = null
 
     // Determine which table to query based on zoom level
     if (zoom <= 4) {
@@ -22,19 +34,39 @@ export async function GET(request: NextRequest) {
     } else if (zoom <= 8) {
         tableName = 'county_level_data'
         granularity = 'county'
-    } else {
-        // Zoom 9+ always uses ZIP level data with PostGIS function
+    } else if (zoom <= 11) {
+        // Zoom 9-11 uses ZIP level data with PostGIS function
         tableName = 'zip_level_data'
         granularity = 'zip'
         useFunction = true // Use PostGIS function for geometry and performance
+    } else {
+        // Zoom 12-13 census tracts, 14+ block groups
+        censusLevel = zoom <= 13 ? 'tract' : 'block_group'
+        tableName = CENSUS_AREA_TABLES[censusLevel]
+        granularity = censusLevel
     }
 
     try {
         let data, error, count
 
-        if (useFunction) {
+        if (censusLevel) {
+            const result = await db.rpc(
+                'get_census_area_data_with_geometry',
+                {
+                    p_level: censusLevel,
+                    p_north: north,
+                    p_south: south,
+                    p_east: east,
+                    p_west: west
+                }
+            )
+
+            data = result.data
+            error = result.error
+            count = data?.length || 0
+        } else if (useFunction) {
             // Use PostGIS function for ZIP geometries
-            const result = await supabaseAdmin.rpc(
+            const result = await db.rpc(
                 'get_zip_data_with_geometry',
                 {
                     p_north: north,
@@ -49,7 +81,7 @@ export async function GET(request: NextRequest) {
             count = data?.length || 0
         } else {
             // Standard query for other levels
-            const result = await supabaseAdmin
+            const result = await db
                 .from(tableName)
                 .select('*', { count: 'exact' })
                 .gte('center_lat', south)
@@ -84,7 +116,7 @@ export async function GET(request: NextRequest) {
             logError(validationError, 'api.charging-data.validation', { granularity, dataCount: data?.length })
         }
         
-        return NextResponse.json(response)
+        return NextResponse.json(response, { headers: apiKey?.headers })
     } catch (error) {
         logError(error, 'api.charging-data', { zoom, north, south, east, west })
         
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { headers } from 'next/headers'
+import { authenticateAdmin, recordAdminAction } from '@/lib/admin-auth'
 import { logError } from '@/lib/error-handling'
+import { enqueueJob, JOB_RETENTION_DAYS, pruneOldJobs, runWorker } from '@/lib/pipeline-jobs'
 
 export const maxDuration = 300 // 5 minutes max
 
+// Stop starting chunks with time left for the one in flight; the worker cron
+// resumes the job from there
+const WORKER_BUDGET_MS = 200 * 1000
+
 interface RefreshResult {
   step: string
   success: boolean
@@ -18,37 +23,26 @@ export async function GET(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    // Verify the request is from Vercel Cron  
-    const headersList = await headers()
-    const authHeader = headersList.get('authorization')
-    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // Vercel Cron sends CRON_SECRET; admins can start a run too
+    const identity = authenticateAdmin(request)
+    if (!identity) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
     
-    // 1. Call the main refresh-data endpoint to update charging stations
-    const stationsResult = await refreshChargingStations()
-    results.push(stationsResult)
-
-    // CRITICAL: Abort if charging stations refresh failed - don't aggregate with bad/empty data
-    if (!stationsResult.success) {
-      logError(new Error('Aborting cron - charging stations refresh failed'), 'cron.daily-refresh', {
-        reason: 'Cannot proceed with aggregation when station data is invalid',
-        stationsResult
-      })
-
-      return NextResponse.json({
-        success: false,
-        message: 'Daily refresh aborted - charging stations refresh failed. Production data preserved.',
-        totalDuration: Math.round((Date.now() - startTime) / 1000),
-        results,
-        timestamp: new Date().toISOString()
-      }, { status: 500 })
-    }
+    // 1. Queue tonight's refresh (or pick up one still in progress)
+    const { job, created } = await enqueueJob('daily-refresh', identity.subject)
+    await recordAdminAction(request, identity, 'daily-refresh', { job_id: job.id, created })
+    results.push({
+      step: 'enqueue-job',
+      success: true,
+      message: created ? `Queued job ${job.id}` : `Resuming job ${job.id}`
+    })
 
-    // 2. Perform smart incremental aggregation updates (only if stations refresh succeeded)
-    results.push(await performSmartAggregation())
+    // 2. Work on it for as long as this invocation allows. A failed step
+    // fails the job; until the swap step, only staging has been touched.
+    results.push(await runRefreshJob())
     
-    // 5. Clean up old data (optional)
+    // 3. Clean up old data
     results.push(await cleanupOldData())
     
     const totalDuration = Math.round((Date.now() - startTime) / 1000)
@@ -65,6 +59,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: allSuccess,
       message: allSuccess ? 'Daily refresh completed successfully' : 'Daily refresh completed with errors',
+      jobId: job.id,
       totalDuration,
       results,
       timestamp: new Date().toISOString()
@@ -82,77 +77,31 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function refreshChargingStations(): Promise<RefreshResult> {
-  const stepStart = Date.now()
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}/api/refresh-data`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.CRON_SECRET}`,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    const data = await response.json()
-    
-    return {
-      step: 'refresh-charging-stations',
-      success: response.ok && data.success,
-      message: data.success ? 'Charging stations refreshed' : 'Failed to refresh charging stations',
-      duration: Math.round((Date.now() - stepStart) / 1000),
-      count: data.stations_inserted,
-      error: data.error
-    }
-  } catch (error) {
-    return {
-      step: 'refresh-charging-stations',
-      success: false,
-      message: 'Error refreshing charging stations',
-      duration: Math.round((Date.now() - stepStart) / 1000),
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }
-  }
-}
-
-async function performSmartAggregation(): Promise<RefreshResult> {
+async function runRefreshJob(): Promise<RefreshResult> {
   const stepStart = Date.now()
   try {
-    // Call the smart update endpoint to only process regions with changes
-    const response = await fetch(`${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}/api/smart-update`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.CRON_SECRET}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        levels: ['states', 'counties', 'zips'],
-        useStaging: true
-      })
-    })
-    
-    const data = await response.json()
-    
-    if (!response.ok || !data.success) {
-      throw new Error(data.error || 'Smart aggregation failed')
-    }
-    
-    const totalProcessed = data.states_processed + data.counties_processed + data.zips_processed
-    const changesDetected = data.changes_detected.total_changes
+    const { job, chunks_run } = await runWorker({ budgetMs: WORKER_BUDGET_MS })
+    const failedStep = job?.steps.find(step => step.status === 'failed')
     
     return {
-      step: 'smart-aggregation',
-      success: true,
-      message: changesDetected === 0 
-        ? 'No changes detected - aggregation skipped for efficiency'
-        : `Smart aggregation completed - processed ${totalProcessed} regions based on ${changesDetected} changes`,
+      step: 'run-refresh-job',
+      success: job?.status !== 'failed',
+      message: !job
+        ? 'No pending job'
+        : job.status === 'done'
+          ? `Job completed - ran ${chunks_run} chunks`
+          : job.status === 'failed'
+            ? `Job failed at ${failedStep?.name}`
+            : `Job paused after ${chunks_run} chunks - the worker resumes it`,
       duration: Math.round((Date.now() - stepStart) / 1000),
-      count: totalProcessed
+      count: chunks_run,
+      error: job?.error ?? undefined
     }
   } catch (error) {
     return {
-      step: 'smart-aggregation',
+      step: 'run-refresh-job',
       success: false,
-      message: 'Error performing smart aggregation',
+      message: 'Error running refresh job',
       duration: Math.round((Date.now() - stepStart) / 1000),
       error: error instanceof Error ? error.message : 'Unknown error'
     }
@@ -162,12 +111,12 @@ async function performSmartAggregation(): Promise<RefreshResult> {
 async function cleanupOldData(): Promise<RefreshResult> {
   const stepStart = Date.now()
   try {
-    // For now, we'll just return success
-    // In the future, this could clean up old staging tables, logs, etc.
+    const pruned = await pruneOldJobs(JOB_RETENTION_DAYS)
     return {
       step: 'cleanup-old-data',
       success: true,
-      message: 'Cleanup completed (no action needed)',
+      message: `Pruned ${pruned} jobs older than ${JOB_RETENTION_DAYS} days`,
+      count: pruned,
       duration: Math.round((Date.now() - stepStart) / 1000)
     }
   } catch (error) {
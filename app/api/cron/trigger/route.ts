@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, isCronSecret, recordAdminAction } from '@/lib/admin-auth'
 
 export async function POST(request: NextRequest) {
   try {
-    // Check for admin authentication (you could use a different auth method)
-    const authHeader = request.headers.get('authorization')
-    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    await recordAdminAction(request, identity, 'trigger-daily-refresh')
     
-    // Trigger the daily refresh
+    // Trigger the daily refresh as the caller, so the job records who started it
     const response = await fetch(`${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}/api/cron/daily-refresh`, {
       method: 'GET',
       headers: {
-        'authorization': `Bearer ${process.env.CRON_SECRET}`
+        'authorization': request.headers.get('authorization')!
       }
     })
     
@@ -37,7 +38,7 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const secret = searchParams.get('secret')
   
-  if (secret !== process.env.CRON_SECRET) {
+  if (!isCronSecret(secret)) {
     return NextResponse.json({ 
       error: 'Unauthorized',
       message: 'Please provide the correct secret in the query parameter'
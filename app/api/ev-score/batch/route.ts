@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    validateResponse,
+    BatchScoreResponseSchema,
+    BatchScoreResult
+} from '@/lib/api-validation'
+import { ApiResponseError, logError } from '@/lib/error-handling'
+import {
+    rateLimit,
+    batchRateLimit,
+    getClientId,
+    BATCH_QUOTA
+} from '@/lib/rate-limit'
+import { scoreLocation } from '@/lib/ev-score'
+import { parseCsvRecords, toCsv } from '@/lib/csv'
+import { parseVehicleParams, VehicleProfile } from '@/lib/vehicle-profiles'
+
+export const maxDuration = 300
+
+// Rows scored at once; keeps geocoder and database load bounded
+const CONCURRENCY = 5
+
+interface BatchRow {
+    id?: string
+    address?: string
+    lat?: number
+    lng?: number
+}
+
+const RESULT_COLUMNS: (keyof BatchScoreResult)[] = [
+    'row',
+    'id',
+    'input',
+    'status',
+    'score',
+    'scoring_model',
+    'regional_score',
+    'location',
+    'latitude',
+    'longitude',
+    'region_name',
+    'region_type',
+    'chargers_within_1_mile',
+    'chargers_within_5_miles',
+    'chargers_within_10_miles',
+    'chargers_within_10_minutes',
+    'dcfast_count',
+    'level2_count',
+    'nearest_charger_distance',
+    'error'
+]
+
+function toNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value))
+    return isNaN(parsed) ? undefined : parsed
+}
+
+function normalizeRow(raw: Record<string, unknown>): BatchRow {
+    return {
+        id: raw.id !== undefined && raw.id !== '' ? String(raw.id) : undefined,
+        address: raw.address ? String(raw.address).trim() : undefined,
+        lat: toNumber(raw.lat ?? raw.latitude),
+        lng: toNumber(raw.lng ?? raw.lon ?? raw.longitude)
+    }
+}
+
+/**
+ * Rows from a JSON array (or { rows: [...] }), a text/csv body, or a
+ * multipart upload with a `file` field
+ */
+async function readRows(
+    request: NextRequest
+): Promise<{ rows: BatchRow[]; isCsv: boolean }> {
+    const contentType = request.headers.get('content-type') || ''
+
+    if (contentType.includes('multipart/form-data')) {
+        const form = await request.formData()
+        const file = form.get('file')
+        if (!file || typeof file === 'string') {
+            throw new ApiResponseError('Upload a CSV file in the "file" field', 400)
+        }
+        return { rows: parseCsvRows(await file.text()), isCsv: true }
+    }
+
+    if (contentType.includes('text/csv')) {
+        return { rows: parseCsvRows(await request.text()), isCsv: true }
+    }
+
+    let body
+    try {
+        body = await request.json()
+    } catch {
+        throw new ApiResponseError('Body must be JSON or CSV', 400)
+    }
+
+    const rows = Array.isArray(body) ? body : body?.rows
+    if (!Array.isArray(rows)) {
+        throw new ApiResponseError('Body must be an array of rows or { rows: [...] }', 400)
+    }
+
+    return {
+        rows: rows.map((row) =>
+            normalizeRow(typeof row === 'string' ? { address: row } : row || {})
+        ),
+        isCsv: false
+    }
+}
+
+function parseCsvRows(text: string): BatchRow[] {
+    const { columns, records } = parseCsvRecords(text)
+    const hasLocation =
+        columns.includes('address') ||
+        (columns.some((c) => c === 'lat' || c === 'latitude') &&
+            columns.some((c) => c === 'lng' || c === 'lon' || c === 'longitude'))
+
+    if (!hasLocation) {
+        throw new ApiResponseError(
+            'CSV needs an address column or lat/lng columns',
+            400
+        )
+    }
+
+    return records.map(normalizeRow)
+}
+
+async function scoreRow(
+    row: BatchRow,
+    index: number,
+    vehicle: VehicleProfile | undefined
+): Promise<BatchScoreResult> {
+    const base = {
+        row: index + 1,
+        id: row.id ?? null,
+        input:
+            row.address ||
+            (row.lat !== undefined && row.lng !== undefined ? `${row.lat}, ${row.lng}` : '')
+    }
+
+    if (!row.address && (row.lat === undefined || row.lng === undefined)) {
+        return { ...base, status: 'error', error: 'Row needs an address or lat/lng' }
+    }
+
+    try {
+        const result = await scoreLocation({ ...row, vehicle })
+        return {
+            ...base,
+            status: 'ok',
+            score: result.score,
+            scoring_model: result.scoring_model,
+            regional_score: result.region.score,
+            location: result.location,
+            latitude: result.latitude,
+            longitude: result.longitude,
+            region_name: result.region.name,
+            region_type: result.region.type,
+            chargers_within_1_mile: result.chargers.within_1_mile,
+            chargers_within_5_miles: result.chargers.within_5_miles,
+            chargers_within_10_miles: result.chargers.within_10_miles,
+            chargers_within_10_minutes: result.coverage.within_10_minutes,
+            dcfast_count: result.chargers.dcfast_count,
+            level2_count: result.chargers.level2_count,
+            nearest_charger_distance: result.nearest_charger_distance
+        }
+    } catch (error) {
+        if (error instanceof ApiResponseError) {
+            return { ...base, status: 'error', error: error.message }
+        }
+
+        logError(error, 'api.ev-score.batch.row', { row: index + 1 })
+        return { ...base, status: 'error', error: 'Failed to calculate EV score' }
+    }
+}
+
+// POST JSON or CSV; ?format=csv|json (defaults to the input format), ?vehicle=&adapters=
+export async function POST(request: NextRequest) {
+    // Rate limiting: requests per minute, then rows per hour below
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `ev-score-batch-${clientId}`,
+        limit: 5, // 5 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const vehicle = parseVehicleParams(searchParams)
+
+    if (vehicle === null) {
+        return NextResponse.json(
+            { error: 'Unknown vehicle profile' },
+            { status: 400 }
+        )
+    }
+
+    let rows: BatchRow[]
+    let isCsv: boolean
+    try {
+        ;({ rows, isCsv } = await readRows(request))
+    } catch (error) {
+        if (error instanceof ApiResponseError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        logError(error, 'api.ev-score.batch.parse')
+        return NextResponse.json({ error: 'Failed to read rows' }, { status: 400 })
+    }
+
+    if (rows.length === 0 || rows.length > BATCH_QUOTA.maxRowsPerRequest) {
+        return NextResponse.json(
+            { error: `Send between 1 and ${BATCH_QUOTA.maxRowsPerRequest} rows` },
+            { status: 400 }
+        )
+    }
+
+    const quota = batchRateLimit(clientId, rows.length)
+    if (!quota.success) {
+        return NextResponse.json(
+            {
+                error: `Batch quota exceeded: ${BATCH_QUOTA.rowsPerHour} rows per hour`
+            },
+            {
+                status: 429,
+                headers: {
+                    'X-Batch-Quota-Limit': quota.limit.toString(),
+                    'X-Batch-Quota-Remaining': quota.remaining.toString(),
+                    'X-Batch-Quota-Reset': new Date(quota.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const format = searchParams.get('format') || (isCsv ? 'csv' : 'json')
+
+    try {
+        const results: BatchScoreResult[] = []
+        for (let i = 0; i < rows.length; i += CONCURRENCY) {
+            const chunk = rows.slice(i, i + CONCURRENCY)
+            results.push(
+                ...(await Promise.all(
+                    chunk.map((row, offset) => scoreRow(row, i + offset, vehicle))
+                ))
+            )
+        }
+
+        const quotaHeaders = {
+            'X-Batch-Quota-Limit': quota.limit.toString(),
+            'X-Batch-Quota-Remaining': quota.remaining.toString(),
+            'X-Batch-Quota-Reset': new Date(quota.resetTime).toISOString(),
+        }
+
+        if (format === 'csv') {
+            return new NextResponse(toCsv(RESULT_COLUMNS, results), {
+                headers: {
+                    ...quotaHeaders,
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': 'attachment; filename="ev-scores.csv"'
+                }
+            })
+        }
+
+        const succeeded = results.filter((result) => result.status === 'ok').length
+        const validatedResponse = validateResponse(
+            BatchScoreResponseSchema,
+            {
+                success: true,
+                total: results.length,
+                succeeded,
+                failed: results.length - succeeded,
+                results
+            },
+            'ev-score.batch'
+        )
+
+        return NextResponse.json(validatedResponse, { headers: quotaHeaders })
+    } catch (error) {
+        logError(error, 'api.ev-score.batch', { rows: rows.length })
+        return NextResponse.json(
+            { error: 'Failed to calculate EV scores' },
+            { status: 500 }
+        )
+    }
+}
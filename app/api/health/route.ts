@@ -1,12 +1,12 @@
 import { NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/supabase'
+import { db } from '@/lib/data-store'
 
 export async function GET() {
     const startTime = Date.now()
     
     try {
         // Test database connection
-        const { data, error } = await supabaseAdmin
+        const { data, error } = await db
             .from('charging_stations')
             .select('id')
             .limit(1)
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateResponse, HistoryResponseSchema } from '@/lib/api-validation'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import { parseRegionParam, getRegionHistory } from '@/lib/history'
+
+const DEFAULT_DAYS = 365
+const MAX_DAYS = 1825
+
+export async function GET(request: NextRequest) {
+    // Rate limiting
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `history-${clientId}`,
+        limit: 30, // 30 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const region = parseRegionParam(searchParams.get('region') || '')
+
+    if (!region) {
+        return NextResponse.json(
+            {
+                error: 'region must be state:<name>, county:<state>:<county> or zip:<zip>'
+            },
+            { status: 400 }
+        )
+    }
+
+    const days = parseInt(searchParams.get('days') || `${DEFAULT_DAYS}`)
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+        return NextResponse.json(
+            { error: `days must be between 1 and ${MAX_DAYS}` },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const points = await getRegionHistory(region.type, region.key, days)
+
+        const first = points[0]
+        const last = points[points.length - 1]
+
+        const response = {
+            success: true,
+            region,
+            days,
+            points,
+            change:
+                points.length > 1
+                    ? {
+                          charger_count: last.charger_count - first.charger_count,
+                          total_ports: last.total_ports - first.total_ports,
+                          ev_infrastructure_score:
+                              last.ev_infrastructure_score -
+                              first.ev_infrastructure_score
+                      }
+                    : null
+        }
+
+        const validatedResponse = validateResponse(
+            HistoryResponseSchema,
+            response,
+            'history'
+        )
+
+        return NextResponse.json(validatedResponse)
+    } catch (error) {
+        logError(error, 'api.history', { region, days })
+        return NextResponse.json(
+            { error: 'Failed to load region history' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    validateResponse,
+    OCPIResponseSchema,
+    OCPILocationSchema
+} from '@/lib/api-validation'
+import { db } from '@/lib/data-store'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import {
+    OCPI_STATUS,
+    OCPI_STATION_COLUMNS,
+    OCPIStationRow,
+    ocpiEnvelope,
+    parseLocationId,
+    toOCPILocation
+} from '@/lib/ocpi'
+
+const LocationResponseSchema = OCPIResponseSchema(OCPILocationSchema)
+
+// OCPI 2.2 Locations module, single object: GET /locations/{location_id}
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ location_id: string }> }
+) {
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `ocpi-locations-${clientId}`,
+        limit: 60, // 60 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            ocpiEnvelope(null, OCPI_STATUS.CLIENT_ERROR, 'Too many requests'),
+            { status: 429 }
+        )
+    }
+
+    const { location_id: locationId } = await params
+    const parsed = parseLocationId(locationId)
+
+    if (!parsed) {
+        return NextResponse.json(
+            ocpiEnvelope(null, OCPI_STATUS.UNKNOWN_LOCATION, 'Unknown location'),
+            { status: 404 }
+        )
+    }
+
+    try {
+        const { data, error } = await db
+            .from('charging_stations')
+            .select(OCPI_STATION_COLUMNS)
+            .eq('source', parsed.source)
+            .eq('source_id', parsed.sourceId)
+            .neq('access_code', 'private')
+            .limit(1)
+
+        if (error) throw error
+
+        const station = (data as OCPIStationRow[] | null)?.[0]
+        if (!station) {
+            return NextResponse.json(
+                ocpiEnvelope(null, OCPI_STATUS.UNKNOWN_LOCATION, 'Unknown location'),
+                { status: 404 }
+            )
+        }
+
+        const response = validateResponse(
+            LocationResponseSchema,
+            ocpiEnvelope(toOCPILocation(station)),
+            'ocpi.location'
+        )
+
+        return NextResponse.json(response)
+    } catch (error) {
+        logError(error, 'api.ocpi.location', { locationId })
+        return NextResponse.json(
+            ocpiEnvelope(null, OCPI_STATUS.SERVER_ERROR, 'Failed to load location'),
+            { status: 500 }
+        )
+    }
+}
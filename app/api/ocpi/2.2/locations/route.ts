@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    validateResponse,
+    OCPIResponseSchema,
+    OCPILocationSchema
+} from '@/lib/api-validation'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import {
+    OCPI_STATUS,
+    ocpiEnvelope,
+    queryOCPIStations,
+    toOCPILocation
+} from '@/lib/ocpi'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+const LocationsResponseSchema = OCPIResponseSchema(OCPILocationSchema.array())
+
+// OCPI 2.2 Locations module, Sender interface: GET ?offset&limit&date_from&date_to
+export async function GET(request: NextRequest) {
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `ocpi-locations-${clientId}`,
+        limit: 60, // 60 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            ocpiEnvelope(null, OCPI_STATUS.CLIENT_ERROR, 'Too many requests'),
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const offset = parseInt(searchParams.get('offset') || '0')
+    // Clamp rather than reject: OCPI lets the server lower the requested limit
+    const requestedLimit = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`)
+    const limit = Math.min(requestedLimit, MAX_LIMIT)
+    const dateFrom = searchParams.get('date_from') || undefined
+    const dateTo = searchParams.get('date_to') || undefined
+
+    if (
+        isNaN(offset) || offset < 0 ||
+        isNaN(requestedLimit) || requestedLimit < 1 ||
+        (dateFrom && isNaN(Date.parse(dateFrom))) ||
+        (dateTo && isNaN(Date.parse(dateTo)))
+    ) {
+        return NextResponse.json(
+            ocpiEnvelope(
+                null,
+                OCPI_STATUS.INVALID_PARAMETERS,
+                'offset must be >= 0, limit >= 1 and date_from/date_to ISO dates'
+            ),
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { stations, total } = await queryOCPIStations(
+            offset,
+            limit,
+            dateFrom && new Date(dateFrom).toISOString(),
+            dateTo && new Date(dateTo).toISOString()
+        )
+
+        const response = validateResponse(
+            LocationsResponseSchema,
+            ocpiEnvelope(stations.map(toOCPILocation)),
+            'ocpi.locations'
+        )
+
+        const headers: Record<string, string> = {
+            'X-Total-Count': total.toString(),
+            'X-Limit': limit.toString()
+        }
+
+        if (offset + limit < total) {
+            const next = new URL(request.nextUrl.toString())
+            next.searchParams.set('offset', `${offset + limit}`)
+            next.searchParams.set('limit', `${limit}`)
+            headers['Link'] = `<${next.toString()}>; rel="next"`
+        }
+
+        return NextResponse.json(response, { headers })
+    } catch (error) {
+        logError(error, 'api.ocpi.locations', { offset, limit, dateFrom, dateTo })
+        return NextResponse.json(
+            ocpiEnvelope(null, OCPI_STATUS.SERVER_ERROR, 'Failed to load locations'),
+            { status: 500 }
+        )
+    }
+}
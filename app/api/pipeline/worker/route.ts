@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin } from '@/lib/admin-auth'
+import { logError } from '@/lib/error-handling'
+import { runWorker } from '@/lib/pipeline-jobs'
+
+export const maxDuration = 300
+
+// Stop starting chunks with time left for the one in flight
+const WORKER_BUDGET_MS = 240 * 1000
+
+// Runs on a schedule to resume pipeline jobs a previous invocation didn't finish
+export async function GET(request: NextRequest) {
+    if (!authenticateAdmin(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const startTime = Date.now()
+
+    try {
+        const { job, chunks_run } = await runWorker({ budgetMs: WORKER_BUDGET_MS })
+
+        return NextResponse.json({
+            success: job?.status !== 'failed',
+            message: job ? `Job ${job.id} is ${job.status}` : 'No pending jobs',
+            chunks_run,
+            job,
+            duration_seconds: (Date.now() - startTime) / 1000
+        })
+    } catch (error) {
+        logError(error, 'api.pipeline.worker')
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Pipeline worker failed',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
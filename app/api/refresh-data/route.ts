@@ -1,78 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, isCronSecret, recordAdminAction } from '@/lib/admin-auth'
 import {
-    processNRELStation,
     batchInsertStations,
     clearTable,
     swapStagingToProduction
 } from '@/lib/data-processor'
 import { generateStateData } from '@/lib/aggregation'
 import { generateStateDataOptimized } from '@/lib/aggregation-optimized'
+import { ChangeDetector, StationChange } from '@/lib/change-detector'
+import { fetchAllStations, getEnabledProviders } from '@/lib/providers'
+import { assignStationCounties } from '@/lib/county-index'
+import { logRefreshMetrics, RefreshMetrics } from '@/lib/monitoring'
 
 // Feature flag to easily switch between implementations
 const USE_OPTIMIZED = true
 
 export const maxDuration = 300
 
-function isAuthorized(request: NextRequest): boolean {
-    const cronSecret = process.env.CRON_SECRET
-    
-    // Check for cron/external authorization
-    const authHeader = request.headers.get('authorization')
-    if (authHeader === `Bearer ${cronSecret}`) {
-        return true
-    }
-    
-    // Check for admin page authorization 
-    const adminHeader = request.headers.get('x-admin-request')
-    if (adminHeader === 'true' && cronSecret) {
-        return true
-    }
-    
-    return false
-}
-
 export async function POST(request: NextRequest) {
-    if (!isAuthorized(request)) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    await recordAdminAction(request, identity, 'refresh-data')
 
     const startTime = Date.now()
     const logs: string[] = []
+    // Filled in as the refresh progresses, so a failed run records how far it got
+    const metrics: RefreshMetrics = {
+        timestamp: new Date().toISOString(),
+        duration_seconds: 0,
+        stations_fetched: 0,
+        stations_inserted: 0,
+        states_generated: 0,
+        success: false
+    }
 
     try {
         logs.push('Starting full data refresh with staging tables...')
 
-        // STEP 1: Fetch from NREL (no database changes yet)
-        logs.push('Fetching charging stations from NREL...')
-        const apiKey = process.env.NREL_API_KEY
-
-        if (!apiKey) {
-            throw new Error('NREL API key not configured')
-        }
+        // STEP 1: Fetch from every enabled provider (no database changes yet)
+        const providers = getEnabledProviders()
+        logs.push(
+            `Fetching charging stations from ${providers.map((p) => p.name).join(', ')}...`
+        )
 
-        const url = `https://developer.nrel.gov/api/alt-fuel-stations/v1.json?api_key=${apiKey}&fuel_type=ELEC&country=US&limit=all&status=E`
-        const response = await fetch(url)
+        // STEP 2: Normalize and de-duplicate across sources (still no database changes)
+        const { stations: processedStations, fetched, duplicates } =
+            await fetchAllStations(providers)
 
-        if (!response.ok) {
-            throw new Error(`NREL API returned ${response.status}`)
+        metrics.stations_fetched = Object.values(fetched).reduce((sum, count) => sum + count, 0)
+        for (const [source, count] of Object.entries(fetched)) {
+            logs.push(`✓ Fetched ${count} valid stations from ${source}`)
+        }
+        if (providers.length > 1) {
+            logs.push(`✓ Merged ${duplicates} duplicate sites across sources`)
+        }
+        logs.push(`✓ Processed ${processedStations.length} unique stations`)
+
+        // Resolve each station's county once so every rollup agrees on it
+        try {
+            const assigned = await assignStationCounties(processedStations)
+            logs.push(`✓ Assigned counties to ${assigned} stations`)
+        } catch (countyError) {
+            console.error('County assignment failed:', countyError)
+            logs.push('⚠ County assignment failed - counties will be backfilled during aggregation')
         }
-
-        const data = await response.json()
-        const rawStations = data.fuel_stations || []
-        logs.push(`✓ Fetched ${rawStations.length} stations from NREL`)
-
-        // STEP 2: Process stations (still no database changes)
-        logs.push('Processing stations...')
-        const processedStations = rawStations
-            .filter(
-                (station: any) =>
-                    station.latitude &&
-                    station.longitude &&
-                    station.station_name
-            )
-            .map((station: any) => processNRELStation(station))
-
-        logs.push(`✓ Processed ${processedStations.length} valid stations`)
 
         // STEP 3: Clear staging tables (preserving ZIP progress for incremental updates)
         logs.push('Clearing staging tables...')
@@ -97,6 +90,7 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        metrics.stations_inserted = insertResult.inserted
         logs.push(`✓ Inserted ${insertResult.inserted} stations into staging`)
 
         // STEP 5: Generate aggregations in staging
@@ -104,26 +98,63 @@ export async function POST(request: NextRequest) {
         const stateCount = USE_OPTIMIZED
             ? await generateStateDataOptimized(true) // useStaging = true
             : await generateStateData(true)
+        metrics.states_generated = stateCount
         logs.push(`✓ Generated ${stateCount} states in staging`)
 
+        // Capture station-level changes while production still holds the old data
+        let stationChanges: StationChange[] = []
+        try {
+            stationChanges = await ChangeDetector.diffStations(true)
+            logs.push(`✓ Detected ${stationChanges.length} station changes`)
+        } catch (diffError) {
+            console.error('Station diff failed:', diffError)
+            logs.push('⚠ Station diff failed - change feed not updated')
+        }
+
         // STEP 6: Atomic swap - production stays untouched until here
         logs.push('Performing atomic swap: staging → production...')
-        const swapSuccess = await swapStagingToProduction()
+        const swap = await swapStagingToProduction({ source: 'refresh-data' })
+
+        // A truncated or malformed fetch stays in staging for inspection
+        if (swap.validation && !swap.validation.passed) {
+            logs.push(`❌ ${swap.error}`)
+            logs.push('Production data remains unchanged (swap blocked)')
+            await logRefreshMetrics({
+                ...metrics,
+                duration_seconds: Math.round((Date.now() - startTime) / 1000),
+                error_message: swap.error
+            })
+
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Staging failed validation',
+                    validation: swap.validation,
+                    logs: logs
+                },
+                { status: 422 }
+            )
+        }
 
-        if (!swapSuccess) {
+        if (!swap.success) {
             throw new Error('Failed to swap staging to production')
         }
 
         logs.push('✓ Successfully swapped staging to production')
+
+        await ChangeDetector.saveStationChanges(stationChanges)
         logs.push('✓ Production data is now live with zero downtime!')
 
         const duration = Math.round((Date.now() - startTime) / 1000)
         logs.push(`Completed in ${duration} seconds`)
+        await logRefreshMetrics({ ...metrics, duration_seconds: duration, success: true })
 
         return NextResponse.json({
             success: true,
             duration_seconds: duration,
-            stations_fetched: rawStations.length,
+            stations_fetched: metrics.stations_fetched,
+            stations_by_source: fetched,
+            duplicates_merged: duplicates,
             stations_inserted: insertResult.inserted,
             states_generated: stateCount,
             logs: logs
@@ -136,6 +167,11 @@ export async function POST(request: NextRequest) {
         )
         logs.push('Production data remains unchanged (rollback successful)')
         console.error('Refresh data error:', error)
+        await logRefreshMetrics({
+            ...metrics,
+            duration_seconds: Math.round((Date.now() - startTime) / 1000),
+            error_message: error instanceof Error ? error.message : 'Unknown error'
+        })
 
         return NextResponse.json(
             {
@@ -152,9 +188,14 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const secret = searchParams.get('secret')
 
-    if (secret !== process.env.CRON_SECRET) {
+    if (!isCronSecret(secret)) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    return POST(request)
+    return POST(
+        new NextRequest(request.url, {
+            method: 'POST',
+            headers: { authorization: `Bearer ${secret}` }
+        })
+    )
 }
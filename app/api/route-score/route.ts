@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateResponse, RouteScoreResponseSchema } from '@/lib/api-validation'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import { geocodeAddress } from '@/lib/api-fetchers'
+import { isValidUSCoordinates } from '@/lib/geocoding'
+import { analyzeCorridor, RouteLocation } from '@/lib/route-planner'
+
+const DEFAULT_RANGE_MILES = 200
+const DEFAULT_CORRIDOR_MILES = 5
+
+// Helper: Accept "lat,lng" pairs or free-form addresses
+async function resolveLocation(value: string): Promise<RouteLocation | null> {
+    const coordinateMatch = value.match(
+        /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/
+    )
+
+    if (coordinateMatch) {
+        const latitude = parseFloat(coordinateMatch[1])
+        const longitude = parseFloat(coordinateMatch[2])
+        return {
+            latitude,
+            longitude,
+            label: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
+        }
+    }
+
+    const result = await geocodeAddress(value)
+    if (!result) return null
+
+    return {
+        latitude: result.latitude,
+        longitude: result.longitude,
+        label: result.formatted_address
+    }
+}
+
+function parseBoundedNumber(
+    value: string | null,
+    fallback: number,
+    min: number,
+    max: number
+): number | null {
+    if (value === null || value === '') return fallback
+    const parsed = parseFloat(value)
+    if (isNaN(parsed) || parsed < min || parsed > max) return null
+    return parsed
+}
+
+export async function GET(request: NextRequest) {
+    // Rate limiting - corridor analysis is heavier than a point score
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `route-score-${clientId}`,
+        limit: 10, // 10 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const originParam = searchParams.get('origin')
+    const destinationParam = searchParams.get('destination')
+
+    if (!originParam || !destinationParam) {
+        return NextResponse.json(
+            { error: 'Both origin and destination are required' },
+            { status: 400 }
+        )
+    }
+
+    const rangeMiles = parseBoundedNumber(
+        searchParams.get('range'),
+        DEFAULT_RANGE_MILES,
+        20,
+        600
+    )
+    const corridorMiles = parseBoundedNumber(
+        searchParams.get('corridor'),
+        DEFAULT_CORRIDOR_MILES,
+        0.5,
+        25
+    )
+
+    if (rangeMiles === null || corridorMiles === null) {
+        return NextResponse.json(
+            {
+                error: 'range must be 20-600 miles and corridor must be 0.5-25 miles'
+            },
+            { status: 400 }
+        )
+    }
+
+    const [origin, destination] = await Promise.all([
+        resolveLocation(originParam),
+        resolveLocation(destinationParam)
+    ])
+
+    if (!origin || !destination) {
+        return NextResponse.json(
+            { error: `${!origin ? 'Origin' : 'Destination'} not found` },
+            { status: 400 }
+        )
+    }
+
+    if (
+        !isValidUSCoordinates(origin.latitude, origin.longitude) ||
+        !isValidUSCoordinates(destination.latitude, destination.longitude)
+    ) {
+        return NextResponse.json(
+            { error: 'Origin and destination must be in the United States' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const analysis = await analyzeCorridor(origin, destination, {
+            rangeMiles,
+            corridorMiles
+        })
+
+        const response = {
+            success: true,
+            origin,
+            destination,
+            ...analysis
+        }
+
+        const validatedResponse = validateResponse(
+            RouteScoreResponseSchema,
+            response,
+            'route-score'
+        )
+
+        return NextResponse.json(validatedResponse)
+    } catch (error) {
+        logError(error, 'api.route-score', {
+            origin: originParam,
+            destination: destinationParam,
+            rangeMiles,
+            corridorMiles
+        })
+        return NextResponse.json(
+            { error: 'Failed to analyze route' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,27 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, isCronSecret, recordAdminAction } from '@/lib/admin-auth'
 import { SmartAggregator } from '@/lib/smart-aggregator'
 import { swapStagingToProduction } from '@/lib/data-processor'
 
-function isAuthorized(request: NextRequest): boolean {
-    const cronSecret = process.env.CRON_SECRET
-    
-    // Check for cron/external authorization
-    const authHeader = request.headers.get('authorization')
-    if (authHeader === `Bearer ${cronSecret}`) {
-        return true
-    }
-    
-    // Check for admin page authorization 
-    const adminHeader = request.headers.get('x-admin-request')
-    if (adminHeader === 'true' && cronSecret) {
-        return true
-    }
-    
-    return false
-}
-
 export async function POST(request: NextRequest) {
-    if (!isAuthorized(request)) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
@@ -32,6 +16,7 @@ export async function POST(request: NextRequest) {
         const body = await request.json().catch(() => ({}))
         const levels = body.levels || ['states', 'counties', 'zips']
         const useStaging = body.useStaging !== false // Default to true
+        await recordAdminAction(request, identity, 'smart-update', { levels, useStaging })
         
         console.log('🧠 Starting smart incremental update...')
         console.log(`📊 Levels: ${levels.join(', ')}`)
@@ -40,6 +25,15 @@ export async function POST(request: NextRequest) {
         // Perform smart incremental update
         const result = await SmartAggregator.performIncrementalUpdate(levels, useStaging)
         
+        // Station-level changes go to the change feed; only report their count here
+        const summary = {
+            ...result,
+            changes_detected: {
+                ...result.changes_detected,
+                station_changes: result.changes_detected.station_changes.length
+            }
+        }
+
         if (!result.success) {
             return NextResponse.json({
                 success: false,
@@ -48,41 +42,33 @@ export async function POST(request: NextRequest) {
             }, { status: 500 })
         }
         
-        // If using staging and we processed changes, check if ZIP processing is complete before swapping
+        // If using staging and we processed changes, promote them
         if (useStaging && result.changes_detected.total_changes > 0) {
-            if (!result.zip_completion.is_complete) {
-                console.log(`⏳ ZIP processing incomplete (${result.zip_completion.percentage}%) - skipping swap until all ZIPs are processed`)
-                console.log(`📊 Progress: ${result.zip_completion.completed}/${result.zip_completion.total_affected} ZIP codes completed`)
-                
-                return NextResponse.json({
-                    ...result,
-                    success: true,
-                    message: `Smart update in progress - ${result.zip_completion.remaining} ZIP codes remaining`,
-                    swap_performed: false
-                })
-            }
-            
-            console.log('🔄 All ZIP processing complete! Performing atomic swap: staging → production...')
-            const swapSuccess = await swapStagingToProduction()
+            console.log('🔄 Performing atomic swap: staging → production...')
+            const swap = await swapStagingToProduction({ source: 'smart-update' })
             
-            if (!swapSuccess) {
+            if (!swap.success) {
+                const blocked = swap.validation !== null && !swap.validation.passed
                 return NextResponse.json({
-                    ...result,
+                    ...summary,
                     success: false,
-                    error: 'Smart update completed but failed to swap to production'
-                }, { status: 500 })
+                    error: blocked
+                        ? 'Smart update completed but staging failed validation - swap blocked'
+                        : 'Smart update completed but failed to swap to production',
+                    validation: swap.validation
+                }, { status: blocked ? 422 : 500 })
             }
             
             console.log('✅ Smart update completed with zero downtime!')
         }
 
         return NextResponse.json({
-            ...result,
+            ...summary,
             success: true,
             message: result.changes_detected.total_changes === 0 
                 ? 'No changes detected - aggregation skipped' 
                 : 'Smart incremental update completed successfully',
-            swap_performed: useStaging && result.changes_detected.total_changes > 0 && result.zip_completion.is_complete
+            swap_performed: useStaging && result.changes_detected.total_changes > 0
         })
 
     } catch (error) {
@@ -105,7 +91,7 @@ export async function GET(request: NextRequest) {
     const secret = searchParams.get('secret')
     const level = searchParams.get('level') || 'states'
 
-    if (secret !== process.env.CRON_SECRET) {
+    if (!isCronSecret(secret)) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
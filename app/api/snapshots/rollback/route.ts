@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin, recordAdminAction } from '@/lib/admin-auth'
+import { logError } from '@/lib/error-handling'
+import { findActiveJob } from '@/lib/pipeline-jobs'
+import { rollbackToSnapshot } from '@/lib/production-snapshots'
+
+export const maxDuration = 300
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Restore production from a snapshot: { snapshot_id }
+export async function POST(request: NextRequest) {
+    const identity = authenticateAdmin(request)
+    if (!identity) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const snapshotId = body.snapshot_id
+
+    if (!snapshotId || typeof snapshotId !== 'string') {
+        return NextResponse.json({ error: 'snapshot_id is required' }, { status: 400 })
+    }
+
+    if (!UUID_PATTERN.test(snapshotId)) {
+        return NextResponse.json({ error: 'snapshot_id must be a UUID' }, { status: 400 })
+    }
+
+    await recordAdminAction(request, identity, 'rollback', { snapshot_id: snapshotId })
+
+    try {
+        // A job still running would swap its own staging in over the rollback
+        const activeJob = await findActiveJob()
+        if (activeJob) {
+            return NextResponse.json(
+                { error: `Job ${activeJob.id} is ${activeJob.status} - wait for it to finish before rolling back` },
+                { status: 409 }
+            )
+        }
+
+        const rollback = await rollbackToSnapshot(snapshotId)
+        if (!rollback) {
+            return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `Production restored to the snapshot from ${rollback.restored.created_at}`,
+            restored: rollback.restored,
+            backup: rollback.backup
+        })
+    } catch (error) {
+        logError(error, 'api.snapshots.rollback', { snapshotId })
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Rollback failed',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
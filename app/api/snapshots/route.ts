@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateAdmin } from '@/lib/admin-auth'
+import { env } from '@/lib/env-validation'
+import { logError } from '@/lib/error-handling'
+import { listProductionSnapshots } from '@/lib/production-snapshots'
+
+// Production snapshots available to roll back to, newest first
+export async function GET(request: NextRequest) {
+    if (!authenticateAdmin(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const snapshots = await listProductionSnapshots()
+
+        return NextResponse.json({
+            retention: env.SNAPSHOT_RETENTION,
+            snapshots: snapshots.map((snapshot) => ({
+                id: snapshot.id,
+                created_at: snapshot.created_at,
+                source: snapshot.source,
+                counts: snapshot.counts,
+                job: snapshot.job
+            }))
+        })
+    } catch (error) {
+        logError(error, 'api.snapshots')
+
+        return NextResponse.json({ error: 'Failed to list snapshots' }, { status: 500 })
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { API_KEY_HEADER, currentMonth, getApiKeyUsage, getRequestApiKey } from '@/lib/api-keys'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+
+// Usage of the API key in the x-api-key header. Reading it isn't metered.
+export async function GET(request: NextRequest) {
+    // Rate limiting
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `usage-${clientId}`,
+        limit: 30, // 30 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const key = getRequestApiKey(request)
+    if (!key) {
+        return NextResponse.json({ error: `${API_KEY_HEADER} header is required` }, { status: 401 })
+    }
+
+    try {
+        const usage = await getApiKeyUsage(key)
+        if (!usage) {
+            return NextResponse.json({ error: 'Invalid API key' }, { status: 401 })
+        }
+
+        const { api_key, months } = usage
+        const month = currentMonth()
+        const current = months.find((row) => row.month === month) ?? { month, requests: 0, rejected: 0 }
+
+        return NextResponse.json({
+            name: api_key.name,
+            key_prefix: api_key.key_prefix,
+            revoked: api_key.revoked_at !== null,
+            rate_limit_per_minute: api_key.rate_limit_per_minute,
+            monthly_quota: api_key.monthly_quota,
+            current_month: {
+                ...current,
+                remaining: Math.max(0, api_key.monthly_quota - current.requests)
+            },
+            months
+        })
+    } catch (error) {
+        logError(error, 'api.usage')
+        return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 })
+    }
+}
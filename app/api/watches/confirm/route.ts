@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/data-store'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+
+// Confirm an email watch from the link sent when it was registered: ?id=&token=
+export async function GET(request: NextRequest) {
+    // Rate limiting
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `watches-confirm-${clientId}`,
+        limit: 10, // 10 requests per minute
+        duration: 60000
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            { error: 'Too many requests. Please try again later.' },
+            {
+                status: 429,
+                headers: {
+                    'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                    'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                    'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+                }
+            }
+        )
+    }
+
+    const id = request.nextUrl.searchParams.get('id')
+    const token = request.nextUrl.searchParams.get('token')
+    if (!id || !token) {
+        return NextResponse.json(
+            { error: 'id and token are required' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { data, error } = await db
+            .from('location_watches')
+            .update({ confirmed_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('confirm_token', token)
+            .select('id, label')
+
+        if (error) throw error
+        if (!data || data.length === 0) {
+            return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, watch: data[0] })
+    } catch (error) {
+        logError(error, 'api.watches.confirm', { id })
+        return NextResponse.json(
+            { error: 'Failed to confirm watch' },
+            { status: 500 }
+        )
+    }
+}
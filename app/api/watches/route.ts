@@ -0,0 +1,304 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomBytes } from 'crypto'
+import { db } from '@/lib/data-store'
+import { logError } from '@/lib/error-handling'
+import { rateLimit, getClientId } from '@/lib/rate-limit'
+import { geocodeAddress } from '@/lib/api-fetchers'
+import { parseRegionParam, fetchRegionByKey } from '@/lib/history'
+import { checkWebhookTarget, sendWatchConfirmation } from '@/lib/watch-alerts'
+
+const MAX_RADIUS_MILES = 50
+const DEFAULT_RADIUS_MILES = 5
+const CHANNELS = ['webhook', 'email']
+
+const WATCH_COLUMNS =
+    'id, label, latitude, longitude, radius_miles, region_type, region_key, score_threshold, channel, target, last_score, last_checked_at, confirmed_at, active, created_at'
+
+function rateLimited(request: NextRequest): NextResponse | null {
+    const clientId = getClientId(request)
+    const rateLimitResult = rateLimit({
+        id: `watches-${clientId}`,
+        limit: 10, // 10 requests per minute
+        duration: 60000
+    })
+
+    if (rateLimitResult.success) return null
+
+    return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        {
+            status: 429,
+            headers: {
+                'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+                'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+                'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
+            }
+        }
+    )
+}
+
+// Why the target can't be used, or null if it can
+async function checkTarget(channel: string, target: string): Promise<string | null> {
+    if (channel === 'email') {
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target) ? null : 'Invalid email format'
+    }
+    return checkWebhookTarget(target)
+}
+
+// Register a watch: { address | lat+lng, radius_miles?, region?, score_threshold?, channel, target }
+export async function POST(request: NextRequest) {
+    const limited = rateLimited(request)
+    if (limited) return limited
+
+    let body
+    try {
+        body = await request.json()
+    } catch {
+        return NextResponse.json(
+            { error: 'Request body must be JSON' },
+            { status: 400 }
+        )
+    }
+    if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+            { error: 'Request body must be a JSON object' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { address, channel, target } = body
+
+        for (const field of ['label', 'address'] as const) {
+            if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+                return NextResponse.json(
+                    { error: `${field} must be a string` },
+                    { status: 400 }
+                )
+            }
+        }
+
+        let latitude = body.lat !== undefined ? Number(body.lat) : null
+        let longitude = body.lng !== undefined ? Number(body.lng) : null
+        let label: string = body.label || address || ''
+
+        if (!channel || !CHANNELS.includes(channel)) {
+            return NextResponse.json(
+                { error: `channel must be one of ${CHANNELS.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        if (!target || typeof target !== 'string') {
+            return NextResponse.json(
+                { error: 'target is required' },
+                { status: 400 }
+            )
+        }
+
+        const targetError = await checkTarget(channel, target)
+        if (targetError) {
+            return NextResponse.json({ error: targetError }, { status: 400 })
+        }
+
+        if ((latitude === null || longitude === null) && address) {
+            const geocoded = await geocodeAddress(address)
+            if (!geocoded) {
+                return NextResponse.json(
+                    { error: 'Failed to geocode address' },
+                    { status: 400 }
+                )
+            }
+            latitude = geocoded.latitude
+            longitude = geocoded.longitude
+            label = body.label || geocoded.formatted_address
+        }
+
+        if (
+            latitude === null || longitude === null ||
+            isNaN(latitude) || isNaN(longitude) ||
+            latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180
+        ) {
+            return NextResponse.json(
+                { error: 'Provide an address or valid lat/lng coordinates' },
+                { status: 400 }
+            )
+        }
+
+        const radius = body.radius_miles !== undefined
+            ? Number(body.radius_miles)
+            : DEFAULT_RADIUS_MILES
+        if (isNaN(radius) || radius <= 0 || radius > MAX_RADIUS_MILES) {
+            return NextResponse.json(
+                { error: `radius_miles must be between 0 and ${MAX_RADIUS_MILES}` },
+                { status: 400 }
+            )
+        }
+
+        const region = body.region ? parseRegionParam(String(body.region)) : null
+        if (body.region && !region) {
+            return NextResponse.json(
+                { error: 'region must look like state:California, county:CA:Alameda or zip:94110' },
+                { status: 400 }
+            )
+        }
+
+        const threshold = body.score_threshold !== undefined && body.score_threshold !== null
+            ? Number(body.score_threshold)
+            : null
+        if (threshold !== null && (isNaN(threshold) || threshold < 0 || threshold > 100)) {
+            return NextResponse.json(
+                { error: 'score_threshold must be between 0 and 100' },
+                { status: 400 }
+            )
+        }
+        if (threshold !== null && !region) {
+            return NextResponse.json(
+                { error: 'score_threshold requires a region' },
+                { status: 400 }
+            )
+        }
+
+        // Baseline score so the first run can tell if the threshold was crossed
+        const current = region ? await fetchRegionByKey(region.type, region.key) : null
+        const manageToken = randomBytes(24).toString('hex')
+        // Email watches stay quiet until the address owner confirms them
+        const confirmToken = channel === 'email' ? randomBytes(24).toString('hex') : null
+        // Webhook receivers verify deliveries with this (see signWebhookPayload)
+        const signingSecret = channel === 'webhook' ? randomBytes(32).toString('hex') : null
+
+        const { data, error } = await db
+            .from('location_watches')
+            .insert({
+                label: label.slice(0, 200) || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+                latitude,
+                longitude,
+                radius_miles: radius,
+                region_type: region?.type || null,
+                region_key: region?.key || null,
+                score_threshold: threshold,
+                channel,
+                target,
+                manage_token: manageToken,
+                confirm_token: confirmToken,
+                signing_secret: signingSecret,
+                confirmed_at: confirmToken ? null : new Date().toISOString(),
+                // Alerts cover changes from registration on
+                last_checked_at: new Date().toISOString(),
+                active: true,
+                last_score: current?.ev_infrastructure_score ?? null
+            })
+            .select(WATCH_COLUMNS)
+            .single()
+
+        if (error) {
+            logError(error, 'api.watches.insert', { channel, radius })
+            return NextResponse.json(
+                { error: 'Failed to create watch' },
+                { status: 500 }
+            )
+        }
+
+        if (confirmToken) {
+            const confirmUrl =
+                `${request.nextUrl.origin}/api/watches/confirm?id=${data.id}&token=${confirmToken}`
+            try {
+                await sendWatchConfirmation({ label: data.label, target }, confirmUrl)
+            } catch (sendError) {
+                // The watch is kept; it stays unconfirmed
+                logError(sendError, 'api.watches.confirmation', { id: data.id })
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            watch: data,
+            // Only returned once - needed to view or delete the watch and to verify its deliveries
+            manage_token: manageToken,
+            signing_secret: signingSecret,
+            confirmation_required: confirmToken !== null
+        })
+    } catch (error) {
+        logError(error, 'api.watches', { method: 'POST' })
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+function readCredentials(request: NextRequest): { id: string; token: string } | null {
+    const id = request.nextUrl.searchParams.get('id')
+    const token = request.nextUrl.searchParams.get('token')
+    return id && token ? { id, token } : null
+}
+
+export async function GET(request: NextRequest) {
+    const limited = rateLimited(request)
+    if (limited) return limited
+
+    const credentials = readCredentials(request)
+    if (!credentials) {
+        return NextResponse.json(
+            { error: 'id and token are required' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { data, error } = await db
+            .from('location_watches')
+            .select(WATCH_COLUMNS)
+            .eq('id', credentials.id)
+            .eq('manage_token', credentials.token)
+            .maybeSingle()
+
+        if (error) throw error
+        if (!data) {
+            return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, watch: data })
+    } catch (error) {
+        logError(error, 'api.watches', { method: 'GET', id: credentials.id })
+        return NextResponse.json(
+            { error: 'Failed to load watch' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const limited = rateLimited(request)
+    if (limited) return limited
+
+    const credentials = readCredentials(request)
+    if (!credentials) {
+        return NextResponse.json(
+            { error: 'id and token are required' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const { data, error } = await db
+            .from('location_watches')
+            .delete()
+            .eq('id', credentials.id)
+            .eq('manage_token', credentials.token)
+            .select('id')
+
+        if (error) throw error
+        if (!data || data.length === 0) {
+            return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        logError(error, 'api.watches', { method: 'DELETE', id: credentials.id })
+        return NextResponse.json(
+            { error: 'Failed to delete watch' },
+            { status: 500 }
+        )
+    }
+}
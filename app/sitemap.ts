@@ -10,11 +10,5 @@ export default function sitemap(): MetadataRoute.Sitemap {
             changeFrequency: 'daily',
             priority: 1,
         },
-        {
-            url: `${baseUrl}/admin`,
-            lastModified: new Date(),
-            changeFrequency: 'monthly',
-            priority: 0.3,
-        },
     ]
 }
\ No newline at end of file
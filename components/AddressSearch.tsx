@@ -2,13 +2,16 @@
 
 import { useState } from 'react'
 import ScoreCard from './ScoreCard'
+import { VehicleProfile, vehicleToSearchParams } from '@/lib/vehicle-profiles'
 
 interface AddressSearchProps {
     onLocationSelect: (lng: number, lat: number, address: string) => void
+    vehicle?: VehicleProfile | null
 }
 
 export default function AddressSearch({
-    onLocationSelect
+    onLocationSelect,
+    vehicle
 }: AddressSearchProps) {
     const [searchQuery, setSearchQuery] = useState('')
     const [suggestions, setSuggestions] = useState<any[]>([])
@@ -60,7 +63,7 @@ export default function AddressSearch({
             const response = await fetch(
                 `/api/ev-score?lat=${lat}&lng=${lng}&address=${encodeURIComponent(
                     address
-                )}`
+                )}` + (vehicle ? `&${vehicleToSearchParams(vehicle)}` : '')
             )
 
             if (!response.ok) throw new Error('Failed to fetch score')
@@ -12,10 +12,13 @@ import {
     loadStatePolygons,
     loadCountyPolygons,
     loadZipPolygons,
+    loadCensusAreaPolygons,
     loadChargerPoints
 } from '@/lib/map-data-loader'
 import MapFilters from './MapFilters'
 import type { HoveredData } from '@/types'
+import type { VehicleProfile } from '@/lib/vehicle-profiles'
+import { DEFAULT_SCORE_FILTERS } from '@/lib/score-engine'
 import { ToastContainer, useToast } from './Toast'
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || ''
@@ -26,14 +29,18 @@ export default function Map() {
     const [loading, setLoading] = useState(true)
     const [showAbout, setShowAbout] = useState(false)
     const [hoveredState, setHoveredState] = useState<HoveredData | null>(null)
+    // Same defaults the stored scores and ScoreCard use, so first-load colors match them
     const [chargerFilters, setChargerFilters] = useState({
-        showDCFast: true,
-        showLevel2: true,
-        showLevel1: false,
-        showTesla: true,
-        showCCS: true,
+        showDCFast: DEFAULT_SCORE_FILTERS.showDCFast,
+        showLevel2: DEFAULT_SCORE_FILTERS.showLevel2,
+        showLevel1: DEFAULT_SCORE_FILTERS.showLevel1,
+        showTesla: DEFAULT_SCORE_FILTERS.showTesla ?? true,
+        showCCS: DEFAULT_SCORE_FILTERS.showCCS ?? true,
         opportunityMode: false,
-        usePortWeighting: true
+        equityMode: false,
+        usePortWeighting: DEFAULT_SCORE_FILTERS.usePortWeighting ?? true,
+        vehicle: null as VehicleProfile | null,
+        showOnly24_7: DEFAULT_SCORE_FILTERS.showOnly24_7 ?? false
     })
     const chargerFiltersRef = useRef(chargerFilters)
     const [showMobileFilters, setShowMobileFilters] = useState(false)
@@ -64,12 +71,15 @@ export default function Map() {
                     state_name: feature.properties?.state_name,
                     county_name: feature.properties?.county_name,
                     zip_code: feature.properties?.zip_code,
+                    area_name: feature.properties?.area_name,
                     state: feature.properties?.state,
                     score: feature.properties?.score,
                     charger_count: feature.properties?.charger_count,
                     filtered_charger_count:
                         feature.properties?.filtered_charger_count,
-                    population: feature.properties?.population
+                    population: feature.properties?.population,
+                    renter_share: feature.properties?.renter_share,
+                    is_disadvantaged: feature.properties?.is_disadvantaged
                 })
             }
         })
@@ -94,13 +104,20 @@ export default function Map() {
                     setupInteractions,
                     (e) => console.error(e)
                 )
-            else
+            else if (zoom < 12)
                 await loadZipPolygons(
                     map.current,
                     chargerFiltersRef.current,
                     setupInteractions,
                     (e) => console.error(e)
                 )
+            else
+                await loadCensusAreaPolygons(
+                    map.current,
+                    chargerFiltersRef.current,
+                    setupInteractions,
+                    (e) => console.error(e)
+                )
 
             if (zoom >= 13) {
                 await loadChargerPoints(map.current, chargerFiltersRef.current)
@@ -199,8 +216,11 @@ export default function Map() {
         }
     }
 
+    // Opportunity and equity gap both score need, so they share the warm palette
+    const needMode = chargerFilters.opportunityMode || chargerFilters.equityMode
+
     const getScoreColor = (score: number) => {
-        if (chargerFilters.opportunityMode) {
+        if (needMode) {
             // Opportunity mode colors (matching map palette)
             if (score >= 75) return '#facc15' // Gold
             if (score >= 50) return '#f59e0b' // Amber
@@ -247,6 +267,7 @@ export default function Map() {
                         <div className='px-14 md:px-0'>
                             <AddressSearch
                                 onLocationSelect={handleLocationSelect}
+                                vehicle={chargerFilters.vehicle}
                             />
                         </div>
                     </div>
@@ -289,16 +310,20 @@ export default function Map() {
                         <h2 className='text-2xl font-bold text-foreground mb-1 tracking-tight'>
                             {hoveredState.state_name ||
                                 hoveredState.county_name ||
-                                hoveredState.zip_code}
+                                hoveredState.zip_code ||
+                                hoveredState.area_name}
                         </h2>
                         {hoveredState.state &&
                             (hoveredState.county_name ||
-                                hoveredState.zip_code) && (
+                                hoveredState.zip_code ||
+                                hoveredState.area_name) && (
                                 <span className='text-xs font-mono text-neon-mid tracking-widest uppercase mb-4 block opacity-80'>
                                     {hoveredState.state}
                                     {hoveredState.zip_code
                                         ? ` // ZIP REGION`
-                                        : ` // SECTOR`}
+                                        : hoveredState.area_name
+                                          ? ` // CENSUS AREA`
+                                          : ` // SECTOR`}
                                 </span>
                             )}
 
@@ -306,9 +331,11 @@ export default function Map() {
                         <div className='mb-6 mt-4'>
                             <div className='flex justify-between items-end mb-1'>
                                 <span className='text-xs font-mono text-foreground/60 uppercase tracking-wider'>
-                                    {chargerFilters.opportunityMode
-                                        ? 'Opportunity Score'
-                                        : 'EV Readiness'}
+                                    {chargerFilters.equityMode
+                                        ? 'Equity Gap'
+                                        : chargerFilters.opportunityMode
+                                          ? 'Opportunity Score'
+                                          : 'EV Readiness'}
                                 </span>
                                 <span
                                     className='text-4xl font-bold'
@@ -352,7 +379,11 @@ export default function Map() {
 
                             <div>
                                 <span className='text-[10px] font-mono text-foreground/50 uppercase block mb-1'>
-                                    {chargerFilters.opportunityMode ? 'Opportunity Level' : 'Service Level'}
+                                    {chargerFilters.equityMode
+                                        ? 'Gap Level'
+                                        : chargerFilters.opportunityMode
+                                          ? 'Opportunity Level'
+                                          : 'Service Level'}
                                 </span>
                                 <span
                                     className='text-xl font-semibold'
@@ -360,7 +391,7 @@ export default function Map() {
                                         color: getScoreColor(hoveredState.score || 0)
                                     }}
                                 >
-                                    {chargerFilters.opportunityMode
+                                    {needMode
                                         ? (hoveredState.score || 0) >= 90
                                             ? 'Critical'     // 90-100: Critical opportunity
                                             : (hoveredState.score || 0) >= 75
@@ -386,6 +417,33 @@ export default function Map() {
                                             : 'Poor'}
                                 </span>
                             </div>
+
+                            {chargerFilters.equityMode && (
+                                <>
+                                    <div>
+                                        <span className='text-[10px] font-mono text-foreground/50 uppercase block mb-1'>
+                                            Renters
+                                        </span>
+                                        <span className='text-xl font-semibold text-foreground'>
+                                            {hoveredState.renter_share != null
+                                                ? `${Math.round(hoveredState.renter_share * 100)}%`
+                                                : '—'}
+                                        </span>
+                                    </div>
+                                    <div>
+                                        <span className='text-[10px] font-mono text-foreground/50 uppercase block mb-1'>
+                                            Justice40
+                                        </span>
+                                        <span className='text-xl font-semibold text-foreground'>
+                                            {hoveredState.is_disadvantaged == null
+                                                ? '—'
+                                                : hoveredState.is_disadvantaged
+                                                  ? 'Disadvantaged'
+                                                  : 'No'}
+                                        </span>
+                                    </div>
+                                </>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -400,13 +458,13 @@ export default function Map() {
                         <div className='flex items-center gap-2'>
                             <div
                                 className={`w-2 h-2 rounded-full ${
-                                    chargerFilters.opportunityMode
+                                    needMode
                                         ? 'bg-yellow-400 shadow-[0_0_8px_rgb(251,191,36)]'
                                         : 'bg-neon-high shadow-[0_0_8px_var(--neon-high)]'
                                 }`}
                             ></div>
                             <span className='text-foreground/90'>
-                                {chargerFilters.opportunityMode
+                                {needMode
                                     ? 'High'
                                     : 'Excellent'}
                             </span>
@@ -414,13 +472,13 @@ export default function Map() {
                         <div className='flex items-center gap-2'>
                             <div
                                 className={`w-2 h-2 rounded-full ${
-                                    chargerFilters.opportunityMode
+                                    needMode
                                         ? 'bg-orange-400 shadow-[0_0_8px_rgb(251,146,60)]'
                                         : 'bg-neon-mid shadow-[0_0_8px_var(--neon-mid)]'
                                 }`}
                             ></div>
                             <span className='text-foreground/90'>
-                                {chargerFilters.opportunityMode
+                                {needMode
                                     ? 'Med'
                                     : 'Good'}
                             </span>
@@ -428,13 +486,13 @@ export default function Map() {
                         <div className='flex items-center gap-2'>
                             <div
                                 className={`w-2 h-2 rounded-full ${
-                                    chargerFilters.opportunityMode
+                                    needMode
                                         ? 'bg-red-400 shadow-[0_0_8px_rgb(248,113,113)]'
                                         : 'bg-neon-low shadow-[0_0_8px_var(--neon-low)]'
                                 }`}
                             ></div>
                             <span className='text-foreground/90'>
-                                {chargerFilters.opportunityMode
+                                {needMode
                                     ? 'Low'
                                     : 'Poor'}
                             </span>
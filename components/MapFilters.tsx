@@ -2,6 +2,15 @@
 
 import { useState } from 'react'
 import Toggle from './Toggle'
+import {
+    VehicleProfile,
+    ChargingAdapter,
+    VEHICLE_PROFILES,
+    ADAPTERS,
+    getVehicleProfile,
+    getAvailableAdapters,
+    withAdapters
+} from '@/lib/vehicle-profiles'
 
 interface MapFiltersProps {
     filters: {
@@ -11,7 +20,10 @@ interface MapFiltersProps {
         showTesla: boolean
         showCCS: boolean
         opportunityMode: boolean
+        equityMode: boolean
         usePortWeighting: boolean
+        vehicle: VehicleProfile | null
+        showOnly24_7: boolean
     }
     onFilterChange: (filters: {
         showDCFast: boolean
@@ -20,7 +32,10 @@ interface MapFiltersProps {
         showTesla: boolean
         showCCS: boolean
         opportunityMode: boolean
+        equityMode: boolean
         usePortWeighting: boolean
+        vehicle: VehicleProfile | null
+        showOnly24_7: boolean
     }) => void
     isMobile?: boolean
     onClose?: () => void
@@ -35,8 +50,24 @@ export default function MapFilters({
     const [speedExpanded, setSpeedExpanded] = useState(true)
     const [connectorExpanded, setConnectorExpanded] = useState(true)
     const [viewModeExpanded, setViewModeExpanded] = useState(true)
+    const [vehicleExpanded, setVehicleExpanded] = useState(true)
+    const [accessExpanded, setAccessExpanded] = useState(true)
     const [isMinimized, setIsMinimized] = useState(false)
 
+    const toggleAdapter = (adapter: ChargingAdapter, enabled: boolean) => {
+        if (!filters.vehicle) return
+        const current = filters.vehicle.adapters
+        onFilterChange({
+            ...filters,
+            vehicle: withAdapters(
+                filters.vehicle,
+                enabled
+                    ? [...current, adapter]
+                    : current.filter((a) => a !== adapter)
+            )
+        })
+    }
+
     return (
         <div
             className={`
@@ -124,6 +155,97 @@ export default function MapFilters({
                         isMobile ? 'flex-col gap-4' : 'flex-col gap-3'
                     }`}
                 >
+                    {/* Vehicle Section */}
+                    <div className='border-b border-white/10 pb-3 mb-2'>
+                        <button
+                            onClick={() => setVehicleExpanded(!vehicleExpanded)}
+                            className='w-full flex items-center justify-between text-[9px] font-mono font-semibold uppercase tracking-widest text-foreground/40 mb-3 hover:text-foreground/60 transition-colors'
+                        >
+                            <span>My Vehicle</span>
+                            <svg
+                                className={`w-3 h-3 transition-transform ${
+                                    vehicleExpanded ? 'rotate-0' : 'rotate-180'
+                                }`}
+                                fill='none'
+                                stroke='currentColor'
+                                viewBox='0 0 24 24'
+                            >
+                                <path
+                                    strokeLinecap='round'
+                                    strokeLinejoin='round'
+                                    strokeWidth={2}
+                                    d='M19 9l-7 7-7-7'
+                                />
+                            </svg>
+                        </button>
+
+                        {vehicleExpanded && (
+                            <div className='space-y-2'>
+                                <select
+                                    value={filters.vehicle?.id || ''}
+                                    onChange={(e) =>
+                                        onFilterChange({
+                                            ...filters,
+                                            vehicle: getVehicleProfile(
+                                                e.target.value
+                                            )
+                                        })
+                                    }
+                                    className='w-full bg-white/5 border border-white/10 rounded-lg px-2 py-2 text-sm text-foreground focus:outline-none focus:border-neon-mid'
+                                >
+                                    <option value=''>Any vehicle</option>
+                                    {VEHICLE_PROFILES.map((profile) => (
+                                        <option
+                                            key={profile.id}
+                                            value={profile.id}
+                                        >
+                                            {profile.name}
+                                        </option>
+                                    ))}
+                                </select>
+
+                                {/* Adapters the owner carries */}
+                                {filters.vehicle &&
+                                    getAvailableAdapters(filters.vehicle).map(
+                                        (adapter) => (
+                                            <div
+                                                key={adapter}
+                                                className={`flex items-center justify-between group ${
+                                                    isMobile
+                                                        ? 'p-3 rounded-lg bg-white/5'
+                                                        : 'hover:bg-white/5 p-2 -mx-2 rounded-lg transition-colors'
+                                                }`}
+                                            >
+                                                <span className='text-sm font-medium text-foreground tracking-wide'>
+                                                    {ADAPTERS[adapter].name}
+                                                </span>
+                                                <Toggle
+                                                    checked={
+                                                        filters.vehicle?.adapters.includes(
+                                                            adapter
+                                                        ) ?? false
+                                                    }
+                                                    onChange={(c) =>
+                                                        toggleAdapter(
+                                                            adapter,
+                                                            c
+                                                        )
+                                                    }
+                                                    colorVar='neon-mid'
+                                                />
+                                            </div>
+                                        )
+                                    )}
+
+                                {filters.vehicle && (
+                                    <p className='text-[10px] text-foreground/60 font-mono'>
+                                        Connector filters follow this vehicle
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     {/* View Mode Section */}
                     <div className='border-b border-white/10 pb-3 mb-2'>
                         <button
@@ -177,7 +299,8 @@ export default function MapFilters({
                                             onChange={(c) =>
                                                 onFilterChange({
                                                     ...filters,
-                                                    opportunityMode: c
+                                                    opportunityMode: c,
+                                                    equityMode: c ? false : filters.equityMode
                                                 })
                                             }
                                             colorVar='neon-gold'
@@ -185,6 +308,40 @@ export default function MapFilters({
                                     </div>
                                 </div>
 
+                                {/* Equity Gap Mode */}
+                                <div
+                                    className={`flex items-center justify-between group ${
+                                        isMobile
+                                            ? 'p-4 rounded-xl bg-gradient-to-r from-orange-500/10 to-red-500/10 border border-orange-500/20'
+                                            : 'hover:bg-gradient-to-r hover:from-orange-500/10 hover:to-red-500/10 px-2 -mx-2 rounded-lg transition-all border border-transparent hover:border-orange-500/20'
+                                    }`}
+                                >
+                                    <div className='flex items-center gap-3 flex-1'>
+                                        <div className='w-2 h-2 rounded-full bg-orange-400 shadow-[0_0_8px_rgb(251,146,60)] flex-shrink-0' />
+                                        <div className='flex flex-col'>
+                                            <span className='text-sm font-semibold text-foreground tracking-wide'>
+                                                Equity Gap
+                                            </span>
+                                            <span className='text-[10px] text-foreground/60 font-mono'>
+                                                Renters without home charging
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <div className='flex items-center justify-center ml-2'>
+                                        <Toggle
+                                            checked={filters.equityMode}
+                                            onChange={(c) =>
+                                                onFilterChange({
+                                                    ...filters,
+                                                    equityMode: c,
+                                                    opportunityMode: c ? false : filters.opportunityMode
+                                                })
+                                            }
+                                            colorVar='neon-orange'
+                                        />
+                                    </div>
+                                </div>
+
                                 {/* Port Weighting */}
                                 <div
                                     className={`flex items-center justify-between group ${
@@ -348,7 +505,7 @@ export default function MapFilters({
                     </div>
 
                     {/* Connector Type Section */}
-                    <div>
+                    <div className='border-b border-white/10 pb-3 mb-2'>
                         <button
                             onClick={() =>
                                 setConnectorExpanded(!connectorExpanded)
@@ -437,6 +594,67 @@ export default function MapFilters({
                             </div>
                         )}
                     </div>
+
+                    {/* Access Section */}
+                    <div>
+                        <button
+                            onClick={() => setAccessExpanded(!accessExpanded)}
+                            className='w-full flex items-center justify-between text-[9px] font-mono font-semibold uppercase tracking-widest text-foreground/40 mb-3 hover:text-foreground/60 transition-colors'
+                        >
+                            <span>Access</span>
+                            <svg
+                                className={`w-3 h-3 transition-transform ${
+                                    accessExpanded ? 'rotate-0' : 'rotate-180'
+                                }`}
+                                fill='none'
+                                stroke='currentColor'
+                                viewBox='0 0 24 24'
+                            >
+                                <path
+                                    strokeLinecap='round'
+                                    strokeLinejoin='round'
+                                    strokeWidth={2}
+                                    d='M19 9l-7 7-7-7'
+                                />
+                            </svg>
+                        </button>
+
+                        {accessExpanded && (
+                            <div className='space-y-2'>
+                                {/* 24/7 Public Only */}
+                                <div
+                                    className={`flex items-center justify-between group ${
+                                        isMobile
+                                            ? 'p-3 rounded-lg bg-white/5'
+                                            : 'hover:bg-white/5 p-2 -mx-2 rounded-lg transition-colors'
+                                    }`}
+                                >
+                                    <div className='flex items-center gap-3'>
+                                        <div
+                                            className='w-2 h-2 rounded-full shadow-[0_0_8px_var(--neon-mid)]'
+                                            style={{
+                                                backgroundColor:
+                                                    'var(--neon-mid)'
+                                            }}
+                                        />
+                                        <span className='text-sm font-medium text-foreground tracking-wide'>
+                                            24/7 Public Only
+                                        </span>
+                                    </div>
+                                    <Toggle
+                                        checked={filters.showOnly24_7}
+                                        onChange={(c) =>
+                                            onFilterChange({
+                                                ...filters,
+                                                showOnly24_7: c
+                                            })
+                                        }
+                                        colorVar='neon-mid'
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
         </div>
@@ -1,13 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { getScoreLabel } from '@/lib/map-utils'
+import { POINT_SCORE_MAX, PointScoreBreakdown } from '@/lib/score-engine'
+import Sparkline from './Sparkline'
+import WatchLocationForm from './WatchLocationForm'
 
 interface ScoreCardProps {
     data: {
         address: string
         score: number
-        region: { name: string; type: string; population: number }
+        score_breakdown?: PointScoreBreakdown
+        coordinates?: { lat: number; lng: number }
+        region: {
+            name: string
+            type: string
+            key?: string | null
+            population: number
+            score?: number
+        }
         chargers: {
             within_1_mile: number
             within_5_miles: number
@@ -23,12 +34,51 @@ interface ScoreCardProps {
                 address: string
             } | null
         }
+        coverage?: {
+            mode: 'drive_time' | 'straight_line'
+            within_5_minutes: number
+            within_10_minutes: number
+            within_15_minutes: number
+            nearest_minutes: number | null
+        }
+        vehicle?: { id: string; name: string } | null
     }
     onClose: () => void
 }
 
+const BREAKDOWN_LABELS: Record<keyof PointScoreBreakdown, string> = {
+    proximity: 'Proximity',
+    speed: 'Fast Charging',
+    capacity: 'Port Capacity',
+    compatibility: 'Plug Match'
+}
+
 export default function ScoreCard({ data, onClose }: ScoreCardProps) {
     const [showDCFast, setShowDCFast] = useState(false)
+    const [history, setHistory] = useState<number[]>([])
+
+    // Charger count over the past year for the growth sparkline
+    useEffect(() => {
+        if (!data.region.key) return
+
+        const region = `${data.region.type}:${data.region.key}`
+        fetch(`/api/history?region=${encodeURIComponent(region)}`)
+            .then((response) => (response.ok ? response.json() : null))
+            .then((result) => {
+                if (result?.points) {
+                    setHistory(
+                        result.points.map(
+                            (point: { charger_count: number }) =>
+                                point.charger_count
+                        )
+                    )
+                }
+            })
+            .catch((error) => console.error('History fetch error:', error))
+    }, [data.region.type, data.region.key])
+
+    const historyChange =
+        history.length > 1 ? history[history.length - 1] - history[0] : 0
 
     const getNeonColorVar = (s: number) => {
         if (s >= 80) return 'var(--neon-high)'
@@ -37,6 +87,8 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
     }
 
     const scoreColor = getNeonColorVar(data.score)
+    const breakdown = data.score_breakdown
+    const coverage = data.coverage
     const scoreLabel = getScoreLabel(data.score)
 
     // SVG Math
@@ -103,6 +155,11 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
                                     : 'POOR'}
                             </span>
                         </p>
+                        {data.vehicle && (
+                            <p className='text-[10px] font-mono text-white/40 uppercase tracking-wide mt-1'>
+                                For {data.vehicle.name}
+                            </p>
+                        )}
                     </div>
                     <button
                         onClick={onClose}
@@ -189,6 +246,36 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
                             </div>
                         </div>
 
+                        {history.length > 1 && (
+                            <div className='mt-4 w-full flex items-center justify-between px-1'>
+                                <div className='flex flex-col'>
+                                    <span className='text-[9px] font-mono text-white/40 uppercase tracking-widest'>
+                                        12-Month Trend
+                                    </span>
+                                    <span
+                                        className='text-xs font-mono'
+                                        style={{
+                                            color:
+                                                historyChange > 0
+                                                    ? 'var(--neon-high)'
+                                                    : 'rgba(255, 255, 255, 0.5)'
+                                        }}
+                                    >
+                                        {historyChange > 0 ? '+' : ''}
+                                        {historyChange} stations
+                                    </span>
+                                </div>
+                                <Sparkline
+                                    values={history}
+                                    colorVar={
+                                        historyChange > 0
+                                            ? 'neon-high'
+                                            : 'neon-low'
+                                    }
+                                />
+                            </div>
+                        )}
+
                         <button
                             onClick={handleShare}
                             className='mt-4 w-full py-3 rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-mono uppercase tracking-widest text-white/60 hover:text-white transition-colors flex items-center justify-center gap-2'
@@ -210,6 +297,60 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
                         </button>
                     </div>
 
+                    {/* Score Breakdown */}
+                    {breakdown && (
+                        <div>
+                            <div className='flex items-center justify-between mb-3'>
+                                <div className='flex items-center gap-2 opacity-70'>
+                                    <div className='w-1 h-1 bg-white rounded-full'></div>
+                                    <h3 className='text-xs font-mono font-semibold text-white/70 uppercase tracking-widest'>
+                                        Score Breakdown
+                                    </h3>
+                                </div>
+                                {data.region.score !== undefined && (
+                                    <span className='text-[9px] font-mono uppercase tracking-wider text-white/40'>
+                                        Area avg {data.region.score}
+                                    </span>
+                                )}
+                            </div>
+
+                            <div className='space-y-2.5'>
+                                {(
+                                    Object.keys(
+                                        BREAKDOWN_LABELS
+                                    ) as (keyof PointScoreBreakdown)[]
+                                ).map((component) => (
+                                    <div key={component}>
+                                        <div className='flex items-center justify-between text-[10px] font-mono uppercase tracking-wider mb-1'>
+                                            <span className='text-white/50'>
+                                                {BREAKDOWN_LABELS[component]}
+                                            </span>
+                                            <span className='text-white/70'>
+                                                {breakdown[component]}/
+                                                {POINT_SCORE_MAX[component]}
+                                            </span>
+                                        </div>
+                                        <div className='h-1 rounded-full bg-white/5 overflow-hidden'>
+                                            <div
+                                                className='h-full rounded-full transition-all duration-1000 ease-out'
+                                                style={{
+                                                    width: `${
+                                                        (breakdown[component] /
+                                                            POINT_SCORE_MAX[
+                                                                component
+                                                            ]) *
+                                                        100
+                                                    }%`,
+                                                    backgroundColor: scoreColor
+                                                }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Proximity Grid */}
                     <div>
                         <div className='flex items-center justify-between mb-3'>
@@ -310,6 +451,49 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
                         </div>
                     </div>
 
+                    {/* Drive-time coverage */}
+                    {coverage && (
+                        <div>
+                            <div className='flex items-center justify-between mb-3'>
+                                <div className='flex items-center gap-2 opacity-70'>
+                                    <div className='w-1 h-1 bg-white rounded-full'></div>
+                                    <h3 className='text-xs font-mono font-semibold text-white/70 uppercase tracking-widest'>
+                                        Drive Time
+                                    </h3>
+                                </div>
+                                <span className='text-[9px] font-mono uppercase tracking-wider text-white/40'>
+                                    {coverage.mode === 'drive_time'
+                                        ? 'Road Network'
+                                        : 'Estimated'}
+                                </span>
+                            </div>
+
+                            <div className='grid grid-cols-3 border border-white/10 rounded-xl bg-white/[0.02]'>
+                                {[
+                                    [5, coverage.within_5_minutes],
+                                    [10, coverage.within_10_minutes],
+                                    [15, coverage.within_15_minutes]
+                                ].map(([minutes, count], index) => (
+                                    <div
+                                        key={minutes}
+                                        className={`p-3 text-center ${
+                                            index < 2
+                                                ? 'border-r border-white/10'
+                                                : ''
+                                        }`}
+                                    >
+                                        <div className='text-xl font-bold text-white font-mono'>
+                                            {count}
+                                        </div>
+                                        <div className='text-[9px] text-white/40 uppercase mt-1 font-mono'>
+                                            {minutes} Min
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Nearest Station */}
                     {data.chargers.nearest && (
                         <div className='pt-4 border-t border-white/10'>
@@ -337,6 +521,16 @@ export default function ScoreCard({ data, onClose }: ScoreCardProps) {
                             </div>
                         </div>
                     )}
+
+                    {data.coordinates && (
+                        <WatchLocationForm
+                            address={data.address}
+                            coordinates={data.coordinates}
+                            region={data.region}
+                            score={data.region.score ?? data.score}
+                        />
+                    )}
+
                     <button
                         onClick={onClose}
                         className='w-full py-4 rounded-xl font-bold tracking-widest text-sm uppercase transition-all
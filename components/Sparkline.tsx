@@ -0,0 +1,50 @@
+'use client'
+
+interface SparklineProps {
+    values: number[]
+    width?: number
+    height?: number
+    colorVar?: string // e.g., 'neon-high', 'neon-mid', 'neon-low'
+}
+
+export default function Sparkline({
+    values,
+    width = 120,
+    height = 32,
+    colorVar = 'neon-mid'
+}: SparklineProps) {
+    if (values.length < 2) return null
+
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    const span = max - min || 1
+    const padding = 2
+
+    const points = values
+        .map((value, i) => {
+            const x = (i / (values.length - 1)) * width
+            const y =
+                height - padding - ((value - min) / span) * (height - padding * 2)
+            return `${x.toFixed(1)},${y.toFixed(1)}`
+        })
+        .join(' ')
+
+    return (
+        <svg
+            width={width}
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            className='overflow-visible'
+        >
+            <polyline
+                points={points}
+                fill='none'
+                stroke={`var(--${colorVar})`}
+                strokeWidth='1.5'
+                strokeLinecap='round'
+                strokeLinejoin='round'
+                style={{ filter: `drop-shadow(0 0 4px var(--${colorVar}))` }}
+            />
+        </svg>
+    )
+}
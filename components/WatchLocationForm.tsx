@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+
+interface WatchLocationFormProps {
+    address: string
+    coordinates: { lat: number; lng: number }
+    region: { type: string; key?: string | null }
+    score: number
+}
+
+type Channel = 'webhook' | 'email'
+
+export default function WatchLocationForm({
+    address,
+    coordinates,
+    region,
+    score
+}: WatchLocationFormProps) {
+    const [open, setOpen] = useState(false)
+    const [channel, setChannel] = useState<Channel>('email')
+    const [target, setTarget] = useState('')
+    const [radius, setRadius] = useState(5)
+    const [threshold, setThreshold] = useState('')
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>(
+        'idle'
+    )
+    const [message, setMessage] = useState('')
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setStatus('saving')
+
+        try {
+            const response = await fetch('/api/watches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    label: address,
+                    lat: coordinates.lat,
+                    lng: coordinates.lng,
+                    radius_miles: radius,
+                    region: region.key ? `${region.type}:${region.key}` : undefined,
+                    score_threshold:
+                        threshold && region.key ? Number(threshold) : undefined,
+                    channel,
+                    target
+                })
+            })
+            const result = await response.json()
+
+            if (!response.ok) {
+                setStatus('error')
+                setMessage(result.error || 'Failed to create watch')
+                return
+            }
+
+            setStatus('saved')
+            setMessage(
+                `Watching. To stop, DELETE /api/watches?id=${result.watch.id}&token=${result.manage_token}` +
+                    (result.signing_secret
+                        ? `. Deliveries are signed with ${result.signing_secret} (HMAC-SHA256 of "timestamp.body")`
+                        : '')
+            )
+        } catch (error) {
+            console.error('Watch error:', error)
+            setStatus('error')
+            setMessage('Failed to create watch')
+        }
+    }
+
+    if (!open) {
+        return (
+            <button
+                onClick={() => setOpen(true)}
+                className='w-full py-3 rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 text-sm font-mono uppercase tracking-widest text-white/60 hover:text-white transition-colors'
+            >
+                Watch This Location
+            </button>
+        )
+    }
+
+    const inputClass =
+        'w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/30 focus:outline-none focus:border-neon-mid/50'
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className='pt-4 border-t border-white/10 space-y-3'
+        >
+            <h3 className='text-xs font-mono font-semibold text-white/70 uppercase tracking-widest'>
+                Alert Me When Chargers Change
+            </h3>
+
+            <div className='flex gap-2'>
+                {(['email', 'webhook'] as Channel[]).map((option) => (
+                    <button
+                        key={option}
+                        type='button'
+                        onClick={() => setChannel(option)}
+                        className={`flex-1 py-1.5 rounded text-[10px] font-mono uppercase tracking-wider border transition-all ${
+                            channel === option
+                                ? 'border-neon-mid text-neon-mid bg-neon-mid/10'
+                                : 'border-white/10 text-white/40'
+                        }`}
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+
+            <input
+                type={channel === 'email' ? 'email' : 'url'}
+                required
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={
+                    channel === 'email' ? 'you@example.com' : 'https://example.com/hook'
+                }
+                className={inputClass}
+            />
+
+            <label className='block text-[10px] font-mono text-white/40 uppercase tracking-wider'>
+                Radius: {radius} mi
+                <input
+                    type='range'
+                    min={1}
+                    max={50}
+                    value={radius}
+                    onChange={(e) => setRadius(Number(e.target.value))}
+                    className='w-full mt-1'
+                />
+            </label>
+
+            {region.key && (
+                <input
+                    type='number'
+                    min={0}
+                    max={100}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    placeholder={`Score threshold (now ${score})`}
+                    className={inputClass}
+                />
+            )}
+
+            <button
+                type='submit'
+                disabled={status === 'saving' || status === 'saved'}
+                className='w-full py-2.5 rounded-xl text-xs font-mono uppercase tracking-widest border border-neon-mid/50 text-neon-mid hover:bg-neon-mid/10 disabled:opacity-50 transition-all'
+            >
+                {status === 'saving' ? 'Saving...' : status === 'saved' ? 'Saved' : 'Create Alert'}
+            </button>
+
+            {message && (
+                <p
+                    className={`text-[10px] font-mono break-all ${
+                        status === 'error' ? 'text-red-400' : 'text-white/50'
+                    }`}
+                >
+                    {message}
+                </p>
+            )}
+        </form>
+    )
+}
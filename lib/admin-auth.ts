@@ -0,0 +1,173 @@
+import crypto from 'crypto'
+import { db } from './data-store'
+import { env } from './env-validation'
+import { getClientId } from './rate-limit'
+
+/**
+ * Authentication shared by every privileged route. Schedulers present
+ * CRON_SECRET as a bearer token; people sign in at /api/admin/session with an
+ * ADMIN_USERS credential and get a short-lived token signed with
+ * ADMIN_TOKEN_SECRET. Actions taken either way go to admin_audit_log.
+ */
+
+export type AdminRole = 'admin' | 'cron'
+
+export interface AdminIdentity {
+    // Admin username, or 'cron' for the scheduler
+    subject: string
+    role: AdminRole
+}
+
+export interface AdminToken {
+    token: string
+    expires_at: string
+}
+
+export interface AdminAuditEntry {
+    actor: string
+    role: AdminRole | null
+    action: string
+    details: Record<string, unknown>
+    ip: string
+    created_at: string
+}
+
+interface AdminTokenPayload {
+    sub: string
+    iat: number
+    exp: number
+}
+
+export const ADMIN_TOKEN_TTL_MS = 60 * 60 * 1000
+
+const SCRYPT_KEY_LENGTH = 32
+
+// Hashing both sides first keeps the comparison constant-time whatever the lengths
+function safeEqual(a: string, b: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest()
+    return crypto.timingSafeEqual(digest(a), digest(b))
+}
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', env.ADMIN_TOKEN_SECRET!).update(payload).digest('base64url')
+}
+
+export function isCronSecret(value: string | null): boolean {
+    return !!value && safeEqual(value, env.CRON_SECRET)
+}
+
+/**
+ * An ADMIN_USERS entry for a username and password: `username:salt:hash`
+ */
+export function hashAdminPassword(
+    username: string,
+    password: string,
+    salt: string = crypto.randomBytes(16).toString('hex')
+): string {
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex')
+    return `${username}:${salt}:${hash}`
+}
+
+// ADMIN_USERS is a comma-separated list of hashAdminPassword entries
+function findAdminUser(username: string): { salt: string; hash: string } | null {
+    for (const entry of (env.ADMIN_USERS || '').split(',')) {
+        const [name, salt, hash] = entry.trim().split(':')
+        if (name === username && salt && hash) return { salt, hash }
+    }
+    return null
+}
+
+export function verifyAdminCredentials(username: string, password: string): boolean {
+    const user = findAdminUser(username)
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    const hash = crypto
+        .scryptSync(password, user?.salt ?? 'unknown-user', SCRYPT_KEY_LENGTH)
+        .toString('hex')
+    return !!user && safeEqual(hash, user.hash)
+}
+
+/**
+ * Sign a token for an admin who has just signed in. Sign-in is disabled
+ * without ADMIN_TOKEN_SECRET, so callers check isAdminSignInEnabled first.
+ */
+export function issueAdminToken(subject: string, now: number = Date.now()): AdminToken {
+    const payload: AdminTokenPayload = { sub: subject, iat: now, exp: now + ADMIN_TOKEN_TTL_MS }
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+    return {
+        token: `${encoded}.${sign(encoded)}`,
+        expires_at: new Date(payload.exp).toISOString()
+    }
+}
+
+export function isAdminSignInEnabled(): boolean {
+    return !!env.ADMIN_TOKEN_SECRET && !!env.ADMIN_USERS
+}
+
+export function verifyAdminToken(token: string, now: number = Date.now()): AdminIdentity | null {
+    if (!env.ADMIN_TOKEN_SECRET) return null
+
+    const [encoded, signature, ...rest] = token.split('.')
+    if (!encoded || !signature || rest.length > 0 || !safeEqual(signature, sign(encoded))) {
+        return null
+    }
+
+    try {
+        const payload: AdminTokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString())
+        if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) {
+            return null
+        }
+        return { subject: payload.sub, role: 'admin' }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Who sent the request: the scheduler, a signed-in admin, or null
+ */
+export function authenticateAdmin(request: Request): AdminIdentity | null {
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) return null
+
+    const credential = authHeader.slice('Bearer '.length)
+    if (isCronSecret(credential)) return { subject: 'cron', role: 'cron' }
+    return verifyAdminToken(credential)
+}
+
+/**
+ * Record who triggered what. A failed write is logged and never blocks the
+ * action being audited.
+ */
+export async function recordAdminAction(
+    request: Request,
+    identity: AdminIdentity | null,
+    action: string,
+    details: Record<string, unknown> = {}
+): Promise<void> {
+    try {
+        const { error } = await db.from('admin_audit_log').insert({
+            actor: identity?.subject ?? 'anonymous',
+            role: identity?.role ?? null,
+            action,
+            details,
+            ip: getClientId(request),
+            created_at: new Date().toISOString()
+        })
+        if (error) throw error
+    } catch (error) {
+        console.error('Failed to record admin action:', error)
+    }
+}
+
+/**
+ * The newest `limit` audit entries, newest first
+ */
+export async function listAdminActions(limit: number = 20): Promise<AdminAuditEntry[]> {
+    const { data, error } = await db
+        .from('admin_audit_log')
+        .select('actor, role, action, details, ip, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    if (error) throw error
+    return data || []
+}
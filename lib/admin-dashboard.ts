@@ -0,0 +1,105 @@
+import { AdminAuditEntry, listAdminActions } from './admin-auth'
+import { db } from './data-store'
+import { getRecentRefreshMetrics, RefreshMetrics } from './monitoring'
+import { listRecentJobs, PipelineJobWithSteps } from './pipeline-jobs'
+
+/**
+ * Everything the /admin page shows, gathered in one read: recent pipeline
+ * jobs, full refresh metrics, change-detection summaries, how far the
+ * current nightly run has got through its changed ZIPs, and recent admin
+ * actions.
+ */
+
+export interface ZipProgress {
+    job_id: string
+    status: PipelineJobWithSteps['status']
+    total: number
+    completed: number
+    percent: number
+}
+
+export interface ChangeLogSummary {
+    detected_at: string
+    total_changes: number
+    states: string[]
+    counties: number
+    zips: number
+}
+
+export interface AdminDashboard {
+    generated_at: string
+    jobs: PipelineJobWithSteps[]
+    zip_progress: ZipProgress | null
+    metrics: RefreshMetrics[]
+    change_logs: ChangeLogSummary[]
+    audit_log: AdminAuditEntry[]
+}
+
+const RECENT_LIMIT = 10
+
+/**
+ * ZIP progress of a daily-refresh job, from the ZIPs detect-changes found
+ * and what the aggregate-zips cursor has left. Null until changes are known.
+ */
+export function zipProgress(job: PipelineJobWithSteps): ZipProgress | null {
+    const detect = job.steps.find((step) => step.name === 'detect-changes')
+    const aggregate = job.steps.find((step) => step.name === 'aggregate-zips')
+    if (!detect || detect.status !== 'done' || !aggregate) return null
+
+    const total = ((detect.result as { zips?: string[] } | null)?.zips ?? []).length
+    const remaining = (aggregate.cursor as { remaining?: string[] } | null)?.remaining
+    const completed =
+        aggregate.status === 'done' ? total : remaining ? total - remaining.length : 0
+
+    return {
+        job_id: job.id,
+        status: aggregate.status,
+        total,
+        completed,
+        percent: total === 0 ? 100 : Math.round((completed / total) * 100)
+    }
+}
+
+async function recentChangeLogs(): Promise<ChangeLogSummary[]> {
+    const { data, error } = await db
+        .from('change_logs')
+        .select('detected_at, states_affected, counties_affected, zips_affected, total_changes')
+        .order('detected_at', { ascending: false })
+        .limit(RECENT_LIMIT)
+    if (error) throw error
+
+    // ZIP and county lists run to thousands; the page only needs counts
+    return (data || []).map((log: {
+        detected_at: string
+        states_affected: string[] | null
+        counties_affected: string[] | null
+        zips_affected: string[] | null
+        total_changes: number
+    }) => ({
+        detected_at: log.detected_at,
+        total_changes: log.total_changes,
+        states: log.states_affected || [],
+        counties: (log.counties_affected || []).length,
+        zips: (log.zips_affected || []).length
+    }))
+}
+
+export async function loadAdminDashboard(): Promise<AdminDashboard> {
+    const [jobs, metrics, changeLogs, auditLog] = await Promise.all([
+        listRecentJobs(RECENT_LIMIT),
+        getRecentRefreshMetrics(RECENT_LIMIT),
+        recentChangeLogs(),
+        listAdminActions(RECENT_LIMIT)
+    ])
+
+    const latestRefresh = jobs.find((job) => job.kind === 'daily-refresh')
+
+    return {
+        generated_at: new Date().toISOString(),
+        jobs,
+        zip_progress: latestRefresh ? zipProgress(latestRefresh) : null,
+        metrics,
+        change_logs: changeLogs,
+        audit_log: auditLog
+    }
+}
@@ -1,25 +1,20 @@
-import { supabaseAdmin } from './supabase'
-import { calculateNeedScore } from './scoring'
+import { db } from './data-store'
+import { calculateNeedScore, getStationWeight } from './scoring'
+import { withRegionScore } from './score-engine'
 import { fetchStatePopulation } from './census-api'
-
-// Calculate weighted EV score
-export function calculateWeightedEVScore(
-    weightedChargerCount: number,
-    population: number
-): number {
-    if (!population || population === 0) return 0
-    
-    const chargersPerCapita = weightedChargerCount / population
-    const baseScore = Math.min(100, chargersPerCapita * 50000)
-    
-    // Bonus for high charger counts
-    const countBonus = Math.min(20, weightedChargerCount / 10)
-    
-    return Math.round(Math.min(100, baseScore + countBonus))
-}
-
+import { isAggregatableStation } from './data-processor'
+import { loadRegionDemographics } from './equity'
+import { getStationState } from './county-index'
+import { getStationIndex, stationTableFor } from './station-index'
+
+/**
+ * Rebuild state rows from the station index. With `stateCodes`, only those
+ * states are computed, and their rows are replaced once computed; the rest
+ * of the table is left alone.
+ */
 export async function generateStateDataOptimized(
-    useStaging: boolean = false
+    useStaging: boolean = false,
+    stateCodes?: string[]
 ): Promise<number> {
     console.log('🚀 Generating state-level data (OPTIMIZED)...')
     const startTime = Date.now()
@@ -27,9 +22,8 @@ export async function generateStateDataOptimized(
     const tableName = useStaging
         ? 'state_level_data_staging'
         : 'state_level_data'
-    const stationsTable = 'charging_stations' // Always use production charging_stations table
 
-    const states = [
+    const allStates = [
         { code: 'AL', name: 'Alabama', lat: 32.806671, lng: -86.79113 },
         { code: 'AK', name: 'Alaska', lat: 61.370716, lng: -152.404419 },
         { code: 'AZ', name: 'Arizona', lat: 33.729759, lng: -111.431221 },
@@ -81,26 +75,23 @@ export async function generateStateDataOptimized(
         { code: 'WI', name: 'Wisconsin', lat: 44.268543, lng: -89.616508 },
         { code: 'WY', name: 'Wyoming', lat: 42.755966, lng: -107.30249 }
     ]
+    const states = stateCodes
+        ? allStates.filter((state) => stateCodes.includes(state.code))
+        : allStates
 
     try {
-        // Clear existing data
-        console.log(`Clearing ${tableName}...`)
-        await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000')
-
-        // OPTIMIZATION: Get all charger counts in a single query!
-        console.log('📊 Fetching all state charger counts in ONE query...')
-        
-        // Fetch ALL rows by using range (Supabase default is 1000)
-        const { data: chargerCounts, error } = await supabaseAdmin
-            .from(stationsTable)
-            .select('state, charger_type_detailed, ev_connector_types, num_ports')
-            .order('state')
-            .range(0, 999999) // Ensure we get all stations
+        if (!stateCodes) {
+            // Clear existing data
+            console.log(`Clearing ${tableName}...`)
+            await db
+                .from(tableName)
+                .delete()
+                .neq('id', '00000000-0000-0000-0000-000000000000')
+        }
 
-        if (error) throw error
+        // All stations come from the shared in-memory index, loaded once per run
+        console.log('📊 Loading stations from the station index...')
+        const { stations: chargerCounts } = await getStationIndex(stationTableFor(useStaging))
 
         // Build maps for charger types, connector types, and port counts
         const stateChargerMap: Record<string, Record<string, number>> = {}
@@ -108,43 +99,53 @@ export async function generateStateDataOptimized(
         const statePortMap: Record<string, { tesla: number, ccs: number, j1772: number, chademo: number, total: number }> = {}
         
         for (const row of chargerCounts || []) {
-            if (!stateChargerMap[row.state]) {
-                stateChargerMap[row.state] = { dcfast: 0, level2: 0, level1: 0 }
-                stateConnectorMap[row.state] = { tesla: 0, ccs: 0, j1772: 0, chademo: 0 }
-                statePortMap[row.state] = { tesla: 0, ccs: 0, j1772: 0, chademo: 0, total: 0 }
+            // Private fleet and temporarily unavailable chargers don't count
+            if (!isAggregatableStation(row)) continue
+
+            // Roll up by the containing county's state so state and county totals agree
+            const stationState = getStationState(row)
+
+            if (!stateChargerMap[stationState]) {
+                stateChargerMap[stationState] = { dcfast: 0, dcfast_weighted: 0, level2: 0, level1: 0, public_24_7: 0 }
+                stateConnectorMap[stationState] = { tesla: 0, ccs: 0, j1772: 0, chademo: 0 }
+                statePortMap[stationState] = { tesla: 0, ccs: 0, j1772: 0, chademo: 0, total: 0 }
             }
             
             const numPorts = row.num_ports || 1 // Default to 1 if no port count
             
             // Count charger levels
-            stateChargerMap[row.state][row.charger_type_detailed]++
+            stateChargerMap[stationState][row.charger_type_detailed]++
+            if (row.charger_type_detailed === 'dcfast') {
+                stateChargerMap[stationState].dcfast_weighted += getStationWeight(row)
+            }
+            if (row.is_24_7) stateChargerMap[stationState].public_24_7++
             
             // Count connector types and ports (each station counted once per category)
             const connectorTypes = row.ev_connector_types || []
             
             // Add to total port count
-            statePortMap[row.state].total += numPorts
+            statePortMap[stationState].total += numPorts
             
             if (connectorTypes.includes('TESLA')) {
-                stateConnectorMap[row.state].tesla++
-                statePortMap[row.state].tesla += numPorts
+                stateConnectorMap[stationState].tesla++
+                statePortMap[stationState].tesla += numPorts
             }
             // For non-Tesla: count station if it has ANY non-Tesla connector
             const hasNonTesla = connectorTypes.some((type: string) => 
                 ['J1772COMBO', 'J1772', 'CHADEMO'].includes(type)
             )
             if (hasNonTesla) {
-                stateConnectorMap[row.state].ccs++
-                statePortMap[row.state].ccs += numPorts
+                stateConnectorMap[stationState].ccs++
+                statePortMap[stationState].ccs += numPorts
             }
             // Keep individual counts for reference
             if (connectorTypes.includes('J1772') && !connectorTypes.includes('J1772COMBO')) {
-                stateConnectorMap[row.state].j1772++
-                statePortMap[row.state].j1772 += numPorts
+                stateConnectorMap[stationState].j1772++
+                statePortMap[stationState].j1772 += numPorts
             }
             if (connectorTypes.includes('CHADEMO')) {
-                stateConnectorMap[row.state].chademo++
-                statePortMap[row.state].chademo += numPorts
+                stateConnectorMap[stationState].chademo++
+                statePortMap[stationState].chademo += numPorts
             }
         }
 
@@ -154,13 +155,15 @@ export async function generateStateDataOptimized(
         // Process states with population data
         const stateData = []
         console.log('🌐 Fetching population data for all states...')
+        const demographicsFor = await loadRegionDemographics('state')
 
         for (const state of states) {
-            const chargers = stateChargerMap[state.code] || { dcfast: 0, level2: 0, level1: 0 }
+            const chargers = stateChargerMap[state.code] || { dcfast: 0, dcfast_weighted: 0, level2: 0, level1: 0, public_24_7: 0 }
             const connectors = stateConnectorMap[state.code] || { tesla: 0, ccs: 0, j1772: 0, chademo: 0 }
             const ports = statePortMap[state.code] || { tesla: 0, ccs: 0, j1772: 0, chademo: 0, total: 0 }
             
             const dcFast = chargers.dcfast || 0
+            const dcFastWeighted = chargers.dcfast_weighted || 0
             const level2 = chargers.level2 || 0
             const level1 = chargers.level1 || 0
             const totalChargers = dcFast + level2 + level1
@@ -168,11 +171,7 @@ export async function generateStateDataOptimized(
             const population = await fetchStatePopulation(state.code)
             const needScore = calculateNeedScore(population, totalChargers)
 
-            // Weighted scoring: DC Fast = 1.0x, Level 2 = 0.7x, Level 1 = 0.3x
-            const weightedChargerCount = dcFast * 1.0 + level2 * 0.7 + level1 * 0.3
-            const score = calculateWeightedEVScore(weightedChargerCount, population)
-
-            stateData.push({
+            stateData.push(withRegionScore({
                 state_name: state.name,
                 center_lat: state.lat,
                 center_lng: state.lng,
@@ -181,6 +180,8 @@ export async function generateStateDataOptimized(
                 level1_count: level1,
                 level2_count: level2,
                 dcfast_count: dcFast,
+                dcfast_weighted: dcFastWeighted,
+                public_24_7_count: chargers.public_24_7 || 0,
                 tesla_count: connectors.tesla,
                 ccs_count: connectors.ccs,
                 j1772_count: connectors.j1772,
@@ -191,14 +192,22 @@ export async function generateStateDataOptimized(
                 chademo_ports: ports.chademo,
                 total_ports: ports.total,
                 need_score: needScore,
-                ev_infrastructure_score: score,
+                ...demographicsFor(state.code),
                 zoom_range: '0-4'
-            })
+            }))
+        }
+
+        if (stateCodes) {
+            const { error: deleteError } = await db
+                .from(tableName)
+                .delete()
+                .in('state_name', states.map((state) => state.name))
+            if (deleteError) throw deleteError
         }
 
         // Batch insert
         console.log(`💾 Inserting ${stateData.length} states...`)
-        const { error: insertError } = await supabaseAdmin
+        const { error: insertError } = await db
             .from(tableName)
             .insert(stateData)
 
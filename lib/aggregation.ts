@@ -1,16 +1,16 @@
-import { supabaseAdmin } from './supabase'
-import { calculateDistance } from './scoring'
+import { db } from './data-store'
 import { calculateNeedScore } from './scoring'
+import {
+    PROXIMITY_SCORE_MODEL,
+    scoreProximity,
+    withRegionScore
+} from './score-engine'
 import {
     estimateNeighborhoodPopulation,
     fetchStatePopulation
 } from './census-api'
-
-interface ChargingStation {
-    latitude: number
-    longitude: number
-    charger_type: string
-}
+import { loadRegionDemographics } from './equity'
+import { getStationIndex, stationsWithinRadius } from './station-index'
 
 // Generate neighborhood grid cells (2mi x 2mi grid across US)
 export async function generateNeighborhoodData(): Promise<number> {
@@ -28,14 +28,7 @@ export async function generateNeighborhoodData(): Promise<number> {
     const gridSize = 0.029
     let inserted = 0
 
-    // Fetch all charging stations
-    const { data: stations } = await supabaseAdmin
-        .from('charging_stations')
-        .select('latitude, longitude, charger_type')
-
-    if (!stations) {
-        throw new Error('Failed to fetch charging stations')
-    }
+    const index = await getStationIndex()
 
     const neighborhoods = []
 
@@ -45,63 +38,31 @@ export async function generateNeighborhoodData(): Promise<number> {
             const centerLat = lat + gridSize / 2
             const centerLng = lng + gridSize / 2
 
+            // Chargers within 10 miles, nearest first, from the grid index
+            const within10 = stationsWithinRadius(index, centerLat, centerLng, 10)
+
             // Count nearby chargers (within ~3 miles)
-            const nearbyChargers = stations.filter((s: ChargingStation) => {
-                const distance = calculateDistance(
-                    centerLat,
-                    centerLng,
-                    s.latitude,
-                    s.longitude
-                )
-                return distance <= 3
-            })
+            const nearbyChargers = within10.filter((s) => s.distance <= 3)
 
             // Skip empty grid cells
             if (nearbyChargers.length === 0) continue
 
             // Count chargers at different distances
-            const within1mi = nearbyChargers.filter(
-                (s: ChargingStation) =>
-                    calculateDistance(
-                        centerLat,
-                        centerLng,
-                        s.latitude,
-                        s.longitude
-                    ) <= 1
-            ).length
-
-            const within5mi = stations.filter(
-                (s: ChargingStation) =>
-                    calculateDistance(
-                        centerLat,
-                        centerLng,
-                        s.latitude,
-                        s.longitude
-                    ) <= 5
-            ).length
-
-            const within10mi = stations.filter(
-                (s: ChargingStation) =>
-                    calculateDistance(
-                        centerLat,
-                        centerLng,
-                        s.latitude,
-                        s.longitude
-                    ) <= 10
-            ).length
+            const within1mi = nearbyChargers.filter((s) => s.distance <= 1).length
+            const within5mi = within10.filter((s) => s.distance <= 5).length
+            const within10mi = within10.length
 
             const fastChargers = nearbyChargers.filter(
-                (s: ChargingStation) => s.charger_type === 'dcfast'
+                (s) => s.charger_type === 'dcfast'
             ).length
 
             // Calculate EV Infrastructure Score
-            const score = Math.min(
-                20 + // Base score
-                    within1mi * 3 +
-                    Math.min(within5mi, 20) +
-                    fastChargers * 2,
-                100
-            )
+            const score = scoreProximity({
+                within1mi,
+                within5mi,
+                within10mi,
+                dcfastWithin10mi: fastChargers
+            })
 
             const population = estimateNeighborhoodPopulation()
             const needScore = calculateNeedScore(
@@ -118,6 +79,7 @@ export async function generateNeighborhoodData(): Promise<number> {
                 charger_count: nearbyChargers.length,
                 need_score: needScore,
                 ev_infrastructure_score: score,
+                scoring_model_version: PROXIMITY_SCORE_MODEL,
                 chargers_within_1mi: within1mi,
                 chargers_within_5mi: within5mi,
                 chargers_within_10mi: within10mi,
@@ -131,7 +93,7 @@ export async function generateNeighborhoodData(): Promise<number> {
 
             // Batch insert every 1000 neighborhoods
             if (neighborhoods.length >= 1000) {
-                const { error } = await supabaseAdmin
+                const { error } = await db
                     .from('neighborhood_level_data')
                     .insert(neighborhoods)
 
@@ -149,7 +111,7 @@ export async function generateNeighborhoodData(): Promise<number> {
 
     // Insert remaining neighborhoods
     if (neighborhoods.length > 0) {
-        const { error } = await supabaseAdmin
+        const { error } = await db
             .from('neighborhood_level_data')
             .insert(neighborhoods)
 
@@ -227,22 +189,23 @@ export async function generateStateData(
     ]
 
     const stateData = []
+    const demographicsFor = await loadRegionDemographics('state')
 
     for (const state of states) {
         // Count each charger type separately
-        const { count: dcfastCount } = await supabaseAdmin
+        const { count: dcfastCount } = await db
             .from(stationsTable)
             .select('*', { count: 'exact', head: true })
             .eq('state', state.code)
             .eq('charger_type_detailed', 'dcfast')
 
-        const { count: level2Count } = await supabaseAdmin
+        const { count: level2Count } = await db
             .from(stationsTable)
             .select('*', { count: 'exact', head: true })
             .eq('state', state.code)
             .eq('charger_type_detailed', 'level2')
 
-        const { count: level1Count } = await supabaseAdmin
+        const { count: level1Count } = await db
             .from(stationsTable)
             .select('*', { count: 'exact', head: true })
             .eq('state', state.code)
@@ -256,11 +219,7 @@ export async function generateStateData(
         const population = await fetchStatePopulation(state.code)
         const needScore = calculateNeedScore(population, totalChargers)
 
-        // Weighted scoring: DC Fast = 1.0x, Level 2 = 0.7x, Level 1 = 0.3x
-        const weightedChargerCount = dcFast * 1.0 + level2 * 0.7 + level1 * 0.3
-        const score = calculateWeightedEVScore(weightedChargerCount, population)
-
-        stateData.push({
+        stateData.push(withRegionScore({
             state_name: state.name,
             center_lat: state.lat,
             center_lng: state.lng,
@@ -270,12 +229,12 @@ export async function generateStateData(
             level2_count: level2,
             dcfast_count: dcFast,
             need_score: needScore,
-            ev_infrastructure_score: score,
+            ...demographicsFor(state.code),
             zoom_range: '0-4'
-        })
+        }))
     }
 
-    const { error } = await supabaseAdmin.from(tableName).insert(stateData)
+    const { error } = await db.from(tableName).insert(stateData)
 
     if (error) {
         console.error('Error inserting states:', error)
@@ -285,27 +244,3 @@ export async function generateStateData(
     console.log(`Completed: ${stateData.length} states`)
     return stateData.length
 }
-
-function calculateWeightedEVScore(
-    weightedChargerCount: number,
-    population: number
-): number {
-    const chargersPerCapita = (weightedChargerCount / population) * 100000
-
-    let score: number
-    if (chargersPerCapita >= 60) {
-        score = 80 + Math.min(((chargersPerCapita - 60) / 40) * 20, 20)
-    } else if (chargersPerCapita >= 40) {
-        score = 70 + ((chargersPerCapita - 40) / 20) * 10
-    } else if (chargersPerCapita >= 25) {
-        score = 55 + ((chargersPerCapita - 25) / 15) * 15
-    } else if (chargersPerCapita >= 15) {
-        score = 40 + ((chargersPerCapita - 15) / 10) * 15
-    } else if (chargersPerCapita >= 8) {
-        score = 25 + ((chargersPerCapita - 8) / 7) * 15
-    } else {
-        score = (chargersPerCapita / 8) * 25
-    }
-
-    return Math.round(Math.min(100, Math.max(0, score)))
-}
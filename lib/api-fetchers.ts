@@ -103,3 +103,47 @@ export async function fetchNRELChargingStations(
         return null
     }
 }
+
+// Driving directions: Fetch the road geometry between two points
+export async function fetchDrivingRoute(
+    origin: { latitude: number; longitude: number },
+    destination: { latitude: number; longitude: number }
+): Promise<{
+    coordinates: [number, number][]
+    distance_miles: number
+    duration_minutes: number
+} | null> {
+    const mapboxToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+
+    if (!mapboxToken) {
+        console.error('Mapbox token not configured')
+        return null
+    }
+
+    try {
+        const waypoints = `${origin.longitude},${origin.latitude};${destination.longitude},${destination.latitude}`
+        const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${waypoints}?geometries=geojson&overview=full&access_token=${mapboxToken}`
+
+        const response = await fetch(url)
+
+        if (!response.ok) {
+            throw new Error(`Directions failed: ${response.status}`)
+        }
+
+        const data = await response.json()
+
+        if (data.routes && data.routes.length > 0) {
+            const route = data.routes[0]
+            return {
+                coordinates: route.geometry.coordinates,
+                distance_miles: route.distance / 1609.344,
+                duration_minutes: route.duration / 60
+            }
+        }
+
+        return null
+    } catch (error) {
+        console.error('Directions error:', error)
+        return null
+    }
+}
@@ -0,0 +1,235 @@
+import crypto from 'crypto'
+import { db } from './data-store'
+import { logError } from './error-handling'
+
+/**
+ * Issued API keys for server-to-server callers. A request carrying a key in
+ * the x-api-key header is metered against that key's per-minute rate limit
+ * and monthly quota in the database, instead of the per-IP limiter in
+ * lib/rate-limit.ts, so limits hold across instances and restarts.
+ */
+
+export interface ApiKey {
+    id: string
+    name: string
+    // Start of the key, to tell keys apart; only its hash is stored
+    key_prefix: string
+    rate_limit_per_minute: number
+    monthly_quota: number
+    created_by: string
+    created_at: string
+    last_used_at: string | null
+    revoked_at: string | null
+}
+
+export interface ApiKeyUsageMonth {
+    // First day of the UTC month, YYYY-MM-DD
+    month: string
+    requests: number
+    rejected: number
+}
+
+export type ApiKeyListing = ApiKey & { current_month: ApiKeyUsageMonth }
+
+export type MeterStatus = 'ok' | 'invalid' | 'revoked' | 'rate_limited' | 'quota_exceeded'
+
+export interface ApiKeyMeter {
+    api_key_id: string | null
+    status: MeterStatus
+    // Null unless the key was found and not revoked
+    rate_limit: number | null
+    window_used: number | null
+    window_reset: string | null
+    quota: number | null
+    quota_used: number | null
+}
+
+export interface ApiKeyCheck {
+    meter: ApiKeyMeter | null
+    // Set when the request must be turned away
+    rejection: { status: number; error: string } | null
+    headers: Record<string, string>
+}
+
+export const API_KEY_HEADER = 'x-api-key'
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 300
+export const DEFAULT_MONTHLY_QUOTA = 1_000_000
+
+const KEY_PREFIX = 'cic_'
+const DISPLAY_PREFIX_LENGTH = 12
+const API_KEY_COLUMNS =
+    'id, name, key_prefix, rate_limit_per_minute, monthly_quota, created_by, created_at, last_used_at, revoked_at'
+
+const REJECTIONS: Record<Exclude<MeterStatus, 'ok'>, { status: number; error: string }> = {
+    invalid: { status: 401, error: 'Invalid API key' },
+    revoked: { status: 403, error: 'API key has been revoked' },
+    rate_limited: { status: 429, error: 'Too many requests for this API key. Please try again later.' },
+    quota_exceeded: { status: 429, error: 'Monthly quota exceeded for this API key' }
+}
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function getRequestApiKey(request: Request): string | null {
+    return request.headers.get(API_KEY_HEADER)?.trim() || null
+}
+
+// Usage is counted per UTC month, keyed by its first day
+export function currentMonth(): string {
+    return `${new Date().toISOString().slice(0, 7)}-01`
+}
+
+/**
+ * Issue a key. The plaintext key is only ever returned here.
+ */
+export async function createApiKey({
+    name,
+    rateLimitPerMinute = DEFAULT_RATE_LIMIT_PER_MINUTE,
+    monthlyQuota = DEFAULT_MONTHLY_QUOTA,
+    createdBy
+}: {
+    name: string
+    rateLimitPerMinute?: number
+    monthlyQuota?: number
+    createdBy: string
+}): Promise<{ key: string; api_key: ApiKey }> {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+    const { data, error } = await db
+        .from('api_keys')
+        .insert({
+            name,
+            key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+            key_hash: hashApiKey(key),
+            rate_limit_per_minute: rateLimitPerMinute,
+            monthly_quota: monthlyQuota,
+            created_by: createdBy,
+            created_at: new Date().toISOString()
+        })
+        .select(API_KEY_COLUMNS)
+        .single()
+    if (error) throw error
+    return { key, api_key: data }
+}
+
+/**
+ * Every key, newest first, with this month's usage
+ */
+export async function listApiKeys(): Promise<ApiKeyListing[]> {
+    const month = currentMonth()
+    const [keys, usage] = await Promise.all([
+        db.from('api_keys').select(API_KEY_COLUMNS).order('created_at', { ascending: false }),
+        db.from('api_key_usage').select('key_id, month, requests, rejected').eq('month', month)
+    ])
+    if (keys.error) throw keys.error
+    if (usage.error) throw usage.error
+
+    const usageByKey = new Map(
+        (usage.data || []).map((row: ApiKeyUsageMonth & { key_id: string }) => [row.key_id, row])
+    )
+    return (keys.data || []).map((key: ApiKey) => {
+        const row = usageByKey.get(key.id)
+        return {
+            ...key,
+            current_month: { month, requests: row?.requests ?? 0, rejected: row?.rejected ?? 0 }
+        }
+    })
+}
+
+/**
+ * Revoke a key; it is rejected from the next request on. Null if no key
+ * has that id.
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+    const { data, error } = await db
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('revoked_at', null)
+        .select(API_KEY_COLUMNS)
+    if (error) throw error
+    if (data && data.length > 0) return data[0]
+
+    // Already revoked, or no such key
+    const { data: existing, error: existingError } = await db
+        .from('api_keys')
+        .select(API_KEY_COLUMNS)
+        .eq('id', id)
+        .maybeSingle()
+    if (existingError) throw existingError
+    return existing
+}
+
+/**
+ * Count `cost` requests against a key if its rate limit and quota allow
+ */
+export async function meterApiKey(key: string, cost: number = 1): Promise<ApiKeyMeter> {
+    const { data, error } = await db.rpc('meter_api_key', {
+        p_key_hash: hashApiKey(key),
+        p_cost: cost
+    })
+    if (error) throw error
+    return data[0]
+}
+
+function meterHeaders(meter: ApiKeyMeter): Record<string, string> {
+    if (meter.rate_limit === null) return {}
+    return {
+        'X-RateLimit-Limit': meter.rate_limit.toString(),
+        'X-RateLimit-Remaining': Math.max(0, meter.rate_limit - meter.window_used!).toString(),
+        'X-RateLimit-Reset': meter.window_reset!,
+        'X-Quota-Limit': meter.quota!.toString(),
+        'X-Quota-Remaining': Math.max(0, meter.quota! - meter.quota_used!).toString()
+    }
+}
+
+/**
+ * Meter the request's API key. Null when it carries none, so the caller
+ * falls back to the per-IP limiter.
+ */
+export async function checkApiKey(request: Request, cost: number = 1): Promise<ApiKeyCheck | null> {
+    const key = getRequestApiKey(request)
+    if (!key) return null
+
+    try {
+        const meter = await meterApiKey(key, cost)
+        return {
+            meter,
+            rejection: meter.status === 'ok' ? null : REJECTIONS[meter.status],
+            headers: meterHeaders(meter)
+        }
+    } catch (error) {
+        // Fail closed: an unmetered key could run past its quota
+        logError(error, 'api-keys.meter')
+        return {
+            meter: null,
+            rejection: { status: 503, error: 'Unable to verify API key. Please try again later.' },
+            headers: {}
+        }
+    }
+}
+
+/**
+ * A key's settings and monthly usage, newest month first. Null for an
+ * unknown key.
+ */
+export async function getApiKeyUsage(
+    key: string
+): Promise<{ api_key: ApiKey; months: ApiKeyUsageMonth[] } | null> {
+    const { data: apiKey, error } = await db
+        .from('api_keys')
+        .select(API_KEY_COLUMNS)
+        .eq('key_hash', hashApiKey(key))
+        .maybeSingle()
+    if (error) throw error
+    if (!apiKey) return null
+
+    const { data: months, error: usageError } = await db
+        .from('api_key_usage')
+        .select('month, requests, rejected')
+        .eq('key_id', apiKey.id)
+        .order('month', { ascending: false })
+    if (usageError) throw usageError
+
+    return { api_key: apiKey, months: months || [] }
+}
@@ -43,6 +43,13 @@ export const GeocodeResponseSchema = z.object({
 export const EVScoreResponseSchema = z.object({
   success: z.boolean(),
   score: z.number(),
+  scoring_model: z.string(),
+  score_breakdown: z.object({
+    proximity: z.number(),
+    speed: z.number(),
+    capacity: z.number(),
+    compatibility: z.number()
+  }),
   location: z.string(),
   latitude: z.number(),
   longitude: z.number(),
@@ -55,8 +62,11 @@ export const EVScoreResponseSchema = z.object({
   region: z.object({
     name: z.string(),
     type: z.string(),
+    key: z.string().nullable(),
     population: z.number().nullable(),
-    distance: z.number()
+    distance: z.number(),
+    score: z.number(),
+    scoring_model: z.string()
   }),
   chargers: z.object({
     within_1_mile: z.number(),
@@ -73,6 +83,19 @@ export const EVScoreResponseSchema = z.object({
       address: z.string()
     }).nullable()
   }),
+  coverage: z.object({
+    mode: z.enum(['drive_time', 'straight_line']),
+    within_5_minutes: z.number(),
+    within_10_minutes: z.number(),
+    within_15_minutes: z.number(),
+    nearest_minutes: z.number().nullable()
+  }),
+  vehicle: z.object({
+    id: z.string(),
+    name: z.string(),
+    adapters: z.array(z.string()),
+    usable_connectors: z.array(z.string())
+  }).nullable().optional(),
   // Legacy fields
   nearest_charger_distance: z.number().nullable(),
   chargers_1mi: z.number(),
@@ -82,11 +105,134 @@ export const EVScoreResponseSchema = z.object({
   fast_charger_percentage: z.number()
 })
 
+// Batch scoring: one flat row per input so results also serialize to CSV
+export const BatchScoreResultSchema = z.object({
+  row: z.number(),
+  id: z.string().nullable(),
+  input: z.string(),
+  status: z.enum(['ok', 'error']),
+  score: z.number().optional(),
+  scoring_model: z.string().optional(),
+  regional_score: z.number().optional(),
+  location: z.string().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  region_name: z.string().optional(),
+  region_type: z.string().optional(),
+  chargers_within_1_mile: z.number().optional(),
+  chargers_within_5_miles: z.number().optional(),
+  chargers_within_10_miles: z.number().optional(),
+  chargers_within_10_minutes: z.number().optional(),
+  dcfast_count: z.number().optional(),
+  level2_count: z.number().optional(),
+  nearest_charger_distance: z.number().nullable().optional(),
+  error: z.string().optional()
+})
+
+export const BatchScoreResponseSchema = z.object({
+  success: z.boolean(),
+  total: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(BatchScoreResultSchema)
+})
+
+// Route score schemas
+const RouteEndpointSchema = z.object({
+  label: z.string(),
+  latitude: z.number(),
+  longitude: z.number()
+})
+
+export const RouteScoreResponseSchema = z.object({
+  success: z.boolean(),
+  origin: RouteEndpointSchema,
+  destination: RouteEndpointSchema,
+  distance_miles: z.number(),
+  duration_minutes: z.number().nullable(),
+  route_source: z.enum(['mapbox', 'straight_line']),
+  range_miles: z.number(),
+  corridor_miles: z.number(),
+  feasible: z.boolean(),
+  score: z.number(),
+  chargers_in_corridor: z.number(),
+  gaps: z.array(z.object({
+    start_mile: z.number(),
+    end_mile: z.number(),
+    length_miles: z.number(),
+    shortfall_miles: z.number(),
+    from: z.string(),
+    to: z.string()
+  })),
+  suggested_stops: z.array(z.object({
+    name: z.string(),
+    address: z.string(),
+    network: z.string().nullable(),
+    latitude: z.number(),
+    longitude: z.number(),
+    route_mile: z.number(),
+    offset_miles: z.number(),
+    leg_miles: z.number()
+  }))
+})
+
+// Region history schemas
+export const HistoryResponseSchema = z.object({
+  success: z.boolean(),
+  region: z.object({
+    type: z.enum(['state', 'county', 'zip']),
+    key: z.string()
+  }),
+  days: z.number(),
+  points: z.array(z.object({
+    snapshot_date: z.string(),
+    charger_count: z.number(),
+    total_ports: z.number(),
+    dcfast_count: z.number(),
+    level2_count: z.number(),
+    level1_count: z.number(),
+    ev_infrastructure_score: z.number()
+  })),
+  change: z.object({
+    charger_count: z.number(),
+    total_ports: z.number(),
+    ev_infrastructure_score: z.number()
+  }).nullable()
+})
+
+// Station change feed schemas
+export const ChangesResponseSchema = z.object({
+  success: z.boolean(),
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  has_more: z.boolean(),
+  changes: z.array(z.object({
+    id: z.string(),
+    external_id: z.number(),
+    change_type: z.enum(['added', 'removed', 'modified']),
+    detected_at: z.string(),
+    name: z.string().nullable(),
+    address: z.string().nullable(),
+    network: z.string().nullable(),
+    state: z.string().nullable(),
+    zip: z.string().nullable(),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+    charger_type_detailed: z.string().nullable(),
+    ev_connector_types: z.array(z.string()).nullable(),
+    num_ports: z.number().nullable(),
+    max_power_kw: z.number().nullable()
+  }))
+})
+
 // Refresh data schemas
 export const RefreshDataResponseSchema = z.object({
   success: z.boolean(),
   duration_seconds: z.number().optional(),
   stations_fetched: z.number().optional(),
+  stations_by_source: z.record(z.string(), z.number()).optional(),
+  duplicates_merged: z.number().optional(),
   stations_inserted: z.number().optional(),
   states_generated: z.number().optional(),
   logs: z.array(z.string()).optional(),
@@ -102,13 +248,69 @@ export const AggregationResponseSchema = z.object({
   errors: z.array(z.string()).optional()
 })
 
+// OCPI 2.2 Locations module
+export const OCPIConnectorSchema = z.object({
+  id: z.string().max(36),
+  standard: z.string(),
+  format: z.enum(['SOCKET', 'CABLE']),
+  power_type: z.enum(['AC_1_PHASE', 'AC_2_PHASE', 'AC_2_PHASE_SPLIT', 'AC_3_PHASE', 'DC']),
+  max_voltage: z.number().int(),
+  max_amperage: z.number().int(),
+  max_electric_power: z.number().int().optional(),
+  last_updated: z.string()
+})
+
+export const OCPIEvseSchema = z.object({
+  uid: z.string().max(36),
+  status: z.enum(['AVAILABLE', 'BLOCKED', 'CHARGING', 'INOPERATIVE', 'OUTOFORDER', 'PLANNED', 'REMOVED', 'RESERVED', 'UNKNOWN']),
+  connectors: z.array(OCPIConnectorSchema).min(1),
+  last_updated: z.string()
+})
+
+export const OCPILocationSchema = z.object({
+  country_code: z.string().length(2),
+  party_id: z.string().length(3),
+  id: z.string().max(36),
+  publish: z.boolean(),
+  name: z.string().max(255).optional(),
+  address: z.string().max(45),
+  city: z.string().max(45),
+  postal_code: z.string().max(10).optional(),
+  state: z.string().max(20).optional(),
+  country: z.string().length(3),
+  coordinates: z.object({
+    latitude: z.string().regex(/^-?[0-9]{1,2}\.[0-9]{5,7}$/),
+    longitude: z.string().regex(/^-?[0-9]{1,3}\.[0-9]{5,7}$/)
+  }),
+  operator: z.object({ name: z.string().max(100) }).optional(),
+  evses: z.array(OCPIEvseSchema),
+  time_zone: z.string(),
+  opening_times: z.object({ twentyfourseven: z.boolean() }).optional(),
+  last_updated: z.string()
+})
+
+export const OCPIResponseSchema = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    data,
+    status_code: z.number(),
+    status_message: z.string().optional(),
+    timestamp: z.string()
+  })
+
 // Type exports
 export type ChargingStation = z.infer<typeof ChargingStationSchema>
 export type ChargingDataResponse = z.infer<typeof ChargingDataResponseSchema>
 export type GeocodeResponse = z.infer<typeof GeocodeResponseSchema>
 export type EVScoreResponse = z.infer<typeof EVScoreResponseSchema>
+export type RouteScoreResponse = z.infer<typeof RouteScoreResponseSchema>
+export type BatchScoreResult = z.infer<typeof BatchScoreResultSchema>
+export type HistoryResponse = z.infer<typeof HistoryResponseSchema>
+export type ChangesResponse = z.infer<typeof ChangesResponseSchema>
 export type RefreshDataResponse = z.infer<typeof RefreshDataResponseSchema>
 export type AggregationResponse = z.infer<typeof AggregationResponseSchema>
+export type OCPIConnectorData = z.infer<typeof OCPIConnectorSchema>
+export type OCPIEvseData = z.infer<typeof OCPIEvseSchema>
+export type OCPILocationData = z.infer<typeof OCPILocationSchema>
 
 // Validation helpers
 export function validateResponse<T>(
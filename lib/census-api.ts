@@ -1,6 +1,9 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
+import { isLocalDataMode } from './env-validation'
 
-const CENSUS_API_KEY = process.env.CENSUS_API_KEY
+// Local data mode never calls the Census API: populations come from the
+// fixture rows seeded into population_cache, everything else is estimated
+const CENSUS_API_KEY = isLocalDataMode ? undefined : process.env.CENSUS_API_KEY
 const CENSUS_BASE_URL = 'https://api.census.gov/data'
 const FETCH_TIMEOUT = 5000 // 5 second timeout
 
@@ -28,6 +31,10 @@ function delay(ms: number) {
 }
 
 export async function fetchZipPopulation(zipCode: string): Promise<number> {
+    if (isLocalDataMode) {
+        return (await getPopulationFromCache('zip', zipCode)) ?? estimateZipPopulation()
+    }
+
     if (!CENSUS_API_KEY) {
         console.warn('Census API key not found, using estimate')
         return Math.floor(Math.random() * 40000) + 5000
@@ -82,6 +89,8 @@ export async function fetchStatePopulation(stateCode: string): Promise<number> {
         return cached
     }
 
+    if (isLocalDataMode) return getStatePopulationEstimate(stateCode)
+
     // Try to fetch from Census API with timeout
     console.log(`Fetching population from Census API for state ${stateCode}`)
 
@@ -136,6 +145,8 @@ export async function fetchCountyPopulation(
         return cached
     }
 
+    if (isLocalDataMode) return estimateCountyPopulation()
+
     try {
         const year = 2022
         const url = `${CENSUS_BASE_URL}/${year}/acs/acs5?get=B01003_001E,NAME&for=county:${countyFIPS}&in=state:${stateFIPS}&key=${CENSUS_API_KEY}`
@@ -172,6 +183,13 @@ export async function fetchCountyPopulation(
 // Parallel function for ZIP populations - uses individual calls but in parallel for speed + accuracy
 export async function fetchZipPopulationBatch(zipCodes: string[]): Promise<Map<string, number>> {
     const results = new Map<string, number>()
+
+    if (isLocalDataMode) {
+        for (const zipCode of zipCodes) {
+            results.set(zipCode, await fetchZipPopulation(zipCode))
+        }
+        return results
+    }
     
     if (!CENSUS_API_KEY) {
         console.warn('Census API key not found, using estimates for batch')
@@ -230,6 +248,153 @@ export async function fetchZipPopulationBatch(zipCodes: string[]): Promise<Map<s
     return results
 }
 
+export type CensusAreaLevel = 'tract' | 'block_group'
+
+/**
+ * ACS population for every tract or block group in a state, keyed by GEOID
+ * (11 digits for tracts, 12 for block groups). Empty when the Census API is
+ * unavailable; callers fall back to estimates.
+ */
+export async function fetchCensusAreaPopulations(
+    level: CensusAreaLevel,
+    stateCode: string
+): Promise<Map<string, number>> {
+    const results = new Map<string, number>()
+
+    if (!CENSUS_API_KEY) {
+        console.warn('Census API key not found, using estimates for census areas')
+        return results
+    }
+
+    const stateFIPS = getStateFIPSCode(stateCode)
+    const geography =
+        level === 'tract'
+            ? `for=tract:*&in=state:${stateFIPS}`
+            : `for=block%20group:*&in=state:${stateFIPS}&in=county:*&in=tract:*`
+
+    try {
+        const year = 2022
+        const url = `${CENSUS_BASE_URL}/${year}/acs/acs5?get=B01003_001E&${geography}&key=${CENSUS_API_KEY}`
+
+        // One response covers the whole state, so allow longer than usual
+        const response = await fetchWithTimeout(url, FETCH_TIMEOUT * 6)
+
+        if (!response.ok) {
+            throw new Error(`Census API returned ${response.status}`)
+        }
+
+        // Header row, then [population, state, county, tract(, block group)]
+        const data: string[][] = await response.json()
+        for (const row of data.slice(1)) {
+            const population = parseInt(row[0])
+            if (!isNaN(population) && population >= 0) {
+                results.set(row.slice(1).join(''), population)
+            }
+        }
+
+        console.log(`✓ Fetched ${results.size} ${level} populations for ${stateCode}`)
+    } catch (error) {
+        console.warn(
+            `Census API failed for ${stateCode} ${level} populations, using estimates:`,
+            error instanceof Error ? error.message : 'Unknown error'
+        )
+    }
+
+    return results
+}
+
+export type HousingProfileLevel = 'state' | 'county' | 'zip' | CensusAreaLevel
+
+// Who can charge at home: income, tenure and building type from ACS 5-Year
+export interface HousingProfile {
+    median_household_income: number | null
+    renter_share: number | null // Renter-occupied share of occupied units
+    multifamily_share: number | null // Share of housing units in 2+ unit buildings
+}
+
+const HOUSING_PROFILE_VARIABLES = [
+    'B19013_001E', // Median household income
+    'B25003_001E', // Occupied housing units
+    'B25003_003E', // Renter occupied
+    'B25024_001E', // Housing units by units in structure
+    'B25024_002E', // 1, detached
+    'B25024_003E', // 1, attached
+    'B25024_010E', // Mobile home
+    'B25024_011E' // Boat, RV, van
+]
+
+function housingProfileGeography(level: HousingProfileLevel, stateCode?: string): string {
+    const inState = stateCode ? `&in=state:${getStateFIPSCode(stateCode)}` : ''
+    switch (level) {
+        case 'state':
+            return 'for=state:*'
+        case 'county':
+            return `for=county:*${inState}`
+        case 'zip':
+            return 'for=zip%20code%20tabulation%20area:*'
+        case 'tract':
+            return `for=tract:*${inState}`
+        case 'block_group':
+            return `for=block%20group:*${inState}&in=county:*&in=tract:*`
+    }
+}
+
+/**
+ * ACS housing profile for every region at a level, keyed by concatenated
+ * FIPS codes (state "06", county "06001", ZCTA, or tract/block-group GEOID).
+ * Tract and block-group requests need a state. Empty when the Census API is
+ * unavailable.
+ */
+export async function fetchHousingProfiles(
+    level: HousingProfileLevel,
+    stateCode?: string
+): Promise<Map<string, HousingProfile>> {
+    const results = new Map<string, HousingProfile>()
+
+    if (!CENSUS_API_KEY) {
+        console.warn('Census API key not found, skipping housing profiles')
+        return results
+    }
+
+    try {
+        const year = 2022
+        const url = `${CENSUS_BASE_URL}/${year}/acs/acs5?get=${HOUSING_PROFILE_VARIABLES.join(
+            ','
+        )}&${housingProfileGeography(level, stateCode)}&key=${CENSUS_API_KEY}`
+
+        const response = await fetchWithTimeout(url, FETCH_TIMEOUT * 6)
+
+        if (!response.ok) {
+            throw new Error(`Census API returned ${response.status}`)
+        }
+
+        // Header row, then the variables in order followed by the geography columns
+        const data: string[][] = await response.json()
+        for (const row of data.slice(1)) {
+            const [income, occupied, renters, units, detached, attached, mobile, other] = row
+                .slice(0, HOUSING_PROFILE_VARIABLES.length)
+                .map((value) => parseInt(value))
+            const singleFamily = detached + attached + mobile + other
+
+            results.set(row.slice(HOUSING_PROFILE_VARIABLES.length).join(''), {
+                // ACS marks suppressed medians with large negative sentinels
+                median_household_income: income > 0 ? income : null,
+                renter_share: occupied > 0 ? renters / occupied : null,
+                multifamily_share: units > 0 ? Math.max(0, 1 - singleFamily / units) : null
+            })
+        }
+
+        console.log(`✓ Fetched ${results.size} ${level} housing profiles`)
+    } catch (error) {
+        console.warn(
+            `Census API failed for ${level} housing profiles:`,
+            error instanceof Error ? error.message : 'Unknown error'
+        )
+    }
+
+    return results
+}
+
 // Estimate functions (used as fallbacks)
 export function estimateCountyPopulation(): number {
     return 50000
@@ -243,13 +408,17 @@ export function estimateNeighborhoodPopulation(): number {
     return 2500
 }
 
+export function estimateCensusAreaPopulation(level: CensusAreaLevel): number {
+    return level === 'tract' ? 4000 : 1500
+}
+
 // Cache management
 async function getPopulationFromCache(
     regionType: string,
     regionCode: string
 ): Promise<number | null> {
     try {
-        const { data, error } = await supabaseAdmin
+        const { data, error } = await db
             .from('population_cache')
             .select('population, fetched_at')
             .eq('region_type', regionType)
@@ -263,7 +432,8 @@ async function getPopulationFromCache(
         const cacheAge = Date.now() - new Date(data.fetched_at).getTime()
         const thirtyDays = 30 * 24 * 60 * 60 * 1000
 
-        if (cacheAge > thirtyDays) {
+        // Fixture populations don't expire
+        if (cacheAge > thirtyDays && !isLocalDataMode) {
             console.log(`Cache expired for ${regionType} ${regionCode}`)
             return null
         }
@@ -282,7 +452,7 @@ async function savePopulationToCache(
     population: number
 ): Promise<void> {
     try {
-        await supabaseAdmin.from('population_cache').upsert(
+        await db.from('population_cache').upsert(
             {
                 region_type: regionType,
                 region_code: regionCode,
@@ -0,0 +1,174 @@
+import { db } from './data-store'
+import {
+    CensusAreaLevel,
+    estimateCensusAreaPopulation,
+    fetchCensusAreaPopulations
+} from './census-api'
+import { calculateNeedScore } from './scoring'
+import { withRegionScore } from './score-engine'
+import { isAggregatableStation } from './data-processor'
+import { getStateCodeFromFIPS } from './map-utils'
+import { summarizeStations } from './zip-aggregation'
+import { loadRegionDemographics } from './equity'
+import { getStationIndex, StationRow } from './station-index'
+
+export const CENSUS_AREA_TABLES: Record<CensusAreaLevel, string> = {
+    tract: 'tract_level_data',
+    block_group: 'block_group_level_data'
+}
+
+const ZOOM_RANGES: Record<CensusAreaLevel, string> = {
+    tract: '12-13',
+    block_group: '14+'
+}
+
+const PAGE_SIZE = 1000
+const INSERT_BATCH_SIZE = 500
+
+interface CensusArea {
+    geoid: string
+    center_lat: number
+    center_lng: number
+}
+
+export const ALL_STATE_CODES = Array.from({ length: 80 }, (_, fips) =>
+    getStateCodeFromFIPS(String(fips).padStart(2, '0'))
+).filter((code): code is string => !!code)
+
+async function fetchAllPages<T>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+    const rows: T[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+        if (error) throw error
+        rows.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) return rows
+    }
+}
+
+/**
+ * Rebuild one state's tract or block-group rows. Every area with an imported
+ * boundary gets a row, including those without chargers.
+ */
+async function generateStateCensusAreas(
+    level: CensusAreaLevel,
+    stateCode: string
+): Promise<number> {
+    const areas = await fetchAllPages<CensusArea>((from, to) =>
+        db
+            .from('census_area_geometries')
+            .select('geoid, center_lat, center_lng')
+            .eq('level', level)
+            .eq('state', stateCode)
+            .order('geoid')
+            .range(from, to)
+    )
+    if (areas.length === 0) return 0
+
+    // Point-in-polygon assignment happens in PostGIS
+    const assignments = await fetchAllPages<{ station_id: string; geoid: string }>(
+        (from, to) =>
+            db
+                .rpc('assign_stations_to_census_areas', {
+                    p_level: level,
+                    p_state: stateCode
+                })
+                .range(from, to)
+    )
+    const areaByStation = new Map(
+        assignments.map((assignment) => [assignment.station_id, assignment.geoid])
+    )
+
+    const { stations: indexedStations } = await getStationIndex()
+    const stations = indexedStations.filter((station) => station.state === stateCode)
+
+    const stationsByArea = new Map<string, StationRow[]>()
+    for (const station of stations) {
+        // Private fleet and temporarily unavailable chargers don't count
+        if (!isAggregatableStation(station)) continue
+        const geoid = areaByStation.get(station.id)
+        if (!geoid) continue
+        if (!stationsByArea.has(geoid)) stationsByArea.set(geoid, [])
+        stationsByArea.get(geoid)!.push(station)
+    }
+
+    const populations = await fetchCensusAreaPopulations(level, stateCode)
+    const demographicsFor = await loadRegionDemographics(level, stateCode)
+
+    const rows = areas.map((area) => {
+        const counts = summarizeStations(stationsByArea.get(area.geoid) || [])
+        const population =
+            populations.get(area.geoid) ?? estimateCensusAreaPopulation(level)
+
+        return withRegionScore({
+            geoid: area.geoid,
+            state: stateCode,
+            county_fips: area.geoid.slice(2, 5),
+            center_lat: area.center_lat,
+            center_lng: area.center_lng,
+            population,
+            ...counts,
+            need_score: calculateNeedScore(population, counts.charger_count),
+            ...demographicsFor(area.geoid),
+            zoom_range: ZOOM_RANGES[level]
+        })
+    })
+
+    // Upserted in place so the live map keeps the state's areas if a batch
+    // fails, then areas whose boundaries are no longer imported are dropped
+    const tableName = CENSUS_AREA_TABLES[level]
+    const existing = await fetchAllPages<{ geoid: string }>((from, to) =>
+        db
+            .from(tableName)
+            .select('geoid')
+            .eq('state', stateCode)
+            .order('geoid')
+            .range(from, to)
+    )
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error: upsertError } = await db
+            .from(tableName)
+            .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'geoid' })
+        if (upsertError) throw upsertError
+    }
+
+    const current = new Set(areas.map((area) => area.geoid))
+    const stale = existing.map((row) => row.geoid).filter((geoid) => !current.has(geoid))
+    for (let i = 0; i < stale.length; i += INSERT_BATCH_SIZE) {
+        const { error: deleteError } = await db
+            .from(tableName)
+            .delete()
+            .in('geoid', stale.slice(i, i + INSERT_BATCH_SIZE))
+        if (deleteError) throw deleteError
+    }
+
+    return rows.length
+}
+
+/**
+ * Generate tract or block-group data from production stations, replacing
+ * each state's rows. Defaults to every state; states without imported
+ * boundaries are skipped.
+ */
+export async function generateCensusAreaData(
+    level: CensusAreaLevel,
+    stateCodes: string[] = ALL_STATE_CODES
+): Promise<number> {
+    console.log(`Generating ${level}-level data for ${stateCodes.length} states...`)
+    const startTime = Date.now()
+    let total = 0
+
+    for (const stateCode of stateCodes) {
+        const count = await generateStateCensusAreas(level, stateCode)
+        if (count > 0) {
+            console.log(`✓ ${stateCode}: ${count} ${level} rows`)
+        }
+        total += count
+    }
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1)
+    console.log(`✓ Completed: ${total} ${level} rows in ${duration}s`)
+    return total
+}
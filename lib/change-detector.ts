@@ -1,4 +1,5 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
+import { getStationIndex, StationRow } from './station-index'
 
 export interface StationChange {
     station_id: number
@@ -17,8 +18,12 @@ export interface RegionChanges {
     counties: Set<string>
     zips: Set<string>
     total_changes: number
+    station_changes: StationChange[]
 }
 
+const STATION_DIFF_COLUMNS =
+    'external_id, name, address, network, latitude, longitude, state, zip, charger_type_detailed, ev_connector_types, num_ports, max_power_kw, access_code, status_code'
+
 /**
  * Detects changes in charging stations and determines which regions need updates
  */
@@ -31,41 +36,41 @@ export class ChangeDetector {
         return cleanZip && cleanZip.length === 5 ? cleanZip : null
     }
     /**
-     * Compare current stations with previous data to detect changes
+     * Diff the freshly fetched stations against production, keyed by NREL id.
+     * Returns no changes when production predates external_id, since every
+     * station would otherwise look both removed and re-added.
      */
-    static async detectChanges(useStaging: boolean = true): Promise<RegionChanges> {
-        console.log('🔍 Detecting station changes...')
-        
+    static async diffStations(useStaging: boolean = true): Promise<StationChange[]> {
         const currentTable = useStaging ? 'charging_stations_staging' : 'charging_stations'
-        const previousTable = useStaging ? 'charging_stations' : 'charging_stations_previous'
         
         // Get current stations (newly fetched)
-        const { data: currentStations, error: currentError } = await supabaseAdmin
+        const { data: currentStations, error: currentError } = await db
             .from(currentTable)
-            .select('id, name, latitude, longitude, state, zip, charger_type_detailed, ev_connector_types')
+            .select(STATION_DIFF_COLUMNS)
             .range(0, 999999)
             
         if (currentError) throw currentError
         
-        // Get previous stations (production data)
-        const { data: previousStations, error: previousError } = await supabaseAdmin
-            .from('charging_stations')
-            .select('id, name, latitude, longitude, state, zip, charger_type_detailed, ev_connector_types')
-            .range(0, 999999)
-            
-        if (previousError) throw previousError
+        // Get previous stations (production data) from the shared index,
+        // trimmed to the same columns as the fetched side
+        const diffColumns = STATION_DIFF_COLUMNS.split(', ')
+        const { stations: productionStations } = await getStationIndex()
+        const previousStations = productionStations.map((station) =>
+            Object.fromEntries(
+                diffColumns.map((column) => [column, station[column as keyof StationRow]])
+            ) as typeof currentStations[number]
+        )
+
+        if ((previousStations || []).length > 0 && !previousStations?.some(s => s.external_id)) {
+            console.log('ℹ️  Production stations have no external_id yet - skipping station diff')
+            return []
+        }
         
         // Create maps for efficient lookup
-        const currentMap = new Map(currentStations?.map(s => [s.id, s]) || [])
-        const previousMap = new Map(previousStations?.map(s => [s.id, s]) || [])
+        const currentMap = new Map(currentStations?.filter(s => s.external_id).map(s => [s.external_id, s]) || [])
+        const previousMap = new Map(previousStations?.filter(s => s.external_id).map(s => [s.external_id, s]) || [])
         
         const changes: StationChange[] = []
-        const affectedRegions: RegionChanges = {
-            states: new Set(),
-            counties: new Set(), 
-            zips: new Set(),
-            total_changes: 0
-        }
         
         // Find new stations
         for (const [id, station] of currentMap) {
@@ -79,12 +84,6 @@ export class ChangeDetector {
                     },
                     new_data: station
                 })
-                
-                affectedRegions.states.add(station.state)
-                if (station.zip) {
-                    const cleanZip = this.cleanZipCode(station.zip)
-                    if (cleanZip) affectedRegions.zips.add(cleanZip)
-                }
             }
         }
         
@@ -100,12 +99,6 @@ export class ChangeDetector {
                     },
                     old_data: station
                 })
-                
-                affectedRegions.states.add(station.state)
-                if (station.zip) {
-                    const cleanZip = this.cleanZipCode(station.zip)
-                    if (cleanZip) affectedRegions.zips.add(cleanZip)
-                }
             }
         }
         
@@ -123,18 +116,42 @@ export class ChangeDetector {
                     old_data: previous,
                     new_data: current
                 })
-                
-                affectedRegions.states.add(current.state)
-                if (current.zip) {
-                    const cleanZip = this.cleanZipCode(current.zip)
-                    if (cleanZip) affectedRegions.zips.add(cleanZip)
-                }
-                
-                // If station moved states/zips, mark old ones too
-                if (previous.state !== current.state) {
+            }
+        }
+
+        return changes
+    }
+
+    /**
+     * Compare current stations with previous data to detect changes
+     */
+    static async detectChanges(useStaging: boolean = true): Promise<RegionChanges> {
+        console.log('🔍 Detecting station changes...')
+        
+        const changes = await this.diffStations(useStaging)
+        const affectedRegions: RegionChanges = {
+            states: new Set(),
+            counties: new Set(), 
+            zips: new Set(),
+            total_changes: 0,
+            station_changes: changes
+        }
+
+        for (const change of changes) {
+            const station = change.new_data || change.old_data
+            affectedRegions.states.add(station.state)
+            if (station.zip) {
+                const cleanZip = this.cleanZipCode(station.zip)
+                if (cleanZip) affectedRegions.zips.add(cleanZip)
+            }
+
+            // If station moved states/zips, mark old ones too
+            if (change.change_type === 'modified') {
+                const previous = change.old_data
+                if (previous.state !== station.state) {
                     affectedRegions.states.add(previous.state)
                 }
-                if (previous.zip !== current.zip && previous.zip) {
+                if (previous.zip !== station.zip && previous.zip) {
                     const cleanZip = this.cleanZipCode(previous.zip)
                     if (cleanZip) affectedRegions.zips.add(cleanZip)
                 }
@@ -150,16 +167,6 @@ export class ChangeDetector {
         console.log(`   • ${affectedRegions.states.size} states affected`)
         console.log(`   • ${affectedRegions.zips.size} zip codes affected`)
         
-        // Filter out ZIP codes that are already processed in staging
-        if (useStaging && affectedRegions.zips.size > 0) {
-            const filteredZips = await this.filterAlreadyProcessedZips(affectedRegions.zips, useStaging)
-            if (filteredZips.size !== affectedRegions.zips.size) {
-                console.log(`   • ${affectedRegions.zips.size - filteredZips.size} zip codes already processed, skipping`)
-                console.log(`   • ${filteredZips.size} zip codes remaining to process`)
-                affectedRegions.zips = filteredZips
-            }
-        }
-        
         return affectedRegions
     }
     
@@ -203,183 +210,61 @@ export class ChangeDetector {
     }
     
     /**
-     * Filter out ZIP codes that are already up-to-date in production
+     * Save change detection results for audit/debugging
      */
-    private static async filterAlreadyProcessedZips(affectedZips: Set<string>, useStaging: boolean): Promise<Set<string>> {
-        if (!useStaging || affectedZips.size === 0) return affectedZips
-        
-        try {
-            // First check if ZIPs are already in staging (previous behavior)
-            const stagingTable = 'zip_level_data_staging'
-            const zipArray = Array.from(affectedZips)
-            const chunkSize = 500
-            const processedZipSet = new Set<string>()
-            
-            // Check staging table first
-            for (let i = 0; i < zipArray.length; i += chunkSize) {
-                const chunk = zipArray.slice(i, i + chunkSize)
-                
-                try {
-                    const { data: existingZips, error } = await supabaseAdmin
-                        .from(stagingTable)
-                        .select('zip_code')
-                        .in('zip_code', chunk)
-                    
-                    if (!error && existingZips) {
-                        existingZips.forEach(z => processedZipSet.add(z.zip_code))
-                    }
-                } catch (chunkError) {
-                    console.warn(`Error checking staging for chunk ${i}:`, chunkError)
-                }
-            }
-            
-            if (processedZipSet.size > 0) {
-                console.log(`📋 Found ${processedZipSet.size} ZIP codes already in staging`)
-            }
-            
-            // For remaining ZIPs, check if production data is current
-            const remainingAfterStaging = new Set<string>()
-            for (const zip of affectedZips) {
-                if (!processedZipSet.has(zip)) {
-                    remainingAfterStaging.add(zip)
-                }
-            }
-            
-            if (remainingAfterStaging.size === 0) {
-                return remainingAfterStaging
-            }
-            
-            console.log(`🔍 Checking if ${remainingAfterStaging.size} ZIP codes need updates based on current station data...`)
-            
-            // Check if ZIP codes in production match current station data
-            const outdatedZips = await this.findOutdatedZipsInProduction(remainingAfterStaging)
-            
-            console.log(`📊 Production analysis: ${outdatedZips.size} ZIP codes need updates, ${remainingAfterStaging.size - outdatedZips.size} are current`)
-            
-            return outdatedZips
-            
-        } catch (error) {
-            console.warn('Error filtering ZIP codes, processing all:', error instanceof Error ? error.message : error)
-            return affectedZips
-        }
-    }
-    
     /**
-     * Check which ZIP codes in production have outdated data compared to current stations
+     * Append station-level changes to the public change feed. The unique
+     * (external_id, change_type, detected_on) key makes same-day re-runs no-ops.
      */
-    private static async findOutdatedZipsInProduction(zipCodes: Set<string>): Promise<Set<string>> {
-        if (zipCodes.size === 0) return new Set()
-        
-        const outdatedZips = new Set<string>()
-        const zipArray = Array.from(zipCodes)
-        const chunkSize = 100 // Smaller chunks for this complex operation
-        
-        for (let i = 0; i < zipArray.length; i += chunkSize) {
-            const chunk = zipArray.slice(i, i + chunkSize)
-            
+    static async saveStationChanges(changes: StationChange[]): Promise<void> {
+        if (changes.length === 0) return
+
+        const detectedAt = new Date().toISOString()
+        const rows = changes.map(change => {
+            const station = change.new_data || change.old_data
+            return {
+                external_id: change.station_id,
+                change_type: change.change_type,
+                detected_at: detectedAt,
+                detected_on: detectedAt.split('T')[0],
+                name: station.name,
+                address: station.address,
+                network: station.network,
+                state: station.state,
+                zip: station.zip,
+                latitude: station.latitude,
+                longitude: station.longitude,
+                charger_type_detailed: station.charger_type_detailed,
+                ev_connector_types: station.ev_connector_types,
+                num_ports: station.num_ports,
+                max_power_kw: station.max_power_kw,
+                access_code: station.access_code,
+                status_code: station.status_code,
+                previous: change.change_type === 'modified' ? change.old_data : null
+            }
+        })
+
+        const batchSize = 1000
+        for (let i = 0; i < rows.length; i += batchSize) {
             try {
-                // Get current station counts for these ZIP codes
-                const { data: currentStations, error: stationsError } = await supabaseAdmin
-                    .from('charging_stations')
-                    .select('zip, state, charger_type_detailed')
-                    .in('zip', chunk.concat(chunk.map(z => z + '-0000'))) // Include extended ZIP codes
-                    .not('zip', 'is', null)
-                
-                if (stationsError) {
-                    console.warn(`Error fetching current stations for ZIP chunk:`, stationsError)
-                    // Add all to outdated to be safe
-                    chunk.forEach(zip => outdatedZips.add(zip))
-                    continue
-                }
-                
-                // Get production ZIP data for comparison
-                const { data: productionZips, error: zipError } = await supabaseAdmin
-                    .from('zip_level_data')
-                    .select('zip_code, state, charger_count, dcfast_count, level2_count, level1_count')
-                    .in('zip_code', chunk)
-                
-                if (zipError) {
-                    console.warn(`Error fetching production ZIP data:`, zipError)
-                    // Add all to outdated to be safe
-                    chunk.forEach(zip => outdatedZips.add(zip))
-                    continue
-                }
-                
-                // Calculate current station counts per ZIP
-                const currentCounts = new Map<string, {charger_count: number, dcfast: number, level2: number, level1: number}>()
-                
-                if (currentStations) {
-                    for (const station of currentStations) {
-                        const cleanZip = this.cleanZipCode(station.zip)
-                        if (!cleanZip) continue
-                        
-                        const key = `${cleanZip}-${station.state}`
-                        const existing = currentCounts.get(key) || {charger_count: 0, dcfast: 0, level2: 0, level1: 0}
-                        
-                        existing.charger_count++
-                        if (station.charger_type_detailed === 'dcfast') existing.dcfast++
-                        else if (station.charger_type_detailed === 'level2') existing.level2++
-                        else if (station.charger_type_detailed === 'level1') existing.level1++
-                        
-                        currentCounts.set(key, existing)
-                    }
-                }
-                
-                // Compare with production data
-                if (productionZips) {
-                    for (const prodZip of productionZips) {
-                        const key = `${prodZip.zip_code}-${prodZip.state}`
-                        const currentData = currentCounts.get(key)
-                        
-                        // If no current stations but production has data, it's outdated
-                        if (!currentData && prodZip.charger_count > 0) {
-                            outdatedZips.add(prodZip.zip_code)
-                            continue
-                        }
-                        
-                        // If current stations but no production data, it needs update  
-                        if (currentData && !prodZip) {
-                            outdatedZips.add(key.split('-')[0])
-                            continue
-                        }
-                        
-                        // Compare counts if both exist
-                        if (currentData && prodZip) {
-                            if (currentData.charger_count !== prodZip.charger_count ||
-                                currentData.dcfast !== prodZip.dcfast_count ||
-                                currentData.level2 !== prodZip.level2_count ||
-                                currentData.level1 !== prodZip.level1_count) {
-                                outdatedZips.add(prodZip.zip_code)
-                            }
-                        }
-                    }
-                }
-                
-                // Check for ZIP codes that have current stations but no production record
-                for (const [key] of currentCounts) {
-                    const zipCode = key.split('-')[0]
-                    const hasProductionRecord = productionZips?.some(p => p.zip_code === zipCode)
-                    if (!hasProductionRecord) {
-                        outdatedZips.add(zipCode)
-                    }
-                }
-                
-            } catch (chunkError) {
-                console.warn(`Error processing ZIP comparison chunk ${i}:`, chunkError)
-                // Add chunk to outdated to be safe
-                chunk.forEach(zip => outdatedZips.add(zip))
+                const { error } = await db
+                    .from('station_changes')
+                    .upsert(rows.slice(i, i + batchSize), {
+                        onConflict: 'external_id,change_type,detected_on',
+                        ignoreDuplicates: true
+                    })
+
+                if (error) console.error('Failed to save station changes:', error)
+            } catch (error) {
+                console.error('Failed to save station changes:', error)
+                // Don't throw - the feed must not block aggregation
             }
         }
-        
-        return outdatedZips
     }
-    
-    /**
-     * Save change detection results for audit/debugging
-     */
+
     static async saveChangeLog(changes: RegionChanges): Promise<void> {
         try {
-            await supabaseAdmin.from('change_logs').insert({
+            await db.from('change_logs').insert({
                 detected_at: new Date().toISOString(),
                 states_affected: Array.from(changes.states),
                 counties_affected: Array.from(changes.counties),
@@ -0,0 +1,200 @@
+import { db } from './data-store'
+
+export type ChangeType = 'added' | 'removed' | 'modified'
+
+export interface StationChangeRecord {
+    id: string
+    external_id: number
+    change_type: ChangeType
+    detected_at: string
+    name: string | null
+    address: string | null
+    network: string | null
+    state: string | null
+    zip: string | null
+    latitude: number | null
+    longitude: number | null
+    charger_type_detailed: string | null
+    ev_connector_types: string[] | null
+    num_ports: number | null
+    max_power_kw: number | null
+    // Null on changes recorded before access data was kept
+    access_code: string | null
+    status_code: string | null
+}
+
+export interface ChangeFeedFilters {
+    state?: string
+    zip?: string
+    network?: string
+    changeType?: ChangeType
+    chargerType?: string
+    since?: string // ISO date
+}
+
+const CHANGE_TYPES: ChangeType[] = ['added', 'removed', 'modified']
+const CHARGER_TYPES = ['dcfast', 'level2', 'level1']
+
+const CHANGE_COLUMNS =
+    'id, external_id, change_type, detected_at, name, address, network, state, zip, latitude, longitude, charger_type_detailed, ev_connector_types, num_ports, max_power_kw, access_code, status_code'
+
+/**
+ * Read feed filters from the query string. Returns an error message for
+ * values we can't use rather than silently ignoring them.
+ */
+export function parseChangeFilters(
+    searchParams: URLSearchParams
+): { filters: ChangeFeedFilters } | { error: string } {
+    const filters: ChangeFeedFilters = {}
+
+    const state = searchParams.get('state')
+    if (state) {
+        if (!/^[A-Za-z]{2}$/.test(state)) {
+            return { error: 'state must be a 2-letter code' }
+        }
+        filters.state = state.toUpperCase()
+    }
+
+    const zip = searchParams.get('zip')
+    if (zip) {
+        if (!/^\d{5}$/.test(zip)) return { error: 'zip must be 5 digits' }
+        filters.zip = zip
+    }
+
+    const network = searchParams.get('network')
+    if (network) filters.network = network
+
+    const changeType = searchParams.get('type')
+    if (changeType) {
+        if (!CHANGE_TYPES.includes(changeType as ChangeType)) {
+            return { error: `type must be one of ${CHANGE_TYPES.join(', ')}` }
+        }
+        filters.changeType = changeType as ChangeType
+    }
+
+    const chargerType = searchParams.get('charger_type')
+    if (chargerType) {
+        if (!CHARGER_TYPES.includes(chargerType)) {
+            return {
+                error: `charger_type must be one of ${CHARGER_TYPES.join(', ')}`
+            }
+        }
+        filters.chargerType = chargerType
+    }
+
+    const since = searchParams.get('since')
+    if (since) {
+        if (isNaN(Date.parse(since))) {
+            return { error: 'since must be an ISO date' }
+        }
+        filters.since = new Date(since).toISOString()
+    }
+
+    return { filters }
+}
+
+/**
+ * Newest-first page of station changes matching the filters
+ */
+export async function queryStationChanges(
+    filters: ChangeFeedFilters,
+    page: number,
+    limit: number
+): Promise<{ changes: StationChangeRecord[]; total: number }> {
+    let query = db
+        .from('station_changes')
+        .select(CHANGE_COLUMNS, { count: 'exact' })
+
+    if (filters.state) query = query.eq('state', filters.state)
+    // Stored ZIPs may carry a +4 extension
+    if (filters.zip) query = query.like('zip', `${filters.zip}%`)
+    // Case-insensitive exact match: the user's %, _ (and *, which PostgREST
+    // reads as %) aren't wildcards
+    if (filters.network) {
+        query = query.ilike('network', filters.network.replace(/[\\%_*]/g, '\\$&'))
+    }
+    if (filters.changeType) query = query.eq('change_type', filters.changeType)
+    if (filters.chargerType) {
+        query = query.eq('charger_type_detailed', filters.chargerType)
+    }
+    if (filters.since) query = query.gte('detected_at', filters.since)
+
+    const from = (page - 1) * limit
+    const { data, count, error } = await query
+        .order('detected_at', { ascending: false })
+        .order('external_id', { ascending: true })
+        .range(from, from + limit - 1)
+
+    if (error) throw error
+    return { changes: data || [], total: count || 0 }
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+const CHARGER_TYPE_LABELS: Record<string, string> = {
+    dcfast: 'DC fast',
+    level2: 'Level 2',
+    level1: 'Level 1'
+}
+
+function describeChange(change: StationChangeRecord): string {
+    const verb =
+        change.change_type === 'added'
+            ? 'opened'
+            : change.change_type === 'removed'
+            ? 'closed'
+            : 'updated'
+    const type = CHARGER_TYPE_LABELS[change.charger_type_detailed || ''] || 'Charger'
+    const power = change.max_power_kw ? ` (${change.max_power_kw} kW)` : ''
+
+    return `${type} station ${verb}: ${change.name || 'Unnamed station'}${power}`
+}
+
+export function buildAtomFeed(
+    changes: StationChangeRecord[],
+    options: { baseUrl: string; selfUrl: string }
+): string {
+    const updated = changes[0]?.detected_at || new Date().toISOString()
+
+    const entries = changes
+        .map((change) => {
+            const summary = [
+                change.address,
+                change.network ? `Network: ${change.network}` : null,
+                change.num_ports ? `${change.num_ports} ports` : null,
+                change.ev_connector_types?.length
+                    ? `Connectors: ${change.ev_connector_types.join(', ')}`
+                    : null
+            ]
+                .filter(Boolean)
+                .join(' · ')
+
+            return `  <entry>
+    <id>urn:can-i-charge:station-change:${change.id}</id>
+    <title>${escapeXml(describeChange(change))}</title>
+    <updated>${change.detected_at}</updated>
+    <category term="${change.change_type}"/>
+    <summary>${escapeXml(summary)}</summary>
+  </entry>`
+        })
+        .join('\n')
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(options.selfUrl)}</id>
+  <title>Can I Charge? - Charging station changes</title>
+  <updated>${updated}</updated>
+  <link rel="self" href="${escapeXml(options.selfUrl)}"/>
+  <link href="${escapeXml(options.baseUrl)}"/>
+  <author><name>Can I Charge?</name></author>
+${entries}
+</feed>
+`
+}
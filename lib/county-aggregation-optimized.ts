@@ -1,8 +1,13 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
 import * as topojson from 'topojson-client'
 import { fetchCountyPopulation } from './census-api'
 import { calculateNeedScore } from './scoring'
-import { calculateWeightedEVScore } from './aggregation-optimized'
+import { withRegionScore } from './score-engine'
+import { isAggregatableStation } from './data-processor'
+import { loadRegionDemographics } from './equity'
+import { backfillStationCounties, fetchCountiesTopology } from './county-index'
+import { summarizeStations } from './zip-aggregation'
+import { getStationIndex, stationTableFor, StationRow } from './station-index'
 
 // Utility function to get state code from FIPS
 function getStateCodeFromFIPS(fips: string): string | null {
@@ -96,23 +101,46 @@ function getPolygonBounds(coordinates: any): {
     return { north: maxLat, south: minLat, east: maxLng, west: minLng }
 }
 
-// Check if a point is roughly within bounds (with buffer)
-function isInBounds(
-    lat: number,
-    lng: number,
-    bounds: any,
-    buffer: number = 0.05
-): boolean {
-    return (
-        lat >= bounds.south - buffer &&
-        lat <= bounds.north + buffer &&
-        lng >= bounds.west - buffer &&
-        lng <= bounds.east + buffer
-    )
+interface CountyVMT {
+    daily_vmt: number | null
+    vmt_per_capita: number | null
 }
 
+const VMT_PAGE_SIZE = 1000
+
+/**
+ * Driving demand the VMT ingest scripts wrote onto production county rows,
+ * by county FIPS, so rebuilt rows keep it and are scored with it
+ */
+async function loadCountyVMT(): Promise<Map<string, CountyVMT>> {
+    const vmtByCounty = new Map<string, CountyVMT>()
+    for (let from = 0; ; from += VMT_PAGE_SIZE) {
+        const { data, error } = await db
+            .from('county_level_data')
+            .select('county_fips, daily_vmt, vmt_per_capita')
+            .order('county_fips')
+            .range(from, from + VMT_PAGE_SIZE - 1)
+        if (error) throw error
+        for (const row of data || []) {
+            if (row.county_fips && row.vmt_per_capita) {
+                vmtByCounty.set(row.county_fips, {
+                    daily_vmt: row.daily_vmt ?? null,
+                    vmt_per_capita: row.vmt_per_capita
+                })
+            }
+        }
+        if (!data || data.length < VMT_PAGE_SIZE) return vmtByCounty
+    }
+}
+
+/**
+ * Rebuild county rows from the station index. With `stateCodes`, only those
+ * states' counties are computed, and their rows are replaced once all are
+ * computed, so a failed Census request leaves the existing rows in place.
+ */
 export async function generateCountyDataOptimized(
-    useStaging: boolean = false
+    useStaging: boolean = false,
+    stateCodes?: string[]
 ): Promise<number> {
     console.log('🚀 Generating county-level data (OPTIMIZED)...')
     const startTime = Date.now()
@@ -120,22 +148,23 @@ export async function generateCountyDataOptimized(
     const tableName = useStaging
         ? 'county_level_data_staging'
         : 'county_level_data'
-    const stationsTable = 'charging_stations' // Always use production charging_stations table
 
     try {
-        // Clear existing data
-        console.log(`Clearing ${tableName}...`)
-        await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000')
+        // Read before production is cleared below
+        const vmtByCounty = await loadCountyVMT()
+
+        if (!stateCodes) {
+            // Clear existing data
+            console.log(`Clearing ${tableName}...`)
+            await db
+                .from(tableName)
+                .delete()
+                .neq('id', '00000000-0000-0000-0000-000000000000')
+        }
 
         // Fetch county boundaries
         console.log('🗺️ Fetching US county boundaries...')
-        const topoResponse = await fetch(
-            'https://cdn.jsdelivr.net/npm/us-atlas@3/counties-10m.json'
-        )
-        const topology = await topoResponse.json()
+        const topology = await fetchCountiesTopology()
         const countiesGeo = topojson.feature(
             topology,
             topology.objects.counties
@@ -145,105 +174,52 @@ export async function generateCountyDataOptimized(
             `📍 Processing ${(countiesGeo as any).features.length} counties...`
         )
 
-        // Get ALL stations in one query
-        console.log('⚡ Fetching ALL charging stations in ONE query...')
-        const { data: allStations, error } = await supabaseAdmin
-            .from(stationsTable)
-            .select(
-                'latitude, longitude, state, charger_type_detailed, ev_connector_types, num_ports'
-            )
-            .range(0, 999999)
+        // All stations come from the shared in-memory index, loaded once per run
+        const stationTable = stationTableFor(useStaging)
+        const { stations: allStations } = await getStationIndex(stationTable)
+        console.log(`✅ Loaded ${allStations.length} stations`)
 
-        if (error) throw error
-        console.log(`✅ Fetched ${allStations?.length || 0} stations`)
+        // Stations written before counties were resolved at ingest
+        const backfilled = await backfillStationCounties(allStations, stationTable)
+        if (backfilled > 0) {
+            console.log(`🧭 Assigned counties to ${backfilled} stations`)
+        }
+
+        // Each station counts in exactly one county: the one containing it.
+        // Private fleet and temporarily unavailable chargers don't count
+        const stationsByCounty = new Map<string, StationRow[]>()
+        for (const station of allStations) {
+            if (!station.county_fips || !isAggregatableStation(station)) continue
+            if (!stationsByCounty.has(station.county_fips)) {
+                stationsByCounty.set(station.county_fips, [])
+            }
+            stationsByCounty.get(station.county_fips)!.push(station)
+        }
+
+        const demographicsFor = await loadRegionDemographics('county')
 
         // Process counties
         const countyData: any[] = []
         let processedCount = 0
         const totalCounties = (countiesGeo as any).features.length
 
-        console.log('🔄 Processing counties with in-memory calculations...')
-
         for (const feature of (countiesGeo as any).features) {
             const countyName = feature.properties.name
             const stateId = feature.id.toString().substring(0, 2)
             const stateCode = getStateCodeFromFIPS(stateId)
 
             if (!stateCode) continue
+            if (stateCodes && !stateCodes.includes(stateCode)) continue
 
             const bounds = getPolygonBounds(feature.geometry.coordinates)
             const centerLat = (bounds.north + bounds.south) / 2
             const centerLng = (bounds.east + bounds.west) / 2
 
-            // Count chargers and ports in this county (in memory)
-            let dcfastCount = 0
-            let level2Count = 0
-            let level1Count = 0
-            let teslaCount = 0
-            let ccsCount = 0
-            let j1772Count = 0
-            let chademoCount = 0
-            let teslaPorts = 0
-            let ccsPorts = 0
-            let j1772Ports = 0
-            let chademoPorts = 0
-            let totalPorts = 0
-
-            for (const station of allStations || []) {
-                // Quick bounds check first
-                if (
-                    station.state === stateCode &&
-                    isInBounds(station.latitude, station.longitude, bounds)
-                ) {
-                    const numPorts = station.num_ports || 1
-                    totalPorts += numPorts
-
-                    // Count by charger level
-                    switch (station.charger_type_detailed) {
-                        case 'dcfast':
-                            dcfastCount++
-                            break
-                        case 'level2':
-                            level2Count++
-                            break
-                        case 'level1':
-                            level1Count++
-                            break
-                    }
-
-                    // Count by connector type (stations and ports)
-                    const connectorTypes = station.ev_connector_types || []
-                    if (connectorTypes.includes('TESLA')) {
-                        teslaCount++
-                        teslaPorts += numPorts
-                    }
-                    const hasNonTesla = connectorTypes.some((type: string) =>
-                        ['J1772COMBO', 'J1772', 'CHADEMO'].includes(type)
-                    )
-                    if (hasNonTesla) {
-                        ccsCount++
-                        ccsPorts += numPorts
-                    }
-                    if (
-                        connectorTypes.includes('J1772') &&
-                        !connectorTypes.includes('J1772COMBO')
-                    ) {
-                        j1772Count++
-                        j1772Ports += numPorts
-                    }
-                    if (connectorTypes.includes('CHADEMO')) {
-                        chademoCount++
-                        chademoPorts += numPorts
-                    }
-                }
-            }
-
-            const totalChargers = dcfastCount + level2Count + level1Count
-
             // Include ALL counties (even those with 0 chargers) for complete coverage
+            const fullFips = feature.id.toString().padStart(5, '0')
+            const counts = summarizeStations(stationsByCounty.get(fullFips) || [])
 
             // Get population (this is still slow but necessary)
-            const fullFips = feature.id.toString().padStart(5, '0')
             const stateFips = fullFips.substring(0, 2)
             const countyFips = fullFips.substring(2, 5)
             const population = await fetchCountyPopulation(
@@ -251,37 +227,22 @@ export async function generateCountyDataOptimized(
                 countyFips
             )
 
-            const needScore = calculateNeedScore(population, totalChargers)
-            const weightedChargerCount =
-                dcfastCount * 1.0 + level2Count * 0.7 + level1Count * 0.3
-            const score = calculateWeightedEVScore(
-                weightedChargerCount,
-                population
-            )
+            const needScore = calculateNeedScore(population, counts.charger_count)
 
-            countyData.push({
+            countyData.push(withRegionScore({
                 county_name: countyName,
+                county_fips: fullFips,
                 state: stateCode,
                 center_lat: centerLat,
                 center_lng: centerLng,
                 population,
-                charger_count: totalChargers,
-                level1_count: level1Count,
-                level2_count: level2Count,
-                dcfast_count: dcfastCount,
-                tesla_count: teslaCount,
-                ccs_count: ccsCount,
-                j1772_count: j1772Count,
-                chademo_count: chademoCount,
-                tesla_ports: teslaPorts,
-                ccs_ports: ccsPorts,
-                j1772_ports: j1772Ports,
-                chademo_ports: chademoPorts,
-                total_ports: totalPorts,
+                ...counts,
                 need_score: needScore,
-                ev_infrastructure_score: score,
+                ...demographicsFor(fullFips),
+                daily_vmt: vmtByCounty.get(fullFips)?.daily_vmt ?? null,
+                vmt_per_capita: vmtByCounty.get(fullFips)?.vmt_per_capita ?? null,
                 zoom_range: '5-8'
-            })
+            }))
 
             processedCount++
 
@@ -297,9 +258,10 @@ export async function generateCountyDataOptimized(
                 )
             }
 
-            // Batch insert every 500 counties to avoid memory issues
-            if (countyData.length >= 500) {
-                const { error: insertError } = await supabaseAdmin
+            // Batch insert every 500 counties to avoid memory issues. A
+            // scoped run holds its rows until every county is computed
+            if (!stateCodes && countyData.length >= 500) {
+                const { error: insertError } = await db
                     .from(tableName)
                     .insert(countyData)
 
@@ -309,12 +271,20 @@ export async function generateCountyDataOptimized(
             }
         }
 
+        if (stateCodes) {
+            const { error: deleteError } = await db
+                .from(tableName)
+                .delete()
+                .in('state', stateCodes)
+            if (deleteError) throw deleteError
+        }
+
         // Insert remaining counties
-        if (countyData.length > 0) {
-            console.log(`💾 Inserting final ${countyData.length} counties...`)
-            const { error: insertError } = await supabaseAdmin
+        for (let i = 0; i < countyData.length; i += 500) {
+            console.log(`💾 Inserting ${Math.min(500, countyData.length - i)} counties...`)
+            const { error: insertError } = await db
                 .from(tableName)
-                .insert(countyData)
+                .insert(countyData.slice(i, i + 500))
 
             if (insertError) throw insertError
         }
@@ -1,5 +1,7 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
 import * as topojson from 'topojson-client'
+import { withRegionScore } from './score-engine'
+import { loadRegionDemographics } from './equity'
 
 // Helper: Delay function
 function delay(ms: number) {
@@ -35,7 +37,7 @@ export async function generateCountyData(
     try {
         // Clear existing data
         console.log(`Clearing ${tableName}...`)
-        await supabaseAdmin
+        await db
             .from(tableName)
             .delete()
             .neq('id', '00000000-0000-0000-0000-000000000000')
@@ -55,6 +57,8 @@ export async function generateCountyData(
             `Processing ${(countiesGeo as any).features.length} counties...`
         )
 
+        const demographicsFor = await loadRegionDemographics('county')
+
         let countyData: any[] = []
         let processedCount = 0
         let batchCount = 0
@@ -80,7 +84,7 @@ export async function generateCountyData(
                     level1Count = 0
 
                 try {
-                    const { count: dc } = await supabaseAdmin
+                    const { count: dc } = await db
                         .from(stationsTable)
                         .select('*', { count: 'exact', head: true })
                         .eq('state', stateCode)
@@ -91,7 +95,7 @@ export async function generateCountyData(
                         .lte('longitude', bounds.east + 0.05)
                     dcfastCount = dc || 0
 
-                    const { count: l2 } = await supabaseAdmin
+                    const { count: l2 } = await db
                         .from(stationsTable)
                         .select('*', { count: 'exact', head: true })
                         .eq('state', stateCode)
@@ -102,7 +106,7 @@ export async function generateCountyData(
                         .lte('longitude', bounds.east + 0.05)
                     level2Count = l2 || 0
 
-                    const { count: l1 } = await supabaseAdmin
+                    const { count: l1 } = await db
                         .from(stationsTable)
                         .select('*', { count: 'exact', head: true })
                         .eq('state', stateCode)
@@ -126,17 +130,10 @@ export async function generateCountyData(
                 const level1 = level1Count
                 const totalChargers = dcFast + level2 + level1
 
-                const weightedChargerCount =
-                    dcFast * 1.0 + level2 * 0.7 + level1 * 0.3
-
                 const population = estimateCountyPopulation()
                 const needScore = calculateNeedScore(population, totalChargers)
-                const score = calculateWeightedEVScore(
-                    weightedChargerCount,
-                    population
-                )
 
-                countyData.push({
+                countyData.push(withRegionScore({
                     county_name: countyName,
                     state: stateCode,
                     center_lat: centerLat,
@@ -147,9 +144,9 @@ export async function generateCountyData(
                     level2_count: level2,
                     dcfast_count: dcFast,
                     need_score: needScore,
-                    ev_infrastructure_score: score,
+                    ...demographicsFor(feature.id.toString().padStart(5, '0')),
                     zoom_range: '5-8'
-                })
+                }))
 
                 processedCount++
 
@@ -167,14 +164,14 @@ export async function generateCountyData(
                     )
 
                     try {
-                        const { error } = await supabaseAdmin
+                        const { error } = await db
                             .from(tableName)
                             .insert(countyData)
                         if (error) {
                             console.error('Batch insert error:', error)
                             // Try one more time with smaller batch
                             await delay(2000)
-                            const { error: retryError } = await supabaseAdmin
+                            const { error: retryError } = await db
                                 .from(tableName)
                                 .insert(countyData)
                             if (retryError) {
@@ -208,7 +205,7 @@ export async function generateCountyData(
                 `Inserting final batch (${countyData.length} counties)...`
             )
             try {
-                const { error } = await supabaseAdmin
+                const { error } = await db
                     .from(tableName)
                     .insert(countyData)
                 if (error) {
@@ -330,27 +327,3 @@ function calculateNeedScore(population: number, chargerCount: number): number {
     const trafficScore = population / 100000
     return population / 10000 + trafficScore * 2 - chargerCount * 5
 }
-
-function calculateWeightedEVScore(
-    weightedChargerCount: number,
-    population: number
-): number {
-    const chargersPerCapita = (weightedChargerCount / population) * 100000
-
-    let score: number
-    if (chargersPerCapita >= 60) {
-        score = 80 + Math.min(((chargersPerCapita - 60) / 40) * 20, 20)
-    } else if (chargersPerCapita >= 40) {
-        score = 70 + ((chargersPerCapita - 40) / 20) * 10
-    } else if (chargersPerCapita >= 25) {
-        score = 55 + ((chargersPerCapita - 25) / 15) * 15
-    } else if (chargersPerCapita >= 15) {
-        score = 40 + ((chargersPerCapita - 15) / 10) * 15
-    } else if (chargersPerCapita >= 8) {
-        score = 25 + ((chargersPerCapita - 8) / 7) * 15
-    } else {
-        score = (chargersPerCapita / 8) * 25
-    }
-
-    return Math.round(Math.min(100, Math.max(0, score)))
-}
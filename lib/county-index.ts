@@ -0,0 +1,292 @@
+import fs from 'fs'
+import path from 'path'
+import * as topojson from 'topojson-client'
+import type { Feature, Geometry } from 'geojson'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import { db } from './data-store'
+import { isLocalDataMode } from './env-validation'
+import { getStateCodeFromFIPS } from './map-utils'
+import type { StationTable } from './station-index'
+
+/**
+ * Point-in-polygon county lookup over the us-atlas county boundaries, with a
+ * 1° grid so each station only tests the few counties whose bounding boxes
+ * overlap its cell.
+ */
+
+export const COUNTIES_TOPOJSON_URL = 'https://cdn.jsdelivr.net/npm/us-atlas@3/counties-10m.json'
+
+type Ring = number[][] // [lng, lat] pairs
+type Polygon = Ring[] // Outer ring, then holes
+
+interface Bounds {
+    north: number
+    south: number
+    east: number
+    west: number
+}
+
+interface IndexedCounty {
+    fips: string
+    polygons: Polygon[]
+    bounds: Bounds
+}
+
+export interface CountyIndex {
+    counties: IndexedCounty[]
+    grid: Map<string, number[]>
+}
+
+const GRID_DEGREES = 1
+// The 10m boundaries are simplified, so coastal and border stations can land
+// just outside every county; snap them to the nearest edge within ~3 miles
+const MAX_SNAP_DEGREES = 0.05
+
+let cachedIndex: Promise<CountyIndex> | null = null
+
+function cellKey(row: number, col: number): string {
+    return `${row}:${col}`
+}
+
+function polygonsOf(geometry: Geometry | null): Polygon[] {
+    if (!geometry) return []
+    if (geometry.type === 'Polygon') return [geometry.coordinates]
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates
+    return []
+}
+
+function boundsOf(polygons: Polygon[]): Bounds {
+    const bounds = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity }
+    for (const polygon of polygons) {
+        for (const [lng, lat] of polygon[0]) {
+            bounds.north = Math.max(bounds.north, lat)
+            bounds.south = Math.min(bounds.south, lat)
+            bounds.east = Math.max(bounds.east, lng)
+            bounds.west = Math.min(bounds.west, lng)
+        }
+    }
+    return bounds
+}
+
+/**
+ * Index GeoJSON county features whose ids are 5-digit FIPS codes
+ */
+export function buildCountyIndex(features: Feature[]): CountyIndex {
+    const counties: IndexedCounty[] = []
+    const grid = new Map<string, number[]>()
+
+    for (const feature of features) {
+        const polygons = polygonsOf(feature.geometry)
+        if (polygons.length === 0 || feature.id === undefined) continue
+
+        const county = {
+            fips: feature.id.toString().padStart(5, '0'),
+            polygons,
+            bounds: boundsOf(polygons)
+        }
+        const index = counties.push(county) - 1
+
+        for (
+            let row = Math.floor(county.bounds.south / GRID_DEGREES);
+            row <= Math.floor(county.bounds.north / GRID_DEGREES);
+            row++
+        ) {
+            for (
+                let col = Math.floor(county.bounds.west / GRID_DEGREES);
+                col <= Math.floor(county.bounds.east / GRID_DEGREES);
+                col++
+            ) {
+                const key = cellKey(row, col)
+                const cell = grid.get(key)
+                if (cell) cell.push(index)
+                else grid.set(key, [index])
+            }
+        }
+    }
+
+    return { counties, grid }
+}
+
+/**
+ * The us-atlas county boundaries; read from the installed package in local
+ * data mode instead of the CDN
+ */
+export async function fetchCountiesTopology(): Promise<Topology> {
+    if (isLocalDataMode) {
+        const file = path.join(process.cwd(), 'node_modules/us-atlas/counties-10m.json')
+        return JSON.parse(await fs.promises.readFile(file, 'utf8'))
+    }
+
+    const response = await fetch(COUNTIES_TOPOJSON_URL)
+    if (!response.ok) {
+        throw new Error(`County boundaries returned ${response.status}`)
+    }
+    return response.json()
+}
+
+/**
+ * County index from the us-atlas boundaries, fetched once per process
+ */
+export function loadCountyIndex(): Promise<CountyIndex> {
+    if (!cachedIndex) {
+        cachedIndex = (async () => {
+            const topology = await fetchCountiesTopology()
+            const counties = topojson.feature(
+                topology,
+                topology.objects.counties as GeometryCollection
+            )
+            return buildCountyIndex(counties.features)
+        })()
+        // Let a failed download be retried on the next call
+        cachedIndex.catch(() => {
+            cachedIndex = null
+        })
+    }
+    return cachedIndex
+}
+
+// Even-odd ray cast across the outer ring and its holes
+export function polygonContains(polygon: Polygon, lng: number, lat: number): boolean {
+    let inside = false
+    for (const ring of polygon) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [xi, yi] = ring[i]
+            const [xj, yj] = ring[j]
+            if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+                inside = !inside
+            }
+        }
+    }
+    return inside
+}
+
+function distanceToSegment(
+    lng: number,
+    lat: number,
+    [x1, y1]: number[],
+    [x2, y2]: number[]
+): number {
+    const dx = x2 - x1
+    const dy = y2 - y1
+    const lengthSquared = dx * dx + dy * dy
+    const t =
+        lengthSquared === 0
+            ? 0
+            : Math.max(0, Math.min(1, ((lng - x1) * dx + (lat - y1) * dy) / lengthSquared))
+    return Math.hypot(lng - (x1 + t * dx), lat - (y1 + t * dy))
+}
+
+function distanceToCounty(county: IndexedCounty, lng: number, lat: number): number {
+    let best = Infinity
+    for (const polygon of county.polygons) {
+        for (const ring of polygon) {
+            for (let i = 1; i < ring.length; i++) {
+                best = Math.min(best, distanceToSegment(lng, lat, ring[i - 1], ring[i]))
+            }
+        }
+    }
+    return best
+}
+
+/**
+ * 5-digit FIPS of the county containing a point, or of the nearest county
+ * edge within MAX_SNAP_DEGREES. Null offshore and outside the US.
+ */
+export function findCountyFips(index: CountyIndex, lat: number, lng: number): string | null {
+    const row = Math.floor(lat / GRID_DEGREES)
+    const col = Math.floor(lng / GRID_DEGREES)
+    const candidates = index.grid.get(cellKey(row, col)) || []
+
+    for (const i of candidates) {
+        const county = index.counties[i]
+        const { north, south, east, west } = county.bounds
+        if (lat < south || lat > north || lng < west || lng > east) continue
+        if (county.polygons.some((polygon) => polygonContains(polygon, lng, lat))) {
+            return county.fips
+        }
+    }
+
+    // Snap distance is small next to a cell, so neighbouring cells cover the rest
+    let nearest: { fips: string; distance: number } | null = null
+    for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) {
+            for (const i of index.grid.get(cellKey(r, c)) || []) {
+                const county = index.counties[i]
+                const { north, south, east, west } = county.bounds
+                if (
+                    lat < south - MAX_SNAP_DEGREES ||
+                    lat > north + MAX_SNAP_DEGREES ||
+                    lng < west - MAX_SNAP_DEGREES ||
+                    lng > east + MAX_SNAP_DEGREES
+                ) {
+                    continue
+                }
+                const distance = distanceToCounty(county, lng, lat)
+                if (distance <= MAX_SNAP_DEGREES && (!nearest || distance < nearest.distance)) {
+                    nearest = { fips: county.fips, distance }
+                }
+            }
+        }
+    }
+    return nearest?.fips ?? null
+}
+
+/**
+ * Fill in county_fips on processed stations before they're written
+ */
+export async function assignStationCounties<
+    T extends { latitude: number; longitude: number; county_fips: string | null }
+>(stations: T[]): Promise<number> {
+    const index = await loadCountyIndex()
+    let assigned = 0
+    for (const station of stations) {
+        station.county_fips = findCountyFips(index, station.latitude, station.longitude)
+        if (station.county_fips) assigned++
+    }
+    return assigned
+}
+
+/**
+ * Resolve and store county_fips on stations that don't have one yet, e.g.
+ * rows written before counties were assigned at ingest. `table` is the table
+ * the stations were read from.
+ */
+export async function backfillStationCounties(
+    stations: { id: string; latitude: number; longitude: number; county_fips: string | null }[],
+    table: StationTable = 'charging_stations'
+): Promise<number> {
+    const missing = stations.filter((station) => !station.county_fips)
+    if (missing.length === 0) return 0
+
+    const index = await loadCountyIndex()
+    const assignments = missing
+        .map((station) => ({
+            id: station.id,
+            county_fips: findCountyFips(index, station.latitude, station.longitude)
+        }))
+        .filter((assignment) => assignment.county_fips)
+
+    for (let i = 0; i < assignments.length; i += 1000) {
+        const { error } = await db.rpc('set_station_county_fips', {
+            p_assignments: assignments.slice(i, i + 1000),
+            p_table: table
+        })
+        if (error) throw error
+    }
+
+    // Callers keep using the rows they already fetched
+    const fipsById = new Map(assignments.map((a) => [a.id, a.county_fips]))
+    for (const station of missing) {
+        station.county_fips = fipsById.get(station.id) ?? null
+    }
+
+    return assignments.length
+}
+
+/**
+ * State a station rolls up into: its county's state when resolved, so a
+ * station with a mistyped state still lands in the same state as its county
+ */
+export function getStationState(station: { state: string; county_fips?: string | null }): string {
+    return (station.county_fips && getStateCodeFromFIPS(station.county_fips.slice(0, 2))) || station.state
+}
@@ -0,0 +1,85 @@
+// CSV helpers shared by station imports and batch scoring
+
+/**
+ * RFC 4180 parsing: quoted fields may contain commas, newlines and "" escapes
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            inQuotes = true
+        } else if (char === ',') {
+            row.push(field)
+            field = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += char
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    return rows.filter((r) => r.some((value) => value.trim()))
+}
+
+function escapeCsvValue(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    const text = String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize rows under the given header; missing values become empty cells
+ */
+export function toCsv(
+    columns: string[],
+    rows: Record<string, unknown>[]
+): string {
+    const lines = [columns.join(',')]
+    for (const row of rows) {
+        lines.push(columns.map((column) => escapeCsvValue(row[column])).join(','))
+    }
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by lower-cased header
+ */
+export function parseCsvRecords(text: string): {
+    columns: string[]
+    records: Record<string, string>[]
+} {
+    const [header, ...rows] = parseCsv(text)
+    const columns = (header || []).map((column) => column.trim().toLowerCase())
+
+    const records = rows.map((values) =>
+        Object.fromEntries(
+            columns.map((column, index) => [column, (values[index] || '').trim()])
+        )
+    )
+
+    return { columns, records }
+}
@@ -1,4 +1,15 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
+import { recordRegionSnapshots } from './history'
+import { clearStationIndex, getStationIndex } from './station-index'
+import { createProductionSnapshot } from './production-snapshots'
+import {
+    describeFailures,
+    StagingValidationReport,
+    validateStaging,
+    ValidationThresholds
+} from './staging-validation'
+
+export type StationSource = 'nrel' | 'ocm' | 'ocpi' | 'csv'
 
 export interface NRELStation {
     id: number
@@ -14,23 +25,66 @@ export interface NRELStation {
     ev_level1_evse_num?: number
     ev_level2_evse_num?: number
     ev_network?: string
+    ev_charging_units?: NRELChargingUnit[]
+    access_code?: string // 'public' | 'private'
+    access_days_time?: string | null
+    status_code?: string // E = available, T = temporarily unavailable, P = planned
+    cards_accepted?: string | null
+}
+
+// Provider-neutral raw record: other adapters map their format into the NREL shape
+export type StationRecord = Omit<NRELStation, 'id'>
+
+// Per-unit breakdown NREL reports alongside the station-level counts
+export interface NRELChargingUnit {
+    charging_level?: string
+    connectors?: Record<string, { power?: number; port_count?: number }>
 }
 
 export interface ProcessedStation {
+    external_id: number | null // NREL station id, stable across refreshes; null for other sources
+    source: StationSource
+    source_id: string // Id within the source, e.g. OpenChargeMap POI id
     name: string
     latitude: number
     longitude: number
     address: string
     zip: string
-    num_ports: number
+    num_ports: number // Total across all levels
+    dcfast_ports: number
+    level2_ports: number
+    level1_ports: number
+    connector_ports: Record<string, number>
+    max_power_kw: number | null
+    access_code: string
+    access_days_time: string | null
+    status_code: string
+    cards_accepted: string | null
+    is_24_7: boolean
     charger_type: 'level1' | 'level2' | 'dcfast'
     charger_type_detailed: 'level1' | 'level2' | 'dcfast'
     ev_connector_types: string[]
     network: string
     state: string
+    county_fips: string | null // 5-digit FIPS of the containing county, see lib/county-index.ts
 }
 
 export function processNRELStation(station: NRELStation): ProcessedStation {
+    return {
+        ...processStationRecord(station, 'nrel', String(station.id)),
+        external_id: station.id
+    }
+}
+
+/**
+ * Normalize a raw record from any provider. external_id stays NREL-only so
+ * the change feed keeps a single id space.
+ */
+export function processStationRecord(
+    station: StationRecord,
+    source: StationSource,
+    sourceId: string
+): ProcessedStation {
     // Determine most powerful charger type available
     const hasDCFast =
         (station.ev_dc_fast_num && station.ev_dc_fast_num > 0) ||
@@ -45,34 +99,106 @@ export function processNRELStation(station: NRELStation): ProcessedStation {
 
     // Classify by most powerful type available
     let chargerType: 'level1' | 'level2' | 'dcfast'
-    let numPorts: number
 
     if (hasDCFast) {
         chargerType = 'dcfast'
-        numPorts = station.ev_dc_fast_num || 1
     } else if (hasLevel2) {
         chargerType = 'level2'
-        numPorts = station.ev_level2_evse_num || 1
     } else {
         chargerType = 'level1'
-        numPorts = station.ev_level1_evse_num || 1
     }
 
+    // Keep the per-level split; the top level always has at least one port
+    const dcfastPorts =
+        station.ev_dc_fast_num || (chargerType === 'dcfast' ? 1 : 0)
+    const level2Ports =
+        station.ev_level2_evse_num || (chargerType === 'level2' ? 1 : 0)
+    const level1Ports =
+        station.ev_level1_evse_num || (chargerType === 'level1' ? 1 : 0)
+    const numPorts = dcfastPorts + level2Ports + level1Ports
+
+    const { connectorPorts, maxPowerKw } = summarizeChargingUnits(
+        station,
+        numPorts
+    )
+
     const fullAddress = `${station.street_address}, ${station.city}, ${station.state} ${station.zip}`
 
     return {
+        external_id: null,
+        source,
+        source_id: sourceId,
         name: station.station_name,
         latitude: station.latitude,
         longitude: station.longitude,
         address: fullAddress,
         zip: station.zip,
         num_ports: numPorts,
+        dcfast_ports: dcfastPorts,
+        level2_ports: level2Ports,
+        level1_ports: level1Ports,
+        connector_ports: connectorPorts,
+        max_power_kw: maxPowerKw,
+        access_code: station.access_code || 'public',
+        access_days_time: station.access_days_time || null,
+        status_code: station.status_code || 'E',
+        cards_accepted: station.cards_accepted || null,
+        is_24_7: isOpen24_7(station.access_days_time),
         charger_type: chargerType,
         charger_type_detailed: chargerType,
         ev_connector_types: station.ev_connector_types || [],
         network: station.ev_network || 'Unknown',
-        state: station.state
+        state: station.state,
+        county_fips: null // Resolved in bulk by assignStationCounties
+    }
+}
+
+// NREL writes round-the-clock access as free text, e.g. "24 hours daily"
+export function isOpen24_7(accessDaysTime?: string | null): boolean {
+    if (!accessDaysTime) return false
+    return /24 hours daily|24\/7|24 hours, 7 days/i.test(accessDaysTime)
+}
+
+/**
+ * Stations that count toward regional scores: private fleet chargers and
+ * temporarily unavailable sites are excluded. Rows ingested before access
+ * data existed have neither field and are kept.
+ */
+export function isAggregatableStation(station: {
+    access_code?: string | null
+    status_code?: string | null
+}): boolean {
+    return station.access_code !== 'private' && station.status_code !== 'T'
+}
+
+/**
+ * Port count per connector and peak kW from ev_charging_units. Without unit
+ * data a single-connector station gets all its ports and power stays unknown.
+ */
+function summarizeChargingUnits(
+    station: StationRecord,
+    numPorts: number
+): { connectorPorts: Record<string, number>; maxPowerKw: number | null } {
+    const connectorPorts: Record<string, number> = {}
+    let maxPowerKw: number | null = null
+
+    for (const unit of station.ev_charging_units || []) {
+        for (const [type, connector] of Object.entries(unit.connectors || {})) {
+            connectorPorts[type] =
+                (connectorPorts[type] || 0) + (connector.port_count || 0)
+
+            if (connector.power && connector.power > (maxPowerKw || 0)) {
+                maxPowerKw = connector.power
+            }
+        }
+    }
+
+    const connectorTypes = station.ev_connector_types || []
+    if (Object.keys(connectorPorts).length === 0 && connectorTypes.length === 1) {
+        connectorPorts[connectorTypes[0]] = numPorts
     }
+
+    return { connectorPorts, maxPowerKw }
 }
 
 export async function batchInsertStations(
@@ -86,12 +212,16 @@ export async function batchInsertStations(
     const tableName = useStaging
         ? 'charging_stations_staging'
         : 'charging_stations'
+    // New until the swap finds them unchanged, see carryOverLastUpdated
+    const lastUpdated = new Date().toISOString()
 
     for (let i = 0; i < stations.length; i += batchSize) {
         const batch = stations.slice(i, i + batchSize)
 
         try {
-            const { error } = await supabaseAdmin.from(tableName).insert(batch)
+            const { error } = await db
+                .from(tableName)
+                .insert(batch.map((station) => ({ ...station, last_updated: lastUpdated })))
 
             if (error) {
                 console.error(`Batch ${i / batchSize + 1} error:`, error)
@@ -114,12 +244,82 @@ export async function batchInsertStations(
         }
     }
 
+    // The table's stations changed; the next query reloads them
+    clearStationIndex()
+
     return { inserted, errors }
 }
 
+// Published details of a station; a change to any of them gives it a new last_updated
+const VERSIONED_FIELDS = [
+    'name', 'address', 'state', 'zip', 'latitude', 'longitude', 'network',
+    'ev_connector_types', 'dcfast_ports', 'level2_ports', 'level1_ports',
+    'max_power_kw', 'access_code', 'status_code', 'is_24_7'
+] as const
+
+function stationVersion(station: ProcessedStation): string {
+    return JSON.stringify(VERSIONED_FIELDS.map((field) => station[field]))
+}
+
+const LAST_UPDATED_PAGE_SIZE = 1000
+const LAST_UPDATED_BATCH_SIZE = 500
+
+/**
+ * Staged stations are stamped as updated when inserted. Give those that are
+ * unchanged from production (same source and source_id, same published
+ * details) their production last_updated back, so date-filtered consumers
+ * like the OCPI locations endpoint only see real changes.
+ */
+async function carryOverLastUpdated(): Promise<number> {
+    const { stations: staged } = await getStationIndex('charging_stations_staging')
+    const { stations: production } = await getStationIndex()
+    const productionByKey = new Map(
+        production.map((station) => [`${station.source}:${station.source_id}`, station])
+    )
+
+    const lastUpdatedById = new Map<string, string>()
+    for (let from = 0; ; from += LAST_UPDATED_PAGE_SIZE) {
+        const { data, error } = await db
+            .from('charging_stations')
+            .select('id, last_updated')
+            .order('id')
+            .range(from, from + LAST_UPDATED_PAGE_SIZE - 1)
+        if (error) throw error
+        for (const row of data || []) {
+            if (row.last_updated) lastUpdatedById.set(row.id, row.last_updated)
+        }
+        if (!data || data.length < LAST_UPDATED_PAGE_SIZE) break
+    }
+
+    // Unchanged stations grouped by the timestamp they keep, one update per group
+    const idsByLastUpdated = new Map<string, string[]>()
+    for (const station of staged) {
+        const previous = productionByKey.get(`${station.source}:${station.source_id}`)
+        if (!previous || stationVersion(previous) !== stationVersion(station)) continue
+        const lastUpdated = lastUpdatedById.get(previous.id)
+        if (!lastUpdated) continue
+        if (!idsByLastUpdated.has(lastUpdated)) idsByLastUpdated.set(lastUpdated, [])
+        idsByLastUpdated.get(lastUpdated)!.push(station.id)
+    }
+
+    let carried = 0
+    for (const [lastUpdated, ids] of idsByLastUpdated) {
+        for (let i = 0; i < ids.length; i += LAST_UPDATED_BATCH_SIZE) {
+            const batch = ids.slice(i, i + LAST_UPDATED_BATCH_SIZE)
+            const { error } = await db
+                .from('charging_stations_staging')
+                .update({ last_updated: lastUpdated })
+                .in('id', batch)
+            if (error) throw error
+            carried += batch.length
+        }
+    }
+    return carried
+}
+
 export async function clearTable(tableName: string): Promise<boolean> {
     try {
-        const { error } = await supabaseAdmin
+        const { error } = await db
             .from(tableName)
             .delete()
             .neq('id', '00000000-0000-0000-0000-000000000000')
@@ -140,23 +340,86 @@ export async function clearChargingStations(): Promise<boolean> {
     return clearTable('charging_stations')
 }
 
-// NEW: Swap staging tables to production
-export async function swapStagingToProduction(): Promise<boolean> {
+export interface SwapOptions {
+    // Promote staging even if it fails validation
+    skipValidation?: boolean
+    thresholds?: Partial<ValidationThresholds>
+    // Recorded on the production snapshot taken before the swap
+    source?: string
+    jobId?: string
+}
+
+export interface SwapResult {
+    success: boolean
+    // Null when validation was skipped
+    validation: StagingValidationReport | null
+    error?: string
+}
+
+// NEW: Swap staging tables to production, once staging passes validation
+export async function swapStagingToProduction(options: SwapOptions = {}): Promise<SwapResult> {
+    let validation: StagingValidationReport | null = null
+
     try {
+        if (!options.skipValidation) {
+            validation = await validateStaging(options.thresholds)
+            if (!validation.passed) {
+                const failures = describeFailures(validation)
+                console.error('Swap blocked - staging failed validation:', failures)
+                return { success: false, validation, error: `Staging failed validation: ${failures}` }
+            }
+        }
+
+        // Unchanged stations would otherwise all read as updated tonight
+        try {
+            const carried = await carryOverLastUpdated()
+            console.log(`🕒 Kept last_updated on ${carried} unchanged stations`)
+        } catch (stampError) {
+            console.error('Carrying over last_updated failed - every station reads as updated:', stampError)
+        }
+
+        // Keep the production being replaced so the swap can be rolled back
+        try {
+            await createProductionSnapshot(options.source ?? 'swap', options.jobId ?? null)
+        } catch (snapshotError) {
+            console.error('Production snapshot failed - swap aborted:', snapshotError)
+            return {
+                success: false,
+                validation,
+                error: `Production snapshot failed: ${snapshotError instanceof Error ? snapshotError.message : 'Unknown error'}`
+            }
+        }
+
         console.log('Starting atomic swap from staging to production...')
 
         // Use the new SECURITY DEFINER function
-        const { error } = await supabaseAdmin.rpc('copy_staging_to_production')
+        const { error } = await db.rpc('copy_staging_to_production')
 
         if (error) {
             console.error('Swap failed:', error)
-            return false
+            return { success: false, validation, error: error.message }
         }
 
         console.log('Successfully swapped staging to production with zero downtime')
-        return true
+
+        // Production stations changed; the next query reloads them
+        clearStationIndex()
+
+        // Keep a dated copy of the new production numbers; a failed snapshot
+        // must not undo a successful swap
+        try {
+            await recordRegionSnapshots()
+        } catch (snapshotError) {
+            console.error('Region snapshot failed:', snapshotError)
+        }
+
+        return { success: true, validation }
     } catch (err) {
         console.error('Swap operation failed:', err)
-        return false
+        return {
+            success: false,
+            validation,
+            error: err instanceof Error ? err.message : 'Unknown error'
+        }
     }
 }
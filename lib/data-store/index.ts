@@ -0,0 +1,15 @@
+import { isLocalDataMode } from '../env-validation'
+import { DataClient } from './types'
+import { createSupabaseDataClient } from './supabase'
+import { createLocalDataClient } from './local'
+
+export type { DataClient } from './types'
+
+/**
+ * Server-side data access. DATA_MODE (lib/env-validation.ts) picks the live
+ * Supabase project or the file-backed fixture store; both answer the same
+ * query-builder calls.
+ */
+export const db: DataClient = isLocalDataMode
+    ? createLocalDataClient()
+    : createSupabaseDataClient()
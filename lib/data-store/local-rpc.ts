@@ -0,0 +1,265 @@
+import { randomUUID } from 'crypto'
+import type { Geometry } from 'geojson'
+import { polygonContains } from '../county-index'
+import type { LocalStore } from './local'
+import { Row } from './types'
+
+/**
+ * In-process versions of the database functions the pipeline and API call,
+ * for local data mode. Geometries are stored as GeoJSON on the rows.
+ */
+
+type LocalRpc = (store: LocalStore, args: Row) => Row[] | null
+
+// Production tables the refresh rebuilds in staging first
+const STAGED_TABLES = ['charging_stations', 'state_level_data', 'county_level_data', 'zip_level_data']
+
+// Production tables copied into <table>_snapshots for rollback
+const SNAPSHOT_TABLES = [
+    'charging_stations',
+    'state_level_data',
+    'county_level_data',
+    'zip_level_data',
+    'tract_level_data',
+    'block_group_level_data'
+]
+
+const MAX_CENSUS_AREA_ROWS = 5000
+
+function polygonsOf(geometry: Geometry | null | undefined): number[][][][] {
+    if (geometry?.type === 'Polygon') return [geometry.coordinates]
+    if (geometry?.type === 'MultiPolygon') return geometry.coordinates
+    return []
+}
+
+function containsPoint(geometry: unknown, lng: number, lat: number): boolean {
+    return polygonsOf(geometry as Geometry).some((polygon) => polygonContains(polygon, lng, lat))
+}
+
+function inBounds(row: Row, args: Row): boolean {
+    const lat = row.center_lat as number
+    const lng = row.center_lng as number
+    return (
+        lat >= (args.p_south as number) &&
+        lat <= (args.p_north as number) &&
+        lng >= (args.p_west as number) &&
+        lng <= (args.p_east as number)
+    )
+}
+
+function withoutSnapshotId(row: Row): Row {
+    const restored = structuredClone(row)
+    delete restored.snapshot_id
+    return restored
+}
+
+function byScoreDescending(a: Row, b: Row): number {
+    return ((b.ev_infrastructure_score as number) ?? 0) - ((a.ev_infrastructure_score as number) ?? 0)
+}
+
+export const LOCAL_RPCS: Record<string, LocalRpc> = {
+    // An empty staging table means that level wasn't rebuilt this run
+    copy_staging_to_production(store) {
+        for (const table of STAGED_TABLES) {
+            const staged = store.rows(`${table}_staging`)
+            if (staged.length > 0) store.replace(table, structuredClone(staged))
+        }
+        return null
+    },
+
+    create_production_snapshot(store, { p_source, p_job_id }) {
+        const snapshot: Row = {
+            id: randomUUID(),
+            source: p_source,
+            job_id: p_job_id ?? null,
+            counts: {},
+            created_at: new Date().toISOString()
+        }
+        for (const table of SNAPSHOT_TABLES) {
+            const rows = store.rows(table)
+            store.rows(`${table}_snapshots`).push(
+                ...rows.map((row) => ({ snapshot_id: snapshot.id, ...structuredClone(row) }))
+            )
+            store.save(`${table}_snapshots`)
+            ;(snapshot.counts as Record<string, number>)[table] = rows.length
+        }
+        store.rows('production_snapshots').push(snapshot)
+        store.save('production_snapshots')
+        return [structuredClone(snapshot)]
+    },
+
+    restore_production_snapshot(store, { p_snapshot_id }) {
+        if (!store.rows('production_snapshots').some((snapshot) => snapshot.id === p_snapshot_id)) {
+            throw new Error(`Snapshot ${p_snapshot_id} not found`)
+        }
+        for (const table of SNAPSHOT_TABLES) {
+            store.replace(
+                table,
+                store
+                    .rows(`${table}_snapshots`)
+                    .filter((row) => row.snapshot_id === p_snapshot_id)
+                    .map(withoutSnapshotId)
+            )
+        }
+        return null
+    },
+
+    prune_production_snapshots(store, { p_keep }) {
+        const kept = new Set(
+            [...store.rows('production_snapshots')]
+                .sort((a, b) => ((a.created_at as string) < (b.created_at as string) ? 1 : -1))
+                .slice(0, p_keep as number)
+                .map((snapshot) => snapshot.id)
+        )
+        store.replace(
+            'production_snapshots',
+            store.rows('production_snapshots').filter((snapshot) => kept.has(snapshot.id))
+        )
+        for (const table of SNAPSHOT_TABLES) {
+            store.replace(
+                `${table}_snapshots`,
+                store.rows(`${table}_snapshots`).filter((row) => kept.has(row.snapshot_id))
+            )
+        }
+        return null
+    },
+
+    meter_api_key(store, { p_key_hash, p_cost = 1 }) {
+        if (typeof p_cost !== 'number' || p_cost < 1) {
+            throw new Error(`meter_api_key: cost must be at least 1, got ${p_cost}`)
+        }
+        const key = store.rows('api_keys').find((candidate) => candidate.key_hash === p_key_hash)
+        const unmetered = { rate_limit: null, window_used: null, window_reset: null, quota: null, quota_used: null }
+        if (!key) return [{ api_key_id: null, status: 'invalid', ...unmetered }]
+        if (key.revoked_at) return [{ api_key_id: key.id, status: 'revoked', ...unmetered }]
+
+        const now = new Date()
+        const month = `${now.toISOString().slice(0, 7)}-01`
+        const windowStart = new Date(Math.floor(now.getTime() / 60000) * 60000).toISOString()
+        const cost = p_cost
+
+        let usage = store.rows('api_key_usage').find((row) => row.key_id === key.id && row.month === month)
+        if (!usage) {
+            usage = { key_id: key.id, month, requests: 0, rejected: 0, window_start: windowStart, window_requests: 0 }
+            store.rows('api_key_usage').push(usage)
+        }
+        if ((usage.window_start as string) < windowStart) {
+            usage.window_start = windowStart
+            usage.window_requests = 0
+        }
+
+        let status = 'ok'
+        if ((usage.window_requests as number) + cost > (key.rate_limit_per_minute as number)) {
+            status = 'rate_limited'
+        } else if ((usage.requests as number) + cost > (key.monthly_quota as number)) {
+            status = 'quota_exceeded'
+        } else {
+            usage.window_requests = (usage.window_requests as number) + cost
+            usage.requests = (usage.requests as number) + cost
+            key.last_used_at = now.toISOString()
+            store.save('api_keys')
+        }
+        if (status !== 'ok') usage.rejected = (usage.rejected as number) + 1
+        store.save('api_key_usage')
+
+        return [{
+            api_key_id: key.id,
+            status,
+            rate_limit: key.rate_limit_per_minute,
+            window_used: usage.window_requests,
+            window_reset: new Date(Date.parse(usage.window_start as string) + 60000).toISOString(),
+            quota: key.monthly_quota,
+            quota_used: usage.requests
+        }]
+    },
+
+    set_station_county_fips(store, { p_assignments, p_table = 'charging_stations' }) {
+        if (p_table !== 'charging_stations' && p_table !== 'charging_stations_staging') {
+            throw new Error(`set_station_county_fips: unsupported table ${p_table}`)
+        }
+        const fipsById = new Map(
+            (p_assignments as { id: string; county_fips: string }[]).map((a) => [a.id, a.county_fips])
+        )
+        for (const station of store.rows(p_table)) {
+            const fips = fipsById.get(station.id as string)
+            if (fips) station.county_fips = fips
+        }
+        store.save(p_table)
+        return null
+    },
+
+    assign_stations_to_census_areas(store, { p_level, p_state }) {
+        const areas = store
+            .rows('census_area_geometries')
+            .filter((area) => area.level === p_level && area.state === p_state)
+
+        return store
+            .rows('charging_stations')
+            .filter((station) => station.state === p_state)
+            .flatMap((station) => {
+                const area = areas.find((candidate) =>
+                    containsPoint(
+                        candidate.geometry,
+                        station.longitude as number,
+                        station.latitude as number
+                    )
+                )
+                return area ? [{ station_id: station.id, geoid: area.geoid }] : []
+            })
+            .sort((a, b) => ((a.station_id as string) < (b.station_id as string) ? -1 : 1))
+    },
+
+    get_zip_data_with_geometry(store, args) {
+        const geometries = new Map(
+            store.rows('zip_geometries').map((zip) => [zip.zip_code, zip.geometry])
+        )
+        return store
+            .rows('zip_level_data')
+            .filter((zip) => inBounds(zip, args) && geometries.has(zip.zip_code))
+            .map((zip) => ({ ...zip, geometry: geometries.get(zip.zip_code) }))
+            .sort(byScoreDescending)
+    },
+
+    get_census_area_data_with_geometry(store, args) {
+        const { p_level } = args
+        if (p_level !== 'tract' && p_level !== 'block_group') {
+            throw new Error(`Unknown census area level: ${p_level}`)
+        }
+
+        const geometries = new Map(
+            store
+                .rows('census_area_geometries')
+                .filter((area) => area.level === p_level)
+                .map((area) => [area.geoid, area.geometry])
+        )
+        return store
+            .rows(`${p_level}_level_data`)
+            .filter((area) => inBounds(area, args) && geometries.has(area.geoid))
+            .map((area) => ({ ...area, geometry: geometries.get(area.geoid) }))
+            .sort(byScoreDescending)
+            .slice(0, MAX_CENSUS_AREA_ROWS)
+    },
+
+    get_zip_disadvantaged_shares(store) {
+        const tracts = new Map(store.rows('disadvantaged_tracts').map((tract) => [tract.geoid, tract]))
+        const centers = store
+            .rows('census_area_geometries')
+            .filter((area) => area.level === 'tract' && tracts.has(area.geoid))
+
+        return store.rows('zip_geometries').flatMap((zip) => {
+            let population = 0
+            let disadvantaged = 0
+            for (const center of centers) {
+                if (!containsPoint(zip.geometry, center.center_lng as number, center.center_lat as number)) {
+                    continue
+                }
+                const tract = tracts.get(center.geoid)!
+                population += tract.population as number
+                if (tract.is_disadvantaged) disadvantaged += tract.population as number
+            }
+            return population > 0
+                ? [{ zip_code: zip.zip_code, disadvantaged_share: disadvantaged / population }]
+                : []
+        })
+    }
+}
@@ -0,0 +1,405 @@
+import fs from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { env } from '../env-validation'
+import { DataClient, Row } from './types'
+import { LOCAL_RPCS } from './local-rpc'
+
+/**
+ * File-backed stand-in for Supabase: one JSON file per table under
+ * LOCAL_DATA_DIR, seeded from fixtures/<table>.json the first time a table is
+ * touched. Supports the query-builder calls this codebase makes; anything
+ * else fails loudly rather than returning wrong data.
+ */
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+
+interface LocalError {
+    message: string
+    details: string
+    hint: string
+    code: string
+}
+
+interface LocalResult {
+    data: unknown
+    error: LocalError | null
+    count: number | null
+    status: number
+    statusText: string
+}
+
+function localError(message: string, code: string = 'LOCAL'): LocalError {
+    return { message, details: '', hint: '', code }
+}
+
+export class LocalStore {
+    private tables = new Map<string, Row[]>()
+
+    constructor(private dataDir: string) {}
+
+    rows(table: string): Row[] {
+        let rows = this.tables.get(table)
+        if (!rows) {
+            rows = this.load(table)
+            this.tables.set(table, rows)
+        }
+        return rows
+    }
+
+    replace(table: string, rows: Row[]): void {
+        this.tables.set(table, rows)
+        this.save(table)
+    }
+
+    save(table: string): void {
+        fs.mkdirSync(this.dataDir, { recursive: true })
+        fs.writeFileSync(
+            path.join(this.dataDir, `${table}.json`),
+            JSON.stringify(this.rows(table))
+        )
+    }
+
+    private load(table: string): Row[] {
+        for (const file of [
+            path.join(this.dataDir, `${table}.json`),
+            path.join(FIXTURES_DIR, `${table}.json`)
+        ]) {
+            if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, 'utf8'))
+        }
+        return []
+    }
+}
+
+// Postgres ordering: NULLs sort last ascending and first descending
+function compareValues(a: unknown, b: unknown): number {
+    if (a === b) return 0
+    if (a === null || a === undefined) return 1
+    if (b === null || b === undefined) return -1
+    return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+// LIKE semantics as in Postgres: % and _ are wildcards, \ escapes the next character
+function likePattern(pattern: string, flags: string): RegExp {
+    const literal = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    let source = ''
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        if (char === '\\' && i + 1 < pattern.length) source += literal(pattern[++i])
+        else if (char === '%') source += '.*'
+        else if (char === '_') source += '.'
+        else source += literal(char)
+    }
+    return new RegExp(`^${source}$`, flags)
+}
+
+function project(row: Row, columns: string[] | null): Row {
+    if (!columns) return structuredClone(row)
+    const projected: Row = {}
+    for (const column of columns) projected[column] = structuredClone(row[column] ?? null)
+    return projected
+}
+
+function parseColumns(columns: string = '*'): string[] | null {
+    const list = columns.split(',').map((column) => column.trim()).filter(Boolean)
+    return list.includes('*') ? null : list
+}
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+interface UpsertOptions {
+    onConflict?: string
+    ignoreDuplicates?: boolean
+}
+
+export class LocalQuery implements PromiseLike<LocalResult> {
+    private action: Action = 'select'
+    private payload: Row[] = []
+    private patch: Row = {}
+    private upsertOptions: UpsertOptions = {}
+    private filters: ((row: Row) => boolean)[] = []
+    private orders: { column: string; ascending: boolean }[] = []
+    private rangeFrom = 0
+    private rangeTo: number | null = null
+    private columns: string[] | null = null
+    private returning = false
+    private countRows = false
+    private head = false
+    private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+    /**
+     * A table query, or an RPC when `source` computes the rows to filter
+     */
+    constructor(
+        private store: LocalStore,
+        private table: string,
+        private source?: () => Row[]
+    ) {}
+
+    select(columns?: string, options: { count?: string; head?: boolean } = {}): this {
+        this.columns = parseColumns(columns)
+        this.countRows = !!options.count
+        this.head = !!options.head
+        if (this.action !== 'select') this.returning = true
+        return this
+    }
+
+    insert(values: Row | Row[]): this {
+        this.action = 'insert'
+        this.payload = Array.isArray(values) ? values : [values]
+        return this
+    }
+
+    upsert(values: Row | Row[], options: UpsertOptions = {}): this {
+        this.action = 'upsert'
+        this.payload = Array.isArray(values) ? values : [values]
+        this.upsertOptions = options
+        return this
+    }
+
+    update(values: Row): this {
+        this.action = 'update'
+        this.patch = values
+        return this
+    }
+
+    delete(): this {
+        this.action = 'delete'
+        return this
+    }
+
+    private where(predicate: (row: Row) => boolean): this {
+        this.filters.push(predicate)
+        return this
+    }
+
+    eq(column: string, value: unknown): this {
+        return this.where((row) => row[column] === value)
+    }
+
+    neq(column: string, value: unknown): this {
+        return this.where((row) => row[column] !== value)
+    }
+
+    gt(column: string, value: unknown): this {
+        return this.where((row) => row[column] != null && compareValues(row[column], value) > 0)
+    }
+
+    gte(column: string, value: unknown): this {
+        return this.where((row) => row[column] != null && compareValues(row[column], value) >= 0)
+    }
+
+    lt(column: string, value: unknown): this {
+        return this.where((row) => row[column] != null && compareValues(row[column], value) < 0)
+    }
+
+    lte(column: string, value: unknown): this {
+        return this.where((row) => row[column] != null && compareValues(row[column], value) <= 0)
+    }
+
+    in(column: string, values: unknown[]): this {
+        const set = new Set(values)
+        return this.where((row) => set.has(row[column]))
+    }
+
+    is(column: string, value: null | boolean): this {
+        return this.where((row) => (row[column] ?? null) === value)
+    }
+
+    like(column: string, pattern: string): this {
+        const regex = likePattern(pattern, '')
+        return this.where((row) => typeof row[column] === 'string' && regex.test(row[column]))
+    }
+
+    ilike(column: string, pattern: string): this {
+        const regex = likePattern(pattern, 'i')
+        return this.where((row) => typeof row[column] === 'string' && regex.test(row[column]))
+    }
+
+    contains(column: string, values: unknown[]): this {
+        return this.where((row) => {
+            const list = row[column]
+            return Array.isArray(list) && values.every((value) => list.includes(value))
+        })
+    }
+
+    overlaps(column: string, values: unknown[]): this {
+        return this.where((row) => {
+            const list = row[column]
+            return Array.isArray(list) && values.some((value) => list.includes(value))
+        })
+    }
+
+    order(column: string, options: { ascending?: boolean } = {}): this {
+        this.orders.push({ column, ascending: options.ascending ?? true })
+        return this
+    }
+
+    range(from: number, to: number): this {
+        this.rangeFrom = from
+        this.rangeTo = to
+        return this
+    }
+
+    limit(count: number): this {
+        this.rangeTo = this.rangeFrom + count - 1
+        return this
+    }
+
+    single(): this {
+        this.cardinality = 'single'
+        return this
+    }
+
+    maybeSingle(): this {
+        this.cardinality = 'maybeSingle'
+        return this
+    }
+
+    then<TResult1 = LocalResult, TResult2 = never>(
+        onfulfilled?: ((value: LocalResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve()
+            .then(() => this.execute())
+            .then(onfulfilled, onrejected)
+    }
+
+    private matches(row: Row): boolean {
+        return this.filters.every((predicate) => predicate(row))
+    }
+
+    private execute(): LocalResult {
+        try {
+            const { rows, count } =
+                this.action === 'select' ? this.read() : this.write()
+            return this.result(rows, count)
+        } catch (error) {
+            return {
+                data: null,
+                error: localError(error instanceof Error ? error.message : String(error)),
+                count: null,
+                status: 400,
+                statusText: 'Bad Request'
+            }
+        }
+    }
+
+    private read(): { rows: Row[]; count: number } {
+        const all = this.source ? this.source() : this.store.rows(this.table)
+        const rows = all.filter((row) => this.matches(row))
+        if (this.orders.length > 0) {
+            rows.sort((a, b) => {
+                for (const { column, ascending } of this.orders) {
+                    const order = compareValues(a[column], b[column])
+                    if (order !== 0) return ascending ? order : -order
+                }
+                return 0
+            })
+        }
+        const end = this.rangeTo === null ? undefined : this.rangeTo + 1
+        return { rows: rows.slice(this.rangeFrom, end), count: rows.length }
+    }
+
+    private write(): { rows: Row[]; count: number } {
+        if (this.source) throw new Error(`Cannot ${this.action} an RPC result`)
+        const table = this.store.rows(this.table)
+        let affected: Row[] = []
+
+        switch (this.action) {
+            case 'insert':
+                affected = this.payload.map((values) => withDefaults(values))
+                table.push(...affected)
+                break
+            case 'upsert': {
+                const keys = (this.upsertOptions.onConflict || 'id')
+                    .split(',')
+                    .map((key) => key.trim())
+                for (const values of this.payload) {
+                    const existing = table.find((row) =>
+                        keys.every((key) => row[key] === values[key])
+                    )
+                    if (!existing) {
+                        const row = withDefaults(values)
+                        table.push(row)
+                        affected.push(row)
+                    } else if (!this.upsertOptions.ignoreDuplicates) {
+                        Object.assign(existing, structuredClone(values))
+                        affected.push(existing)
+                    }
+                }
+                break
+            }
+            case 'update':
+                affected = table.filter((row) => this.matches(row))
+                for (const row of affected) Object.assign(row, structuredClone(this.patch))
+                break
+            case 'delete':
+                affected = table.filter((row) => this.matches(row))
+                this.store.replace(
+                    this.table,
+                    table.filter((row) => !affected.includes(row))
+                )
+                return { rows: affected, count: affected.length }
+        }
+
+        this.store.save(this.table)
+        return { rows: affected, count: affected.length }
+    }
+
+    private result(rows: Row[], count: number): LocalResult {
+        const base = {
+            error: null,
+            count: this.countRows ? count : null,
+            status: 200,
+            statusText: 'OK'
+        }
+        if (this.head || (this.action !== 'select' && !this.returning)) {
+            return { ...base, data: null }
+        }
+
+        const data = rows.map((row) => project(row, this.columns))
+        if (this.cardinality === 'many') return { ...base, data }
+
+        if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+            return {
+                ...base,
+                data: null,
+                error: localError(
+                    'JSON object requested, multiple (or no) rows returned',
+                    'PGRST116'
+                ),
+                status: 406,
+                statusText: 'Not Acceptable'
+            }
+        }
+        return { ...base, data: data[0] ?? null }
+    }
+}
+
+// Column defaults the database would fill in
+function withDefaults(values: Row): Row {
+    return {
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        ...structuredClone(values)
+    }
+}
+
+export function createLocalDataClient(
+    dataDir: string = path.resolve(process.cwd(), env.LOCAL_DATA_DIR)
+): DataClient {
+    const store = new LocalStore(dataDir)
+    const client = {
+        from: (table: string) => new LocalQuery(store, table),
+        rpc: (name: string, args: Row = {}) => {
+            const rpc = LOCAL_RPCS[name]
+            return new LocalQuery(store, name, () => {
+                if (!rpc) throw new Error(`Function ${name} is not available in local data mode`)
+                return rpc(store, args) || []
+            })
+        }
+    }
+    // Only the calls used in this codebase are implemented
+    return client as unknown as DataClient
+}
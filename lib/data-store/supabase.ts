@@ -0,0 +1,11 @@
+import { createClient } from '@supabase/supabase-js'
+import { env } from '../env-validation'
+import { DataClient } from './types'
+
+// Service role client for server-side operations (bypasses RLS)
+export function createSupabaseDataClient(): DataClient {
+    return createClient(
+        env.NEXT_PUBLIC_SUPABASE_URL!,
+        env.SUPABASE_SERVICE_ROLE_KEY || env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    )
+}
@@ -0,0 +1,10 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * The slice of the Supabase client the server code uses. The local store
+ * implements the same query-builder calls over JSON files, so callers don't
+ * know which backend they're on.
+ */
+export type DataClient = Pick<SupabaseClient, 'from' | 'rpc'>
+
+export type Row = Record<string, unknown>
@@ -1,23 +1,62 @@
 import { z } from 'zod'
 
+// Only needed when talking to the live database and NREL
+const DATA_MODE_KEYS = [
+  'NEXT_PUBLIC_SUPABASE_URL',
+  'NEXT_PUBLIC_SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'NREL_API_KEY',
+] as const
+
 const envSchema = z.object({
   // Required environment variables
   NEXT_PUBLIC_MAPBOX_TOKEN: z.string().min(1, 'Mapbox token is required'),
-  NEXT_PUBLIC_SUPABASE_URL: z.string().url('Invalid Supabase URL'),
-  NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().min(1, 'Supabase anon key is required'),
-  SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'Supabase service role key is required'),
-  NREL_API_KEY: z.string().min(1, 'NREL API key is required'),
   CRON_SECRET: z.string().min(32, 'Cron secret must be at least 32 characters'),
+
+  // Admin sign-in (see lib/admin-auth.ts); disabled unless both are set.
+  // ADMIN_USERS entries come from scripts/hash-admin-password.mjs
+  ADMIN_USERS: z.string().optional(),
+  ADMIN_TOKEN_SECRET: z.string().min(32, 'Admin token secret must be at least 32 characters').optional(),
+
+  // Required unless DATA_MODE is local (see DATA_MODE_KEYS)
+  NEXT_PUBLIC_SUPABASE_URL: z.string().url('Invalid Supabase URL').optional(),
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().min(1, 'Supabase anon key is required').optional(),
+  SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'Supabase service role key is required').optional(),
+  NREL_API_KEY: z.string().min(1, 'NREL API key is required').optional(),
   
   // Optional environment variables with defaults
   NEXT_PUBLIC_URL: z.string().url().optional(),
   NODE_ENV: z.enum(['development', 'test', 'production']).default('production'),
+
+  // supabase: live database and APIs. local: file-backed store seeded from
+  // fixtures/, for running the pipeline offline (see lib/data-store)
+  DATA_MODE: z.enum(['supabase', 'local']).default('supabase'),
+  LOCAL_DATA_DIR: z.string().default('.local-data'),
+
+  // Staging must pass these checks before it replaces production (see
+  // lib/staging-validation.ts); percentages of the staged stations
+  STAGING_MAX_TOTAL_DELTA_PCT: z.coerce.number().min(0).default(10),
+  STAGING_MAX_STATE_DELTA_PCT: z.coerce.number().min(0).default(25),
+  STAGING_MIN_STATE_STATIONS: z.coerce.number().int().min(0).default(100),
+  STAGING_MAX_NULL_COORDINATES_PCT: z.coerce.number().min(0).default(0.5),
+  STAGING_MAX_OUTSIDE_US_PCT: z.coerce.number().min(0).default(1),
+  STAGING_MAX_DUPLICATE_LOCATIONS_PCT: z.coerce.number().min(0).default(10),
+
+  // Production snapshots kept for rollback (see lib/production-snapshots.ts)
+  SNAPSHOT_RETENTION: z.coerce.number().int().min(1).default(7),
   
   // Optional monitoring/analytics
   NEXT_PUBLIC_SENTRY_DSN: z.string().optional(),
   NEXT_PUBLIC_GA_MEASUREMENT_ID: z.string().optional(),
   NEXT_PUBLIC_POSTHOG_KEY: z.string().optional(),
   NEXT_PUBLIC_POSTHOG_HOST: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.DATA_MODE === 'local') return
+  for (const key of DATA_MODE_KEYS) {
+    if (!values[key]) {
+      ctx.addIssue({ code: 'custom', path: [key], message: `${key} is required` })
+    }
+  }
 })
 
 type Env = z.infer<typeof envSchema>
@@ -32,8 +71,19 @@ function validateEnv(): Env {
       SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
       NREL_API_KEY: process.env.NREL_API_KEY,
       CRON_SECRET: process.env.CRON_SECRET,
+      ADMIN_USERS: process.env.ADMIN_USERS,
+      ADMIN_TOKEN_SECRET: process.env.ADMIN_TOKEN_SECRET,
       NEXT_PUBLIC_URL: process.env.NEXT_PUBLIC_URL || process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : undefined,
       NODE_ENV: process.env.NODE_ENV,
+      DATA_MODE: process.env.DATA_MODE,
+      LOCAL_DATA_DIR: process.env.LOCAL_DATA_DIR,
+      STAGING_MAX_TOTAL_DELTA_PCT: process.env.STAGING_MAX_TOTAL_DELTA_PCT,
+      STAGING_MAX_STATE_DELTA_PCT: process.env.STAGING_MAX_STATE_DELTA_PCT,
+      STAGING_MIN_STATE_STATIONS: process.env.STAGING_MIN_STATE_STATIONS,
+      STAGING_MAX_NULL_COORDINATES_PCT: process.env.STAGING_MAX_NULL_COORDINATES_PCT,
+      STAGING_MAX_OUTSIDE_US_PCT: process.env.STAGING_MAX_OUTSIDE_US_PCT,
+      STAGING_MAX_DUPLICATE_LOCATIONS_PCT: process.env.STAGING_MAX_DUPLICATE_LOCATIONS_PCT,
+      SNAPSHOT_RETENTION: process.env.SNAPSHOT_RETENTION,
       NEXT_PUBLIC_SENTRY_DSN: process.env.NEXT_PUBLIC_SENTRY_DSN,
       NEXT_PUBLIC_GA_MEASUREMENT_ID: process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID,
       NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
@@ -55,6 +105,9 @@ export const env = validateEnv()
 // Helper to check if in production
 export const isProduction = env.NODE_ENV === 'production'
 
+// Helper to check if running against the file-backed fixture store
+export const isLocalDataMode = env.DATA_MODE === 'local'
+
 // Helper to get base URL
 export function getBaseUrl() {
   if (env.NEXT_PUBLIC_URL) return env.NEXT_PUBLIC_URL
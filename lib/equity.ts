@@ -0,0 +1,145 @@
+import { db } from './data-store'
+import {
+    fetchHousingProfiles,
+    HousingProfile,
+    HousingProfileLevel
+} from './census-api'
+import { getStateCodeFromFIPS } from './map-utils'
+
+/**
+ * Demographic inputs for the equity gap view: ACS housing profiles plus the
+ * Justice40 disadvantaged community designation. CEJST designates census
+ * tracts, so larger regions get the share of residents living in designated
+ * tracts and block groups inherit their tract's designation.
+ */
+export interface RegionDemographics extends HousingProfile {
+    disadvantaged_share: number | null
+    is_disadvantaged: boolean | null
+}
+
+const EMPTY_PROFILE: HousingProfile = {
+    median_household_income: null,
+    renter_share: null,
+    multifamily_share: null
+}
+
+// A region is flagged when most of its residents live in designated tracts
+const DISADVANTAGED_SHARE_THRESHOLD = 0.5
+
+const PAGE_SIZE = 1000
+
+interface DisadvantagedTract {
+    geoid: string
+    population: number
+    is_disadvantaged: boolean
+}
+
+async function fetchDisadvantagedTracts(stateCode?: string): Promise<DisadvantagedTract[]> {
+    const tracts: DisadvantagedTract[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = db
+            .from('disadvantaged_tracts')
+            .select('geoid, population, is_disadvantaged')
+            .order('geoid')
+            .range(from, from + PAGE_SIZE - 1)
+        if (stateCode) query = query.eq('state', stateCode)
+
+        const { data, error } = await query
+        if (error) throw error
+        tracts.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) return tracts
+    }
+}
+
+// Population-weighted share of each region's residents in designated tracts
+function rollUpDisadvantaged(
+    tracts: DisadvantagedTract[],
+    regionOf: (geoid: string) => string | null
+): Map<string, number> {
+    const totals = new Map<string, { population: number; disadvantaged: number }>()
+    for (const tract of tracts) {
+        const region = regionOf(tract.geoid)
+        if (!region) continue
+        const total = totals.get(region) || { population: 0, disadvantaged: 0 }
+        total.population += tract.population
+        if (tract.is_disadvantaged) total.disadvantaged += tract.population
+        totals.set(region, total)
+    }
+
+    const shares = new Map<string, number>()
+    for (const [region, total] of totals) {
+        if (total.population > 0) shares.set(region, total.disadvantaged / total.population)
+    }
+    return shares
+}
+
+async function fetchDisadvantagedShares(
+    level: HousingProfileLevel,
+    stateCode?: string
+): Promise<Map<string, number>> {
+    if (level === 'zip') {
+        // ZCTAs don't nest in tracts; the database matches tract centers to ZIP boundaries
+        const shares = new Map<string, number>()
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await db
+                .rpc('get_zip_disadvantaged_shares')
+                .range(from, from + PAGE_SIZE - 1)
+            if (error) throw error
+            for (const row of (data || []) as { zip_code: string; disadvantaged_share: number }[]) {
+                shares.set(row.zip_code, row.disadvantaged_share)
+            }
+            if (!data || data.length < PAGE_SIZE) return shares
+        }
+    }
+
+    const tracts = await fetchDisadvantagedTracts(stateCode)
+    switch (level) {
+        case 'state':
+            return rollUpDisadvantaged(tracts, (geoid) => getStateCodeFromFIPS(geoid.slice(0, 2)))
+        case 'county':
+            return rollUpDisadvantaged(tracts, (geoid) => geoid.slice(0, 5))
+        default:
+            // Tracts are designated as a whole; block groups look up their tract
+            return new Map(tracts.map((tract) => [tract.geoid, tract.is_disadvantaged ? 1 : 0]))
+    }
+}
+
+/**
+ * Demographics lookup for every region at a level, keyed by state code,
+ * 5-digit county FIPS, ZIP code, or tract/block-group GEOID. Missing inputs
+ * come back null, so one unavailable source doesn't block aggregation.
+ */
+export async function loadRegionDemographics(
+    level: HousingProfileLevel,
+    stateCode?: string
+): Promise<(key: string) => RegionDemographics> {
+    const [profilesByFips, shares] = await Promise.all([
+        fetchHousingProfiles(level, stateCode),
+        fetchDisadvantagedShares(level, stateCode).catch((error) => {
+            console.warn(
+                `Justice40 designations unavailable for ${level}:`,
+                error instanceof Error ? error.message : 'Unknown error'
+            )
+            return new Map<string, number>()
+        })
+    ])
+
+    const profiles =
+        level === 'state'
+            ? new Map(
+                  [...profilesByFips].map(([fips, profile]) => [
+                      getStateCodeFromFIPS(fips) || fips,
+                      profile
+                  ])
+              )
+            : profilesByFips
+
+    return (key) => {
+        const share = shares.get(level === 'block_group' ? key.slice(0, 11) : key)
+        return {
+            ...(profiles.get(key) || EMPTY_PROFILE),
+            disadvantaged_share: share ?? null,
+            is_disadvantaged: share === undefined ? null : share >= DISADVANTAGED_SHARE_THRESHOLD
+        }
+    }
+}
@@ -0,0 +1,376 @@
+import { db } from './data-store'
+import { EVScoreResponse } from './api-validation'
+import { ApiResponseError, logError } from './error-handling'
+import { isAggregatableStation } from './data-processor'
+import {
+    DEFAULT_SCORE_FILTERS,
+    ScorableRegion,
+    scorePoint,
+    scoreRegion
+} from './score-engine'
+import { getRegionKey } from './history'
+import {
+    computeIsochrone,
+    driveMinutesTo,
+    estimateDriveMinutes,
+    getRoadGraph
+} from './road-network'
+import { calculateDistance } from './scoring'
+import { findStationsInBounds } from './station-index'
+import {
+    VehicleProfile,
+    isStationCompatible,
+    getUsableConnectors
+} from './vehicle-profiles'
+
+export type CoverageMode = 'drive_time' | 'straight_line'
+
+export interface ScoreLocationInput {
+    lat?: number
+    lng?: number
+    address?: string
+    vehicle?: VehicleProfile
+    coverage?: CoverageMode // Defaults to drive_time when a road network is loaded
+}
+
+// Drive-time buckets reported in `coverage`
+export const COVERAGE_MINUTES = [5, 10, 15]
+
+// Charger search box around the point: ~10 mi, or ~17 mi (15 min at highway speed) for drive time
+const RADIUS_SEARCH_DEGREES = 0.15
+const DRIVE_TIME_SEARCH_DEGREES = 0.25
+
+// Zip or county row from the nearby-region lookup
+interface NearbyRegion extends ScorableRegion {
+    center_lat: number
+    center_lng: number
+    zip_code?: string | null
+    county_name?: string | null
+    state_name?: string | null
+    state?: string | null
+}
+
+// Helper: Check if coordinates are in US
+export function isValidUSCoordinates(lat: number, lng: number): boolean {
+    // Continental US + Alaska + Hawaii approximate bounds
+    const isInContinental =
+        lat >= 24.5 && lat <= 49.4 && lng >= -125 && lng <= -66.9
+    const isInAlaska = lat >= 51 && lat <= 71.5 && lng >= -179 && lng <= -129
+    const isInHawaii =
+        lat >= 18.9 && lat <= 22.2 && lng >= -160 && lng <= -154.8
+
+    return isInContinental || isInAlaska || isInHawaii
+}
+
+// Helper: Get score message
+function getScoreMessage(score: number, location: string): string {
+    if (score >= 80) {
+        return `Excellent! ${location} has outstanding EV charging infrastructure.`
+    } else if (score >= 60) {
+        return `Good news! ${location} has solid EV charging options.`
+    } else if (score >= 40) {
+        return `${location} has limited but usable charging infrastructure.`
+    } else if (score >= 20) {
+        return `${location} has minimal charging infrastructure. Home charging recommended.`
+    } else {
+        return `${location} has very limited charging infrastructure. Home charging essential.`
+    }
+}
+
+async function geocode(
+    address: string
+): Promise<{ lat: number; lng: number; address: string }> {
+    let data
+    try {
+        const response = await fetch(
+            `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
+                address
+            )}.json?` +
+                `access_token=${process.env.NEXT_PUBLIC_MAPBOX_TOKEN}&` +
+                `country=US&` +
+                `limit=1`
+        )
+
+        data = await response.json()
+    } catch {
+        throw new ApiResponseError('Failed to geocode address', 400)
+    }
+
+    if (!data.features || data.features.length === 0) {
+        throw new ApiResponseError('Address not found', 400)
+    }
+
+    const [lng, lat] = data.features[0].center
+    return { lat, lng, address: data.features[0].place_name }
+}
+
+/**
+ * Score a single location. Shared by /api/ev-score and /api/ev-score/batch;
+ * input problems are thrown as ApiResponseError with a 400/404 status.
+ */
+export async function scoreLocation(
+    input: ScoreLocationInput
+): Promise<EVScoreResponse> {
+    let lat = input.lat || 0
+    let lng = input.lng || 0
+    let address = input.address || ''
+    const vehicle = input.vehicle
+
+    // If address is provided but no coordinates, geocode it first
+    if (address && (!lat || !lng)) {
+        ;({ lat, lng, address } = await geocode(address))
+    }
+
+    // Validate coordinates
+    if (!lat || !lng || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+        throw new ApiResponseError('Valid latitude and longitude are required', 400)
+    }
+
+    // Check if coordinates are in US
+    if (!isValidUSCoordinates(lat, lng)) {
+        throw new ApiResponseError('Address must be in the United States', 400)
+    }
+
+    // Find nearest zip code data
+    const { data: nearbyZips, error: zipError } = await db
+        .from('zip_level_data')
+        .select('*')
+        .gte('center_lat', lat - 0.1)
+        .lte('center_lat', lat + 0.1)
+        .gte('center_lng', lng - 0.1)
+        .lte('center_lng', lng + 0.1)
+        .limit(10)
+
+    if (zipError) {
+        logError(zipError, 'api.ev-score.zip-lookup', { lat, lng })
+    }
+
+    // Find nearest county if no zip found
+    const { data: nearbyCounties, error: countyError } = await db
+        .from('county_level_data')
+        .select('*')
+        .gte('center_lat', lat - 0.5)
+        .lte('center_lat', lat + 0.5)
+        .gte('center_lng', lng - 0.5)
+        .lte('center_lng', lng + 0.5)
+        .limit(10)
+
+    if (countyError) {
+        logError(countyError, 'api.ev-score.county-lookup', { lat, lng })
+    }
+
+    // Find nearest region
+    let nearestRegion: NearbyRegion | null = null
+    let minDistance = Infinity
+    let regionType = 'unknown'
+
+    // Check zips first (more granular)
+    for (const zip of (nearbyZips || []) as NearbyRegion[]) {
+        const distance = calculateDistance(
+            lat,
+            lng,
+            zip.center_lat,
+            zip.center_lng
+        )
+        if (distance < minDistance) {
+            minDistance = distance
+            nearestRegion = zip
+            regionType = 'zip'
+        }
+    }
+
+    // Fall back to county if zip not found or too far
+    if (!nearestRegion || minDistance > 10) {
+        for (const county of (nearbyCounties || []) as NearbyRegion[]) {
+            const distance = calculateDistance(
+                lat,
+                lng,
+                county.center_lat,
+                county.center_lng
+            )
+            if (distance < minDistance) {
+                minDistance = distance
+                nearestRegion = county
+                regionType = 'county'
+            }
+        }
+    }
+
+    if (!nearestRegion) {
+        throw new ApiResponseError('No data found for this location', 404)
+    }
+
+    // Drive times over the road network; straight-line estimates without one
+    const graph = input.coverage === 'straight_line' ? null : getRoadGraph()
+    const isochrone = graph
+        ? computeIsochrone(graph, lat, lng, Math.max(...COVERAGE_MINUTES))
+        : null
+    const searchDegrees = isochrone
+        ? DRIVE_TIME_SEARCH_DEGREES
+        : RADIUS_SEARCH_DEGREES
+
+    // Get nearby chargers for detailed breakdown, from the shared station index
+    // when it's loaded and otherwise just this box, leaving out private and
+    // temporarily unavailable ones as the region aggregates do
+    const nearbyChargers = (await findStationsInBounds({
+        north: lat + searchDegrees,
+        south: lat - searchDegrees,
+        east: lng + searchDegrees,
+        west: lng - searchDegrees
+    })).filter(isAggregatableStation)
+
+    // Radius counts and the point score keep to the ~10 mi box
+    const inRadiusBox = (charger: { latitude: number; longitude: number }) =>
+        Math.abs(charger.latitude - lat) <= RADIUS_SEARCH_DEGREES &&
+        Math.abs(charger.longitude - lng) <= RADIUS_SEARCH_DEGREES
+
+    // Calculate distances, noting which chargers the vehicle (if any) can plug into
+    const allChargersWithDistance = nearbyChargers
+        .filter(inRadiusBox)
+        .map((charger) => ({
+            ...charger,
+            compatible:
+                !vehicle ||
+                isStationCompatible(charger.ev_connector_types, vehicle),
+            distance: calculateDistance(
+                lat,
+                lng,
+                charger.latitude,
+                charger.longitude
+            )
+        }))
+        .sort((a, b) => a.distance - b.distance)
+    const chargersWithDistance = allChargersWithDistance.filter(
+        (charger) => charger.compatible
+    )
+
+    // Count chargers within different radii
+    const within1Mile = chargersWithDistance.filter(
+        (c) => c.distance <= 1
+    ).length
+    const within5Miles = chargersWithDistance.filter(
+        (c) => c.distance <= 5
+    ).length
+    const within10Miles = chargersWithDistance.filter(
+        (c) => c.distance <= 10
+    ).length
+
+    // Count by type
+    const dcFastCount = chargersWithDistance.filter(
+        (c) => c.charger_type_detailed === 'dcfast'
+    ).length
+    const level2Count = chargersWithDistance.filter(
+        (c) => c.charger_type_detailed === 'level2'
+    ).length
+    const level1Count = chargersWithDistance.filter(
+        (c) => c.charger_type_detailed === 'level1'
+    ).length
+
+    // Get nearest charger
+    const nearestCharger = chargersWithDistance[0] || null
+
+    // Minutes to each compatible charger; null when unreachable within the isochrone
+    const driveMinutes = nearbyChargers
+        .filter(
+            (charger) =>
+                !vehicle ||
+                isStationCompatible(charger.ev_connector_types, vehicle)
+        )
+        .map((charger) =>
+            graph && isochrone
+                ? driveMinutesTo(graph, isochrone, charger.latitude, charger.longitude)
+                : estimateDriveMinutes(
+                      calculateDistance(lat, lng, charger.latitude, charger.longitude)
+                  )
+        )
+        .filter((minutes): minutes is number => minutes !== null)
+    const withinMinutes = (limit: number) =>
+        driveMinutes.filter((minutes) => minutes <= limit).length
+
+    // Calculate fast charger percentage
+    const totalChargers = within10Miles || 1
+    const fastChargerPercentage = Math.round(
+        (dcFastCount / totalChargers) * 100
+    )
+
+    const location = address || `${lat.toFixed(4)}, ${lng.toFixed(4)}`
+    // The address itself is scored from the chargers around it
+    const { score, breakdown, model } = scorePoint(allChargersWithDistance)
+
+    // The region with the map's default view, so it matches the map color
+    const regional = scoreRegion(nearestRegion, {
+        ...DEFAULT_SCORE_FILTERS,
+        vehicle: vehicle || null
+    })
+
+    return {
+        success: true,
+        score,
+        scoring_model: model,
+        score_breakdown: breakdown,
+        location,
+        latitude: lat,
+        longitude: lng,
+        message: getScoreMessage(score, location),
+        address,
+        coordinates: { lat, lng },
+        region: {
+            name:
+                nearestRegion.zip_code ||
+                nearestRegion.county_name ||
+                nearestRegion.state_name ||
+                'Unknown',
+            type: regionType,
+            key:
+                regionType === 'zip' || regionType === 'county'
+                    ? getRegionKey(regionType, nearestRegion)
+                    : null,
+            population: nearestRegion.population || null,
+            distance: minDistance,
+            score: regional.score,
+            scoring_model: regional.model
+        },
+        chargers: {
+            within_1_mile: within1Mile,
+            within_5_miles: within5Miles,
+            within_10_miles: within10Miles,
+            dcfast_count: dcFastCount,
+            level2_count: level2Count,
+            level1_count: level1Count,
+            total: chargersWithDistance.length,
+            nearest: nearestCharger
+                ? {
+                      name: nearestCharger.name,
+                      distance: nearestCharger.distance,
+                      type: nearestCharger.charger_type_detailed,
+                      address: nearestCharger.address
+                  }
+                : null
+        },
+        coverage: {
+            mode: isochrone ? 'drive_time' : 'straight_line',
+            within_5_minutes: withinMinutes(5),
+            within_10_minutes: withinMinutes(10),
+            within_15_minutes: withinMinutes(15),
+            nearest_minutes:
+                driveMinutes.length > 0
+                    ? Math.round(Math.min(...driveMinutes) * 10) / 10
+                    : null
+        },
+        vehicle: vehicle
+            ? {
+                  id: vehicle.id,
+                  name: vehicle.name,
+                  adapters: vehicle.adapters,
+                  usable_connectors: getUsableConnectors(vehicle)
+              }
+            : null,
+        // Legacy format support
+        nearest_charger_distance: nearestCharger?.distance || null,
+        chargers_1mi: within1Mile,
+        chargers_5mi: within5Miles,
+        chargers_10mi: within10Miles,
+        fast_charger_count: dcFastCount,
+        fast_charger_percentage: fastChargerPercentage
+    }
+}
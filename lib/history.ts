@@ -0,0 +1,170 @@
+import { db } from './data-store'
+
+export type RegionType = 'state' | 'county' | 'zip'
+
+export interface RegionHistoryPoint {
+    snapshot_date: string
+    charger_count: number
+    total_ports: number
+    dcfast_count: number
+    level2_count: number
+    level1_count: number
+    ev_infrastructure_score: number
+}
+
+interface RegionRow {
+    state_name?: string | null
+    state?: string | null
+    county_name?: string | null
+    zip_code?: string | null
+}
+
+const REGION_TABLES: Record<RegionType, string> = {
+    state: 'state_level_data',
+    county: 'county_level_data',
+    zip: 'zip_level_data'
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * Stable key for a region row:
+ * - state: state name ("California")
+ * - county: state code and county name ("CA:Alameda")
+ * - zip: 5-digit ZIP code
+ */
+export function getRegionKey(
+    type: RegionType,
+    region: RegionRow
+): string | null {
+    switch (type) {
+        case 'state':
+            return region.state_name || null
+        case 'county':
+            return region.state && region.county_name
+                ? `${region.state}:${region.county_name}`
+                : null
+        case 'zip':
+            return region.zip_code || null
+    }
+}
+
+/**
+ * Parse the `type:key` form used by /api/history, e.g. "county:CA:Alameda"
+ */
+export function parseRegionParam(
+    value: string
+): { type: RegionType; key: string } | null {
+    const separator = value.indexOf(':')
+    if (separator === -1) return null
+
+    const type = value.slice(0, separator) as RegionType
+    const key = value.slice(separator + 1).trim()
+
+    if (!Object.hasOwn(REGION_TABLES, type) || !key) return null
+    return { type, key }
+}
+
+/**
+ * Copy today's production counts and scores for every region into region_history.
+ * Re-running on the same day overwrites that day's snapshot.
+ */
+export async function recordRegionSnapshots(
+    snapshotDate: string = new Date().toISOString().split('T')[0]
+): Promise<number> {
+    let recorded = 0
+
+    for (const type of Object.keys(REGION_TABLES) as RegionType[]) {
+        let from = 0
+        let hasMore = true
+
+        while (hasMore) {
+            const { data: regions, error } = await db
+                .from(REGION_TABLES[type])
+                .select('*')
+                .range(from, from + PAGE_SIZE - 1)
+
+            if (error) throw error
+
+            const rows = (regions || [])
+                .map((region) => ({
+                    region_type: type,
+                    region_key: getRegionKey(type, region),
+                    snapshot_date: snapshotDate,
+                    charger_count: region.charger_count || 0,
+                    total_ports: region.total_ports || 0,
+                    dcfast_count: region.dcfast_count || 0,
+                    level2_count: region.level2_count || 0,
+                    level1_count: region.level1_count || 0,
+                    ev_infrastructure_score: region.ev_infrastructure_score || 0,
+                    scoring_model_version: region.scoring_model_version || null
+                }))
+                .filter((row) => row.region_key)
+
+            if (rows.length > 0) {
+                const { error: upsertError } = await db
+                    .from('region_history')
+                    .upsert(rows, {
+                        onConflict: 'region_type,region_key,snapshot_date'
+                    })
+
+                if (upsertError) throw upsertError
+                recorded += rows.length
+            }
+
+            from += PAGE_SIZE
+            hasMore = (regions || []).length === PAGE_SIZE
+        }
+    }
+
+    console.log(`📈 Recorded ${recorded} region snapshots for ${snapshotDate}`)
+    return recorded
+}
+
+export async function getRegionHistory(
+    type: RegionType,
+    key: string,
+    days: number
+): Promise<RegionHistoryPoint[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        .toISOString()
+        .split('T')[0]
+
+    const { data, error } = await db
+        .from('region_history')
+        .select(
+            'snapshot_date, charger_count, total_ports, dcfast_count, level2_count, level1_count, ev_infrastructure_score'
+        )
+        .eq('region_type', type)
+        .eq('region_key', key)
+        .gte('snapshot_date', since)
+        .order('snapshot_date', { ascending: true })
+
+    if (error) throw error
+    return data || []
+}
+
+/**
+ * Current production row for a region key produced by getRegionKey
+ */
+export async function fetchRegionByKey(
+    type: RegionType,
+    key: string
+): Promise<{ ev_infrastructure_score: number | null } | null> {
+    let query = db
+        .from(REGION_TABLES[type])
+        .select('ev_infrastructure_score')
+
+    if (type === 'state') {
+        query = query.eq('state_name', key)
+    } else if (type === 'county') {
+        const [state, ...countyName] = key.split(':')
+        query = query.eq('state', state).eq('county_name', countyName.join(':'))
+    } else {
+        query = query.eq('zip_code', key)
+    }
+
+    const { data, error } = await query.limit(1)
+    if (error) throw error
+    return data?.[0] || null
+}
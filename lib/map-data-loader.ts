@@ -1,7 +1,14 @@
 import mapboxgl from 'mapbox-gl'
 import * as topojson from 'topojson-client'
+import type { Feature, FeatureCollection, Geometry } from 'geojson'
 import { supabaseAdmin } from './supabase'
-import { applyFiltersToData, getStateCodeFromFIPS } from './map-utils'
+import {
+    applyFiltersToData,
+    getCensusAreaName,
+    getStateCodeFromFIPS,
+    MapScoreFilters
+} from './map-utils'
+import { getUsableConnectors } from './vehicle-profiles'
 import {
     createPolygonLayers,
     createChargerPointsLayer,
@@ -9,9 +16,10 @@ import {
     removeExistingLayers
 } from './map-layers'
 
-const applyThemeColors = (map: mapboxgl.Map, opportunityMode: boolean = false) => {
+// needMode covers both opportunity and equity gap views, which score where chargers are needed
+const applyThemeColors = (map: mapboxgl.Map, needMode: boolean = false) => {
     if (map.getLayer('region-fills')) {
-        if (opportunityMode) {
+        if (needMode) {
             // Opportunity mode: Gold/Orange/Red spectrum
             map.setPaintProperty('region-fills', 'fill-color', [
                 'interpolate',
@@ -60,7 +68,7 @@ const applyThemeColors = (map: mapboxgl.Map, opportunityMode: boolean = false) =
     }
 
     if (map.getLayer('region-borders')) {
-        if (opportunityMode) {
+        if (needMode) {
             // Opportunity mode borders
             map.setPaintProperty('region-borders', 'line-color', [
                 'interpolate',
@@ -126,6 +134,8 @@ export async function loadStatePolygons(
                     filtered_charger_count:
                         stateData?.filtered_charger_count || 0,
                     population: stateData?.population || 0,
+                    renter_share: stateData?.renter_share ?? null,
+                    is_disadvantaged: stateData?.is_disadvantaged ?? null,
                     state_name: stateName
                 }
             }
@@ -151,7 +161,7 @@ export async function loadStatePolygons(
         }
 
         // APPLY THEME OVERRIDE
-        applyThemeColors(map, filters.opportunityMode)
+        applyThemeColors(map, filters.opportunityMode || filters.equityMode)
     } catch (error) {
         console.error('Failed to load state polygons:', error)
         if (onError)
@@ -224,6 +234,8 @@ export async function loadCountyPolygons(
                     filtered_charger_count:
                         countyData?.filtered_charger_count || 0,
                     population: countyData?.population || 0,
+                    renter_share: countyData?.renter_share ?? null,
+                    is_disadvantaged: countyData?.is_disadvantaged ?? null,
                     county_name: countyName,
                     state: stateCode
                 }
@@ -250,7 +262,7 @@ export async function loadCountyPolygons(
         }
 
         // APPLY THEME OVERRIDE
-        applyThemeColors(map, filters.opportunityMode)
+        applyThemeColors(map, filters.opportunityMode || filters.equityMode)
     } catch (error) {
         console.error('Failed to load county polygons:', error)
         if (onError)
@@ -269,7 +281,8 @@ export async function loadChargerPoints(map: mapboxgl.Map, filters: any) {
     try {
         // Build charger type filter
         const types = []
-        if (filters.showDCFast) types.push('dcfast')
+        const vehicleAllowsDCFast = !filters.vehicle || filters.vehicle.maxDcKw > 0
+        if (filters.showDCFast && vehicleAllowsDCFast) types.push('dcfast')
         if (filters.showLevel2) types.push('level2')
         if (filters.showLevel1) types.push('level1')
 
@@ -288,14 +301,23 @@ export async function loadChargerPoints(map: mapboxgl.Map, filters: any) {
             .from('charging_stations')
             .select('*')
             .in('charger_type_detailed', types)
+            // Private fleet and temporarily unavailable chargers aren't shown
+            .neq('access_code', 'private')
+            .neq('status_code', 'T')
             .gte('latitude', bounds.getSouth())
             .lte('latitude', bounds.getNorth())
             .gte('longitude', bounds.getWest())
             .lte('longitude', bounds.getEast())
             .limit(500)
 
-        // Apply connector type filtering if both aren't enabled
-        if (filters.showTesla !== filters.showCCS) {
+        // A selected vehicle limits points to plugs it can actually use
+        if (filters.vehicle) {
+            query = query.overlaps(
+                'ev_connector_types',
+                getUsableConnectors(filters.vehicle)
+            )
+        } else if (filters.showTesla !== filters.showCCS) {
+            // Apply connector type filtering if both aren't enabled
             if (filters.showTesla && !filters.showCCS) {
                 // Only Tesla/NACS - look for TESLA connector type
                 query = query.contains('ev_connector_types', ['TESLA'])
@@ -307,6 +329,10 @@ export async function loadChargerPoints(map: mapboxgl.Map, filters: any) {
         }
         // If both Tesla and CCS are enabled (or both disabled), show all stations
 
+        if (filters.showOnly24_7) {
+            query = query.eq('access_code', 'public').eq('is_24_7', true)
+        }
+
         const { data: chargers, error } = await query
 
         if (error) {
@@ -329,7 +355,8 @@ export async function loadChargerPoints(map: mapboxgl.Map, filters: any) {
                 ev_connector_types: charger.ev_connector_types || [],
                 charging_level: charger.charging_level,
                 access_code: charger.access_code,
-                max_power_kw: charger.max_power_kw
+                max_power_kw: charger.max_power_kw,
+                access_days_time: charger.access_days_time
             }
         }))
 
@@ -572,6 +599,16 @@ export async function loadChargerPoints(map: mapboxgl.Map, filters: any) {
                                 ">
                                     ${props.address}
                                 </p>
+                                ${props.access_days_time ? `
+                                <p style="
+                                    margin: 6px 0 0 0; 
+                                    font-size: 10px; 
+                                    color: rgba(255, 255, 255, 0.5); 
+                                    font-family: 'SF Mono', 'Monaco', 'Inconsolata', 'Roboto Mono', monospace;
+                                    line-height: 1.4;
+                                ">
+                                    ${props.access_days_time}
+                                </p>` : ''}
                             </div>
                         </div>
                         `
@@ -613,7 +650,8 @@ export async function loadZipPolygons(
             throw new Error('Map bounds not available')
         }
 
-        const zoom = Math.round(map.getZoom())
+        // Also the fallback when census areas aren't loaded, so stay on the ZIP tier
+        const zoom = Math.min(Math.round(map.getZoom()), 11)
 
         const apiUrl =
             `/api/charging-data?zoom=${zoom}&` +
@@ -646,7 +684,9 @@ export async function loadZipPolygons(
                     state: zip.state,
                     charger_count: zip.charger_count || 0,
                     filtered_charger_count: zip.filtered_charger_count || 0,
-                    population: zip.population || 0
+                    population: zip.population || 0,
+                    renter_share: zip.renter_share ?? null,
+                    is_disadvantaged: zip.is_disadvantaged ?? null
                 }
             }))
 
@@ -672,7 +712,7 @@ export async function loadZipPolygons(
         }
 
         // APPLY THEME OVERRIDE
-        applyThemeColors(map, filters.opportunityMode)
+        applyThemeColors(map, filters.opportunityMode || filters.equityMode)
     } catch (error) {
         console.error('❌ Failed to load zip polygons:', error)
         if (onError)
@@ -680,3 +720,92 @@ export async function loadZipPolygons(
         await loadCountyPolygons(map, filters, setupInteractions, onError)
     }
 }
+
+// A tract or block group row from /api/charging-data, scored by applyFiltersToData
+interface CensusAreaRow {
+    geoid: string
+    state: string
+    geometry: Geometry | null
+    score: number
+    charger_count: number | null
+    filtered_charger_count: number
+    population: number | null
+    renter_share?: number | null
+    is_disadvantaged?: boolean | null
+}
+
+export async function loadCensusAreaPolygons(
+    map: mapboxgl.Map,
+    filters: MapScoreFilters,
+    setupInteractions: (type: string) => void,
+    onError?: (error: Error) => void
+) {
+    try {
+        const bounds = map.getBounds()
+        if (!bounds) {
+            throw new Error('Map bounds not available')
+        }
+
+        const zoom = Math.round(map.getZoom())
+
+        const dataResponse = await fetch(
+            `/api/charging-data?zoom=${zoom}&` +
+                `north=${bounds.getNorth()}&` +
+                `south=${bounds.getSouth()}&` +
+                `east=${bounds.getEast()}&` +
+                `west=${bounds.getWest()}`
+        )
+        const scoreData = await dataResponse.json()
+
+        // No tracts/block groups imported for this area yet
+        if (!scoreData?.data || scoreData.data.length === 0) {
+            await loadZipPolygons(map, filters, setupInteractions, onError)
+            return
+        }
+
+        const filteredData: CensusAreaRow[] = applyFiltersToData(scoreData.data, filters)
+
+        const features = filteredData
+            .filter((area) => area.geometry)
+            .map((area, index): Feature => ({
+                type: 'Feature',
+                id: index,
+                geometry: area.geometry!,
+                properties: {
+                    score: area.score || 0,
+                    geoid: area.geoid,
+                    area_name: getCensusAreaName(area.geoid),
+                    state: area.state,
+                    charger_count: area.charger_count || 0,
+                    filtered_charger_count: area.filtered_charger_count || 0,
+                    population: area.population || 0,
+                    renter_share: area.renter_share ?? null,
+                    is_disadvantaged: area.is_disadvantaged ?? null
+                }
+            }))
+
+        const geojson: FeatureCollection = { type: 'FeatureCollection', features }
+
+        if (map.getSource('regions')) {
+            ;(map.getSource('regions') as mapboxgl.GeoJSONSource).setData(geojson)
+        } else {
+            removeExistingLayers(map)
+
+            map.addSource('regions', {
+                type: 'geojson',
+                data: geojson
+            })
+
+            createPolygonLayers(map)
+            createTextLabels(map, zoom)
+            setupInteractions('polygon')
+        }
+
+        applyThemeColors(map, filters.opportunityMode || filters.equityMode)
+    } catch (error) {
+        console.error('❌ Failed to load census area polygons:', error)
+        if (onError)
+            onError(error instanceof Error ? error : new Error(String(error)))
+        await loadZipPolygons(map, filters, setupInteractions, onError)
+    }
+}
@@ -145,10 +145,15 @@ export function createTextLabels(map: mapboxgl.Map, zoomLevel: number) {
         textField = ['case', ['has', 'county_name'], ['get', 'county_name'], '']
         minZoom = 6
         maxZoom = 10
+    } else if (zoomLevel >= 12) {
+        // Tracts/block groups, or ZIPs where census areas aren't loaded
+        textField = ['coalesce', ['get', 'area_name'], ['get', 'zip_code'], '']
+        minZoom = 12
+        maxZoom = 24
     } else if (zoomLevel >= 10) {
         textField = ['case', ['has', 'zip_code'], ['get', 'zip_code'], '']
         minZoom = 10
-        maxZoom = 24
+        maxZoom = 12
     }
 
     // Use a tech-oriented font stack
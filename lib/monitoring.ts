@@ -1,3 +1,5 @@
+import { db } from './data-store'
+
 export interface RefreshMetrics {
     timestamp: string
     duration_seconds: number
@@ -8,13 +10,22 @@ export interface RefreshMetrics {
     error_message?: string
 }
 
+/**
+ * Record a full refresh run. Stored for the admin dashboard; a failed write
+ * is logged and never fails the refresh itself.
+ */
 export async function logRefreshMetrics(
     metrics: RefreshMetrics
 ): Promise<void> {
-    // In production, you'd send this to a monitoring service
-    // For now, just console log
     console.log('Refresh Metrics:', JSON.stringify(metrics, null, 2))
 
+    try {
+        const { error } = await db.from('refresh_metrics').insert(metrics)
+        if (error) throw error
+    } catch (error) {
+        console.error('Failed to save refresh metrics:', error)
+    }
+
     // TODO: Send to monitoring service (Sentry, Datadog, etc.)
     // await fetch('https://your-monitoring-service.com/metrics', {
     //   method: 'POST',
@@ -22,6 +33,21 @@ export async function logRefreshMetrics(
     // });
 }
 
+/**
+ * The newest `limit` recorded refresh runs, newest first
+ */
+export async function getRecentRefreshMetrics(
+    limit: number = 10
+): Promise<RefreshMetrics[]> {
+    const { data, error } = await db
+        .from('refresh_metrics')
+        .select('timestamp, duration_seconds, stations_fetched, stations_inserted, states_generated, success, error_message')
+        .order('timestamp', { ascending: false })
+        .limit(limit)
+    if (error) throw error
+    return data || []
+}
+
 export function createErrorAlert(error: Error): void {
     // In production, send alerts for failures
     console.error('ALERT: Data refresh failed:', error)
@@ -0,0 +1,285 @@
+import { db } from './data-store'
+import {
+    OCPIConnectorData,
+    OCPIEvseData,
+    OCPILocationData
+} from './api-validation'
+
+// Our identity in the OCPI network
+const COUNTRY_CODE = 'US'
+const PARTY_ID = (process.env.OCPI_PARTY_ID || 'CIC').toUpperCase()
+
+export const OCPI_STATUS = {
+    SUCCESS: 1000,
+    CLIENT_ERROR: 2000,
+    INVALID_PARAMETERS: 2001,
+    UNKNOWN_LOCATION: 2003,
+    SERVER_ERROR: 3000
+}
+
+export interface OCPIStationRow {
+    id: string
+    source: string
+    source_id: string
+    external_id: number | null
+    name: string | null
+    address: string | null
+    state: string | null
+    zip: string | null
+    latitude: number
+    longitude: number
+    network: string | null
+    ev_connector_types: string[] | null
+    dcfast_ports: number | null
+    level2_ports: number | null
+    level1_ports: number | null
+    max_power_kw: number | null
+    status_code: string | null
+    is_24_7: boolean | null
+    // Kept across refreshes that leave the station unchanged
+    last_updated: string
+}
+
+export const OCPI_STATION_COLUMNS =
+    'id, source, source_id, external_id, name, address, state, zip, latitude, longitude, network, ev_connector_types, dcfast_ports, level2_ports, level1_ports, max_power_kw, status_code, is_24_7, last_updated'
+
+type ChargingLevel = 'dcfast' | 'level2' | 'level1'
+
+// NREL connector code → OCPI standard, and the levels it is used at
+const CONNECTOR_STANDARDS: Record<
+    string,
+    { standard: string; format: 'SOCKET' | 'CABLE'; levels: ChargingLevel[] }
+> = {
+    J1772COMBO: { standard: 'IEC_62196_T1_COMBO', format: 'CABLE', levels: ['dcfast'] },
+    CHADEMO: { standard: 'CHADEMO', format: 'CABLE', levels: ['dcfast'] },
+    TESLA: { standard: 'TESLA_S', format: 'CABLE', levels: ['dcfast', 'level2'] },
+    J1772: { standard: 'IEC_62196_T1', format: 'CABLE', levels: ['level2', 'level1'] },
+    NEMA1450: { standard: 'NEMA_14_50', format: 'SOCKET', levels: ['level2'] },
+    NEMA520: { standard: 'NEMA_5_20', format: 'SOCKET', levels: ['level2', 'level1'] },
+    NEMA515: { standard: 'DOMESTIC_B', format: 'SOCKET', levels: ['level1'] }
+}
+
+// Used when a level has ports but none of the station's connectors fit it
+const DEFAULT_CONNECTOR: Record<ChargingLevel, string> = {
+    dcfast: 'J1772COMBO',
+    level2: 'J1772',
+    level1: 'J1772'
+}
+
+const EVSE_PREFIX: Record<ChargingLevel, string> = {
+    dcfast: 'D',
+    level2: 'L2-',
+    level1: 'L1-'
+}
+
+// Predominant IANA zone per state; OCPI requires one per location
+const STATE_TIME_ZONES: Record<string, string> = {
+    AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix',
+    AR: 'America/Chicago', CA: 'America/Los_Angeles', CO: 'America/Denver',
+    CT: 'America/New_York', DE: 'America/New_York', DC: 'America/New_York',
+    FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+    ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis',
+    IA: 'America/Chicago', KS: 'America/Chicago', KY: 'America/New_York',
+    LA: 'America/Chicago', ME: 'America/New_York', MD: 'America/New_York',
+    MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+    MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver',
+    NE: 'America/Chicago', NV: 'America/Los_Angeles', NH: 'America/New_York',
+    NJ: 'America/New_York', NM: 'America/Denver', NY: 'America/New_York',
+    NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+    OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York',
+    RI: 'America/New_York', SC: 'America/New_York', SD: 'America/Chicago',
+    TN: 'America/Chicago', TX: 'America/Chicago', UT: 'America/Denver',
+    VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+    WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver',
+    PR: 'America/Puerto_Rico'
+}
+
+// OCPI location ids are CiString(36)
+export const MAX_LOCATION_ID_LENGTH = 36
+
+/**
+ * Stable OCPI location id, e.g. "nrel-152087". The row uuid is regenerated
+ * on every refresh so it can't be used. Stations whose id would be longer
+ * than MAX_LOCATION_ID_LENGTH are dropped at ingest, so it is never cut
+ * short and always parses back with parseLocationId.
+ */
+export function getLocationId(station: { source: string; source_id: string }): string {
+    return `${station.source}-${station.source_id}`
+}
+
+/**
+ * Inverse of getLocationId for the single-location endpoint
+ */
+export function parseLocationId(
+    locationId: string
+): { source: string; sourceId: string } | null {
+    const match = locationId.match(/^(nrel|ocm|ocpi|csv)-(.+)$/)
+    return match ? { source: match[1], sourceId: match[2] } : null
+}
+
+function connectorElectrics(
+    level: ChargingLevel,
+    station: OCPIStationRow
+): Pick<OCPIConnectorData, 'power_type' | 'max_voltage' | 'max_amperage' | 'max_electric_power'> {
+    if (level === 'dcfast') {
+        const kw = station.max_power_kw || 50
+        const voltage = kw > 150 ? 920 : 500
+        return {
+            power_type: 'DC',
+            max_voltage: voltage,
+            max_amperage: Math.round((kw * 1000) / voltage),
+            max_electric_power: Math.round(kw * 1000)
+        }
+    }
+
+    if (level === 'level2') {
+        // max_power_kw describes the fastest level, so only trust it for L2-only sites
+        const kw = !station.dcfast_ports && station.max_power_kw ? station.max_power_kw : 7.7
+        return {
+            power_type: 'AC_1_PHASE',
+            max_voltage: 240,
+            max_amperage: Math.round((kw * 1000) / 240),
+            max_electric_power: Math.round(kw * 1000)
+        }
+    }
+
+    return {
+        power_type: 'AC_1_PHASE',
+        max_voltage: 120,
+        max_amperage: 16,
+        max_electric_power: 1920
+    }
+}
+
+function connectorsForLevel(
+    level: ChargingLevel,
+    station: OCPIStationRow
+): string[] {
+    const codes = (station.ev_connector_types || []).filter((code) => {
+        const standard = CONNECTOR_STANDARDS[code]
+        if (!standard?.levels.includes(level)) return false
+        // Tesla plugs on a site with DC ports are Superchargers, not destination chargers
+        return !(code === 'TESLA' && level !== 'dcfast' && station.dcfast_ports)
+    })
+
+    return codes.length > 0 ? codes : [DEFAULT_CONNECTOR[level]]
+}
+
+/**
+ * One EVSE per port; every EVSE of a level carries that level's connectors
+ */
+function buildEvses(station: OCPIStationRow, locationId: string): OCPIEvseData[] {
+    const status = station.status_code === 'T' ? 'INOPERATIVE' : 'UNKNOWN'
+    const ports: Record<ChargingLevel, number> = {
+        dcfast: station.dcfast_ports || 0,
+        level2: station.level2_ports || 0,
+        level1: station.level1_ports || 0
+    }
+    const evses: OCPIEvseData[] = []
+
+    for (const level of Object.keys(ports) as ChargingLevel[]) {
+        const codes = connectorsForLevel(level, station)
+        const electrics = connectorElectrics(level, station)
+
+        for (let port = 1; port <= ports[level]; port++) {
+            evses.push({
+                uid: `${locationId.slice(0, 28)}-${EVSE_PREFIX[level]}${port}`,
+                status,
+                connectors: codes.map((code, index) => ({
+                    id: String(index + 1),
+                    standard: CONNECTOR_STANDARDS[code].standard,
+                    format: CONNECTOR_STANDARDS[code].format,
+                    ...electrics,
+                    last_updated: station.last_updated
+                })),
+                last_updated: station.last_updated
+            })
+        }
+    }
+
+    return evses
+}
+
+/**
+ * Stored addresses are "street, city, ST zip"; OCPI wants them split
+ */
+function splitAddress(address: string | null): { street: string; city: string } {
+    const parts = (address || '').split(', ')
+    if (parts.length < 3) return { street: parts[0] || '', city: '' }
+
+    return {
+        street: parts.slice(0, -2).join(', '),
+        city: parts[parts.length - 2]
+    }
+}
+
+export function toOCPILocation(station: OCPIStationRow): OCPILocationData {
+    const id = getLocationId(station)
+    const { street, city } = splitAddress(station.address)
+
+    return {
+        country_code: COUNTRY_CODE,
+        party_id: PARTY_ID,
+        id,
+        publish: true,
+        name: station.name?.slice(0, 255) || undefined,
+        address: street.slice(0, 45),
+        city: city.slice(0, 45),
+        postal_code: station.zip?.slice(0, 10) || undefined,
+        state: station.state || undefined,
+        country: 'USA',
+        coordinates: {
+            latitude: station.latitude.toFixed(6),
+            longitude: station.longitude.toFixed(6)
+        },
+        operator:
+            station.network && station.network !== 'Unknown'
+                ? { name: station.network.slice(0, 100) }
+                : undefined,
+        evses: buildEvses(station, id),
+        time_zone: STATE_TIME_ZONES[station.state || ''] || 'America/New_York',
+        opening_times: station.is_24_7 ? { twentyfourseven: true } : undefined,
+        last_updated: station.last_updated
+    }
+}
+
+/**
+ * Page of public stations in a stable order, optionally limited to rows
+ * updated within [dateFrom, dateTo)
+ */
+export async function queryOCPIStations(
+    offset: number,
+    limit: number,
+    dateFrom?: string,
+    dateTo?: string
+): Promise<{ stations: OCPIStationRow[]; total: number }> {
+    let query = db
+        .from('charging_stations')
+        .select(OCPI_STATION_COLUMNS, { count: 'exact' })
+        .neq('access_code', 'private')
+
+    if (dateFrom) query = query.gte('last_updated', dateFrom)
+    if (dateTo) query = query.lt('last_updated', dateTo)
+
+    const { data, count, error } = await query
+        .order('source', { ascending: true })
+        .order('source_id', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1)
+
+    if (error) throw error
+    return { stations: (data || []) as OCPIStationRow[], total: count || 0 }
+}
+
+export function ocpiEnvelope<T>(
+    data: T,
+    statusCode: number = OCPI_STATUS.SUCCESS,
+    statusMessage?: string
+) {
+    return {
+        data,
+        status_code: statusCode,
+        status_message: statusMessage,
+        timestamp: new Date().toISOString()
+    }
+}
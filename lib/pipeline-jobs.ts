@@ -0,0 +1,393 @@
+import { db } from './data-store'
+import { logError } from './error-handling'
+import { JOB_STEPS } from './pipeline-steps'
+
+/**
+ * Persisted pipeline jobs: a job is an ordered list of steps, and the worker
+ * runs them one bounded chunk at a time, saving each step's cursor so a run
+ * cut off by a function timeout picks up where it stopped.
+ */
+
+export type JobKind = 'daily-refresh'
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface PipelineJob {
+    id: string
+    kind: JobKind
+    status: JobStatus
+    triggered_by: string
+    locked_until: string
+    error: string | null
+    created_at: string
+    started_at: string | null
+    finished_at: string | null
+    updated_at: string
+}
+
+export interface PipelineStep {
+    id: string
+    job_id: string
+    position: number
+    name: string
+    status: JobStatus
+    retry_count: number
+    cursor: unknown
+    result: unknown
+    error: string | null
+    started_at: string | null
+    finished_at: string | null
+    updated_at: string
+}
+
+export type PipelineJobWithSteps = PipelineJob & { steps: PipelineStep[] }
+
+export interface StepContext {
+    job: PipelineJob
+    // Null on the step's first chunk
+    cursor: unknown
+    // Results of the job's finished steps, by step name
+    results: Record<string, unknown>
+}
+
+/**
+ * One bounded unit of work: either the step's result, or the cursor the
+ * next chunk starts from
+ */
+export type StepChunk = { done: true; result?: unknown } | { done: false; cursor: unknown }
+
+export interface StepDefinition {
+    name: string
+    run(context: StepContext): Promise<StepChunk>
+}
+
+export interface WorkerRun {
+    job: PipelineJobWithSteps | null
+    chunks_run: number
+}
+
+/**
+ * A failure retrying can't fix, e.g. staging that failed validation. The
+ * step fails at once, keeping `details` as its result.
+ */
+export class PermanentStepError extends Error {
+    constructor(
+        message: string,
+        public details?: unknown
+    ) {
+        super(message)
+        this.name = 'PermanentStepError'
+    }
+}
+
+export const MAX_STEP_RETRIES = 3
+export const JOB_RETENTION_DAYS = 30
+
+// Longer than a function's maxDuration, so a worker that timed out mid-chunk
+// has certainly stopped before another picks the job up
+const LEASE_MS = 6 * 60 * 1000
+const UNLOCKED = new Date(0).toISOString()
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+async function updateJob(id: string, values: Partial<PipelineJob>): Promise<void> {
+    const { error } = await db
+        .from('pipeline_jobs')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    if (error) throw error
+}
+
+async function updateStep(id: string, values: Partial<PipelineStep>): Promise<void> {
+    const { error } = await db
+        .from('pipeline_steps')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    if (error) throw error
+}
+
+async function fetchSteps(jobId: string): Promise<PipelineStep[]> {
+    const { data, error } = await db
+        .from('pipeline_steps')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('position')
+    if (error) throw error
+    return data || []
+}
+
+export async function getJob(id: string): Promise<PipelineJobWithSteps | null> {
+    const { data, error } = await db.from('pipeline_jobs').select('*').eq('id', id).maybeSingle()
+    if (error) throw error
+    return data ? { ...data, steps: await fetchSteps(id) } : null
+}
+
+/**
+ * The oldest queued or running job, optionally of one kind
+ */
+export async function findActiveJob(kind?: JobKind): Promise<PipelineJob | null> {
+    let query = db.from('pipeline_jobs').select('*').in('status', ['queued', 'running'])
+    if (kind) query = query.eq('kind', kind)
+
+    const { data, error } = await query.order('created_at').limit(1)
+    if (error) throw error
+    return data?.[0] ?? null
+}
+
+/**
+ * The newest `limit` jobs with their steps, newest first
+ */
+export async function listRecentJobs(limit: number = 10): Promise<PipelineJobWithSteps[]> {
+    const { data: jobs, error } = await db
+        .from('pipeline_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    if (error) throw error
+    if (!jobs || jobs.length === 0) return []
+
+    const { data: steps, error: stepsError } = await db
+        .from('pipeline_steps')
+        .select('*')
+        .in('job_id', jobs.map((job: PipelineJob) => job.id))
+        .order('position')
+    if (stepsError) throw stepsError
+
+    return jobs.map((job: PipelineJob) => ({
+        ...job,
+        steps: (steps || []).filter((step: PipelineStep) => step.job_id === job.id)
+    }))
+}
+
+/**
+ * Queue a job of the given kind, or return the one already queued or running
+ * so overlapping triggers don't start a second run
+ */
+export async function enqueueJob(
+    kind: JobKind,
+    triggeredBy: string
+): Promise<{ job: PipelineJob; created: boolean }> {
+    const active = await findActiveJob(kind)
+    if (active) return { job: active, created: false }
+
+    const now = new Date().toISOString()
+    const { data: job, error } = await db
+        .from('pipeline_jobs')
+        .insert({
+            kind,
+            status: 'queued',
+            triggered_by: triggeredBy,
+            locked_until: UNLOCKED,
+            created_at: now,
+            updated_at: now
+        })
+        .select('*')
+        .single()
+    if (error) throw error
+
+    const { error: stepsError } = await db.from('pipeline_steps').insert(
+        JOB_STEPS[kind].map((step, position) => ({
+            job_id: job.id,
+            position,
+            name: step.name,
+            status: 'queued',
+            retry_count: 0,
+            updated_at: now
+        }))
+    )
+    if (stepsError) throw stepsError
+
+    return { job, created: true }
+}
+
+// Conditional on the lease having lapsed, so only one worker wins
+async function claimJob(job: PipelineJob): Promise<boolean> {
+    const now = new Date()
+    const { data, error } = await db
+        .from('pipeline_jobs')
+        .update({
+            status: 'running',
+            locked_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+            started_at: job.started_at ?? now.toISOString(),
+            updated_at: now.toISOString()
+        })
+        .eq('id', job.id)
+        .lt('locked_until', now.toISOString())
+        .select('id')
+    if (error) throw error
+    return (data || []).length > 0
+}
+
+interface ChunkOutcome {
+    ran: boolean
+    // False once the job has finished, or a failed chunk should wait for the
+    // next invocation to be retried
+    more: boolean
+}
+
+async function runNextChunk(job: PipelineJob): Promise<ChunkOutcome> {
+    const steps = await fetchSteps(job.id)
+    const step = steps.find((candidate) => candidate.status !== 'done')
+    if (!step) {
+        await updateJob(job.id, { status: 'done', finished_at: new Date().toISOString() })
+        return { ran: false, more: false }
+    }
+
+    const definition = JOB_STEPS[job.kind].find((candidate) => candidate.name === step.name)
+    if (!definition) {
+        await updateStep(step.id, { status: 'failed', error: `Unknown step ${step.name}` })
+        await updateJob(job.id, {
+            status: 'failed',
+            error: `Unknown step ${step.name}`,
+            finished_at: new Date().toISOString()
+        })
+        return { ran: false, more: false }
+    }
+
+    const results = Object.fromEntries(
+        steps.filter((done) => done.status === 'done').map((done) => [done.name, done.result])
+    )
+    if (step.status === 'queued') {
+        await updateStep(step.id, {
+            status: 'running',
+            started_at: step.started_at ?? new Date().toISOString()
+        })
+    }
+
+    try {
+        console.log(`⚙️  ${job.kind}: running ${step.name}`)
+        const chunk = await definition.run({ job, cursor: step.cursor ?? null, results })
+        if (!chunk.done) {
+            await updateStep(step.id, { cursor: chunk.cursor, error: null })
+            return { ran: true, more: true }
+        }
+
+        await updateStep(step.id, {
+            status: 'done',
+            cursor: null,
+            result: chunk.result ?? null,
+            error: null,
+            finished_at: new Date().toISOString()
+        })
+        if (step === steps[steps.length - 1]) {
+            await updateJob(job.id, { status: 'done', finished_at: new Date().toISOString() })
+            return { ran: true, more: false }
+        }
+        return { ran: true, more: true }
+    } catch (error) {
+        await recordStepFailure(job, step, error)
+        return { ran: true, more: false }
+    }
+}
+
+/**
+ * Count a failed attempt at the step's current chunk, failing the step and
+ * the job once it runs out of retries
+ */
+async function recordStepFailure(job: PipelineJob, step: PipelineStep, error: unknown): Promise<void> {
+    const retryCount = step.retry_count + 1
+    logError(error, 'pipeline.step', { job_id: job.id, step: step.name, retry_count: retryCount })
+
+    // The cursor is left alone, so a retry repeats only the failed chunk
+    const permanent = error instanceof PermanentStepError
+    if (!permanent && retryCount <= MAX_STEP_RETRIES) {
+        await updateStep(step.id, {
+            status: 'queued',
+            retry_count: retryCount,
+            error: errorMessage(error)
+        })
+        return
+    }
+
+    await updateStep(step.id, {
+        status: 'failed',
+        retry_count: retryCount,
+        result: permanent ? (error.details ?? null) : null,
+        error: errorMessage(error),
+        finished_at: new Date().toISOString()
+    })
+    await updateJob(job.id, {
+        status: 'failed',
+        error: `${step.name}: ${errorMessage(error)}`,
+        finished_at: new Date().toISOString()
+    })
+}
+
+/**
+ * A step still running when its job's lease lapsed (rather than being
+ * released) was cut off mid-chunk, e.g. by the platform's time limit, and
+ * never reached the catch in runNextChunk. Count that as a failed attempt,
+ * so a chunk that always times out runs out of retries instead of holding
+ * the job, and every later run queued behind it, forever. False if no
+ * chunk was cut off.
+ */
+async function recordInterruptedChunk(job: PipelineJob): Promise<boolean> {
+    // Released leases are reset to the epoch
+    if (new Date(job.locked_until).getTime() === 0) return false
+
+    const step = (await fetchSteps(job.id)).find((candidate) => candidate.status !== 'done')
+    if (step?.status !== 'running') return false
+
+    await recordStepFailure(
+        job,
+        step,
+        new Error(`Worker stopped before the chunk finished (lease expired ${job.locked_until})`)
+    )
+    return true
+}
+
+/**
+ * Work on the oldest unfinished job until it finishes, a chunk fails, or
+ * budgetMs has passed. At least one chunk runs per call, so every invocation
+ * makes progress.
+ */
+export async function runWorker({ budgetMs }: { budgetMs: number }): Promise<WorkerRun> {
+    const startTime = Date.now()
+    const job = await findActiveJob()
+    if (!job) return { job: null, chunks_run: 0 }
+    if (!(await claimJob(job))) {
+        console.log(`⏳ Job ${job.id} is held by another worker`)
+        return { job: await getJob(job.id), chunks_run: 0 }
+    }
+
+    let chunksRun = 0
+    try {
+        // Like any failed chunk, the retry waits for the next invocation
+        if (await recordInterruptedChunk(job)) {
+            return { job: await getJob(job.id), chunks_run: 0 }
+        }
+
+        for (;;) {
+            const { ran, more } = await runNextChunk(job)
+            if (ran) chunksRun++
+            if (!more || Date.now() - startTime >= budgetMs) break
+        }
+    } finally {
+        await updateJob(job.id, { locked_until: UNLOCKED })
+    }
+
+    return { job: await getJob(job.id), chunks_run: chunksRun }
+}
+
+/**
+ * Delete finished jobs, and their steps, created more than `days` ago
+ */
+export async function pruneOldJobs(days: number = JOB_RETENTION_DAYS): Promise<number> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const { data: old, error } = await db
+        .from('pipeline_jobs')
+        .select('id')
+        .in('status', ['done', 'failed'])
+        .lt('created_at', cutoff)
+    if (error) throw error
+    if (!old || old.length === 0) return 0
+
+    const ids = old.map((job: { id: string }) => job.id)
+    const { error: stepsError } = await db.from('pipeline_steps').delete().in('job_id', ids)
+    if (stepsError) throw stepsError
+    const { error: jobsError } = await db.from('pipeline_jobs').delete().in('id', ids)
+    if (jobsError) throw jobsError
+
+    return ids.length
+}
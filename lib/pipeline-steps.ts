@@ -0,0 +1,283 @@
+import { db } from './data-store'
+import {
+    batchInsertStations,
+    clearTable,
+    StationSource,
+    swapStagingToProduction
+} from './data-processor'
+import { dedupeAgainst, fetchProviderStations, getEnabledProviders } from './providers'
+import { assignStationCounties } from './county-index'
+import { ChangeDetector, StationChange } from './change-detector'
+import { generateStateDataOptimized } from './aggregation-optimized'
+import { generateCountyDataOptimized } from './county-aggregation-optimized'
+import { ALL_STATE_CODES, generateCensusAreaData } from './census-area-aggregation'
+import { clearStationIndex, getStationIndex, StationRow } from './station-index'
+import { SmartAggregator } from './smart-aggregator'
+import { processWatchAlerts } from './watch-alerts'
+import { describeFailures, validateStaging } from './staging-validation'
+import { JobKind, PermanentStepError, StepChunk, StepDefinition } from './pipeline-jobs'
+
+/**
+ * Steps of each job kind, in order. Everything up to `swap` builds staging
+ * from the freshly fetched stations; production changes only at the swap.
+ */
+
+interface DetectedChanges {
+    states: string[]
+    zips: string[]
+    total_changes: number
+}
+
+// Stations added, removed or modified by the swap, for the change feed
+interface SwapResult {
+    station_changes: StationChange[]
+}
+
+// Work left in a step that walks a list of regions
+interface ListCursor {
+    remaining: string[]
+    processed: number
+}
+
+// Providers left to fetch, in priority order, and what was staged so far
+interface FetchCursor {
+    remaining: StationSource[]
+    fetched: Record<string, number>
+    duplicates: number
+    inserted: number
+}
+
+// Each county makes its own Census request, so counties go a few states at a time
+export const COUNTY_STATES_PER_CHUNK = 5
+// Each ZIP chunk makes one Census request for the demographics
+const ZIP_CHUNK_SIZE = 500
+// Census areas are rebuilt one state per chunk
+const CENSUS_AREA_CHUNK_SIZE = 1
+
+/**
+ * Process the next `size` items of a list, carrying the remainder in the
+ * cursor until the list is exhausted
+ */
+async function processInChunks(
+    cursor: ListCursor | null,
+    all: string[],
+    size: number,
+    process: (chunk: string[]) => Promise<number>
+): Promise<StepChunk> {
+    const remaining = cursor?.remaining ?? all
+    const processed = (cursor?.processed ?? 0) + (await process(remaining.slice(0, size)))
+    const rest = remaining.slice(size)
+
+    return rest.length > 0
+        ? { done: false, cursor: { remaining: rest, processed } satisfies ListCursor }
+        : { done: true, result: { processed } }
+}
+
+/**
+ * Write back the fields a lower-priority provider filled in on stations
+ * already staged
+ */
+async function saveFilledInStations(stations: StationRow[]): Promise<void> {
+    for (const station of stations) {
+        const { error } = await db
+            .from('charging_stations_staging')
+            .update({
+                max_power_kw: station.max_power_kw,
+                access_days_time: station.access_days_time,
+                is_24_7: station.is_24_7,
+                network: station.network
+            })
+            .eq('id', station.id)
+        if (error) throw error
+    }
+}
+
+const DAILY_REFRESH_STEPS: StepDefinition[] = [
+    {
+        // One provider per chunk, in priority order, each deduped against the
+        // stations already staged from the providers before it
+        name: 'fetch-stations',
+        async run({ cursor }) {
+            const providers = getEnabledProviders()
+            let progress = cursor as FetchCursor | null
+            if (!progress) {
+                // ZIP staging is kept and only changed ZIPs are rebuilt in it
+                await clearTable('charging_stations_staging')
+                await clearTable('state_level_data_staging')
+                await clearTable('county_level_data_staging')
+                await clearTable('neighborhood_level_data_staging')
+                progress = {
+                    remaining: providers.map((provider) => provider.source),
+                    fetched: {},
+                    duplicates: 0,
+                    inserted: 0
+                }
+            }
+
+            const [source, ...rest] = progress.remaining
+            const provider = providers.find((candidate) => candidate.source === source)
+            if (!provider) {
+                throw new PermanentStepError(`Provider ${source} is no longer enabled`)
+            }
+
+            // Drop what a failed attempt at this provider staged, so a retry starts clean
+            const { error: deleteError } = await db
+                .from('charging_stations_staging')
+                .delete()
+                .eq('source', source)
+            if (deleteError) throw deleteError
+            clearStationIndex()
+
+            const fetched = await fetchProviderStations(provider)
+            const { stations: staged } = await getStationIndex('charging_stations_staging')
+            const { stations, updated, duplicates } = dedupeAgainst(staged, fetched)
+
+            try {
+                await assignStationCounties(stations)
+            } catch (countyError) {
+                // Aggregation backfills counties it can't find on a station
+                console.error('County assignment failed:', countyError)
+            }
+
+            const { inserted, errors } = await batchInsertStations(stations, 1000, true)
+            if (errors > 0) {
+                throw new Error(`Failed to insert ${source} stations: ${errors} errors`)
+            }
+            await saveFilledInStations(updated)
+
+            const next: FetchCursor = {
+                remaining: rest,
+                fetched: { ...progress.fetched, [source]: fetched.length },
+                duplicates: progress.duplicates + duplicates,
+                inserted: progress.inserted + inserted
+            }
+            return rest.length > 0
+                ? { done: false, cursor: next }
+                : {
+                      done: true,
+                      result: { fetched: next.fetched, duplicates: next.duplicates, inserted: next.inserted }
+                  }
+        }
+    },
+    {
+        // Fail early on a truncated or malformed fetch; the swap checks again
+        name: 'validate-staging',
+        async run() {
+            const report = await validateStaging()
+            if (!report.passed) {
+                throw new PermanentStepError(
+                    `Staging failed validation: ${describeFailures(report)}`,
+                    report
+                )
+            }
+            return { done: true, result: report }
+        }
+    },
+    {
+        name: 'detect-changes',
+        async run() {
+            const changes = await ChangeDetector.detectChanges(true)
+            const result: DetectedChanges = {
+                states: Array.from(changes.states),
+                zips: Array.from(changes.zips),
+                total_changes: changes.total_changes
+            }
+            return { done: true, result }
+        }
+    },
+    {
+        // State and county staging were cleared with the stations, so these
+        // are always rebuilt. States take seconds
+        name: 'aggregate-states',
+        async run() {
+            return { done: true, result: { processed: await generateStateDataOptimized(true) } }
+        }
+    },
+    {
+        name: 'aggregate-counties',
+        run({ cursor }) {
+            return processInChunks(
+                cursor as ListCursor | null,
+                ALL_STATE_CODES,
+                COUNTY_STATES_PER_CHUNK,
+                (chunk) => generateCountyDataOptimized(true, chunk)
+            )
+        }
+    },
+    {
+        name: 'aggregate-zips',
+        run({ cursor, results }) {
+            const { zips } = results['detect-changes'] as DetectedChanges
+            return processInChunks(cursor as ListCursor | null, zips, ZIP_CHUNK_SIZE, (chunk) =>
+                SmartAggregator.processChangedZips(new Set(chunk), true, true)
+            )
+        }
+    },
+    {
+        name: 'swap',
+        async run({ job }) {
+            // Diffed here rather than at detect-changes so the feed lists what
+            // went live, and kept in the result because once production matches
+            // staging the diff can't be taken again
+            const stationChanges = await ChangeDetector.diffStations(true)
+            const swap = await swapStagingToProduction({ source: job.kind, jobId: job.id })
+            if (swap.validation && !swap.validation.passed) {
+                throw new PermanentStepError(swap.error!, swap.validation)
+            }
+            if (!swap.success) {
+                throw new Error(swap.error || 'Failed to swap staging to production')
+            }
+
+            const result: SwapResult = { station_changes: stationChanges }
+            return { done: true, result }
+        }
+    },
+    {
+        // Separate from the swap so a failed write is retried without swapping
+        // (and snapshotting) production a second time
+        name: 'record-changes',
+        async run({ results }) {
+            const detected = results['detect-changes'] as DetectedChanges
+            const { station_changes: stationChanges } = results['swap'] as SwapResult
+
+            await ChangeDetector.saveStationChanges(stationChanges)
+            await ChangeDetector.saveChangeLog({
+                states: new Set(detected.states),
+                counties: new Set(),
+                zips: new Set(detected.zips),
+                total_changes: detected.total_changes,
+                station_changes: stationChanges
+            })
+
+            return { done: true, result: { station_changes: stationChanges.length } }
+        }
+    },
+    {
+        // Tracts and block groups have no staging tables and are built from
+        // production stations, so they follow the swap
+        name: 'aggregate-census-areas',
+        run({ cursor, results }) {
+            const { states } = results['detect-changes'] as DetectedChanges
+            return processInChunks(
+                cursor as ListCursor | null,
+                states,
+                CENSUS_AREA_CHUNK_SIZE,
+                async (chunk) =>
+                    chunk.length === 0
+                        ? 0
+                        : (await generateCensusAreaData('tract', chunk)) +
+                          (await generateCensusAreaData('block_group', chunk))
+            )
+        }
+    },
+    {
+        name: 'notify-watchers',
+        async run() {
+            return { done: true, result: { alerts_delivered: await processWatchAlerts() } }
+        }
+    }
+]
+
+export const JOB_STEPS: Record<JobKind, StepDefinition[]> = {
+    'daily-refresh': DAILY_REFRESH_STEPS
+}
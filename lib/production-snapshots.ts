@@ -0,0 +1,132 @@
+import { db } from './data-store'
+import { env } from './env-validation'
+import { recordRegionSnapshots } from './history'
+import type { JobKind, JobStatus } from './pipeline-jobs'
+import { clearStationIndex } from './station-index'
+
+/**
+ * Copies of production stations and region tables, taken just before each
+ * swap so a bad refresh can be rolled back. Copying and restoring happen in
+ * database functions, so a restore replaces every table in one transaction.
+ */
+
+export interface ProductionSnapshot {
+    id: string
+    // What took the copy: 'daily-refresh', 'refresh-data', 'smart-update' or 'rollback'
+    source: string
+    job_id: string | null
+    // Rows copied per table
+    counts: Record<string, number>
+    created_at: string
+}
+
+export interface SnapshotListing extends ProductionSnapshot {
+    job: {
+        id: string
+        kind: JobKind
+        status: JobStatus
+        triggered_by: string
+        created_at: string
+    } | null
+}
+
+async function snapshotProduction(source: string, jobId: string | null): Promise<ProductionSnapshot | null> {
+    // Nothing to roll back to before the first swap
+    const { count, error: countError } = await db
+        .from('charging_stations')
+        .select('id', { count: 'exact', head: true })
+    if (countError) throw countError
+    if (!count) return null
+
+    const { data, error } = await db.rpc('create_production_snapshot', {
+        p_source: source,
+        p_job_id: jobId
+    })
+    if (error) throw error
+    return data[0]
+}
+
+async function pruneSnapshots(): Promise<void> {
+    const { error } = await db.rpc('prune_production_snapshots', { p_keep: env.SNAPSHOT_RETENTION })
+    if (error) throw error
+}
+
+/**
+ * Copy production before it's replaced, keeping the newest SNAPSHOT_RETENTION
+ * copies. Null while production is still empty.
+ */
+export async function createProductionSnapshot(
+    source: string,
+    jobId: string | null = null
+): Promise<ProductionSnapshot | null> {
+    const snapshot = await snapshotProduction(source, jobId)
+    await pruneSnapshots()
+    return snapshot
+}
+
+/**
+ * Retained snapshots, newest first, with the job that triggered each one
+ */
+export async function listProductionSnapshots(): Promise<SnapshotListing[]> {
+    const { data: snapshots, error } = await db
+        .from('production_snapshots')
+        .select('*')
+        .order('created_at', { ascending: false })
+    if (error) throw error
+    if (!snapshots || snapshots.length === 0) return []
+
+    const jobIds = snapshots
+        .map((snapshot: ProductionSnapshot) => snapshot.job_id)
+        .filter((id: string | null): id is string => !!id)
+    const jobs = new Map<string, SnapshotListing['job']>()
+    if (jobIds.length > 0) {
+        const { data, error: jobsError } = await db
+            .from('pipeline_jobs')
+            .select('id, kind, status, triggered_by, created_at')
+            .in('id', jobIds)
+        if (jobsError) throw jobsError
+        for (const job of data || []) jobs.set(job.id, job)
+    }
+
+    return snapshots.map((snapshot: ProductionSnapshot) => ({
+        ...snapshot,
+        job: (snapshot.job_id && jobs.get(snapshot.job_id)) || null
+    }))
+}
+
+/**
+ * Restore production from a retained snapshot. Current production is copied
+ * first, so the rollback itself can be undone.
+ */
+export async function rollbackToSnapshot(
+    snapshotId: string
+): Promise<{ restored: ProductionSnapshot; backup: ProductionSnapshot | null } | null> {
+    const { data: restored, error } = await db
+        .from('production_snapshots')
+        .select('*')
+        .eq('id', snapshotId)
+        .maybeSingle()
+    if (error) throw error
+    if (!restored) return null
+
+    // Pruned only after the restore, so the backup can't push out its target
+    const backup = await snapshotProduction('rollback', null)
+
+    const { error: restoreError } = await db.rpc('restore_production_snapshot', {
+        p_snapshot_id: snapshotId
+    })
+    if (restoreError) throw restoreError
+    console.log(`⏪ Restored production from snapshot ${snapshotId} (${restored.created_at})`)
+
+    clearStationIndex()
+    await pruneSnapshots()
+
+    // Today's history should show the numbers now live
+    try {
+        await recordRegionSnapshots()
+    } catch (historyError) {
+        console.error('Region snapshot failed:', historyError)
+    }
+
+    return { restored, backup }
+}
@@ -0,0 +1,83 @@
+import { processStationRecord, StationRecord } from '../data-processor'
+import { StationProvider } from './types'
+import { toConnectorCode, toStateCode } from './normalize'
+import { parseCsvRecords } from '../csv'
+
+/**
+ * Our internally maintained station list (STATIONS_CSV_URL). Expected header:
+ * id,name,latitude,longitude,address,city,state,zip,network,dcfast_ports,
+ * level2_ports,level1_ports,connectors,max_power_kw,access,hours
+ * `connectors` uses NREL codes separated by semicolons, e.g. "J1772COMBO;CHADEMO".
+ */
+const REQUIRED_COLUMNS = ['id', 'name', 'latitude', 'longitude', 'state']
+
+function toInt(value?: string): number {
+    const parsed = parseInt(value || '', 10)
+    return isNaN(parsed) ? 0 : parsed
+}
+
+export function mapCsvRow(row: Record<string, string>): StationRecord {
+    const connectorTypes = (row.connectors || '')
+        .split(';')
+        .map((type) => type.trim())
+        .filter(Boolean)
+        .map((type) => toConnectorCode(type) || type.toUpperCase())
+
+    return {
+        station_name: row.name,
+        latitude: parseFloat(row.latitude),
+        longitude: parseFloat(row.longitude),
+        street_address: row.address || '',
+        city: row.city || '',
+        state: toStateCode(row.state),
+        zip: row.zip || '',
+        ev_connector_types: connectorTypes,
+        ev_dc_fast_num: toInt(row.dcfast_ports),
+        ev_level2_evse_num: toInt(row.level2_ports),
+        ev_level1_evse_num: toInt(row.level1_ports),
+        ev_network: row.network || undefined,
+        access_code: row.access === 'private' ? 'private' : 'public',
+        access_days_time: row.hours || null,
+        status_code: 'E'
+    }
+}
+
+export const csvProvider: StationProvider = {
+    source: 'csv',
+    name: 'Internal CSV',
+
+    isConfigured() {
+        return !!process.env.STATIONS_CSV_URL
+    },
+
+    async fetchStations() {
+        const response = await fetch(process.env.STATIONS_CSV_URL as string)
+
+        if (!response.ok) {
+            throw new Error(`Station CSV returned ${response.status}`)
+        }
+
+        const { columns, records } = parseCsvRecords(await response.text())
+
+        const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column))
+        if (missing.length > 0) {
+            throw new Error(`Station CSV is missing columns: ${missing.join(', ')}`)
+        }
+
+        return records
+            .map((row) => {
+                const maxPowerKw = parseFloat(row.max_power_kw)
+                return {
+                    ...processStationRecord(mapCsvRow(row), 'csv', row.id),
+                    max_power_kw: isNaN(maxPowerKw) ? null : maxPowerKw
+                }
+            })
+            .filter(
+                (station) =>
+                    station.name &&
+                    station.state &&
+                    !isNaN(station.latitude) &&
+                    !isNaN(station.longitude)
+            )
+    }
+}
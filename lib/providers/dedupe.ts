@@ -0,0 +1,140 @@
+import { ProcessedStation } from '../data-processor'
+import { calculateDistance } from '../scoring'
+
+// Same site if names look alike within this distance...
+const NAME_MATCH_MILES = 0.1
+const NAME_SIMILARITY_THRESHOLD = 0.5
+// ...or, regardless of name, same network this close
+const SAME_NETWORK_MILES = 0.03
+
+// Grid cell (~220m of latitude) so each station is only compared to neighbours
+const CELL_DEGREES = 0.002
+
+const NAME_STOPWORDS = new Set([
+    'the', 'ev', 'charging', 'charger', 'chargers', 'station', 'stations',
+    'inc', 'llc', 'at', 'and', 'of'
+])
+
+function nameTokens(name: string): Set<string> {
+    return new Set(
+        name
+            .toLowerCase()
+            .replace(/[^a-z0-9 ]/g, ' ')
+            .split(/\s+/)
+            .filter((token) => token && !NAME_STOPWORDS.has(token))
+    )
+}
+
+/**
+ * Dice coefficient over name tokens, 0 (nothing shared) to 1 (same tokens)
+ */
+export function nameSimilarity(a: string, b: string): number {
+    const tokensA = nameTokens(a)
+    const tokensB = nameTokens(b)
+    if (tokensA.size === 0 || tokensB.size === 0) return 0
+
+    let shared = 0
+    for (const token of tokensA) {
+        if (tokensB.has(token)) shared++
+    }
+    return (2 * shared) / (tokensA.size + tokensB.size)
+}
+
+function isSameSite(a: ProcessedStation, b: ProcessedStation): boolean {
+    const distance = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude)
+    if (distance > NAME_MATCH_MILES) return false
+
+    if (
+        distance <= SAME_NETWORK_MILES &&
+        a.network !== 'Unknown' &&
+        a.network.toLowerCase() === b.network.toLowerCase()
+    ) {
+        return true
+    }
+
+    return nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD
+}
+
+function cellKey(lat: number, lng: number): string {
+    return `${Math.floor(lat / CELL_DEGREES)}:${Math.floor(lng / CELL_DEGREES)}`
+}
+
+/**
+ * Drop stations that another source already reported. Input order is
+ * priority order: the first source to report a site keeps it, later
+ * duplicates only fill in fields it was missing. Stations from the same
+ * source are never merged with each other.
+ */
+export function dedupeStations(stations: ProcessedStation[]): {
+    stations: ProcessedStation[]
+    duplicates: number
+} {
+    const kept: ProcessedStation[] = []
+    const grid = new Map<string, ProcessedStation[]>()
+    let duplicates = 0
+
+    for (const station of stations) {
+        const row = Math.floor(station.latitude / CELL_DEGREES)
+        const col = Math.floor(station.longitude / CELL_DEGREES)
+        let match: ProcessedStation | undefined
+
+        for (let dRow = -1; dRow <= 1 && !match; dRow++) {
+            for (let dCol = -1; dCol <= 1 && !match; dCol++) {
+                match = grid
+                    .get(`${row + dRow}:${col + dCol}`)
+                    ?.find(
+                        (candidate) =>
+                            candidate.source !== station.source &&
+                            isSameSite(candidate, station)
+                    )
+            }
+        }
+
+        if (match) {
+            if (match.max_power_kw === null) match.max_power_kw = station.max_power_kw
+            if (!match.access_days_time) {
+                match.access_days_time = station.access_days_time
+                match.is_24_7 = station.is_24_7
+            }
+            if (match.network === 'Unknown') match.network = station.network
+            duplicates++
+            continue
+        }
+
+        const key = cellKey(station.latitude, station.longitude)
+        grid.set(key, [...(grid.get(key) || []), station])
+        kept.push(station)
+    }
+
+    return { stations: kept, duplicates }
+}
+
+// The fields a lower-priority duplicate may fill in on the station it matched
+function fillableFields(station: ProcessedStation): string {
+    return JSON.stringify([
+        station.max_power_kw,
+        station.access_days_time,
+        station.is_24_7,
+        station.network
+    ])
+}
+
+/**
+ * dedupeStations for one more source, against stations already kept from
+ * higher-priority sources: which incoming stations are new, and which kept
+ * stations a duplicate filled in
+ */
+export function dedupeAgainst<T extends ProcessedStation>(
+    kept: T[],
+    incoming: ProcessedStation[]
+): { stations: ProcessedStation[]; updated: T[]; duplicates: number } {
+    const before = new Map(kept.map((station) => [station, fillableFields(station)]))
+    const { stations, duplicates } = dedupeStations([...kept, ...incoming])
+    const keptSet = new Set<ProcessedStation>(kept)
+
+    return {
+        stations: stations.filter((station) => !keptSet.has(station)),
+        updated: kept.filter((station) => before.get(station) !== fillableFields(station)),
+        duplicates
+    }
+}
@@ -0,0 +1,24 @@
+import fs from 'fs'
+import path from 'path'
+import { FIXTURES_DIR } from '../data-store/local'
+import { StationProvider } from './types'
+import { NRELResponse, stationsFromNRELResponse } from './nrel'
+
+/**
+ * A recorded NREL response standing in for NREL in local data mode.
+ * NREL_FIXTURE_PATH replays a different recording, e.g. a later night.
+ */
+export const fixtureProvider: StationProvider = {
+    source: 'nrel',
+    name: 'NREL fixture',
+
+    isConfigured() {
+        return true
+    },
+
+    async fetchStations() {
+        const file = process.env.NREL_FIXTURE_PATH || path.join(FIXTURES_DIR, 'nrel-response.json')
+        const body: NRELResponse = JSON.parse(await fs.promises.readFile(file, 'utf8'))
+        return stationsFromNRELResponse(body)
+    }
+}
@@ -0,0 +1,89 @@
+import { ProcessedStation, StationSource } from '../data-processor'
+import { StationProvider } from './types'
+import { nrelProvider } from './nrel'
+import { openChargeMapProvider } from './open-charge-map'
+import { ocpiProvider } from './ocpi'
+import { csvProvider } from './csv'
+import { fixtureProvider } from './fixture'
+import { dedupeStations } from './dedupe'
+import { isLocalDataMode } from '../env-validation'
+import { getLocationId, MAX_LOCATION_ID_LENGTH } from '../ocpi'
+
+export type { StationProvider } from './types'
+export { dedupeAgainst } from './dedupe'
+
+const PROVIDERS: Record<StationSource, StationProvider> = {
+    nrel: nrelProvider,
+    ocm: openChargeMapProvider,
+    ocpi: ocpiProvider,
+    csv: csvProvider
+}
+
+/**
+ * Providers listed in STATION_PROVIDERS (e.g. "nrel,ocpi,csv"), in priority
+ * order for de-duplication. Defaults to NREL only; local data mode always
+ * uses the bundled fixture stations.
+ */
+export function getEnabledProviders(): StationProvider[] {
+    if (isLocalDataMode) return [fixtureProvider]
+
+    const sources = (process.env.STATION_PROVIDERS || 'nrel')
+        .split(',')
+        .map((source) => source.trim().toLowerCase())
+        .filter(Boolean)
+
+    return sources.map((source) => {
+        const provider = PROVIDERS[source as StationSource]
+        if (!provider) {
+            throw new Error(`Unknown station provider: ${source}`)
+        }
+        return provider
+    })
+}
+
+export interface ProviderFetchResult {
+    stations: ProcessedStation[]
+    fetched: Record<string, number>
+    duplicates: number
+}
+
+/**
+ * One provider's stations, failing if it is enabled but not configured.
+ * Stations whose OCPI location id would be too long are dropped.
+ */
+export async function fetchProviderStations(provider: StationProvider): Promise<ProcessedStation[]> {
+    if (!provider.isConfigured()) {
+        throw new Error(`${provider.name} provider is enabled but not configured`)
+    }
+
+    const stations = await provider.fetchStations()
+    const usable = stations.filter(
+        (station) => getLocationId(station).length <= MAX_LOCATION_ID_LENGTH
+    )
+    if (usable.length < stations.length) {
+        console.warn(
+            `⚠️  Skipped ${stations.length - usable.length} ${provider.name} stations with ids over ${MAX_LOCATION_ID_LENGTH - provider.source.length - 1} characters`
+        )
+    }
+    return usable
+}
+
+/**
+ * Fetch every enabled provider and merge them. Any provider failing fails
+ * the whole fetch - a partial set would read as mass station removals.
+ */
+export async function fetchAllStations(
+    providers: StationProvider[] = getEnabledProviders()
+): Promise<ProviderFetchResult> {
+    const all: ProcessedStation[] = []
+    const fetched: Record<string, number> = {}
+
+    for (const provider of providers) {
+        const stations = await fetchProviderStations(provider)
+        fetched[provider.source] = stations.length
+        all.push(...stations)
+    }
+
+    const { stations, duplicates } = dedupeStations(all)
+    return { stations, fetched, duplicates }
+}
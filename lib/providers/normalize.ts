@@ -0,0 +1,61 @@
+// Helpers shared by adapters that map foreign formats into StationRecord
+
+const STATE_CODES: Record<string, string> = {
+    alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+    colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC',
+    florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL',
+    indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+    maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI',
+    minnesota: 'MN', mississippi: 'MS', missouri: 'MO', montana: 'MT',
+    nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ',
+    'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC',
+    'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK', oregon: 'OR',
+    pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+    'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT',
+    vermont: 'VT', virginia: 'VA', washington: 'WA', 'west virginia': 'WV',
+    wisconsin: 'WI', wyoming: 'WY', 'puerto rico': 'PR'
+}
+
+/**
+ * Two-letter state code from a code or full name; empty string if unknown
+ */
+export function toStateCode(value?: string | null): string {
+    if (!value) return ''
+    const trimmed = value.trim()
+    if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase()
+    return STATE_CODES[trimmed.toLowerCase()] || ''
+}
+
+/**
+ * NREL connector code for a free-text connector name, e.g. "CCS (Type 1)"
+ */
+export function toConnectorCode(value?: string | null): string | null {
+    if (!value) return null
+    const name = value.toUpperCase()
+
+    if (name.includes('CCS') || name.includes('COMBO')) return 'J1772COMBO'
+    if (name.includes('CHADEMO')) return 'CHADEMO'
+    if (name.includes('TESLA') || name.includes('NACS') || name.includes('J3400')) {
+        return 'TESLA'
+    }
+    if (name.includes('J1772') || name.includes('TYPE 1')) {
+        return 'J1772'
+    }
+    if (name.includes('14-50')) return 'NEMA1450'
+    if (name.includes('5-20')) return 'NEMA520'
+    if (name.includes('5-15')) return 'NEMA515'
+    return null
+}
+
+export async function fetchJson<T>(
+    url: string,
+    headers: Record<string, string> = {}
+): Promise<{ body: T; response: Response }> {
+    const response = await fetch(url, { headers })
+
+    if (!response.ok) {
+        throw new Error(`${new URL(url).host} returned ${response.status}`)
+    }
+
+    return { body: (await response.json()) as T, response }
+}
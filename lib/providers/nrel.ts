@@ -0,0 +1,42 @@
+import { NRELStation, ProcessedStation, processNRELStation } from '../data-processor'
+import { StationProvider } from './types'
+import { fetchJson } from './normalize'
+
+export interface NRELResponse {
+    fuel_stations?: NRELStation[]
+}
+
+// Skips records NREL returns without a location or name
+export function stationsFromNRELResponse(body: NRELResponse): ProcessedStation[] {
+    return (body.fuel_stations || [])
+        .filter(
+            (station) =>
+                station.latitude &&
+                station.longitude &&
+                station.station_name
+        )
+        .map((station) => processNRELStation(station))
+}
+
+// NREL Alternative Fuels Data Center - the primary source
+export const nrelProvider: StationProvider = {
+    source: 'nrel',
+    name: 'NREL AFDC',
+
+    isConfigured() {
+        return !!process.env.NREL_API_KEY
+    },
+
+    async fetchStations() {
+        const apiKey = process.env.NREL_API_KEY
+
+        if (!apiKey) {
+            throw new Error('NREL API key not configured')
+        }
+
+        const url = `https://developer.nrel.gov/api/alt-fuel-stations/v1.json?api_key=${apiKey}&fuel_type=ELEC&country=US&limit=all&status=E,T`
+        const { body } = await fetchJson<NRELResponse>(url)
+
+        return stationsFromNRELResponse(body)
+    }
+}
@@ -0,0 +1,172 @@
+import { processStationRecord, StationRecord } from '../data-processor'
+import { StationProvider } from './types'
+import { fetchJson, toStateCode } from './normalize'
+
+// Subset of the OCPI 2.2 Location module
+export interface OCPIConnector {
+    id: string
+    standard: string // e.g. IEC_62196_T1_COMBO
+    power_type: 'AC_1_PHASE' | 'AC_2_PHASE' | 'AC_2_PHASE_SPLIT' | 'AC_3_PHASE' | 'DC'
+    max_voltage: number
+    max_amperage: number
+    max_electric_power?: number | null // Watts
+}
+
+export interface OCPIEvse {
+    uid: string
+    status: string // AVAILABLE, CHARGING, OUTOFORDER, REMOVED, ...
+    connectors: OCPIConnector[]
+}
+
+export interface OCPILocation {
+    id: string
+    publish?: boolean
+    name?: string | null
+    address: string
+    city: string
+    postal_code?: string | null
+    state?: string | null
+    country: string
+    coordinates: { latitude: string; longitude: string }
+    operator?: { name: string } | null
+    evses?: OCPIEvse[] | null
+    opening_times?: { twentyfourseven: boolean } | null
+}
+
+// OCPI connector standard → NREL connector code
+export const OCPI_CONNECTOR_CODES: Record<string, string> = {
+    IEC_62196_T1: 'J1772',
+    IEC_62196_T1_COMBO: 'J1772COMBO',
+    CHADEMO: 'CHADEMO',
+    TESLA_S: 'TESLA',
+    TESLA_R: 'TESLA',
+    SAE_J3400: 'TESLA',
+    NEMA_5_20: 'NEMA520',
+    NEMA_14_50: 'NEMA1450'
+}
+
+// EVSE states that mean the charger can't be used right now
+const UNAVAILABLE_STATUSES = ['INOPERATIVE', 'OUTOFORDER', 'PLANNED', 'REMOVED']
+
+function connectorPowerKw(connector: OCPIConnector): number {
+    if (connector.max_electric_power) return connector.max_electric_power / 1000
+    const phases = connector.power_type === 'AC_3_PHASE' ? 3 : 1
+    return (connector.max_voltage * connector.max_amperage * phases) / 1000
+}
+
+export function mapOCPILocation(location: OCPILocation): StationRecord {
+    const evses = (location.evses || []).filter((evse) => evse.status !== 'REMOVED')
+    const ports = { dcfast: 0, level2: 0, level1: 0 }
+    const connectors: Record<string, { power?: number; port_count?: number }> = {}
+
+    // One EVSE is one port; its fastest connector decides the level
+    for (const evse of evses) {
+        let evseLevel: keyof typeof ports = 'level1'
+
+        for (const connector of evse.connectors) {
+            const powerKw = connectorPowerKw(connector)
+            if (connector.power_type === 'DC') {
+                evseLevel = 'dcfast'
+            } else if (evseLevel !== 'dcfast' && powerKw > 2) {
+                evseLevel = 'level2'
+            }
+
+            const code = OCPI_CONNECTOR_CODES[connector.standard]
+            if (code) {
+                const existing = connectors[code] || {}
+                connectors[code] = {
+                    port_count: (existing.port_count || 0) + 1,
+                    power: Math.max(existing.power || 0, Math.round(powerKw))
+                }
+            }
+        }
+
+        ports[evseLevel]++
+    }
+
+    const available = evses.some(
+        (evse) => !UNAVAILABLE_STATUSES.includes(evse.status)
+    )
+
+    return {
+        station_name: location.name || location.address,
+        latitude: parseFloat(location.coordinates.latitude),
+        longitude: parseFloat(location.coordinates.longitude),
+        street_address: location.address,
+        city: location.city,
+        state: toStateCode(location.state),
+        zip: location.postal_code || '',
+        ev_connector_types: Object.keys(connectors),
+        ev_dc_fast_num: ports.dcfast,
+        ev_level2_evse_num: ports.level2,
+        ev_level1_evse_num: ports.level1,
+        ev_network: location.operator?.name,
+        ev_charging_units: [{ connectors }],
+        // Only published locations are fetched, so they are public
+        access_code: 'public',
+        access_days_time: location.opening_times?.twentyfourseven
+            ? '24 hours daily'
+            : null,
+        status_code: available ? 'E' : 'T'
+    }
+}
+
+/**
+ * Next page from the OCPI Link header: <https://...?offset=100>; rel="next"
+ */
+function nextPageUrl(response: Response): string | null {
+    const link = response.headers.get('link')
+    const match = link?.match(/<([^>]+)>;\s*rel="?next"?/)
+    return match ? match[1] : null
+}
+
+/**
+ * An OCPI 2.2 CPO locations endpoint (OCPI_LOCATIONS_URL, OCPI_TOKEN)
+ */
+export const ocpiProvider: StationProvider = {
+    source: 'ocpi',
+    name: 'OCPI',
+
+    isConfigured() {
+        return !!(process.env.OCPI_LOCATIONS_URL && process.env.OCPI_TOKEN)
+    },
+
+    async fetchStations() {
+        const headers = { Authorization: `Token ${process.env.OCPI_TOKEN}` }
+        const locations: OCPILocation[] = []
+        let url: string | null = process.env.OCPI_LOCATIONS_URL || null
+
+        while (url) {
+            const { body, response } = await fetchJson<{
+                data?: OCPILocation[]
+                status_code: number
+                status_message?: string
+            }>(url, headers)
+
+            if (body.status_code !== 1000) {
+                throw new Error(
+                    `OCPI locations returned ${body.status_code}: ${body.status_message || ''}`
+                )
+            }
+
+            locations.push(...(body.data || []))
+            url = nextPageUrl(response)
+        }
+
+        return locations
+            .filter(
+                (location) =>
+                    location.publish !== false &&
+                    ['USA', 'US'].includes(location.country)
+            )
+            .map((location) =>
+                processStationRecord(mapOCPILocation(location), 'ocpi', location.id)
+            )
+            .filter(
+                (station) =>
+                    station.state &&
+                    !isNaN(station.latitude) &&
+                    !isNaN(station.longitude)
+            )
+    }
+}
@@ -0,0 +1,119 @@
+import { processStationRecord, StationRecord } from '../data-processor'
+import { StationProvider } from './types'
+import { fetchJson, toConnectorCode, toStateCode } from './normalize'
+
+// Subset of the OpenChargeMap POI format (API v3 and the JSON dumps)
+interface OCMConnection {
+    ConnectionType?: { Title?: string } | null
+    Level?: { ID?: number } | null // 1, 2, or 3 (DC fast)
+    CurrentTypeID?: number | null // 30 = DC
+    PowerKW?: number | null
+    Quantity?: number | null
+}
+
+interface OCMPoi {
+    ID: number
+    AddressInfo: {
+        Title?: string
+        AddressLine1?: string | null
+        Town?: string | null
+        StateOrProvince?: string | null
+        Postcode?: string | null
+        Latitude: number
+        Longitude: number
+        AccessComments?: string | null
+    }
+    OperatorInfo?: { Title?: string } | null
+    UsageType?: { Title?: string } | null
+    StatusType?: { IsOperational?: boolean | null } | null
+    Connections?: OCMConnection[] | null
+}
+
+const OCM_API_URL = 'https://api.openchargemap.io/v3/poi'
+
+function isDCConnection(connection: OCMConnection): boolean {
+    return connection.Level?.ID === 3 || connection.CurrentTypeID === 30
+}
+
+export function mapOCMPoi(poi: OCMPoi): StationRecord {
+    const connections = poi.Connections || []
+    const ports = { dcfast: 0, level2: 0, level1: 0 }
+    const connectorTypes = new Set<string>()
+    const connectors: Record<string, { power?: number; port_count?: number }> = {}
+
+    for (const connection of connections) {
+        const quantity = connection.Quantity || 1
+        const level = isDCConnection(connection)
+            ? 'dcfast'
+            : connection.Level?.ID === 1
+            ? 'level1'
+            : 'level2'
+        ports[level] += quantity
+
+        const code = toConnectorCode(connection.ConnectionType?.Title)
+        if (code) {
+            connectorTypes.add(code)
+            const existing = connectors[code] || {}
+            connectors[code] = {
+                port_count: (existing.port_count || 0) + quantity,
+                power: Math.max(existing.power || 0, connection.PowerKW || 0) || undefined
+            }
+        }
+    }
+
+    const usage = poi.UsageType?.Title?.toLowerCase() || ''
+
+    return {
+        station_name: poi.AddressInfo.Title || 'Unnamed station',
+        latitude: poi.AddressInfo.Latitude,
+        longitude: poi.AddressInfo.Longitude,
+        street_address: poi.AddressInfo.AddressLine1 || '',
+        city: poi.AddressInfo.Town || '',
+        state: toStateCode(poi.AddressInfo.StateOrProvince),
+        zip: poi.AddressInfo.Postcode || '',
+        ev_connector_types: [...connectorTypes],
+        ev_dc_fast_num: ports.dcfast,
+        ev_level2_evse_num: ports.level2,
+        ev_level1_evse_num: ports.level1,
+        ev_network: poi.OperatorInfo?.Title || undefined,
+        ev_charging_units: [{ connectors }],
+        access_code: usage.startsWith('private') ? 'private' : 'public',
+        access_days_time: poi.AddressInfo.AccessComments || null,
+        status_code: poi.StatusType?.IsOperational === false ? 'T' : 'E'
+    }
+}
+
+/**
+ * OpenChargeMap, from a dump file (OPENCHARGEMAP_DUMP_URL) or the live API
+ * (OPENCHARGEMAP_API_KEY). The dump is preferred for nightly runs.
+ */
+export const openChargeMapProvider: StationProvider = {
+    source: 'ocm',
+    name: 'OpenChargeMap',
+
+    isConfigured() {
+        return !!(
+            process.env.OPENCHARGEMAP_DUMP_URL || process.env.OPENCHARGEMAP_API_KEY
+        )
+    },
+
+    async fetchStations() {
+        const url =
+            process.env.OPENCHARGEMAP_DUMP_URL ||
+            `${OCM_API_URL}?countrycode=US&maxresults=200000&compact=false&verbose=false&key=${process.env.OPENCHARGEMAP_API_KEY}`
+
+        const { body } = await fetchJson<OCMPoi[]>(url)
+
+        return body
+            .filter(
+                (poi) =>
+                    poi.AddressInfo?.Latitude &&
+                    poi.AddressInfo?.Longitude &&
+                    (poi.Connections || []).length > 0
+            )
+            .map((poi) =>
+                processStationRecord(mapOCMPoi(poi), 'ocm', String(poi.ID))
+            )
+            .filter((station) => station.state)
+    }
+}
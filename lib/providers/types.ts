@@ -0,0 +1,13 @@
+import { ProcessedStation, StationSource } from '../data-processor'
+
+/**
+ * A source of charging stations for the nightly refresh. Adapters fetch in
+ * their own format and return stations already run through processStationRecord.
+ */
+export interface StationProvider {
+    source: StationSource
+    name: string
+    // False when the env vars the adapter needs are missing
+    isConfigured(): boolean
+    fetchStations(): Promise<ProcessedStation[]>
+}
@@ -8,7 +8,7 @@ interface RateLimitData {
 
 const rateLimitMap = new Map<string, RateLimitData>()
 
-// Cleanup old entries every 10 minutes
+// Cleanup old entries every 10 minutes, without keeping the process alive
 setInterval(() => {
     const now = Date.now()
     for (const [key, data] of rateLimitMap.entries()) {
@@ -16,7 +16,7 @@ setInterval(() => {
             rateLimitMap.delete(key)
         }
     }
-}, 10 * 60 * 1000)
+}, 10 * 60 * 1000).unref?.()
 
 export interface RateLimitResult {
     success: boolean
@@ -28,11 +28,13 @@ export interface RateLimitResult {
 export function rateLimit({
     id,
     limit = 10,
-    duration = 60000 // 1 minute
+    duration = 60000, // 1 minute
+    cost = 1 // Units this request uses, e.g. rows in a batch
 }: {
     id: string
     limit?: number
     duration?: number
+    cost?: number
 }): RateLimitResult {
     const now = Date.now()
     const existing = rateLimitMap.get(id)
@@ -40,17 +42,20 @@ export function rateLimit({
     // If no existing data or window has passed, create new entry
     if (!existing || now > existing.resetTime) {
         const resetTime = now + duration
-        rateLimitMap.set(id, { count: 1, resetTime })
+        if (cost > limit) {
+            return { success: false, limit, remaining: limit, resetTime: now }
+        }
+        rateLimitMap.set(id, { count: cost, resetTime })
         return {
             success: true,
             limit,
-            remaining: limit - 1,
+            remaining: limit - cost,
             resetTime
         }
     }
     
     // Check if limit exceeded
-    if (existing.count >= limit) {
+    if (existing.count + cost > limit) {
         return {
             success: false,
             limit,
@@ -60,7 +65,7 @@ export function rateLimit({
     }
     
     // Increment count
-    existing.count++
+    existing.count += cost
     rateLimitMap.set(id, existing)
     
     return {
@@ -71,6 +76,21 @@ export function rateLimit({
     }
 }
 
+// Batch scoring is metered in rows, separately from the per-request limits
+export const BATCH_QUOTA = {
+    maxRowsPerRequest: 500,
+    rowsPerHour: 2000
+}
+
+export function batchRateLimit(clientId: string, rows: number): RateLimitResult {
+    return rateLimit({
+        id: `ev-score-batch-rows-${clientId}`,
+        limit: BATCH_QUOTA.rowsPerHour,
+        duration: 60 * 60 * 1000,
+        cost: rows
+    })
+}
+
 export function getClientId(request: Request): string {
     // Try to get IP address from headers (works with most hosting providers)
     const forwardedFor = request.headers.get('x-forwarded-for')
@@ -0,0 +1,233 @@
+import { readFileSync } from 'fs'
+import { calculateDistance } from './scoring'
+import { logError } from './error-handling'
+
+/**
+ * Drive-time isochrones over a local road graph built from an OSM extract
+ * by scripts/build-road-network.mjs. Set ROAD_NETWORK_PATH to the graph
+ * file; without it (or for points off the network) callers fall back to
+ * straight-line distances.
+ */
+
+// File written by scripts/build-road-network.mjs
+interface RoadNetworkFile {
+    version: 1
+    nodes: number[] // lat, lng pairs
+    edges: number[] // from, to, seconds triples (directed)
+}
+
+// Adjacency in compressed sparse row form: node i's edges are
+// edgeTargets[edgeStart[i]..edgeStart[i + 1]]
+export interface RoadGraph {
+    lat: Float64Array
+    lng: Float64Array
+    edgeStart: Uint32Array
+    edgeTargets: Uint32Array
+    edgeSeconds: Float32Array
+    grid: Map<string, number[]>
+}
+
+export interface Isochrone {
+    originSeconds: number // Time from the point to its nearest road node
+    seconds: Float64Array // Seconds from that node to every node; Infinity if not reached
+    maxSeconds: number
+}
+
+const GRID_DEGREES = 0.01 // ~0.7 mi cells for nearest-node lookup
+const MAX_SNAP_MILES = 0.5 // Further than this from a road counts as off-network
+const ACCESS_SPEED_MPH = 10 // Getting from a point to the nearest road node
+
+let cachedGraph: RoadGraph | null | undefined
+
+function gridKey(lat: number, lng: number): string {
+    return `${Math.floor(lat / GRID_DEGREES)}:${Math.floor(lng / GRID_DEGREES)}`
+}
+
+export function buildRoadGraph(file: RoadNetworkFile): RoadGraph {
+    const nodeCount = file.nodes.length / 2
+    const lat = new Float64Array(nodeCount)
+    const lng = new Float64Array(nodeCount)
+    const grid = new Map<string, number[]>()
+
+    for (let i = 0; i < nodeCount; i++) {
+        lat[i] = file.nodes[i * 2]
+        lng[i] = file.nodes[i * 2 + 1]
+        const key = gridKey(lat[i], lng[i])
+        const cell = grid.get(key)
+        if (cell) cell.push(i)
+        else grid.set(key, [i])
+    }
+
+    const edgeCount = file.edges.length / 3
+    const edgeStart = new Uint32Array(nodeCount + 1)
+    for (let e = 0; e < edgeCount; e++) {
+        edgeStart[file.edges[e * 3] + 1]++
+    }
+    for (let i = 0; i < nodeCount; i++) {
+        edgeStart[i + 1] += edgeStart[i]
+    }
+
+    const edgeTargets = new Uint32Array(edgeCount)
+    const edgeSeconds = new Float32Array(edgeCount)
+    const fill = edgeStart.slice(0, nodeCount)
+    for (let e = 0; e < edgeCount; e++) {
+        const from = file.edges[e * 3]
+        const slot = fill[from]++
+        edgeTargets[slot] = file.edges[e * 3 + 1]
+        edgeSeconds[slot] = file.edges[e * 3 + 2]
+    }
+
+    return { lat, lng, edgeStart, edgeTargets, edgeSeconds, grid }
+}
+
+/**
+ * The graph from ROAD_NETWORK_PATH, loaded once per process. Null when the
+ * variable is unset or the file can't be read.
+ */
+export function getRoadGraph(): RoadGraph | null {
+    if (cachedGraph !== undefined) return cachedGraph
+
+    const path = process.env.ROAD_NETWORK_PATH
+    if (!path) {
+        cachedGraph = null
+        return cachedGraph
+    }
+
+    try {
+        const file = JSON.parse(readFileSync(path, 'utf8')) as RoadNetworkFile
+        if (file.version !== 1) {
+            throw new Error(`Unsupported road network version: ${file.version}`)
+        }
+        cachedGraph = buildRoadGraph(file)
+        console.log(`🛣️  Loaded road network: ${cachedGraph.lat.length} nodes`)
+    } catch (error) {
+        logError(error, 'road-network.load', { path })
+        cachedGraph = null
+    }
+    return cachedGraph
+}
+
+/**
+ * Closest road node within MAX_SNAP_MILES of a point
+ */
+export function nearestNode(
+    graph: RoadGraph,
+    lat: number,
+    lng: number
+): { node: number; miles: number } | null {
+    const row = Math.floor(lat / GRID_DEGREES)
+    const col = Math.floor(lng / GRID_DEGREES)
+    let best: { node: number; miles: number } | null = null
+
+    for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) {
+            for (const node of graph.grid.get(`${r}:${c}`) || []) {
+                const miles = calculateDistance(lat, lng, graph.lat[node], graph.lng[node])
+                if (miles <= MAX_SNAP_MILES && (!best || miles < best.miles)) {
+                    best = { node, miles }
+                }
+            }
+        }
+    }
+
+    return best
+}
+
+function accessSeconds(miles: number): number {
+    return (miles / ACCESS_SPEED_MPH) * 3600
+}
+
+/**
+ * Dijkstra from the node nearest the point, stopping at maxMinutes.
+ * Null when the point is off the network.
+ */
+export function computeIsochrone(
+    graph: RoadGraph,
+    lat: number,
+    lng: number,
+    maxMinutes: number
+): Isochrone | null {
+    const origin = nearestNode(graph, lat, lng)
+    if (!origin) return null
+
+    const originSeconds = accessSeconds(origin.miles)
+    const maxSeconds = maxMinutes * 60
+    const seconds = new Float64Array(graph.lat.length).fill(Infinity)
+    seconds[origin.node] = 0
+
+    // Binary min-heap of [seconds, node]
+    const heap: [number, number][] = [[0, origin.node]]
+    const push = (item: [number, number]) => {
+        heap.push(item)
+        let i = heap.length - 1
+        while (i > 0) {
+            const parent = (i - 1) >> 1
+            if (heap[parent][0] <= heap[i][0]) break
+            ;[heap[parent], heap[i]] = [heap[i], heap[parent]]
+            i = parent
+        }
+    }
+    const pop = (): [number, number] => {
+        const top = heap[0]
+        const last = heap.pop()!
+        if (heap.length > 0) {
+            heap[0] = last
+            let i = 0
+            for (;;) {
+                const left = i * 2 + 1
+                const right = left + 1
+                let smallest = i
+                if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left
+                if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right
+                if (smallest === i) break
+                ;[heap[smallest], heap[i]] = [heap[i], heap[smallest]]
+                i = smallest
+            }
+        }
+        return top
+    }
+
+    while (heap.length > 0) {
+        const [time, node] = pop()
+        if (time > seconds[node]) continue // Stale entry
+
+        for (let e = graph.edgeStart[node]; e < graph.edgeStart[node + 1]; e++) {
+            const next = graph.edgeTargets[e]
+            const nextTime = time + graph.edgeSeconds[e]
+            if (originSeconds + nextTime <= maxSeconds && nextTime < seconds[next]) {
+                seconds[next] = nextTime
+                push([nextTime, next])
+            }
+        }
+    }
+
+    return { originSeconds, seconds, maxSeconds }
+}
+
+/**
+ * Minutes of driving from the isochrone's origin to a point, or null if the
+ * point is off the network or beyond the isochrone
+ */
+export function driveMinutesTo(
+    graph: RoadGraph,
+    isochrone: Isochrone,
+    lat: number,
+    lng: number
+): number | null {
+    const target = nearestNode(graph, lat, lng)
+    if (!target) return null
+
+    const total =
+        isochrone.originSeconds +
+        isochrone.seconds[target.node] +
+        accessSeconds(target.miles)
+    return total <= isochrone.maxSeconds ? total / 60 : null
+}
+
+// Straight-line fallback: roads run ~30% longer than the crow flies, at city speeds
+const DETOUR_FACTOR = 1.3
+const FALLBACK_SPEED_MPH = 30
+
+export function estimateDriveMinutes(miles: number): number {
+    return ((miles * DETOUR_FACTOR) / FALLBACK_SPEED_MPH) * 60
+}
@@ -0,0 +1,346 @@
+import { db } from './data-store'
+import { calculateDistance } from './scoring'
+import { fetchDrivingRoute } from './api-fetchers'
+
+export interface RouteLocation {
+    latitude: number
+    longitude: number
+    label: string
+}
+
+export interface CorridorSample {
+    latitude: number
+    longitude: number
+    mile: number
+}
+
+export interface CorridorCharger {
+    id: string
+    name: string
+    address: string
+    network: string | null
+    latitude: number
+    longitude: number
+    num_ports: number
+    route_mile: number
+    offset_miles: number
+}
+
+export interface CorridorGap {
+    start_mile: number
+    end_mile: number
+    length_miles: number
+    shortfall_miles: number
+    from: string
+    to: string
+}
+
+interface CorridorStationRow {
+    id: string
+    name: string | null
+    address: string | null
+    network: string | null
+    latitude: number
+    longitude: number
+    num_ports: number | null
+}
+
+export interface SuggestedStop {
+    name: string
+    address: string
+    network: string | null
+    latitude: number
+    longitude: number
+    route_mile: number
+    offset_miles: number
+    leg_miles: number
+}
+
+export interface CorridorAnalysis {
+    distance_miles: number
+    duration_minutes: number | null
+    route_source: 'mapbox' | 'straight_line'
+    range_miles: number
+    corridor_miles: number
+    feasible: boolean
+    score: number
+    chargers_in_corridor: number
+    gaps: CorridorGap[]
+    suggested_stops: SuggestedStop[]
+}
+
+const SAMPLE_INTERVAL_MILES = 2
+const MILES_PER_DEGREE_LAT = 69
+
+// Chargers per 100 route miles at which the corridor counts as fully redundant
+const TARGET_CHARGERS_PER_100_MILES = 2
+
+/**
+ * Resample a [lng, lat] polyline into evenly spaced points with cumulative mileage
+ */
+export function sampleRoute(
+    coordinates: [number, number][],
+    intervalMiles: number = SAMPLE_INTERVAL_MILES
+): CorridorSample[] {
+    if (coordinates.length === 0) return []
+
+    const [startLng, startLat] = coordinates[0]
+    const samples: CorridorSample[] = [
+        { latitude: startLat, longitude: startLng, mile: 0 }
+    ]
+
+    let travelled = 0
+    let nextSampleAt = intervalMiles
+
+    for (let i = 1; i < coordinates.length; i++) {
+        const [lng1, lat1] = coordinates[i - 1]
+        const [lng2, lat2] = coordinates[i]
+        const segment = calculateDistance(lat1, lng1, lat2, lng2)
+
+        // Drop evenly spaced samples along this segment
+        while (segment > 0 && nextSampleAt <= travelled + segment) {
+            const t = (nextSampleAt - travelled) / segment
+            samples.push({
+                latitude: lat1 + (lat2 - lat1) * t,
+                longitude: lng1 + (lng2 - lng1) * t,
+                mile: nextSampleAt
+            })
+            nextSampleAt += intervalMiles
+        }
+
+        travelled += segment
+    }
+
+    const [endLng, endLat] = coordinates[coordinates.length - 1]
+    if (samples[samples.length - 1].mile < travelled) {
+        samples.push({ latitude: endLat, longitude: endLng, mile: travelled })
+    }
+
+    return samples
+}
+
+/**
+ * Fetch every DC fast charger inside the bounding box of the sampled corridor
+ */
+async function fetchCorridorChargers(
+    samples: CorridorSample[],
+    corridorMiles: number
+): Promise<CorridorStationRow[]> {
+    const latBuffer = corridorMiles / MILES_PER_DEGREE_LAT
+    const maxAbsLat = Math.max(...samples.map((s) => Math.abs(s.latitude)))
+    const lngBuffer =
+        corridorMiles /
+        (MILES_PER_DEGREE_LAT * Math.cos((maxAbsLat * Math.PI) / 180))
+
+    const lats = samples.map((s) => s.latitude)
+    const lngs = samples.map((s) => s.longitude)
+
+    const { data, error } = await db
+        .from('charging_stations')
+        .select(
+            'id, name, address, network, latitude, longitude, num_ports'
+        )
+        .eq('charger_type_detailed', 'dcfast')
+        // Only stops a driver can actually use
+        .neq('access_code', 'private')
+        .neq('status_code', 'T')
+        .gte('latitude', Math.min(...lats) - latBuffer)
+        .lte('latitude', Math.max(...lats) + latBuffer)
+        .gte('longitude', Math.min(...lngs) - lngBuffer)
+        .lte('longitude', Math.max(...lngs) + lngBuffer)
+        .range(0, 999999)
+
+    if (error) throw error
+    return data || []
+}
+
+/**
+ * Snap chargers to their nearest route sample, keeping those within the corridor
+ */
+export function projectChargersOntoRoute(
+    chargers: CorridorStationRow[],
+    samples: CorridorSample[],
+    corridorMiles: number
+): CorridorCharger[] {
+    const latWindow = corridorMiles / MILES_PER_DEGREE_LAT
+    const projected: CorridorCharger[] = []
+
+    for (const charger of chargers) {
+        let nearestMile = -1
+        let nearestOffset = Infinity
+
+        for (const sample of samples) {
+            // Cheap latitude rejection before the Haversine call
+            if (Math.abs(sample.latitude - charger.latitude) > latWindow) {
+                continue
+            }
+
+            const offset = calculateDistance(
+                sample.latitude,
+                sample.longitude,
+                charger.latitude,
+                charger.longitude
+            )
+            if (offset < nearestOffset) {
+                nearestOffset = offset
+                nearestMile = sample.mile
+            }
+        }
+
+        if (nearestMile >= 0 && nearestOffset <= corridorMiles) {
+            projected.push({
+                id: charger.id,
+                name: charger.name || 'Unnamed station',
+                address: charger.address || '',
+                network: charger.network || null,
+                latitude: charger.latitude,
+                longitude: charger.longitude,
+                num_ports: charger.num_ports || 1,
+                route_mile: nearestMile,
+                offset_miles: nearestOffset
+            })
+        }
+    }
+
+    return projected.sort((a, b) => a.route_mile - b.route_mile)
+}
+
+/**
+ * Every stretch between consecutive charging opportunities that exceeds the range
+ */
+export function findCorridorGaps(
+    chargers: CorridorCharger[],
+    totalMiles: number,
+    rangeMiles: number
+): CorridorGap[] {
+    const waypoints = [
+        { mile: 0, label: 'Origin' },
+        ...chargers.map((c) => ({ mile: c.route_mile, label: c.name })),
+        { mile: totalMiles, label: 'Destination' }
+    ]
+
+    const gaps: CorridorGap[] = []
+    for (let i = 1; i < waypoints.length; i++) {
+        const length = waypoints[i].mile - waypoints[i - 1].mile
+        if (length > rangeMiles) {
+            gaps.push({
+                start_mile: round(waypoints[i - 1].mile),
+                end_mile: round(waypoints[i].mile),
+                length_miles: round(length),
+                shortfall_miles: round(length - rangeMiles),
+                from: waypoints[i - 1].label,
+                to: waypoints[i].label
+            })
+        }
+    }
+
+    return gaps
+}
+
+/**
+ * Greedy stop plan: always drive to the farthest charger still within range.
+ * When a gap makes the next charger unreachable, planning resumes past the gap
+ * so the caller still gets stops for the remainder of the trip.
+ */
+export function planChargingStops(
+    chargers: CorridorCharger[],
+    totalMiles: number,
+    rangeMiles: number
+): SuggestedStop[] {
+    const stops: SuggestedStop[] = []
+    let position = 0
+
+    while (position + rangeMiles < totalMiles) {
+        const reachable = chargers.filter(
+            (c) => c.route_mile > position && c.route_mile <= position + rangeMiles
+        )
+        const next =
+            reachable.length > 0
+                ? reachable[reachable.length - 1]
+                : chargers.find((c) => c.route_mile > position)
+
+        if (!next) break
+
+        stops.push({
+            name: next.name,
+            address: next.address,
+            network: next.network,
+            latitude: next.latitude,
+            longitude: next.longitude,
+            route_mile: round(next.route_mile),
+            offset_miles: round(next.offset_miles),
+            leg_miles: round(next.route_mile - position)
+        })
+        position = next.route_mile
+    }
+
+    return stops
+}
+
+/**
+ * Corridor score (0-100)
+ * - Feasible routes start at 70 and earn up to 30 more for charger redundancy
+ * - Infeasible routes scale from 0-60 with the share of miles that are covered
+ */
+export function calculateCorridorScore(
+    gaps: CorridorGap[],
+    chargerCount: number,
+    totalMiles: number
+): number {
+    if (totalMiles <= 0) return 100
+
+    if (gaps.length === 0) {
+        const density = (chargerCount / totalMiles) * 100
+        const redundancy = Math.min(1, density / TARGET_CHARGERS_PER_100_MILES)
+        return Math.round(70 + redundancy * 30)
+    }
+
+    const shortfall = gaps.reduce((sum, gap) => sum + gap.shortfall_miles, 0)
+    const coverage = Math.max(0, 1 - shortfall / totalMiles)
+    return Math.round(coverage * 60)
+}
+
+export async function analyzeCorridor(
+    origin: RouteLocation,
+    destination: RouteLocation,
+    options: { rangeMiles: number; corridorMiles: number }
+): Promise<CorridorAnalysis> {
+    const { rangeMiles, corridorMiles } = options
+
+    // Prefer the real driving route; fall back to a straight line if directions fail
+    const drivingRoute = await fetchDrivingRoute(origin, destination)
+    const coordinates: [number, number][] = drivingRoute?.coordinates || [
+        [origin.longitude, origin.latitude],
+        [destination.longitude, destination.latitude]
+    ]
+
+    const samples = sampleRoute(coordinates)
+    const totalMiles = samples[samples.length - 1]?.mile || 0
+
+    const chargers = projectChargersOntoRoute(
+        await fetchCorridorChargers(samples, corridorMiles),
+        samples,
+        corridorMiles
+    )
+
+    const gaps = findCorridorGaps(chargers, totalMiles, rangeMiles)
+
+    return {
+        distance_miles: round(totalMiles),
+        duration_minutes: drivingRoute
+            ? Math.round(drivingRoute.duration_minutes)
+            : null,
+        route_source: drivingRoute ? 'mapbox' : 'straight_line',
+        range_miles: rangeMiles,
+        corridor_miles: corridorMiles,
+        feasible: gaps.length === 0,
+        score: calculateCorridorScore(gaps, chargers.length, totalMiles),
+        chargers_in_corridor: chargers.length,
+        gaps,
+        suggested_stops: planChargingStops(chargers, totalMiles, rangeMiles)
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10
+}
@@ -0,0 +1,397 @@
+import { VehicleProfile, getRegionalFilterFlags } from './vehicle-profiles'
+import { CHARGER_LEVEL_WEIGHTS, getStationWeight } from './scoring'
+
+/**
+ * The one place EV readiness scores are calculated. Aggregators, the
+ * ev-score API and the map filters all call scoreRegion so a region's
+ * stored score, its map color and its ScoreCard area score agree.
+ * Single addresses are scored from the chargers around them with scorePoint.
+ *
+ * Models are named and versioned; the version that actually produced a
+ * score (a model may fall back to an earlier one) is stored with every
+ * aggregated row (scoring_model_version). Changing a formula means adding
+ * a new model and pointing CURRENT_SCORE_MODEL at it, not editing one.
+ */
+
+export type ScoreUnit = 'stations' | 'ports'
+
+export interface ScoreModelInput {
+    weightedCount: number // Level-weighted stations or ports
+    population: number
+    unit: ScoreUnit
+    vmtPerCapita?: number | null // Daily vehicle miles traveled per resident
+}
+
+// The score and the id of the model that produced it
+export interface ScoreModelResult {
+    score: number
+    model: string
+}
+
+export interface ScoreModel {
+    id: string
+    description: string
+    score(input: ScoreModelInput): ScoreModelResult
+}
+
+// Piecewise-linear curve through [chargers per 100k, score] points, flat after the last
+type ScoreCurve = [number, number][]
+
+function scoreOnCurve(density: number, curve: ScoreCurve): number {
+    let [previousDensity, previousScore] = [0, 0]
+    for (const [pointDensity, pointScore] of curve) {
+        if (density < pointDensity) {
+            return (
+                previousScore +
+                ((density - previousDensity) / (pointDensity - previousDensity)) *
+                    (pointScore - previousScore)
+            )
+        }
+        ;[previousDensity, previousScore] = [pointDensity, pointScore]
+    }
+    return previousScore
+}
+
+const PER_CAPITA_CURVES: Record<ScoreUnit, ScoreCurve> = {
+    stations: [[8, 25], [15, 40], [25, 55], [40, 70], [60, 80], [100, 100]],
+    // Roughly 3-5x the station thresholds
+    ports: [[20, 25], [40, 40], [75, 55], [120, 70], [200, 80], [300, 100]]
+}
+
+const TRAFFIC_CURVES: Record<ScoreUnit, ScoreCurve> = {
+    stations: [[10, 20], [20, 40], [35, 65], [60, 85], [100, 100]],
+    ports: [[30, 20], [60, 40], [105, 65], [180, 85], [300, 100]]
+}
+
+function clampScore(score: number): number {
+    return Math.round(Math.min(100, Math.max(0, score)))
+}
+
+/**
+ * per-capita-v1: chargers per 100k residents on a piecewise scale.
+ * 80 at 60 stations (200 ports) per 100k, 100 at 100 (300).
+ */
+const perCapitaV1: ScoreModel = {
+    id: 'per-capita-v1',
+    description: 'Weighted chargers per 100k residents, piecewise 0-100',
+    score({ weightedCount, population, unit }) {
+        if (!population) return { score: 0, model: this.id }
+        const density = (weightedCount / population) * 100000
+        return { score: clampScore(scoreOnCurve(density, PER_CAPITA_CURVES[unit])), model: this.id }
+    }
+}
+
+/**
+ * traffic-adjusted-v1: density divided by a traffic demand multiplier
+ * (daily VMT per capita / 25, clamped 0.5-2), 70% weight, plus 30% for
+ * population size. Regions without VMT data are scored, and labelled, by
+ * per-capita-v1.
+ */
+const trafficAdjustedV1: ScoreModel = {
+    id: 'traffic-adjusted-v1',
+    description: 'Per-capita density adjusted for driving demand, with a population component',
+    score(input) {
+        const { weightedCount, population, unit, vmtPerCapita } = input
+        if (!vmtPerCapita) return perCapitaV1.score(input)
+        if (!population) return { score: 0, model: this.id }
+
+        const baselineVMT = 25 // Average daily VMT per capita
+        const trafficMultiplier = Math.max(0.5, Math.min(2.0, vmtPerCapita / baselineVMT))
+        const density = ((weightedCount / population) * 100000) / trafficMultiplier
+
+        const chargerScore = scoreOnCurve(density, TRAFFIC_CURVES[unit])
+        const populationScore = Math.min((population / 300000) * 100, 100)
+
+        return { score: clampScore(chargerScore * 0.7 + populationScore * 0.3), model: this.id }
+    }
+}
+
+export const SCORE_MODELS: Record<string, ScoreModel> = {
+    [perCapitaV1.id]: perCapitaV1,
+    [trafficAdjustedV1.id]: trafficAdjustedV1
+}
+
+export const CURRENT_SCORE_MODEL = trafficAdjustedV1.id
+
+export interface RegionScoreFilters {
+    showDCFast: boolean
+    showLevel2: boolean
+    showLevel1: boolean
+    showTesla?: boolean
+    showCCS?: boolean
+    usePortWeighting?: boolean // Weight by ports vs stations
+    vehicle?: VehicleProfile | null // Overrides connector toggles when set
+    showOnly24_7?: boolean // Count only public stations open around the clock
+}
+
+// What the map shows on first load; stored scores and the ScoreCard use the same view
+export const DEFAULT_SCORE_FILTERS: RegionScoreFilters = {
+    showDCFast: true,
+    showLevel2: true,
+    showLevel1: false,
+    showTesla: true,
+    showCCS: true,
+    usePortWeighting: true,
+    vehicle: null,
+    showOnly24_7: false
+}
+
+// Aggregated counts on a state/county/zip row
+export interface ScorableRegion {
+    population?: number | null
+    vmt_per_capita?: number | null
+    dcfast_count?: number | null
+    dcfast_weighted?: number | null
+    level2_count?: number | null
+    level1_count?: number | null
+    public_24_7_count?: number | null
+    tesla_count?: number | null
+    ccs_count?: number | null
+    j1772_count?: number | null
+    chademo_count?: number | null
+    tesla_ports?: number | null
+    ccs_ports?: number | null
+    j1772_ports?: number | null
+    chademo_ports?: number | null
+    total_ports?: number | null
+}
+
+/**
+ * Level-weighted charger count for a region under the given filters
+ */
+export function getWeightedCount(
+    region: ScorableRegion,
+    filters: RegionScoreFilters
+): { weightedCount: number; unit: ScoreUnit } {
+    // A selected vehicle decides which connectors count and whether DC fast is usable
+    if (filters.vehicle) {
+        const vehicleFlags = getRegionalFilterFlags(filters.vehicle)
+        filters = {
+            ...filters,
+            showDCFast: filters.showDCFast && vehicleFlags.allowDCFast,
+            showTesla: vehicleFlags.showTesla,
+            showCCS: vehicleFlags.showCCS
+        }
+    }
+
+    const dcfast = region.dcfast_count || 0
+    const level2 = region.level2_count || 0
+    const level1 = region.level1_count || 0
+    const totalChargers = dcfast + level2 + level1
+
+    // Average power weight of the region's DC fast sites (1.0 before power data existed)
+    const dcfastWeight =
+        dcfast > 0 && region.dcfast_weighted
+            ? region.dcfast_weighted / dcfast
+            : CHARGER_LEVEL_WEIGHTS.dcfast
+
+    const teslaCount = region.tesla_count || 0
+    const ccsCount = region.ccs_count || 0
+    const teslaPorts = region.tesla_ports || 0
+    const ccsPorts = region.ccs_ports || 0
+
+    const hasConnectorData =
+        teslaCount > 0 || ccsCount > 0 || (region.j1772_count || 0) > 0 || (region.chademo_count || 0) > 0
+    const hasPortData =
+        teslaPorts > 0 || ccsPorts > 0 || (region.j1772_ports || 0) > 0 || (region.chademo_ports || 0) > 0
+    const usePortWeighting = !!filters.usePortWeighting && hasPortData
+
+    // Level mix of the region; connector-filtered totals are split by the same ratios
+    const levelShares = (available: number) => ({
+        dcfast: totalChargers > 0 ? (available * dcfast) / totalChargers : 0,
+        level2: totalChargers > 0 ? (available * level2) / totalChargers : 0,
+        level1: totalChargers > 0 ? (available * level1) / totalChargers : 0
+    })
+
+    let counts = { dcfast, level2, level1 }
+
+    if (hasConnectorData && (filters.showTesla !== undefined || filters.showCCS !== undefined)) {
+        let available = 0
+        if (filters.showTesla && filters.showCCS) {
+            available = usePortWeighting ? region.total_ports || totalChargers : totalChargers
+        } else if (filters.showTesla) {
+            // Only Tesla/NACS
+            available = usePortWeighting ? teslaPorts : teslaCount
+        } else if (filters.showCCS) {
+            // Only non-Tesla stations (CCS/J1772/CHAdeMO)
+            available = usePortWeighting ? ccsPorts : ccsCount
+        }
+        counts = levelShares(available)
+    }
+
+    let weightedCount = 0
+    if (filters.showDCFast) weightedCount += counts.dcfast * dcfastWeight
+    if (filters.showLevel2) weightedCount += counts.level2 * CHARGER_LEVEL_WEIGHTS.level2
+    if (filters.showLevel1) weightedCount += counts.level1 * CHARGER_LEVEL_WEIGHTS.level1
+
+    // Scale down to the share of stations that are public and open 24/7
+    if (filters.showOnly24_7) {
+        weightedCount *=
+            totalChargers > 0
+                ? Math.min(1, (region.public_24_7_count || 0) / totalChargers)
+                : 0
+    }
+
+    return { weightedCount, unit: usePortWeighting ? 'ports' : 'stations' }
+}
+
+/**
+ * Score a region row. Rows without population score 0.
+ */
+export function scoreRegion(
+    region: ScorableRegion,
+    filters: RegionScoreFilters = DEFAULT_SCORE_FILTERS,
+    modelId: string = CURRENT_SCORE_MODEL
+): { score: number; weightedCount: number; model: string } {
+    const model = SCORE_MODELS[modelId]
+    if (!model) {
+        throw new Error(`Unknown score model: ${modelId}`)
+    }
+
+    const { weightedCount, unit } = getWeightedCount(region, filters)
+    const { score, model: applied } = model.score({
+        weightedCount,
+        population: region.population || 0,
+        unit,
+        vmtPerCapita: region.vmt_per_capita
+    })
+
+    return { score, weightedCount, model: applied }
+}
+
+/**
+ * Attach the current model's score and version to an aggregated row before
+ * it is written
+ */
+export function withRegionScore<T extends ScorableRegion>(
+    row: T
+): T & { ev_infrastructure_score: number; scoring_model_version: string } {
+    const { score, model } = scoreRegion(row)
+    return { ...row, ev_infrastructure_score: score, scoring_model_version: model }
+}
+
+export interface ProximityCounts {
+    within1mi: number
+    within5mi: number
+    within10mi: number
+    dcfastWithin10mi: number
+}
+
+/**
+ * radius-counts-v1: score for a point (neighborhood grid cell) from charger
+ * counts around it: 20 for any charger within 10 mi, up to 30 for chargers
+ * within 1 mi, 20 within 5 mi and 15 for DC fast within 10 mi.
+ */
+export const PROXIMITY_SCORE_MODEL = 'radius-counts-v1'
+
+export function scoreProximity(counts: ProximityCounts): number {
+    return clampScore(
+        (counts.within10mi > 0 ? 20 : 0) +
+            Math.min(counts.within1mi * 3, 30) +
+            Math.min(counts.within5mi, 20) +
+            Math.min(counts.dcfastWithin10mi * 2, 15)
+    )
+}
+
+// Station row with its distance from the scored point
+export interface PointCharger {
+    distance: number // Miles
+    charger_type_detailed: string
+    max_power_kw?: number | null
+    dcfast_ports?: number | null
+    level2_ports?: number | null
+    level1_ports?: number | null
+    compatible: boolean // Usable by the selected vehicle (always true without one)
+}
+
+// Points earned per component; they add up to the score
+export interface PointScoreBreakdown {
+    proximity: number // 0-40
+    speed: number // 0-30
+    capacity: number // 0-20
+    compatibility: number // 0-10
+}
+
+export const POINT_SCORE_MAX: PointScoreBreakdown = {
+    proximity: 40,
+    speed: 30,
+    capacity: 20,
+    compatibility: 10
+}
+
+/**
+ * distance-decay-v1: score for an address from the chargers around it.
+ * Each station counts for e^(-miles / scale), with a 1 mi scale for
+ * destination charging and 3 mi for DC fast since drivers go further
+ * for a fast charge; nothing beyond 10 mi counts. Decayed totals saturate
+ * (1 - e^(-x / k)) so the first few nearby stations matter most:
+ * - proximity: level-weighted compatible stations, k = 2
+ * - speed: power-weighted compatible DC fast stations, k = 1.5
+ * - capacity: compatible ports, k = 12
+ * - compatibility: decayed share of nearby stations the vehicle can use,
+ *   scaled by how much is nearby at all (k = 1)
+ */
+export const POINT_SCORE_MODEL = 'distance-decay-v1'
+
+const POINT_RADIUS_MILES = 10
+
+function distanceDecay(charger: PointCharger): number {
+    if (charger.distance > POINT_RADIUS_MILES) return 0
+    const scale = charger.charger_type_detailed === 'dcfast' ? 3 : 1
+    return Math.exp(-charger.distance / scale)
+}
+
+function saturate(value: number, scale: number): number {
+    return 1 - Math.exp(-value / scale)
+}
+
+export function scorePoint(chargers: PointCharger[]): {
+    score: number
+    breakdown: PointScoreBreakdown
+    model: string
+} {
+    let proximity = 0
+    let speed = 0
+    let capacity = 0
+    let compatibleReach = 0
+    let totalReach = 0
+
+    for (const charger of chargers) {
+        const decay = distanceDecay(charger)
+        totalReach += decay
+        if (!charger.compatible) continue
+
+        compatibleReach += decay
+        proximity += decay * getStationWeight(charger)
+        if (charger.charger_type_detailed === 'dcfast') {
+            speed += decay * getStationWeight(charger)
+        }
+        const ports =
+            (charger.dcfast_ports || 0) +
+                (charger.level2_ports || 0) +
+                (charger.level1_ports || 0) || 1
+        capacity += decay * ports
+    }
+
+    const breakdown: PointScoreBreakdown = {
+        proximity: Math.round(POINT_SCORE_MAX.proximity * saturate(proximity, 2)),
+        speed: Math.round(POINT_SCORE_MAX.speed * saturate(speed, 1.5)),
+        capacity: Math.round(POINT_SCORE_MAX.capacity * saturate(capacity, 12)),
+        compatibility:
+            totalReach > 0
+                ? Math.round(
+                      POINT_SCORE_MAX.compatibility *
+                          (compatibleReach / totalReach) *
+                          saturate(totalReach, 1)
+                  )
+                : 0
+    }
+
+    return {
+        score: clampScore(
+            breakdown.proximity + breakdown.speed + breakdown.capacity + breakdown.compatibility
+        ),
+        breakdown,
+        model: POINT_SCORE_MODEL
+    }
+}
@@ -1,104 +1,3 @@
-import { supabase } from './supabase'
-
-interface ScoreComponents {
-    baseScore: number
-    within1miScore: number
-    within5miScore: number
-    fastChargerBonus: number
-    highwayBonus: number
-    densityBonus: number
-}
-
-export async function calculateEVScore(
-    lat: number,
-    lng: number
-): Promise<{ score: number; components: ScoreComponents; details: any }> {
-    // Step 1: Find all charging stations within 10 miles
-    // Using rough approximation: 1 degree ≈ 69 miles
-    const searchRadius = 10 / 69 // ~0.145 degrees
-
-    const { data: nearbyChargers, error } = await supabase
-        .from('charging_stations')
-        .select('*')
-        .gte('latitude', lat - searchRadius)
-        .lte('latitude', lat + searchRadius)
-        .gte('longitude', lng - searchRadius)
-        .lte('longitude', lng + searchRadius)
-
-    if (error || !nearbyChargers) {
-        // Return a basic score if no data
-        return {
-            score: 0,
-            components: {
-                baseScore: 0,
-                within1miScore: 0,
-                within5miScore: 0,
-                fastChargerBonus: 0,
-                highwayBonus: 0,
-                densityBonus: 0
-            },
-            details: { chargers_1mi: 0, chargers_5mi: 0, chargers_10mi: 0 }
-        }
-    }
-
-    // Step 2: Calculate distances and categorize chargers
-    const chargersWithDistance = nearbyChargers.map((charger) => ({
-        ...charger,
-        distance: calculateDistance(
-            lat,
-            lng,
-            charger.latitude,
-            charger.longitude
-        )
-    }))
-
-    const within1mi = chargersWithDistance.filter((c) => c.distance <= 1)
-    const within5mi = chargersWithDistance.filter((c) => c.distance <= 5)
-    const within10mi = chargersWithDistance.filter((c) => c.distance <= 10)
-    const fastChargers = within10mi.filter((c) => c.charger_type === 'dcfast')
-
-    // Step 3: Calculate score components
-    const components: ScoreComponents = {
-        baseScore: within10mi.length > 0 ? 20 : 0,
-        within1miScore: Math.min(within1mi.length * 3, 30),
-        within5miScore: Math.min(within5mi.length * 1, 20),
-        fastChargerBonus: Math.min(fastChargers.length * 2, 15),
-        highwayBonus: 0, // We'll add this later with highway data
-        densityBonus: 0 // We'll add this later with regional comparisons
-    }
-
-    const totalScore = Math.min(
-        components.baseScore +
-            components.within1miScore +
-            components.within5miScore +
-            components.fastChargerBonus +
-            components.highwayBonus +
-            components.densityBonus,
-        100
-    )
-
-    return {
-        score: totalScore,
-        components,
-        details: {
-            chargers_1mi: within1mi.length,
-            chargers_5mi: within5mi.length,
-            chargers_10mi: within10mi.length,
-            fast_charger_count: fastChargers.length,
-            fast_charger_percentage:
-                within10mi.length > 0
-                    ? Math.round(
-                          (fastChargers.length / within10mi.length) * 100
-                      )
-                    : 0,
-            nearest_charger:
-                chargersWithDistance.length > 0
-                    ? Math.min(...chargersWithDistance.map((c) => c.distance))
-                    : null
-        }
-    }
-}
-
 // Haversine formula for calculating distance between two lat/lng points
 export function calculateDistance(
     lat1: number,
@@ -156,3 +55,39 @@ export function calculateNeedScore(
     // Normalize to 0-100 range
     return Math.max(0, Math.min(100, needScore))
 }
+
+// Flat per-station weights by charging level
+export const CHARGER_LEVEL_WEIGHTS = {
+    dcfast: 1.0,
+    level2: 0.7,
+    level1: 0.3
+} as const
+
+/**
+ * DC fast weight scaled by the site's peak power, so a 350 kW hub counts
+ * for more than a 50 kW unit. Unknown power keeps the flat 1.0 weight.
+ */
+export function getDCFastPowerWeight(maxPowerKw?: number | null): number {
+    if (!maxPowerKw) return CHARGER_LEVEL_WEIGHTS.dcfast
+    if (maxPowerKw >= 350) return 1.5
+    if (maxPowerKw >= 250) return 1.35
+    if (maxPowerKw >= 150) return 1.2
+    if (maxPowerKw >= 50) return 1.0
+    return 0.85
+}
+
+export function getStationWeight(station: {
+    charger_type_detailed: string
+    max_power_kw?: number | null
+}): number {
+    switch (station.charger_type_detailed) {
+        case 'dcfast':
+            return getDCFastPowerWeight(station.max_power_kw)
+        case 'level2':
+            return CHARGER_LEVEL_WEIGHTS.level2
+        case 'level1':
+            return CHARGER_LEVEL_WEIGHTS.level1
+        default:
+            return 0
+    }
+}
@@ -1,26 +1,38 @@
-import { supabaseAdmin } from './supabase'
+import { db } from './data-store'
 import { ChangeDetector, RegionChanges } from './change-detector'
 import { generateStateDataOptimized } from './aggregation-optimized'
 import { generateCountyDataOptimized } from './county-aggregation-optimized'
 import { generateZipData } from './zip-aggregation'
+import { generateCensusAreaData } from './census-area-aggregation'
+import { getStationWeight } from './scoring'
+import { withRegionScore } from './score-engine'
+import { loadRegionDemographics, RegionDemographics } from './equity'
+import { getStationState } from './county-index'
+import { getStationIndex, stationTableFor, StationRow } from './station-index'
+import { isAggregatableStation } from './data-processor'
+import { processWatchAlerts } from './watch-alerts'
 
 export interface AggregationResult {
     success: boolean
     states_processed: number
     counties_processed: number
     zips_processed: number
+    census_areas_processed: number // Tracts and block groups
     duration_seconds: number
     changes_detected: RegionChanges
-    zip_completion: {
-        total_affected: number
-        completed: number
-        remaining: number
-        percentage: number
-        is_complete: boolean
-    }
+    alerts_delivered: number
     error?: string
 }
 
+export interface StateReaggregationResult {
+    state: string
+    states_processed: number
+    counties_processed: number
+    zips_processed: number
+    census_areas_processed: number
+    duration_seconds: number
+}
+
 /**
  * Smart aggregation system that only processes regions with changes
  */
@@ -30,7 +42,7 @@ export class SmartAggregator {
      * Perform intelligent incremental updates
      */
     static async performIncrementalUpdate(
-        levels: ('states' | 'counties' | 'zips')[] = ['states'],
+        levels: ('states' | 'counties' | 'zips' | 'tracts' | 'block_groups')[] = ['states'],
         useStaging: boolean = true
     ): Promise<AggregationResult> {
         const startTime = Date.now()
@@ -39,20 +51,16 @@ export class SmartAggregator {
             states_processed: 0,
             counties_processed: 0,
             zips_processed: 0,
+            census_areas_processed: 0,
             duration_seconds: 0,
             changes_detected: {
                 states: new Set(),
                 counties: new Set(),
                 zips: new Set(),
-                total_changes: 0
+                total_changes: 0,
+                station_changes: []
             },
-            zip_completion: {
-                total_affected: 0,
-                completed: 0,
-                remaining: 0,
-                percentage: 0,
-                is_complete: true
-            }
+            alerts_delivered: 0
         }
         
         try {
@@ -65,6 +73,7 @@ export class SmartAggregator {
             
             if (changes.total_changes === 0) {
                 console.log('✅ No changes detected - skipping aggregation')
+                result.alerts_delivered = await this.notifyWatchers()
                 result.success = true
                 result.duration_seconds = (Date.now() - startTime) / 1000
                 return result
@@ -84,27 +93,33 @@ export class SmartAggregator {
             if (levels.includes('zips') && changes.zips.size > 0) {
                 console.log(`📮 Processing ${changes.zips.size} changed zip codes...`)
                 result.zips_processed = await this.processChangedZips(changes.zips, useStaging)
-                
-                // Calculate completion status
-                const completion = await this.calculateZipCompletion(changes.zips, useStaging)
-                result.zip_completion = completion
-                
-                console.log(`📊 ZIP Completion Status: ${completion.completed}/${completion.total_affected} (${completion.percentage}%)`)
-                if (completion.is_complete) {
-                    console.log(`✅ All ZIP codes processed successfully!`)
-                } else {
-                    console.log(`⏳ ${completion.remaining} ZIP codes remaining to process`)
+            }
+            
+            // Tracts and block groups are rebuilt per state, from production stations
+            if (changes.states.size > 0) {
+                const changedStates = Array.from(changes.states)
+                if (levels.includes('tracts')) {
+                    console.log(`🧩 Rebuilding tracts in ${changedStates.length} states...`)
+                    result.census_areas_processed += await generateCensusAreaData('tract', changedStates)
+                }
+                if (levels.includes('block_groups')) {
+                    console.log(`🧩 Rebuilding block groups in ${changedStates.length} states...`)
+                    result.census_areas_processed += await generateCensusAreaData('block_group', changedStates)
                 }
             }
             
-            // Step 3: Save change log for audit
+            // Step 3: Save change log for audit and the station change feed
             await ChangeDetector.saveChangeLog(changes)
+            await ChangeDetector.saveStationChanges(changes.station_changes)
+            
+            // Step 4: Alert location watchers (reads the feed and scores saved above)
+            result.alerts_delivered = await this.notifyWatchers()
             
             result.success = true
             result.duration_seconds = (Date.now() - startTime) / 1000
             
             console.log(`✅ Smart aggregation complete in ${result.duration_seconds}s`)
-            console.log(`   📊 Processed: ${result.states_processed} states, ${result.counties_processed} counties, ${result.zips_processed} zips`)
+            console.log(`   📊 Processed: ${result.states_processed} states, ${result.counties_processed} counties, ${result.zips_processed} zips, ${result.census_areas_processed} census areas`)
             
             return result
             
@@ -116,6 +131,50 @@ export class SmartAggregator {
         }
     }
     
+    /**
+     * Rebuild one state's rollups in production from the stations already
+     * there, without fetching or swapping. Every level is limited to the
+     * state, and its rows are replaced only once the new ones are computed.
+     */
+    static async reaggregateState(stateCode: string): Promise<StateReaggregationResult> {
+        const startTime = Date.now()
+        console.log(`🔁 Re-aggregating ${stateCode} in production...`)
+
+        const { stations } = await getStationIndex('charging_stations')
+        const zips = new Set(
+            stations
+                .filter((station) => station.zip && getStationState(station) === stateCode)
+                .map((station) => station.zip!)
+        )
+
+        const result: StateReaggregationResult = {
+            state: stateCode,
+            states_processed: await generateStateDataOptimized(false, [stateCode]),
+            counties_processed: await generateCountyDataOptimized(false, [stateCode]),
+            zips_processed: await this.processChangedZips(zips, false),
+            census_areas_processed:
+                (await generateCensusAreaData('tract', [stateCode])) +
+                (await generateCensusAreaData('block_group', [stateCode])),
+            duration_seconds: 0
+        }
+        result.duration_seconds = (Date.now() - startTime) / 1000
+
+        console.log(`✅ Re-aggregated ${stateCode} in ${result.duration_seconds}s`)
+        return result
+    }
+    
+    /**
+     * Run watch alerts without letting delivery problems fail the aggregation
+     */
+    private static async notifyWatchers(): Promise<number> {
+        try {
+            return await processWatchAlerts()
+        } catch (error) {
+            console.error('⚠️  Watch alerts failed:', error)
+            return 0
+        }
+    }
+    
     /**
      * Process only states that have changes
      */
@@ -142,9 +201,15 @@ export class SmartAggregator {
     }
     
     /**
-     * Process zip codes in batches to avoid timeouts
+     * Process zip codes in batches to avoid timeouts. Pipeline jobs call this
+     * with one chunk of the changed ZIPs per worker step, passing stopOnError
+     * so a failed batch fails the chunk and is retried rather than left stale.
      */
-    private static async processChangedZips(changedZips: Set<string>, useStaging: boolean): Promise<number> {
+    static async processChangedZips(
+        changedZips: Set<string>,
+        useStaging: boolean,
+        stopOnError: boolean = false
+    ): Promise<number> {
         if (changedZips.size === 0) return 0
         
         const zipArray = Array.from(changedZips)
@@ -153,6 +218,9 @@ export class SmartAggregator {
         
         console.log(`📮 Processing ${zipArray.length} changed zip codes in batches of ${maxBatchSize}`)
         
+        // Loaded once for every batch: one Census request covers all ZCTAs
+        const demographicsFor = await loadRegionDemographics('zip')
+        
         for (let i = 0; i < zipArray.length; i += maxBatchSize) {
             const batch = zipArray.slice(i, i + maxBatchSize)
             const batchNum = Math.floor(i / maxBatchSize) + 1
@@ -162,7 +230,7 @@ export class SmartAggregator {
             
             try {
                 // Process this batch
-                const processed = await this.processZipBatch(batch, useStaging)
+                const processed = await this.processZipBatch(batch, useStaging, demographicsFor)
                 totalProcessed += processed
                 
                 console.log(`✓ Completed batch ${batchNum}/${totalBatches}: ${processed} ZIPs processed`)
@@ -173,6 +241,7 @@ export class SmartAggregator {
                 }
             } catch (error) {
                 console.error(`❌ Failed to process ZIP batch ${batchNum}:`, error)
+                if (stopOnError) throw error
                 // Continue with next batch even if this one fails
             }
         }
@@ -184,37 +253,38 @@ export class SmartAggregator {
     /**
      * Process a batch of ZIP codes with full original logic
      */
-    private static async processZipBatch(zipCodes: string[], useStaging: boolean): Promise<number> {
+    private static async processZipBatch(
+        zipCodes: string[],
+        useStaging: boolean,
+        demographicsFor: (zipCode: string) => RegionDemographics
+    ): Promise<number> {
         const tableName = useStaging ? 'zip_level_data_staging' : 'zip_level_data'
-        const stationsTable = 'charging_stations'
         
         try {
-            // Fetch stations for these specific ZIP codes
-            const { data: stations, error } = await supabaseAdmin
-                .from(stationsTable)
-                .select('*, ev_connector_types, num_ports')
-                .in('zip', zipCodes)
-                .not('zip', 'is', null)
-                .not('state', 'is', null)
-            
-            if (error) {
-                throw new Error(`Failed to fetch stations for ZIP batch: ${error.message}`)
-            }
-            
-            if (!stations || stations.length === 0) {
+            // Stations for these specific ZIP codes, from the shared index
+            const zipSet = new Set(zipCodes)
+            const { stations: indexedStations } = await getStationIndex(stationTableFor(useStaging))
+            const stations = indexedStations.filter(
+                (station) => station.zip && station.state && zipSet.has(station.zip)
+            )
+            
+            if (stations.length === 0) {
                 console.log('No stations found for this ZIP batch')
                 return 0
             }
             
             // Group stations by zip code
-            const zipGroups = new Map<string, any[]>()
+            const zipGroups = new Map<string, StationRow[]>()
             
             stations.forEach((station) => {
+                // Private fleet and temporarily unavailable chargers don't count
+                if (!isAggregatableStation(station)) return
+
                 // Clean zip code (remove +4 extension if present)
                 const cleanZip = station.zip?.split('-')[0]?.trim()
                 if (!cleanZip || cleanZip.length !== 5) return
                 
-                const key = `${cleanZip}-${station.state}`
+                const key = `${cleanZip}-${getStationState(station)}`
                 if (!zipGroups.has(key)) {
                     zipGroups.set(key, [])
                 }
@@ -242,17 +312,21 @@ export class SmartAggregator {
                 const avgLng = zipStations.reduce((sum, s) => sum + s.longitude, 0) / zipStations.length
                 
                 // Count charger types and connector types
-                let dcfast = 0, level2 = 0, level1 = 0
+                let dcfast = 0, dcfastWeighted = 0, level2 = 0, level1 = 0
                 let tesla = 0, ccs = 0, j1772 = 0, chademo = 0
                 let teslaPorts = 0, ccsPorts = 0, j1772Ports = 0, chademoPorts = 0, totalPorts = 0
+                let public24_7 = 0
                 
                 zipStations.forEach((station) => {
                     const numPorts = station.num_ports || 1
                     totalPorts += numPorts
+                    if (station.is_24_7) public24_7++
                     
                     // Count charger levels
-                    if (station.charger_type_detailed === 'dcfast') dcfast++
-                    else if (station.charger_type_detailed === 'level2') level2++
+                    if (station.charger_type_detailed === 'dcfast') {
+                        dcfast++
+                        dcfastWeighted += getStationWeight(station)
+                    } else if (station.charger_type_detailed === 'level2') level2++
                     else if (station.charger_type_detailed === 'level1') level1++
                     
                     // Count connector types and ports
@@ -279,18 +353,15 @@ export class SmartAggregator {
                 })
                 
                 const totalChargers = zipStations.length
-                const weightedChargerCount = dcfast * 1.0 + level2 * 0.7 + level1 * 0.3
                 
                 // Get population from batch results
                 const population = populationMap.get(zipCode) || this.estimateZipPopulation()
                 
                 const { calculateNeedScore } = await import('./scoring')
-                const { calculateWeightedEVScore } = await import('./aggregation-optimized')
                 
                 const needScore = calculateNeedScore(population, totalChargers)
-                const score = calculateWeightedEVScore(weightedChargerCount, population)
                 
-                zipData.push({
+                zipData.push(withRegionScore({
                     zip_code: zipCode,
                     state: state,
                     center_lat: avgLat,
@@ -300,6 +371,8 @@ export class SmartAggregator {
                     level1_count: level1,
                     level2_count: level2,
                     dcfast_count: dcfast,
+                    dcfast_weighted: dcfastWeighted,
+                    public_24_7_count: public24_7,
                     tesla_count: tesla,
                     ccs_count: ccs,
                     j1772_count: j1772,
@@ -310,9 +383,9 @@ export class SmartAggregator {
                     chademo_ports: chademoPorts,
                     total_ports: totalPorts,
                     need_score: needScore,
-                    ev_infrastructure_score: score,
+                    ...demographicsFor(zipCode),
                     zoom_range: '9-11'
-                })
+                }))
                 
                 processedCount++
                 if (processedCount % 50 === 0) {
@@ -324,13 +397,13 @@ export class SmartAggregator {
             if (zipData.length > 0) {
                 // First delete existing records for these ZIPs
                 const zipCodesToDelete = zipData.map(record => record.zip_code)
-                await supabaseAdmin
+                await db
                     .from(tableName)
                     .delete()
                     .in('zip_code', zipCodesToDelete)
                 
                 // Insert new records
-                const { error: insertError } = await supabaseAdmin
+                const { error: insertError } = await db
                     .from(tableName)
                     .insert(zipData)
                 
@@ -354,67 +427,6 @@ export class SmartAggregator {
         return Math.floor(Math.random() * 15000) + 5000 // 5k-20k range
     }
 
-    /**
-     * Calculate ZIP code processing completion status
-     */
-    private static async calculateZipCompletion(originalAffectedZips: Set<string>, useStaging: boolean): Promise<{
-        total_affected: number
-        completed: number  
-        remaining: number
-        percentage: number
-        is_complete: boolean
-    }> {
-        try {
-            const totalAffected = originalAffectedZips.size
-            const stagingTable = 'zip_level_data_staging'
-            
-            // Count how many affected ZIP codes are already in staging
-            const affectedZipsArray = Array.from(originalAffectedZips)
-            const chunkSize = 1000
-            let completedCount = 0
-            
-            // Process in chunks to avoid query limits
-            for (let i = 0; i < affectedZipsArray.length; i += chunkSize) {
-                const chunk = affectedZipsArray.slice(i, i + chunkSize)
-                
-                try {
-                    const { data, error } = await supabaseAdmin
-                        .from(stagingTable)
-                        .select('zip_code', { count: 'exact' })
-                        .in('zip_code', chunk)
-                    
-                    if (!error && data) {
-                        completedCount += data.length
-                    }
-                } catch (chunkError) {
-                    console.warn(`Error checking completion for chunk ${i}:`, chunkError)
-                }
-            }
-            
-            const remaining = totalAffected - completedCount
-            const percentage = Math.round((completedCount / totalAffected) * 100)
-            const isComplete = remaining === 0
-            
-            return {
-                total_affected: totalAffected,
-                completed: completedCount,
-                remaining: remaining, 
-                percentage: percentage,
-                is_complete: isComplete
-            }
-            
-        } catch (error) {
-            console.error('Error calculating ZIP completion:', error)
-            return {
-                total_affected: originalAffectedZips.size,
-                completed: 0,
-                remaining: originalAffectedZips.size,
-                percentage: 0,
-                is_complete: false
-            }
-        }
-    }
-    
     /**
      * Full regeneration (fallback for when incremental updates fail)
      */
@@ -427,6 +439,9 @@ export class SmartAggregator {
             const statesCount = await generateStateDataOptimized(useStaging)
             const countiesCount = await generateCountyDataOptimized(useStaging)
             const zipsCount = await generateZipData(useStaging)
+            const censusAreasCount =
+                (await generateCensusAreaData('tract')) +
+                (await generateCensusAreaData('block_group'))
             
             const duration = (Date.now() - startTime) / 1000
             
@@ -435,20 +450,16 @@ export class SmartAggregator {
                 states_processed: statesCount,
                 counties_processed: countiesCount,
                 zips_processed: zipsCount,
+                census_areas_processed: censusAreasCount,
                 duration_seconds: duration,
                 changes_detected: {
                     states: new Set(['*']),
                     counties: new Set(['*']),
                     zips: new Set(['*']),
-                    total_changes: -1 // Indicates full regeneration
+                    total_changes: -1, // Indicates full regeneration
+                    station_changes: []
                 },
-                zip_completion: {
-                    total_affected: zipsCount,
-                    completed: zipsCount,
-                    remaining: 0,
-                    percentage: 100,
-                    is_complete: true
-                }
+                alerts_delivered: 0
             }
         } catch (error) {
             return {
@@ -456,20 +467,16 @@ export class SmartAggregator {
                 states_processed: 0,
                 counties_processed: 0,
                 zips_processed: 0,
+                census_areas_processed: 0,
                 duration_seconds: (Date.now() - startTime) / 1000,
                 changes_detected: {
                     states: new Set(),
                     counties: new Set(),
                     zips: new Set(),
-                    total_changes: 0
-                },
-                zip_completion: {
-                    total_affected: 0,
-                    completed: 0,
-                    remaining: 0,
-                    percentage: 0,
-                    is_complete: false
+                    total_changes: 0,
+                    station_changes: []
                 },
+                alerts_delivered: 0,
                 error: error instanceof Error ? error.message : 'Unknown error'
             }
         }
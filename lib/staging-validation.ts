@@ -0,0 +1,222 @@
+import { env } from './env-validation'
+import { isValidUSCoordinates } from './geocoding'
+import { getStationIndex, StationRow } from './station-index'
+
+/**
+ * Sanity checks on staged stations before they replace production, so a
+ * truncated or malformed NREL response can't wipe out good data. Each check
+ * reports its measured value next to the threshold it was held to.
+ */
+
+export interface ValidationThresholds {
+    maxTotalDeltaPercent: number
+    maxStateDeltaPercent: number
+    // States with fewer production stations swing too much night to night
+    minStateStations: number
+    maxNullCoordinatesPercent: number
+    maxOutsideUSPercent: number
+    maxDuplicateLocationsPercent: number
+}
+
+export interface ValidationCheck {
+    name: 'total_count' | 'state_counts' | 'null_coordinates' | 'outside_us' | 'duplicate_locations'
+    passed: boolean
+    value: number
+    threshold: number
+    message: string
+    // A few offending stations or states, for the report
+    samples: unknown[]
+}
+
+export interface StagingValidationReport {
+    passed: boolean
+    checked_at: string
+    staging_count: number
+    production_count: number
+    thresholds: ValidationThresholds
+    checks: ValidationCheck[]
+}
+
+export const DEFAULT_THRESHOLDS: ValidationThresholds = {
+    maxTotalDeltaPercent: env.STAGING_MAX_TOTAL_DELTA_PCT,
+    maxStateDeltaPercent: env.STAGING_MAX_STATE_DELTA_PCT,
+    minStateStations: env.STAGING_MIN_STATE_STATIONS,
+    maxNullCoordinatesPercent: env.STAGING_MAX_NULL_COORDINATES_PCT,
+    maxOutsideUSPercent: env.STAGING_MAX_OUTSIDE_US_PCT,
+    maxDuplicateLocationsPercent: env.STAGING_MAX_DUPLICATE_LOCATIONS_PCT
+}
+
+const MAX_SAMPLES = 10
+
+function percentOf(part: number, whole: number): number {
+    return whole === 0 ? 0 : Math.round((part / whole) * 10000) / 100
+}
+
+function hasCoordinates(station: StationRow): boolean {
+    return Number.isFinite(station.latitude) && Number.isFinite(station.longitude)
+}
+
+function sampleOf(station: StationRow) {
+    return {
+        external_id: station.external_id,
+        name: station.name,
+        state: station.state,
+        latitude: station.latitude,
+        longitude: station.longitude
+    }
+}
+
+function countByState(stations: StationRow[]): Map<string, number> {
+    const counts = new Map<string, number>()
+    for (const station of stations) {
+        counts.set(station.state, (counts.get(station.state) || 0) + 1)
+    }
+    return counts
+}
+
+function checkTotalCount(
+    staged: StationRow[],
+    production: StationRow[],
+    thresholds: ValidationThresholds
+): ValidationCheck {
+    const threshold = thresholds.maxTotalDeltaPercent
+    if (staged.length === 0) {
+        return { name: 'total_count', passed: false, value: 100, threshold, message: 'Staging has no stations', samples: [] }
+    }
+    if (production.length === 0) {
+        return { name: 'total_count', passed: true, value: 0, threshold, message: 'No production baseline yet', samples: [] }
+    }
+
+    const delta = percentOf(staged.length - production.length, production.length)
+    return {
+        name: 'total_count',
+        passed: Math.abs(delta) <= threshold,
+        value: delta,
+        threshold,
+        message: `${staged.length} staged vs ${production.length} in production (${delta > 0 ? '+' : ''}${delta}%)`,
+        samples: []
+    }
+}
+
+function checkStateCounts(
+    staged: StationRow[],
+    production: StationRow[],
+    thresholds: ValidationThresholds
+): ValidationCheck {
+    const stagedCounts = countByState(staged)
+    const offending: { state: string; staging: number; production: number; delta_percent: number }[] = []
+    let largest = 0
+
+    for (const [state, productionCount] of countByState(production)) {
+        if (productionCount < thresholds.minStateStations) continue
+        const stagingCount = stagedCounts.get(state) || 0
+        const delta = percentOf(stagingCount - productionCount, productionCount)
+        largest = Math.max(largest, Math.abs(delta))
+        if (Math.abs(delta) > thresholds.maxStateDeltaPercent) {
+            offending.push({ state, staging: stagingCount, production: productionCount, delta_percent: delta })
+        }
+    }
+
+    offending.sort((a, b) => Math.abs(b.delta_percent) - Math.abs(a.delta_percent))
+    return {
+        name: 'state_counts',
+        passed: offending.length === 0,
+        value: largest,
+        threshold: thresholds.maxStateDeltaPercent,
+        message: offending.length === 0
+            ? `Every state with ${thresholds.minStateStations}+ stations is within ${thresholds.maxStateDeltaPercent}%`
+            : `${offending.length} states changed by more than ${thresholds.maxStateDeltaPercent}%`,
+        samples: offending.slice(0, MAX_SAMPLES)
+    }
+}
+
+function checkStations(
+    name: 'null_coordinates' | 'outside_us',
+    staged: StationRow[],
+    isBad: (station: StationRow) => boolean,
+    threshold: number,
+    description: string
+): ValidationCheck {
+    const bad = staged.filter(isBad)
+    const percent = percentOf(bad.length, staged.length)
+    return {
+        name,
+        passed: percent <= threshold,
+        value: percent,
+        threshold,
+        message: `${bad.length} stations ${description} (${percent}%)`,
+        samples: bad.slice(0, MAX_SAMPLES).map(sampleOf)
+    }
+}
+
+// Stations beyond the first at the same point (to ~1 m)
+function checkDuplicateLocations(staged: StationRow[], threshold: number): ValidationCheck {
+    const seen = new Set<string>()
+    const duplicates: StationRow[] = []
+    for (const station of staged) {
+        if (!hasCoordinates(station)) continue
+        const key = `${station.latitude.toFixed(5)},${station.longitude.toFixed(5)}`
+        if (seen.has(key)) duplicates.push(station)
+        else seen.add(key)
+    }
+
+    const percent = percentOf(duplicates.length, staged.length)
+    return {
+        name: 'duplicate_locations',
+        passed: percent <= threshold,
+        value: percent,
+        threshold,
+        message: `${duplicates.length} stations share a location with another (${percent}%)`,
+        samples: duplicates.slice(0, MAX_SAMPLES).map(sampleOf)
+    }
+}
+
+/**
+ * Compare staged stations to production against the thresholds
+ */
+export async function validateStaging(
+    overrides: Partial<ValidationThresholds> = {}
+): Promise<StagingValidationReport> {
+    const thresholds = { ...DEFAULT_THRESHOLDS, ...overrides }
+    const { stations: staged } = await getStationIndex('charging_stations_staging')
+    const { stations: production } = await getStationIndex()
+
+    const checks = [
+        checkTotalCount(staged, production, thresholds),
+        checkStateCounts(staged, production, thresholds),
+        checkStations(
+            'null_coordinates',
+            staged,
+            (station) => !hasCoordinates(station),
+            thresholds.maxNullCoordinatesPercent,
+            'have no coordinates'
+        ),
+        checkStations(
+            'outside_us',
+            staged,
+            (station) => hasCoordinates(station) && !isValidUSCoordinates(station.latitude, station.longitude),
+            thresholds.maxOutsideUSPercent,
+            'fall outside the US'
+        ),
+        checkDuplicateLocations(staged, thresholds.maxDuplicateLocationsPercent)
+    ]
+
+    return {
+        passed: checks.every((check) => check.passed),
+        checked_at: new Date().toISOString(),
+        staging_count: staged.length,
+        production_count: production.length,
+        thresholds,
+        checks
+    }
+}
+
+/**
+ * One line per failed check, for logs and error messages
+ */
+export function describeFailures(report: StagingValidationReport): string {
+    return report.checks
+        .filter((check) => !check.passed)
+        .map((check) => `${check.name}: ${check.message} (limit ${check.threshold}%)`)
+        .join('; ')
+}
@@ -0,0 +1,236 @@
+import type { MultiPolygon, Polygon } from 'geojson'
+import { db } from './data-store'
+import { calculateDistance } from './scoring'
+import { polygonContains } from './county-index'
+import type { ProcessedStation } from './data-processor'
+
+/**
+ * In-process grid index over production charging_stations, loaded once and
+ * shared by the aggregators, ChangeDetector and the ev-score lookup instead
+ * of each re-fetching the table and scanning it linearly. Aggregating into
+ * staging reads an index over the staged stations instead. One-off lookups
+ * that arrive before the index is loaded query their bounding box directly.
+ */
+
+export type StationRow = ProcessedStation & { id: string }
+
+export type StationTable = 'charging_stations' | 'charging_stations_staging'
+
+export interface StationIndex {
+    stations: StationRow[]
+    cells: Map<string, StationRow[]>
+    loadedAt: number
+}
+
+export interface Bounds {
+    north: number
+    south: number
+    east: number
+    west: number
+}
+
+const CELL_DEGREES = 0.1 // ~7 mi cells
+const PAGE_SIZE = 1000
+// Long enough to cover one pipeline run; swaps clear it explicitly
+const INDEX_TTL_MS = 10 * 60 * 1000
+const MILES_PER_DEGREE_LAT = 69
+// The ProcessedStation fields, leaving out timestamps and anything else the
+// table carries that the index never reads
+const STATION_COLUMNS =
+    'id, external_id, source, source_id, name, latitude, longitude, address, zip, num_ports, dcfast_ports, level2_ports, level1_ports, connector_ports, max_power_kw, access_code, access_days_time, status_code, cards_accepted, is_24_7, charger_type, charger_type_detailed, ev_connector_types, network, state, county_fips'
+
+const cachedIndexes = new Map<StationTable, Promise<StationIndex>>()
+// Indexes that have finished loading, so lookups can tell a warm index apart
+// from one still being fetched
+const loadedIndexes = new Map<StationTable, StationIndex>()
+
+function cellOf(degrees: number): number {
+    return Math.floor(degrees / CELL_DEGREES)
+}
+
+export function buildStationIndex(stations: StationRow[]): StationIndex {
+    const cells = new Map<string, StationRow[]>()
+    for (const station of stations) {
+        const key = `${cellOf(station.latitude)}:${cellOf(station.longitude)}`
+        const cell = cells.get(key)
+        if (cell) cell.push(station)
+        else cells.set(key, [station])
+    }
+    return { stations, cells, loadedAt: Date.now() }
+}
+
+async function fetchStations(table: StationTable, bounds?: Bounds): Promise<StationRow[]> {
+    const stations: StationRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = db.from(table).select(STATION_COLUMNS)
+        if (bounds) {
+            query = query
+                .gte('latitude', bounds.south)
+                .lte('latitude', bounds.north)
+                .gte('longitude', bounds.west)
+                .lte('longitude', bounds.east)
+        }
+        const { data, error } = await query
+            .order('id')
+            .range(from, from + PAGE_SIZE - 1)
+        if (error) throw error
+        stations.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) return stations
+    }
+}
+
+/**
+ * Stations table the aggregators read: rollups written to staging come from
+ * the staged stations so they go live together
+ */
+export function stationTableFor(useStaging: boolean): StationTable {
+    return useStaging ? 'charging_stations_staging' : 'charging_stations'
+}
+
+/**
+ * The shared index, loading the table's stations on first use and again once
+ * INDEX_TTL_MS has passed
+ */
+export async function getStationIndex(
+    table: StationTable = 'charging_stations'
+): Promise<StationIndex> {
+    const cached = cachedIndexes.get(table)
+    if (cached) {
+        const index = await cached
+        if (Date.now() - index.loadedAt < INDEX_TTL_MS) return index
+        cachedIndexes.delete(table)
+        loadedIndexes.delete(table)
+    }
+
+    const loading = (async () => {
+        const startTime = Date.now()
+        const index = buildStationIndex(await fetchStations(table))
+        console.log(
+            `🗂️  Indexed ${index.stations.length} stations from ${table} in ${Date.now() - startTime}ms`
+        )
+        return index
+    })()
+    cachedIndexes.set(table, loading)
+    loading.then(
+        (index) => {
+            if (cachedIndexes.get(table) === loading) loadedIndexes.set(table, index)
+        },
+        // Let a failed load be retried on the next call
+        () => {
+            if (cachedIndexes.get(table) === loading) cachedIndexes.delete(table)
+        }
+    )
+    return loading
+}
+
+/**
+ * Drop the cached indexes, e.g. after stations are written or swapped
+ */
+export function clearStationIndex(): void {
+    cachedIndexes.clear()
+    loadedIndexes.clear()
+}
+
+/**
+ * Production stations inside bounds for a single lookup such as an address
+ * score: read from the shared index when one is already loaded, otherwise
+ * queried for just that box so a cold start doesn't page in the whole table
+ */
+export async function findStationsInBounds(bounds: Bounds): Promise<StationRow[]> {
+    const index = loadedIndexes.get('charging_stations')
+    if (index && Date.now() - index.loadedAt < INDEX_TTL_MS) {
+        return stationsInBounds(index, bounds)
+    }
+    return fetchStations('charging_stations', bounds)
+}
+
+export function stationsInBounds(index: StationIndex, bounds: Bounds): StationRow[] {
+    const results: StationRow[] = []
+    for (let row = cellOf(bounds.south); row <= cellOf(bounds.north); row++) {
+        for (let col = cellOf(bounds.west); col <= cellOf(bounds.east); col++) {
+            for (const station of index.cells.get(`${row}:${col}`) || []) {
+                if (
+                    station.latitude >= bounds.south &&
+                    station.latitude <= bounds.north &&
+                    station.longitude >= bounds.west &&
+                    station.longitude <= bounds.east
+                ) {
+                    results.push(station)
+                }
+            }
+        }
+    }
+    return results
+}
+
+function boundsAround(lat: number, lng: number, miles: number): Bounds {
+    const latDegrees = miles / MILES_PER_DEGREE_LAT
+    const lngDegrees =
+        miles / (MILES_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01))
+    return {
+        north: lat + latDegrees,
+        south: lat - latDegrees,
+        east: lng + lngDegrees,
+        west: lng - lngDegrees
+    }
+}
+
+/**
+ * Stations within a radius, nearest first
+ */
+export function stationsWithinRadius(
+    index: StationIndex,
+    lat: number,
+    lng: number,
+    miles: number
+): (StationRow & { distance: number })[] {
+    return stationsInBounds(index, boundsAround(lat, lng, miles))
+        .map((station) => ({
+            ...station,
+            distance: calculateDistance(lat, lng, station.latitude, station.longitude)
+        }))
+        .filter((station) => station.distance <= miles)
+        .sort((a, b) => a.distance - b.distance)
+}
+
+/**
+ * The n closest stations within maxMiles, widening the search until enough
+ * are found
+ */
+export function nearestStations(
+    index: StationIndex,
+    lat: number,
+    lng: number,
+    n: number,
+    maxMiles: number = 50
+): (StationRow & { distance: number })[] {
+    for (let miles = 5; ; miles = Math.min(miles * 2, maxMiles)) {
+        const found = stationsWithinRadius(index, lat, lng, miles)
+        if (found.length >= n || miles >= maxMiles) return found.slice(0, n)
+    }
+}
+
+/**
+ * Stations inside a GeoJSON polygon or multipolygon
+ */
+export function stationsInPolygon(
+    index: StationIndex,
+    geometry: Polygon | MultiPolygon
+): StationRow[] {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+    const bounds: Bounds = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity }
+    for (const polygon of polygons) {
+        for (const [lng, lat] of polygon[0]) {
+            bounds.north = Math.max(bounds.north, lat)
+            bounds.south = Math.min(bounds.south, lat)
+            bounds.east = Math.max(bounds.east, lng)
+            bounds.west = Math.min(bounds.west, lng)
+        }
+    }
+
+    return stationsInBounds(index, bounds).filter((station) =>
+        polygons.some((polygon) =>
+            polygonContains(polygon, station.longitude, station.latitude)
+        )
+    )
+}
@@ -0,0 +1,196 @@
+// NREL connector codes as stored in charging_stations.ev_connector_types
+export type ConnectorType = 'TESLA' | 'J1772COMBO' | 'J1772' | 'CHADEMO'
+
+export type ChargingAdapter = 'NACS_TO_CCS' | 'CCS_TO_NACS' | 'J1772_TO_NACS'
+
+export interface VehicleProfile {
+    id: string
+    name: string
+    connectors: ConnectorType[] // Native inlets on the vehicle
+    maxDcKw: number // 0 = no DC fast charging
+    rangeMiles: number // Usable EPA range
+    adapters: ChargingAdapter[]
+}
+
+// What each adapter needs on the car and which station plug it unlocks
+export const ADAPTERS: Record<
+    ChargingAdapter,
+    { name: string; requires: ConnectorType; unlocks: ConnectorType }
+> = {
+    NACS_TO_CCS: {
+        name: 'NACS-to-CCS adapter',
+        requires: 'J1772COMBO',
+        unlocks: 'TESLA'
+    },
+    CCS_TO_NACS: {
+        name: 'CCS-to-NACS adapter',
+        requires: 'TESLA',
+        unlocks: 'J1772COMBO'
+    },
+    J1772_TO_NACS: {
+        name: 'J1772-to-NACS adapter',
+        requires: 'TESLA',
+        unlocks: 'J1772'
+    }
+}
+
+export const VEHICLE_PROFILES: VehicleProfile[] = [
+    {
+        id: 'tesla-model-y-2024',
+        name: '2024 Tesla Model Y',
+        connectors: ['TESLA'],
+        maxDcKw: 250,
+        rangeMiles: 310,
+        adapters: ['J1772_TO_NACS']
+    },
+    {
+        id: 'hyundai-ioniq-5-2024',
+        name: '2024 Hyundai Ioniq 5',
+        connectors: ['J1772COMBO'],
+        maxDcKw: 235,
+        rangeMiles: 260,
+        adapters: []
+    },
+    {
+        id: 'kia-ev9-2024',
+        name: '2024 Kia EV9',
+        connectors: ['J1772COMBO'],
+        maxDcKw: 215,
+        rangeMiles: 280,
+        adapters: []
+    },
+    {
+        id: 'rivian-r1s-2024',
+        name: '2024 Rivian R1S',
+        connectors: ['J1772COMBO'],
+        maxDcKw: 220,
+        rangeMiles: 270,
+        adapters: []
+    },
+    {
+        id: 'ford-mustang-mach-e-2024',
+        name: '2024 Ford Mustang Mach-E',
+        connectors: ['J1772COMBO'],
+        maxDcKw: 150,
+        rangeMiles: 250,
+        adapters: []
+    },
+    {
+        id: 'chevrolet-bolt-2023',
+        name: '2023 Chevrolet Bolt EV',
+        connectors: ['J1772COMBO'],
+        maxDcKw: 55,
+        rangeMiles: 259,
+        adapters: []
+    },
+    {
+        id: 'nissan-leaf-2024',
+        name: '2024 Nissan Leaf',
+        connectors: ['CHADEMO', 'J1772'],
+        maxDcKw: 50,
+        rangeMiles: 149,
+        adapters: []
+    }
+]
+
+export function getVehicleProfile(id: string): VehicleProfile | null {
+    return VEHICLE_PROFILES.find((profile) => profile.id === id) || null
+}
+
+/**
+ * Adapters that fit this vehicle's native inlets
+ */
+export function getAvailableAdapters(
+    profile: VehicleProfile
+): ChargingAdapter[] {
+    return (Object.keys(ADAPTERS) as ChargingAdapter[]).filter((adapter) =>
+        profile.connectors.includes(ADAPTERS[adapter].requires)
+    )
+}
+
+export function withAdapters(
+    profile: VehicleProfile,
+    adapters: ChargingAdapter[]
+): VehicleProfile {
+    const available = getAvailableAdapters(profile)
+    return {
+        ...profile,
+        adapters: adapters.filter((adapter) => available.includes(adapter))
+    }
+}
+
+/**
+ * Every station connector this vehicle can plug into, natively or via adapter
+ */
+export function getUsableConnectors(profile: VehicleProfile): ConnectorType[] {
+    const usable = new Set<ConnectorType>(profile.connectors)
+
+    // A CCS inlet also accepts the plain J1772 plug for Level 2
+    if (usable.has('J1772COMBO')) usable.add('J1772')
+
+    for (const adapter of profile.adapters) {
+        if (profile.connectors.includes(ADAPTERS[adapter].requires)) {
+            usable.add(ADAPTERS[adapter].unlocks)
+        }
+    }
+
+    return Array.from(usable)
+}
+
+export function isStationCompatible(
+    stationConnectors: string[] | null | undefined,
+    profile: VehicleProfile
+): boolean {
+    const usable = getUsableConnectors(profile)
+    return (stationConnectors || []).some((type) =>
+        usable.includes(type as ConnectorType)
+    )
+}
+
+/**
+ * Regional rows only carry Tesla vs non-Tesla (CCS/J1772/CHAdeMO) counts,
+ * so a profile collapses to those two buckets plus DC fast capability
+ */
+export function getRegionalFilterFlags(profile: VehicleProfile): {
+    showTesla: boolean
+    showCCS: boolean
+    allowDCFast: boolean
+} {
+    const usable = getUsableConnectors(profile)
+    return {
+        showTesla: usable.includes('TESLA'),
+        showCCS: usable.some((type) =>
+            ['J1772COMBO', 'J1772', 'CHADEMO'].includes(type)
+        ),
+        allowDCFast: profile.maxDcKw > 0
+    }
+}
+
+// Query string form shared by the ev-score route and its callers
+export function vehicleToSearchParams(profile: VehicleProfile): string {
+    const params = new URLSearchParams({ vehicle: profile.id })
+    if (profile.adapters.length > 0) {
+        params.set('adapters', profile.adapters.join(','))
+    }
+    return params.toString()
+}
+
+/**
+ * Returns undefined when no vehicle was requested and null for an unknown id
+ */
+export function parseVehicleParams(
+    searchParams: URLSearchParams
+): VehicleProfile | null | undefined {
+    const vehicleId = searchParams.get('vehicle')
+    if (!vehicleId) return undefined
+
+    const profile = getVehicleProfile(vehicleId)
+    if (!profile) return null
+
+    const adapters = (searchParams.get('adapters') || '')
+        .split(',')
+        .map((adapter) => adapter.trim())
+        .filter((adapter): adapter is ChargingAdapter => adapter in ADAPTERS)
+
+    return withAdapters(profile, adapters)
+}
@@ -0,0 +1,422 @@
+import { createHmac } from 'crypto'
+import { lookup as lookupCallback } from 'dns'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { Agent, fetch as fetchPinned } from 'undici'
+import { db } from './data-store'
+import { isAggregatableStation } from './data-processor'
+import { calculateDistance } from './scoring'
+import { fetchRegionByKey, RegionType } from './history'
+import { StationChangeRecord } from './change-feed'
+
+export type AlertChannelType = 'webhook' | 'email'
+
+export interface LocationWatch {
+    id: string
+    label: string
+    latitude: number
+    longitude: number
+    radius_miles: number
+    region_type: RegionType | null
+    region_key: string | null
+    score_threshold: number | null
+    channel: AlertChannelType
+    target: string
+    last_score: number | null
+    last_checked_at: string
+    // Null for an email watch until its address is confirmed
+    confirmed_at: string | null
+    // Key for the webhook signature header; null for email watches
+    signing_secret: string | null
+}
+
+export interface WatchAlert {
+    watch_id: string
+    label: string
+    stations: {
+        change_type: 'added' | 'removed'
+        name: string | null
+        address: string | null
+        network: string | null
+        charger_type: string | null
+        distance_miles: number
+    }[]
+    score: {
+        region: string
+        previous: number
+        current: number
+        threshold: number
+        direction: 'above' | 'below'
+    } | null
+}
+
+/**
+ * Delivery target for alerts. Channels are looked up by name so tests can
+ * swap in a local stand-in with registerAlertChannel.
+ */
+export interface AlertChannel {
+    deliver(watch: LocationWatch, alert: WatchAlert): Promise<void>
+}
+
+// A slow target must not hold up the rest of the run
+const DELIVERY_TIMEOUT_MS = 10_000
+
+// Loopback, private, link-local (including cloud metadata), shared,
+// multicast and reserved ranges: nothing a watch may point the server at
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96], // NAT64
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// The IPv4 address inside an IPv4-mapped IPv6 one (::ffff:a.b.c.d), which
+// URLs normalize to hex (::ffff:7f00:1)
+function mappedIPv4(address: string): string | null {
+    const match = /^::ffff:(?:([\d.]+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address)
+    if (!match) return null
+    if (match[1]) return match[1]
+    const high = parseInt(match[2], 16)
+    const low = parseInt(match[3], 16)
+    return [high >> 8, high & 255, low >> 8, low & 255].join('.')
+}
+
+function isPublicAddress(address: string): boolean {
+    const mapped = mappedIPv4(address)
+    if (mapped) return isPublicAddress(mapped)
+
+    const family = isIP(address)
+    if (family === 0) return false
+    return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Why a webhook URL can't be used, or null if it can. It must be http(s),
+ * and its host and every address the host resolves to must be public.
+ */
+export async function checkWebhookTarget(target: string): Promise<string | null> {
+    let url: URL
+    try {
+        url = new URL(target)
+    } catch {
+        return 'target must be an http(s) URL'
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return 'target must be an http(s) URL'
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+        return 'target must be a public address'
+    }
+
+    let addresses: string[]
+    if (isIP(host)) {
+        addresses = [host]
+    } else {
+        try {
+            addresses = (await lookup(host, { all: true })).map((entry) => entry.address)
+        } catch {
+            return `target host ${host} could not be resolved`
+        }
+    }
+
+    return addresses.length > 0 && addresses.every(isPublicAddress)
+        ? null
+        : 'target must be a public address'
+}
+
+/**
+ * Resolves like the default lookup but fails on any non-public address, so
+ * the connection goes to an address that passed the check even if the host
+ * was re-pointed since checkWebhookTarget (DNS rebinding)
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '')
+        const blocked = addresses.find((entry) => !isPublicAddress(entry.address))
+        if (blocked || addresses.length === 0) {
+            return callback(new Error(`Webhook host ${hostname} resolved to a non-public address`), '')
+        }
+        if (options.all) return callback(null, addresses)
+        callback(null, addresses[0].address, addresses[0].family)
+    })
+}
+
+const webhookAgent = new Agent({ connect: { lookup: publicOnlyLookup } })
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-CanICharge-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-CanICharge-Timestamp'
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}` under the watch's signing
+ * secret. Receivers recompute it to check a delivery came from us, and can
+ * reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+const webhookChannel: AlertChannel = {
+    async deliver(watch, alert) {
+        // Checked again here for a readable error; the agent's lookup is what
+        // keeps the connection itself off internal addresses
+        const targetError = await checkWebhookTarget(watch.target)
+        if (targetError) {
+            throw new Error(`Webhook ${targetError}`)
+        }
+        if (!watch.signing_secret) {
+            throw new Error('Webhook watch has no signing secret')
+        }
+
+        const body = JSON.stringify(alert)
+        const timestamp = Math.floor(Date.now() / 1000).toString()
+        const response = await fetchPinned(watch.target, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'CanICharge-Alerts/1.0',
+                [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(watch.signing_secret, timestamp, body)}`
+            },
+            body,
+            dispatcher: webhookAgent,
+            // A redirect could lead anywhere, so it counts as a failure
+            redirect: 'manual',
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+        })
+
+        if (!response.ok) {
+            throw new Error(`Webhook returned ${response.status}`)
+        }
+    }
+}
+
+// Email goes through an HTTP relay (ALERT_EMAIL_ENDPOINT) so no mail SDK is
+// needed. False when no relay is configured.
+async function sendEmail(to: string, subject: string, text: string): Promise<boolean> {
+    const endpoint = process.env.ALERT_EMAIL_ENDPOINT
+    if (!endpoint) {
+        console.warn('ALERT_EMAIL_ENDPOINT not configured - skipping email')
+        return false
+    }
+
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to, subject, text }),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Email relay returned ${response.status}`)
+    }
+    return true
+}
+
+const emailChannel: AlertChannel = {
+    async deliver(watch, alert) {
+        await sendEmail(watch.target, `Charging update for ${alert.label}`, formatAlertText(alert))
+    }
+}
+
+/**
+ * Ask the owner of an email watch to confirm the address. No alerts go out
+ * until they open confirmUrl.
+ */
+export async function sendWatchConfirmation(
+    watch: Pick<LocationWatch, 'label' | 'target'>,
+    confirmUrl: string
+): Promise<boolean> {
+    return sendEmail(
+        watch.target,
+        `Confirm charging alerts for ${watch.label}`,
+        `Someone asked for charging alerts about ${watch.label} to be sent to this address.\n` +
+            `Open this link to start receiving them:\n${confirmUrl}\n\n` +
+            'If this was not you, ignore this email and no alerts will be sent.'
+    )
+}
+
+const alertChannels = new Map<AlertChannelType, AlertChannel>([
+    ['webhook', webhookChannel],
+    ['email', emailChannel]
+])
+
+export function registerAlertChannel(
+    type: AlertChannelType,
+    channel: AlertChannel
+): void {
+    alertChannels.set(type, channel)
+}
+
+export function formatAlertText(alert: WatchAlert): string {
+    const lines = alert.stations.map(
+        (station) =>
+            `${station.change_type === 'added' ? 'New' : 'Removed'}: ${
+                station.name || 'Unnamed station'
+            } (${station.distance_miles.toFixed(1)} mi) - ${station.address || ''}`
+    )
+
+    if (alert.score) {
+        lines.push(
+            `EV score for ${alert.score.region} moved ${alert.score.direction} ${alert.score.threshold}: ${alert.score.previous} → ${alert.score.current}`
+        )
+    }
+
+    return lines.join('\n')
+}
+
+/**
+ * Added/removed stations within the watch radius since the last check
+ */
+async function findNearbyChanges(
+    watch: LocationWatch
+): Promise<WatchAlert['stations']> {
+    // Rough bounding box first: 1 degree latitude ≈ 69 miles
+    const latDelta = watch.radius_miles / 69
+    const lngDelta =
+        watch.radius_miles / (69 * Math.cos((watch.latitude * Math.PI) / 180))
+
+    const { data, error } = await db
+        .from('station_changes')
+        .select(
+            'change_type, name, address, network, charger_type_detailed, latitude, longitude, access_code, status_code'
+        )
+        .in('change_type', ['added', 'removed'])
+        .gt('detected_at', watch.last_checked_at)
+        .gte('latitude', watch.latitude - latDelta)
+        .lte('latitude', watch.latitude + latDelta)
+        .gte('longitude', watch.longitude - lngDelta)
+        .lte('longitude', watch.longitude + lngDelta)
+
+    if (error) throw error
+
+    // Private fleet and temporarily unavailable chargers aren't worth an alert
+    return ((data || []) as StationChangeRecord[])
+        .filter(isAggregatableStation)
+        .map((change) => ({
+            change_type: change.change_type as 'added' | 'removed',
+            name: change.name,
+            address: change.address,
+            network: change.network,
+            charger_type: change.charger_type_detailed,
+            distance_miles: calculateDistance(
+                watch.latitude,
+                watch.longitude,
+                change.latitude || 0,
+                change.longitude || 0
+            )
+        }))
+        .filter((change) => change.distance_miles <= watch.radius_miles)
+        .sort((a, b) => a.distance_miles - b.distance_miles)
+}
+
+/**
+ * Score threshold crossing since the last check, in either direction
+ */
+function detectScoreCrossing(
+    watch: LocationWatch,
+    currentScore: number | null
+): WatchAlert['score'] {
+    if (
+        watch.score_threshold === null ||
+        watch.last_score === null ||
+        currentScore === null ||
+        !watch.region_key
+    ) {
+        return null
+    }
+
+    const threshold = watch.score_threshold
+    const wasAbove = watch.last_score >= threshold
+    const isAbove = currentScore >= threshold
+    if (wasAbove === isAbove) return null
+
+    return {
+        region: watch.region_key,
+        previous: watch.last_score,
+        current: currentScore,
+        threshold,
+        direction: isAbove ? 'above' : 'below'
+    }
+}
+
+/**
+ * Check every active watch and deliver alerts through its channel.
+ * Returns the number of alerts delivered.
+ */
+export async function processWatchAlerts(): Promise<number> {
+    const { data: watches, error } = await db
+        .from('location_watches')
+        .select('*')
+        .eq('active', true)
+
+    if (error) throw error
+
+    let delivered = 0
+    const checkedAt = new Date().toISOString()
+    // Email watches wait until their address is confirmed
+    const confirmed = ((watches || []) as LocationWatch[]).filter((watch) => watch.confirmed_at)
+
+    for (const watch of confirmed) {
+        try {
+            const stations = await findNearbyChanges(watch)
+
+            const region =
+                watch.region_type && watch.region_key
+                    ? await fetchRegionByKey(watch.region_type, watch.region_key)
+                    : null
+            const currentScore = region?.ev_infrastructure_score ?? null
+            const score = detectScoreCrossing(watch, currentScore)
+
+            if (stations.length > 0 || score) {
+                const channel = alertChannels.get(watch.channel)
+                if (!channel) {
+                    throw new Error(`No alert channel registered for ${watch.channel}`)
+                }
+
+                await channel.deliver(watch, {
+                    watch_id: watch.id,
+                    label: watch.label,
+                    stations,
+                    score
+                })
+                delivered++
+            }
+
+            await db
+                .from('location_watches')
+                .update({
+                    last_checked_at: checkedAt,
+                    last_score: currentScore ?? watch.last_score
+                })
+                .eq('id', watch.id)
+        } catch (watchError) {
+            // One bad target must not stop the rest; it is retried next run
+            console.error(`Alert for watch ${watch.id} failed:`, watchError)
+        }
+    }
+
+    console.log(`🔔 Delivered ${delivered} watch alerts`)
+    return delivered
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Build the drive-time routing graph read by lib/road-network.ts from an
+ * OSM extract in Overpass JSON form, e.g. for a metro area:
+ *
+ *   [out:json];
+ *   way["highway"](bbox);
+ *   (._;>;);
+ *   out body;
+ *
+ * Usage: node scripts/build-road-network.mjs extract.json data/road-network.json
+ * then set ROAD_NETWORK_PATH to the output file.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+
+// Free-flow speeds (mph) by OSM highway class when a way has no maxspeed
+const HIGHWAY_SPEEDS_MPH = {
+    motorway: 65,
+    motorway_link: 45,
+    trunk: 55,
+    trunk_link: 35,
+    primary: 45,
+    primary_link: 30,
+    secondary: 40,
+    secondary_link: 30,
+    tertiary: 35,
+    tertiary_link: 25,
+    unclassified: 30,
+    residential: 25,
+    living_street: 10,
+    service: 15
+}
+
+function parseMaxSpeed(value) {
+    if (!value) return null
+    const match = String(value).match(/^(\d+(?:\.\d+)?)\s*(mph)?/)
+    if (!match) return null
+    const speed = parseFloat(match[1])
+    return match[2] ? speed : speed / 1.609 // km/h unless marked mph
+}
+
+function milesBetween(a, b) {
+    const toRad = (degrees) => degrees * (Math.PI / 180)
+    const dLat = toRad(b.lat - a.lat)
+    const dLng = toRad(b.lon - a.lon)
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+    return 3959 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h))
+}
+
+function buildRoadNetwork(inputPath, outputPath) {
+    console.log(`🗺️  Reading ${inputPath}...`)
+    const { elements } = JSON.parse(readFileSync(inputPath, 'utf8'))
+
+    const osmNodes = new Map()
+    for (const element of elements) {
+        if (element.type === 'node') osmNodes.set(element.id, element)
+    }
+
+    const nodeIndex = new Map() // OSM id -> graph index
+    const nodes = []
+    const edges = []
+    let wayCount = 0
+
+    const indexOf = (osmId) => {
+        let index = nodeIndex.get(osmId)
+        if (index === undefined) {
+            const node = osmNodes.get(osmId)
+            index = nodes.length / 2
+            nodeIndex.set(osmId, index)
+            nodes.push(Number(node.lat.toFixed(6)), Number(node.lon.toFixed(6)))
+        }
+        return index
+    }
+
+    for (const element of elements) {
+        if (element.type !== 'way') continue
+        const tags = element.tags || {}
+        const baseSpeed = HIGHWAY_SPEEDS_MPH[tags.highway]
+        if (!baseSpeed || tags.access === 'no' || tags.access === 'private') continue
+
+        const speed = parseMaxSpeed(tags.maxspeed) || baseSpeed
+        const oneway =
+            tags.oneway === 'yes' || tags.oneway === '1' || tags.oneway === 'true' ||
+            tags.highway === 'motorway' || tags.junction === 'roundabout'
+        const reverse = tags.oneway === '-1'
+
+        const wayNodes = element.nodes.filter((id) => osmNodes.has(id))
+        for (let i = 1; i < wayNodes.length; i++) {
+            const from = osmNodes.get(wayNodes[i - 1])
+            const to = osmNodes.get(wayNodes[i])
+            const seconds = Math.round((milesBetween(from, to) / speed) * 3600 * 10) / 10
+            const a = indexOf(wayNodes[i - 1])
+            const b = indexOf(wayNodes[i])
+
+            if (!reverse) edges.push(a, b, seconds)
+            if (!oneway || reverse) edges.push(b, a, seconds)
+        }
+        wayCount++
+    }
+
+    writeFileSync(outputPath, JSON.stringify({ version: 1, nodes, edges }))
+    console.log(
+        `✅ Wrote ${outputPath}: ${wayCount} ways, ${nodes.length / 2} nodes, ${edges.length / 3} edges`
+    )
+}
+
+const [inputPath, outputPath] = process.argv.slice(2)
+if (!inputPath || !outputPath) {
+    console.error('Usage: node scripts/build-road-network.mjs <overpass.json> <output.json>')
+    process.exit(1)
+}
+
+buildRoadNetwork(inputPath, outputPath)
@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+/**
+ * Print an ADMIN_USERS entry for an admin dashboard user. Join several
+ * entries with commas; the password itself is never stored.
+ *
+ * Usage: node scripts/hash-admin-password.mjs <username> <password>
+ */
+
+import crypto from 'crypto'
+
+// Must match SCRYPT_KEY_LENGTH in lib/admin-auth.ts
+const KEY_LENGTH = 32
+
+const [username, password] = process.argv.slice(2)
+
+if (!username || !password || username.includes(':') || username.includes(',')) {
+    console.error('Usage: node scripts/hash-admin-password.mjs <username> <password>')
+    console.error('Usernames cannot contain ":" or ","')
+    process.exit(1)
+}
+
+const salt = crypto.randomBytes(16).toString('hex')
+const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex')
+
+console.log(`${username}:${salt}:${hash}`)
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+/**
+ * Import census tract or block-group boundaries for the zoom 12+ map tiers.
+ * Takes TIGER/Line shapefiles converted to GeoJSON, e.g.
+ *
+ *   ogr2ogr -f GeoJSON -t_srs EPSG:4326 tracts.geojson tl_2023_06_tract.shp
+ *
+ * Usage: node scripts/import-census-area-geometries.mjs tracts.geojson [more.geojson...]
+ * The level is taken from the GEOID length (11 digits = tract, 12 = block group).
+ */
+
+import fs from 'fs'
+import { createClient } from '@supabase/supabase-js'
+import dotenv from 'dotenv'
+
+dotenv.config({ path: '.env.local' })
+
+const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY
+)
+
+const STATE_CODES_BY_FIPS = {
+    '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO',
+    '09': 'CT', '10': 'DE', '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI',
+    '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA', '20': 'KS', '21': 'KY',
+    '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+    '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH',
+    '34': 'NJ', '35': 'NM', '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH',
+    '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI', '45': 'SC', '46': 'SD',
+    '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+    '54': 'WV', '55': 'WI', '56': 'WY', '72': 'PR'
+}
+
+const LEVELS_BY_GEOID_LENGTH = {
+    11: 'tract',
+    12: 'block_group'
+}
+
+async function importFile(path) {
+    console.log(`Reading ${path}...`)
+    const geojson = JSON.parse(fs.readFileSync(path, 'utf8'))
+    console.log(`Processing ${geojson.features.length} boundaries...`)
+
+    let inserted = 0
+    let skipped = 0
+    let errors = 0
+
+    for (const feature of geojson.features) {
+        const geoid = String(feature.properties.GEOID || feature.properties.GEOID20 || '')
+        const level = LEVELS_BY_GEOID_LENGTH[geoid.length]
+        const state =
+            STATE_CODES_BY_FIPS[feature.properties.STATEFP || geoid.slice(0, 2)]
+
+        if (!level || !state || !feature.geometry) {
+            skipped++
+            continue
+        }
+
+        const { error } = await supabase.rpc('insert_census_area_geometry', {
+            p_level: level,
+            p_geoid: geoid,
+            p_state: state,
+            p_geometry_json: JSON.stringify(feature.geometry)
+        })
+
+        if (error) {
+            console.error(`Error inserting ${geoid}:`, error)
+            errors++
+        } else {
+            inserted++
+            if (inserted % 500 === 0) {
+                console.log(`✅ Inserted ${inserted} geometries so far...`)
+            }
+        }
+    }
+
+    console.log(`\n✓ ${path}:`)
+    console.log(`  - ${inserted} geometries imported`)
+    console.log(`  - ${errors} errors`)
+    console.log(`  - ${skipped} features skipped (no valid GEOID or state)`)
+}
+
+async function importCensusAreaGeometries(paths) {
+    console.log('🗺️  Census Tract / Block Group Geometries Import')
+    for (const path of paths) {
+        await importFile(path)
+    }
+    console.log('\nRun the daily refresh (or a full regeneration) to build tract and block-group data.')
+}
+
+const paths = process.argv.slice(2)
+if (paths.length === 0) {
+    console.error('Usage: node scripts/import-census-area-geometries.mjs <file.geojson> [...]')
+    process.exit(1)
+}
+
+importCensusAreaGeometries(paths).catch(console.error)
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+/**
+ * Load the Justice40 disadvantaged community designations from the CEJST
+ * communities CSV (https://screeningtool.geoplatform.gov/en/downloads) into
+ * disadvantaged_tracts, which the aggregators roll up for the equity gap view.
+ *
+ * Usage: node scripts/import-justice40-tracts.mjs 1.0-communities.csv
+ */
+
+import XLSX from 'xlsx'
+const { readFile, utils } = XLSX
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+
+config({ path: '.env.local' })
+
+const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY
+)
+
+const STATE_CODES_BY_FIPS = {
+    '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO',
+    '09': 'CT', '10': 'DE', '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI',
+    '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA', '20': 'KS', '21': 'KY',
+    '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+    '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH',
+    '34': 'NJ', '35': 'NM', '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH',
+    '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI', '45': 'SC', '46': 'SD',
+    '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+    '54': 'WV', '55': 'WI', '56': 'WY', '72': 'PR'
+}
+
+// Column names differ slightly between CEJST releases
+const GEOID_COLUMNS = ['Census tract 2010 ID', 'Census tract ID', 'GEOID10_TRACT']
+const FLAG_COLUMNS = ['Identified as disadvantaged', 'SN_C']
+const POPULATION_COLUMNS = ['Total population', 'TPF']
+
+function pick(row, columns) {
+    for (const column of columns) {
+        if (row[column] !== undefined && row[column] !== '') return row[column]
+    }
+    return undefined
+}
+
+function parseFlag(value) {
+    return value === true || value === 1 || /^(true|1|yes)$/i.test(String(value))
+}
+
+async function importJustice40Tracts(path) {
+    console.log(`⚖️  Reading ${path}...`)
+    const workbook = readFile(path, { raw: true })
+    const rows = utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]])
+    console.log(`📈 Found ${rows.length} tracts`)
+
+    const tracts = []
+    let skipped = 0
+    for (const row of rows) {
+        const geoid = String(pick(row, GEOID_COLUMNS) ?? '').padStart(11, '0')
+        const state = STATE_CODES_BY_FIPS[geoid.slice(0, 2)]
+        if (geoid.length !== 11 || !state) {
+            skipped++
+            continue
+        }
+
+        tracts.push({
+            geoid,
+            state,
+            population: parseInt(pick(row, POPULATION_COLUMNS)) || 0,
+            is_disadvantaged: parseFlag(pick(row, FLAG_COLUMNS))
+        })
+    }
+
+    const batchSize = 1000
+    for (let i = 0; i < tracts.length; i += batchSize) {
+        const { error } = await supabase
+            .from('disadvantaged_tracts')
+            .upsert(tracts.slice(i, i + batchSize), { onConflict: 'geoid' })
+        if (error) {
+            console.error('❌ Upsert failed:', error)
+            process.exit(1)
+        }
+        console.log(`✅ Upserted ${Math.min(i + batchSize, tracts.length)} / ${tracts.length}`)
+    }
+
+    const disadvantaged = tracts.filter((tract) => tract.is_disadvantaged).length
+    console.log(`\n✓ Import complete: ${tracts.length} tracts (${disadvantaged} disadvantaged), ${skipped} skipped`)
+}
+
+const [path] = process.argv.slice(2)
+if (!path) {
+    console.error('Usage: node scripts/import-justice40-tracts.mjs <communities.csv>')
+    process.exit(1)
+}
+
+importJustice40Tracts(path).catch((error) => {
+    console.error(error)
+    process.exit(1)
+})
@@ -0,0 +1,23 @@
+-- Per-level port counts, per-connector ports and peak power for each station.
+-- Staging mirrors production so copy_staging_to_production keeps working.
+ALTER TABLE charging_stations
+    ADD COLUMN IF NOT EXISTS dcfast_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS level2_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS level1_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS connector_ports jsonb NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS max_power_kw numeric;
+
+ALTER TABLE charging_stations_staging
+    ADD COLUMN IF NOT EXISTS dcfast_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS level2_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS level1_ports integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS connector_ports jsonb NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS max_power_kw numeric;
+
+-- Sum of power-scaled DC fast weights (see getDCFastPowerWeight in lib/scoring.ts)
+ALTER TABLE state_level_data ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
+ALTER TABLE state_level_data_staging ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
+ALTER TABLE county_level_data ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
+ALTER TABLE zip_level_data ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
+ALTER TABLE zip_level_data_staging ADD COLUMN IF NOT EXISTS dcfast_weighted numeric NOT NULL DEFAULT 0;
@@ -0,0 +1,23 @@
+-- Access restrictions, hours and status from NREL. Private and temporarily
+-- unavailable (status T) stations are stored but skipped by aggregation.
+ALTER TABLE charging_stations
+    ADD COLUMN IF NOT EXISTS access_code text NOT NULL DEFAULT 'public',
+    ADD COLUMN IF NOT EXISTS access_days_time text,
+    ADD COLUMN IF NOT EXISTS status_code text NOT NULL DEFAULT 'E',
+    ADD COLUMN IF NOT EXISTS cards_accepted text,
+    ADD COLUMN IF NOT EXISTS is_24_7 boolean NOT NULL DEFAULT false;
+
+ALTER TABLE charging_stations_staging
+    ADD COLUMN IF NOT EXISTS access_code text NOT NULL DEFAULT 'public',
+    ADD COLUMN IF NOT EXISTS access_days_time text,
+    ADD COLUMN IF NOT EXISTS status_code text NOT NULL DEFAULT 'E',
+    ADD COLUMN IF NOT EXISTS cards_accepted text,
+    ADD COLUMN IF NOT EXISTS is_24_7 boolean NOT NULL DEFAULT false;
+
+-- Public stations open around the clock, used by the "24/7 public only" filter
+ALTER TABLE state_level_data ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
+ALTER TABLE state_level_data_staging ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
+ALTER TABLE county_level_data ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
+ALTER TABLE zip_level_data ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
+ALTER TABLE zip_level_data_staging ADD COLUMN IF NOT EXISTS public_24_7_count integer NOT NULL DEFAULT 0;
@@ -0,0 +1,23 @@
+-- Dated counts and scores per region, written after every staging swap
+CREATE TABLE IF NOT EXISTS region_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    region_type text NOT NULL CHECK (region_type IN ('state', 'county', 'zip')),
+    region_key text NOT NULL,
+    snapshot_date date NOT NULL,
+    charger_count integer NOT NULL DEFAULT 0,
+    total_ports integer NOT NULL DEFAULT 0,
+    dcfast_count integer NOT NULL DEFAULT 0,
+    level2_count integer NOT NULL DEFAULT 0,
+    level1_count integer NOT NULL DEFAULT 0,
+    ev_infrastructure_score numeric NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (region_type, region_key, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS region_history_lookup_idx
+    ON region_history (region_type, region_key, snapshot_date);
+
+ALTER TABLE region_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON region_history
+    FOR SELECT USING (true);
@@ -0,0 +1,43 @@
+-- Stable NREL station id so refreshes can be diffed station by station
+ALTER TABLE charging_stations ADD COLUMN IF NOT EXISTS external_id bigint;
+ALTER TABLE charging_stations_staging ADD COLUMN IF NOT EXISTS external_id bigint;
+
+CREATE INDEX IF NOT EXISTS charging_stations_external_id_idx
+    ON charging_stations (external_id);
+CREATE INDEX IF NOT EXISTS charging_stations_staging_external_id_idx
+    ON charging_stations_staging (external_id);
+
+-- Public feed of stations added, removed or modified by each refresh
+CREATE TABLE IF NOT EXISTS station_changes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    external_id bigint NOT NULL,
+    change_type text NOT NULL CHECK (change_type IN ('added', 'removed', 'modified')),
+    detected_at timestamptz NOT NULL DEFAULT now(),
+    detected_on date NOT NULL DEFAULT current_date,
+    name text,
+    address text,
+    network text,
+    state text,
+    zip text,
+    latitude double precision,
+    longitude double precision,
+    charger_type_detailed text,
+    ev_connector_types text[],
+    num_ports integer,
+    max_power_kw numeric,
+    -- So alert consumers can skip private and temporarily unavailable sites
+    access_code text,
+    status_code text,
+    previous jsonb,
+    UNIQUE (external_id, change_type, detected_on)
+);
+
+CREATE INDEX IF NOT EXISTS station_changes_detected_at_idx
+    ON station_changes (detected_at DESC);
+CREATE INDEX IF NOT EXISTS station_changes_state_idx
+    ON station_changes (state, detected_at DESC);
+
+ALTER TABLE station_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON station_changes
+    FOR SELECT USING (true);
@@ -0,0 +1,30 @@
+-- Locations users asked to be alerted about. Only the service role reads
+-- this table; owners manage their watch with the returned manage_token.
+-- Email watches get no alerts until the link sent with confirm_token is
+-- opened. Webhook deliveries are signed with signing_secret, which is also
+-- returned once.
+CREATE TABLE IF NOT EXISTS location_watches (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    label text NOT NULL,
+    latitude double precision NOT NULL,
+    longitude double precision NOT NULL,
+    radius_miles numeric NOT NULL DEFAULT 5,
+    region_type text CHECK (region_type IN ('state', 'county', 'zip')),
+    region_key text,
+    score_threshold numeric,
+    channel text NOT NULL CHECK (channel IN ('webhook', 'email')),
+    target text NOT NULL,
+    manage_token text NOT NULL,
+    confirm_token text,
+    signing_secret text,
+    confirmed_at timestamptz,
+    last_score numeric,
+    last_checked_at timestamptz NOT NULL DEFAULT now(),
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS location_watches_active_idx
+    ON location_watches (active);
+
+ALTER TABLE location_watches ENABLE ROW LEVEL SECURITY;
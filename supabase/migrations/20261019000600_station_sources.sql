@@ -0,0 +1,12 @@
+-- Which provider a station came from (nrel, ocm, ocpi, csv) and its id there.
+-- external_id stays NREL-only and is null for other sources.
+ALTER TABLE charging_stations
+    ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'nrel',
+    ADD COLUMN IF NOT EXISTS source_id text;
+
+ALTER TABLE charging_stations_staging
+    ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'nrel',
+    ADD COLUMN IF NOT EXISTS source_id text;
+
+UPDATE charging_stations SET source_id = external_id::text
+    WHERE source_id IS NULL AND external_id IS NOT NULL;
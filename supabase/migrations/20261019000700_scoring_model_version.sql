@@ -0,0 +1,16 @@
+-- Score engine model that produced ev_infrastructure_score (see lib/score-engine.ts).
+-- Null on rows scored before versioning.
+ALTER TABLE state_level_data ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE state_level_data_staging ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE county_level_data ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE zip_level_data ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE zip_level_data_staging ADD COLUMN IF NOT EXISTS scoring_model_version text;
+ALTER TABLE neighborhood_level_data ADD COLUMN IF NOT EXISTS scoring_model_version text;
+
+-- County rebuilds carry the ingested VMT over so traffic-adjusted-v1 can use it
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS daily_vmt numeric;
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS vmt_per_capita numeric;
+
+-- Snapshots keep the version so trends across a model change can be told apart
+ALTER TABLE region_history ADD COLUMN IF NOT EXISTS scoring_model_version text;
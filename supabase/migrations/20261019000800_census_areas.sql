@@ -0,0 +1,134 @@
+-- Census tract and block-group aggregation levels (zoom 12+), below ZIP.
+-- Boundaries come from TIGER/Line via scripts/import-census-area-geometries.mjs;
+-- stations are assigned to areas by point-in-polygon.
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+CREATE TABLE IF NOT EXISTS census_area_geometries (
+    level text NOT NULL CHECK (level IN ('tract', 'block_group')),
+    geoid text NOT NULL,
+    state text NOT NULL,
+    center_lat double precision NOT NULL,
+    center_lng double precision NOT NULL,
+    geometry geometry(MultiPolygon, 4326) NOT NULL,
+    PRIMARY KEY (level, geoid)
+);
+
+CREATE INDEX IF NOT EXISTS census_area_geometries_geometry_idx
+    ON census_area_geometries USING gist (geometry);
+CREATE INDEX IF NOT EXISTS census_area_geometries_state_idx
+    ON census_area_geometries (level, state);
+
+CREATE TABLE IF NOT EXISTS tract_level_data (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    geoid text NOT NULL UNIQUE,
+    state text NOT NULL,
+    county_fips text NOT NULL,
+    center_lat double precision NOT NULL,
+    center_lng double precision NOT NULL,
+    population integer,
+    charger_count integer NOT NULL DEFAULT 0,
+    level1_count integer NOT NULL DEFAULT 0,
+    level2_count integer NOT NULL DEFAULT 0,
+    dcfast_count integer NOT NULL DEFAULT 0,
+    dcfast_weighted numeric NOT NULL DEFAULT 0,
+    public_24_7_count integer NOT NULL DEFAULT 0,
+    tesla_count integer NOT NULL DEFAULT 0,
+    ccs_count integer NOT NULL DEFAULT 0,
+    j1772_count integer NOT NULL DEFAULT 0,
+    chademo_count integer NOT NULL DEFAULT 0,
+    tesla_ports integer NOT NULL DEFAULT 0,
+    ccs_ports integer NOT NULL DEFAULT 0,
+    j1772_ports integer NOT NULL DEFAULT 0,
+    chademo_ports integer NOT NULL DEFAULT 0,
+    total_ports integer NOT NULL DEFAULT 0,
+    need_score numeric,
+    ev_infrastructure_score numeric,
+    scoring_model_version text,
+    zoom_range text,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS block_group_level_data (LIKE tract_level_data INCLUDING ALL);
+
+CREATE INDEX IF NOT EXISTS tract_level_data_center_idx
+    ON tract_level_data (center_lat, center_lng);
+CREATE INDEX IF NOT EXISTS tract_level_data_state_idx
+    ON tract_level_data (state);
+
+ALTER TABLE census_area_geometries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tract_level_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE block_group_level_data ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON census_area_geometries FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON tract_level_data FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON block_group_level_data FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION insert_census_area_geometry(
+    p_level text,
+    p_geoid text,
+    p_state text,
+    p_geometry_json text
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+-- PostGIS lives in the extensions schema on Supabase
+SET search_path = public, extensions AS $$
+DECLARE
+    v_geometry geometry := ST_Multi(ST_SetSRID(ST_GeomFromGeoJSON(p_geometry_json), 4326));
+    v_center geometry := ST_PointOnSurface(v_geometry);
+BEGIN
+    INSERT INTO census_area_geometries (level, geoid, state, center_lat, center_lng, geometry)
+    VALUES (p_level, p_geoid, p_state, ST_Y(v_center), ST_X(v_center), v_geometry)
+    ON CONFLICT (level, geoid) DO UPDATE SET
+        state = EXCLUDED.state,
+        center_lat = EXCLUDED.center_lat,
+        center_lng = EXCLUDED.center_lng,
+        geometry = EXCLUDED.geometry;
+END;
+$$;
+
+-- Runs as the owner; only the loader script (service role) may call it
+REVOKE EXECUTE ON FUNCTION insert_census_area_geometry(text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION insert_census_area_geometry(text, text, text, text) TO service_role;
+
+-- Which tract/block group each station in a state falls inside, ordered so
+-- the caller can page through it with .range()
+CREATE OR REPLACE FUNCTION assign_stations_to_census_areas(
+    p_level text,
+    p_state text
+) RETURNS TABLE (station_id uuid, geoid text)
+LANGUAGE sql STABLE AS $$
+    SELECT s.id, g.geoid
+    FROM charging_stations s
+    JOIN census_area_geometries g
+        ON g.level = p_level
+        AND g.state = p_state
+        AND ST_Contains(g.geometry, ST_SetSRID(ST_MakePoint(s.longitude, s.latitude), 4326))
+    WHERE s.state = p_state
+    ORDER BY s.id;
+$$;
+
+-- Area rows with boundaries inside the map bounds, like get_zip_data_with_geometry
+CREATE OR REPLACE FUNCTION get_census_area_data_with_geometry(
+    p_level text,
+    p_north double precision,
+    p_south double precision,
+    p_east double precision,
+    p_west double precision
+) RETURNS SETOF jsonb
+LANGUAGE plpgsql STABLE AS $$
+BEGIN
+    IF p_level NOT IN ('tract', 'block_group') THEN
+        RAISE EXCEPTION 'Unknown census area level: %', p_level;
+    END IF;
+
+    RETURN QUERY EXECUTE format(
+        'SELECT to_jsonb(d) || jsonb_build_object(''geometry'', ST_AsGeoJSON(g.geometry, 5)::jsonb)
+         FROM %I d
+         JOIN census_area_geometries g ON g.level = $1 AND g.geoid = d.geoid
+         WHERE d.center_lat BETWEEN $2 AND $3 AND d.center_lng BETWEEN $4 AND $5
+         ORDER BY d.ev_infrastructure_score DESC
+         LIMIT 5000',
+        p_level || '_level_data'
+    ) USING p_level, p_south, p_north, p_west, p_east;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Demographic inputs for the equity gap view (see lib/equity.ts): ACS income,
+-- renter and multi-family shares, and the Justice40 disadvantaged community
+-- designation rolled up from census tracts.
+DO $$
+DECLARE
+    t text;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'state_level_data', 'state_level_data_staging',
+        'county_level_data', 'county_level_data_staging',
+        'zip_level_data', 'zip_level_data_staging',
+        'tract_level_data', 'block_group_level_data'
+    ] LOOP
+        EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS median_household_income integer', t);
+        EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS renter_share numeric', t);
+        EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS multifamily_share numeric', t);
+        EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS disadvantaged_share numeric', t);
+        EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS is_disadvantaged boolean', t);
+    END LOOP;
+END;
+$$;
+
+-- CEJST tract designations, loaded by scripts/import-justice40-tracts.mjs
+CREATE TABLE IF NOT EXISTS disadvantaged_tracts (
+    geoid text PRIMARY KEY,
+    state text NOT NULL,
+    population integer NOT NULL DEFAULT 0,
+    is_disadvantaged boolean NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS disadvantaged_tracts_state_idx
+    ON disadvantaged_tracts (state);
+
+ALTER TABLE disadvantaged_tracts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access" ON disadvantaged_tracts FOR SELECT USING (true);
+
+-- Population share of each ZIP in designated tracts, matching tract centers
+-- (from census_area_geometries) to ZIP boundaries
+CREATE OR REPLACE FUNCTION get_zip_disadvantaged_shares()
+RETURNS TABLE (zip_code text, disadvantaged_share numeric)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        z.zip_code,
+        SUM(CASE WHEN d.is_disadvantaged THEN d.population ELSE 0 END)::numeric
+            / NULLIF(SUM(d.population), 0)
+    FROM zip_geometries z
+    JOIN census_area_geometries g
+        ON g.level = 'tract'
+        AND ST_Contains(z.geometry, ST_SetSRID(ST_MakePoint(g.center_lng, g.center_lat), 4326))
+    JOIN disadvantaged_tracts d ON d.geoid = g.geoid
+    GROUP BY z.zip_code
+    HAVING SUM(d.population) > 0
+    ORDER BY z.zip_code;
+$$;
@@ -0,0 +1,38 @@
+-- County each station falls inside, resolved by point-in-polygon
+-- (lib/county-index.ts) so county, state and ZIP rollups agree.
+ALTER TABLE charging_stations ADD COLUMN IF NOT EXISTS county_fips text;
+ALTER TABLE charging_stations_staging ADD COLUMN IF NOT EXISTS county_fips text;
+
+CREATE INDEX IF NOT EXISTS charging_stations_county_fips_idx
+    ON charging_stations (county_fips);
+
+-- County rows are keyed by FIPS as well as name
+ALTER TABLE county_level_data ADD COLUMN IF NOT EXISTS county_fips text;
+ALTER TABLE county_level_data_staging ADD COLUMN IF NOT EXISTS county_fips text;
+
+-- Bulk backfill for stations written before counties were assigned at ingest,
+-- in production or in staging while a refresh aggregates there
+CREATE OR REPLACE FUNCTION set_station_county_fips(
+    p_assignments jsonb,
+    p_table text DEFAULT 'charging_stations'
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF p_table NOT IN ('charging_stations', 'charging_stations_staging') THEN
+        RAISE EXCEPTION 'set_station_county_fips: unsupported table %', p_table;
+    END IF;
+
+    EXECUTE format(
+        'UPDATE %I s SET county_fips = a.county_fips
+         FROM jsonb_to_recordset($1) AS a(id uuid, county_fips text)
+         WHERE s.id = a.id',
+        p_table
+    ) USING p_assignments;
+END;
+$$;
+
+-- Runs as the owner; only the pipeline (service role) may call it
+REVOKE EXECUTE ON FUNCTION set_station_county_fips(jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_station_county_fips(jsonb, text) TO service_role;
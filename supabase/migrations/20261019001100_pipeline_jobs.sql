@@ -0,0 +1,42 @@
+-- Nightly refresh runs as a persisted job of ordered steps (lib/pipeline-jobs.ts).
+-- Each worker invocation runs bounded chunks and saves the step cursor, so a
+-- run that outlives one function timeout resumes where it left off.
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind text NOT NULL,
+    status text NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    triggered_by text NOT NULL,
+    -- Lease held by the worker currently running the job
+    locked_until timestamptz NOT NULL DEFAULT 'epoch',
+    error text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    started_at timestamptz,
+    finished_at timestamptz,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pipeline_jobs_status_idx
+    ON pipeline_jobs (status, created_at);
+
+CREATE TABLE IF NOT EXISTS pipeline_steps (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id uuid NOT NULL REFERENCES pipeline_jobs (id) ON DELETE CASCADE,
+    position integer NOT NULL,
+    name text NOT NULL,
+    status text NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    -- Failed attempts so far; the step fails for good past MAX_STEP_RETRIES
+    retry_count integer NOT NULL DEFAULT 0,
+    -- Where the next chunk starts; null before the first chunk
+    cursor jsonb,
+    result jsonb,
+    error text,
+    started_at timestamptz,
+    finished_at timestamptz,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (job_id, position)
+);
+
+ALTER TABLE pipeline_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_steps ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,127 @@
+-- Copies of production taken just before each swap (lib/production-snapshots.ts),
+-- so a bad refresh that got through validation can be rolled back. The last
+-- SNAPSHOT_RETENTION snapshots are kept.
+CREATE TABLE IF NOT EXISTS production_snapshots (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source text NOT NULL,
+    job_id uuid REFERENCES pipeline_jobs (id) ON DELETE SET NULL,
+    -- Rows copied per table
+    counts jsonb NOT NULL DEFAULT '{}',
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS production_snapshots_created_at_idx
+    ON production_snapshots (created_at DESC);
+
+ALTER TABLE production_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- One snapshot table per snapshotted table, with the same columns plus the
+-- snapshot id. Columns added to a production table later must be added to
+-- its snapshot table too.
+DO $$
+DECLARE
+    t text;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'charging_stations', 'state_level_data', 'county_level_data',
+        'zip_level_data', 'tract_level_data', 'block_group_level_data'
+    ] LOOP
+        EXECUTE format(
+            'CREATE TABLE IF NOT EXISTS %I (snapshot_id uuid NOT NULL REFERENCES production_snapshots (id) ON DELETE CASCADE, LIKE %I)',
+            t || '_snapshots', t
+        );
+        EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I (snapshot_id)', t || '_snapshots_snapshot_idx', t || '_snapshots');
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t || '_snapshots');
+    END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION production_snapshot_columns(p_table text)
+RETURNS text
+LANGUAGE sql STABLE AS $$
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = p_table;
+$$;
+
+CREATE OR REPLACE FUNCTION create_production_snapshot(p_source text, p_job_id uuid DEFAULT NULL)
+RETURNS SETOF production_snapshots
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    v_id uuid;
+    v_counts jsonb := '{}';
+    v_copied bigint;
+    v_columns text;
+    t text;
+BEGIN
+    INSERT INTO production_snapshots (source, job_id)
+    VALUES (p_source, p_job_id)
+    RETURNING id INTO v_id;
+
+    FOREACH t IN ARRAY ARRAY[
+        'charging_stations', 'state_level_data', 'county_level_data',
+        'zip_level_data', 'tract_level_data', 'block_group_level_data'
+    ] LOOP
+        v_columns := production_snapshot_columns(t);
+        EXECUTE format('INSERT INTO %I (snapshot_id, %s) SELECT $1, %s FROM %I', t || '_snapshots', v_columns, v_columns, t)
+            USING v_id;
+        GET DIAGNOSTICS v_copied = ROW_COUNT;
+        v_counts := v_counts || jsonb_build_object(t, v_copied);
+    END LOOP;
+
+    RETURN QUERY
+    UPDATE production_snapshots SET counts = v_counts WHERE id = v_id RETURNING *;
+END;
+$$;
+
+-- Replaces every snapshotted production table in one transaction
+CREATE OR REPLACE FUNCTION restore_production_snapshot(p_snapshot_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    v_columns text;
+    t text;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM production_snapshots WHERE id = p_snapshot_id) THEN
+        RAISE EXCEPTION 'Snapshot % not found', p_snapshot_id;
+    END IF;
+
+    FOREACH t IN ARRAY ARRAY[
+        'charging_stations', 'state_level_data', 'county_level_data',
+        'zip_level_data', 'tract_level_data', 'block_group_level_data'
+    ] LOOP
+        v_columns := production_snapshot_columns(t);
+        EXECUTE format('DELETE FROM %I', t);
+        EXECUTE format('INSERT INTO %I (%s) SELECT %s FROM %I WHERE snapshot_id = $1', t, v_columns, v_columns, t || '_snapshots')
+            USING p_snapshot_id;
+    END LOOP;
+END;
+$$;
+
+-- Keep the newest p_keep snapshots; their rows go with them
+CREATE OR REPLACE FUNCTION prune_production_snapshots(p_keep integer)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    DELETE FROM production_snapshots
+    WHERE id NOT IN (
+        SELECT id FROM production_snapshots ORDER BY created_at DESC LIMIT p_keep
+    );
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+-- These run as the owner, so only the service role (the refresh pipeline
+-- and the snapshot routes, behind admin auth) may call them
+REVOKE EXECUTE ON FUNCTION create_production_snapshot(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_production_snapshot(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_production_snapshots(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_production_snapshot(text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_production_snapshot(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION prune_production_snapshots(integer) TO service_role;
@@ -0,0 +1,17 @@
+-- One row per full refresh (lib/monitoring.ts), read back by the admin
+-- dashboard. Nightly job runs keep their own record in pipeline_jobs.
+CREATE TABLE IF NOT EXISTS refresh_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    timestamp timestamptz NOT NULL DEFAULT now(),
+    duration_seconds integer NOT NULL,
+    stations_fetched integer NOT NULL DEFAULT 0,
+    stations_inserted integer NOT NULL DEFAULT 0,
+    states_generated integer NOT NULL DEFAULT 0,
+    success boolean NOT NULL,
+    error_message text
+);
+
+CREATE INDEX IF NOT EXISTS refresh_metrics_timestamp_idx
+    ON refresh_metrics (timestamp DESC);
+
+ALTER TABLE refresh_metrics ENABLE ROW LEVEL SECURITY;
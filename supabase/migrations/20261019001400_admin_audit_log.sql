@@ -0,0 +1,17 @@
+-- Who triggered what through the privileged routes (lib/admin-auth.ts):
+-- refreshes, rollbacks, re-aggregations and admin sign-ins
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Admin username, 'cron', or 'anonymous' for failed sign-ins
+    actor text NOT NULL,
+    role text CHECK (role IN ('admin', 'cron')),
+    action text NOT NULL,
+    details jsonb NOT NULL DEFAULT '{}',
+    ip text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx
+    ON admin_audit_log (created_at DESC);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,109 @@
+-- Issued API keys for server-to-server callers of /api/ev-score and
+-- /api/charging-data (lib/api-keys.ts). Each key has its own per-minute rate
+-- limit and monthly quota in place of the per-IP limiter.
+CREATE TABLE IF NOT EXISTS api_keys (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    -- Start of the key, to tell keys apart; only the hash of the full key is kept
+    key_prefix text NOT NULL,
+    key_hash text NOT NULL UNIQUE,
+    rate_limit_per_minute integer NOT NULL CHECK (rate_limit_per_minute > 0),
+    monthly_quota integer NOT NULL CHECK (monthly_quota > 0),
+    created_by text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    last_used_at timestamptz,
+    revoked_at timestamptz
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- One row per key per UTC month
+CREATE TABLE IF NOT EXISTS api_key_usage (
+    key_id uuid NOT NULL REFERENCES api_keys (id) ON DELETE CASCADE,
+    -- First day of the month
+    month date NOT NULL,
+    requests bigint NOT NULL DEFAULT 0,
+    -- Turned away by the rate limit or quota
+    rejected bigint NOT NULL DEFAULT 0,
+    -- Fixed one-minute window the rate limit counts in
+    window_start timestamptz NOT NULL DEFAULT 'epoch',
+    window_requests integer NOT NULL DEFAULT 0,
+    PRIMARY KEY (key_id, month)
+);
+
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- Check a key against its limits and count the request if it's allowed, in
+-- one transaction so concurrent requests can't both take the last unit.
+-- status: ok, invalid, revoked, rate_limited or quota_exceeded
+CREATE OR REPLACE FUNCTION meter_api_key(p_key_hash text, p_cost integer DEFAULT 1)
+RETURNS TABLE (
+    api_key_id uuid,
+    status text,
+    rate_limit integer,
+    window_used integer,
+    window_reset timestamptz,
+    quota integer,
+    quota_used bigint
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    v_key api_keys%ROWTYPE;
+    v_usage api_key_usage%ROWTYPE;
+    v_month date := date_trunc('month', now() AT TIME ZONE 'utc')::date;
+    v_window timestamptz := date_trunc('minute', now());
+    v_status text := 'ok';
+BEGIN
+    IF p_cost IS NULL OR p_cost < 1 THEN
+        RAISE EXCEPTION 'meter_api_key: cost must be at least 1, got %', p_cost;
+    END IF;
+
+    SELECT * INTO v_key FROM api_keys WHERE key_hash = p_key_hash;
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT NULL::uuid, 'invalid'::text, NULL::integer, NULL::integer,
+            NULL::timestamptz, NULL::integer, NULL::bigint;
+        RETURN;
+    END IF;
+    IF v_key.revoked_at IS NOT NULL THEN
+        RETURN QUERY SELECT v_key.id, 'revoked'::text, NULL::integer, NULL::integer,
+            NULL::timestamptz, NULL::integer, NULL::bigint;
+        RETURN;
+    END IF;
+
+    INSERT INTO api_key_usage (key_id, month) VALUES (v_key.id, v_month)
+    ON CONFLICT DO NOTHING;
+    SELECT * INTO v_usage FROM api_key_usage u
+    WHERE u.key_id = v_key.id AND u.month = v_month
+    FOR UPDATE;
+
+    IF v_usage.window_start < v_window THEN
+        v_usage.window_start := v_window;
+        v_usage.window_requests := 0;
+    END IF;
+
+    IF v_usage.window_requests + p_cost > v_key.rate_limit_per_minute THEN
+        v_status := 'rate_limited';
+    ELSIF v_usage.requests + p_cost > v_key.monthly_quota THEN
+        v_status := 'quota_exceeded';
+    ELSE
+        v_usage.window_requests := v_usage.window_requests + p_cost;
+        v_usage.requests := v_usage.requests + p_cost;
+        UPDATE api_keys SET last_used_at = now() WHERE id = v_key.id;
+    END IF;
+
+    UPDATE api_key_usage u SET
+        requests = v_usage.requests,
+        rejected = u.rejected + CASE WHEN v_status = 'ok' THEN 0 ELSE 1 END,
+        window_start = v_usage.window_start,
+        window_requests = v_usage.window_requests
+    WHERE u.key_id = v_key.id AND u.month = v_month;
+
+    RETURN QUERY SELECT v_key.id, v_status, v_key.rate_limit_per_minute, v_usage.window_requests,
+        v_usage.window_start + interval '1 minute', v_key.monthly_quota, v_usage.requests;
+END;
+$$;
+
+-- Runs as the owner; only the server (service role) meters keys
+REVOKE EXECUTE ON FUNCTION meter_api_key(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION meter_api_key(text, integer) TO service_role;
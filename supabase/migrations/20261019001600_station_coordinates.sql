@@ -0,0 +1,3 @@
+-- Bounding-box lookups for address scores that run before the station index is loaded
+CREATE INDEX IF NOT EXISTS charging_stations_latitude_longitude_idx
+    ON charging_stations (latitude, longitude);
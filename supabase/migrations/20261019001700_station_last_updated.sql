@@ -0,0 +1,13 @@
+-- When a station's published details last changed (lib/data-processor.ts),
+-- kept across refreshes that leave it as it was. created_at is rewritten for
+-- every row on each refresh, so incremental OCPI pulls filter on this instead.
+ALTER TABLE charging_stations
+    ADD COLUMN IF NOT EXISTS last_updated timestamptz NOT NULL DEFAULT now();
+ALTER TABLE charging_stations_staging
+    ADD COLUMN IF NOT EXISTS last_updated timestamptz NOT NULL DEFAULT now();
+-- Snapshot tables mirror production's columns
+ALTER TABLE charging_stations_snapshots
+    ADD COLUMN IF NOT EXISTS last_updated timestamptz;
+
+CREATE INDEX IF NOT EXISTS charging_stations_last_updated_idx
+    ON charging_stations (last_updated);
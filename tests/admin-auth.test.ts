@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomUUID } from 'crypto'
+import { NextRequest } from 'next/server'
+import { GET as dashboard } from '@/app/api/admin/dashboard/route'
+import { POST as signIn } from '@/app/api/admin/session/route'
+import { POST as refreshData } from '@/app/api/refresh-data/route'
+import { POST as rollback } from '@/app/api/snapshots/rollback/route'
+import { ADMIN_TOKEN_TTL_MS, AdminAuditEntry, verifyAdminToken } from '@/lib/admin-auth'
+import { readTable } from './helpers'
+
+const BASE_URL = 'http://localhost:3000'
+
+function signInRequest(body: object) {
+    return new NextRequest(`${BASE_URL}/api/admin/session`, {
+        method: 'POST',
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+        body: JSON.stringify(body)
+    })
+}
+
+function adminRequest(route: string, token: string, init: { method?: string; body?: string } = {}) {
+    return new NextRequest(`${BASE_URL}${route}`, {
+        ...init,
+        headers: { authorization: `Bearer ${token}` }
+    })
+}
+
+async function auditLog(): Promise<AdminAuditEntry[]> {
+    return readTable<AdminAuditEntry>('admin_audit_log')
+}
+
+describe('admin auth', () => {
+    let token: string
+
+    it('no longer trusts the x-admin-request header', async () => {
+        const request = new NextRequest(`${BASE_URL}/api/refresh-data`, {
+            method: 'POST',
+            headers: { 'x-admin-request': 'true' }
+        })
+        assert.equal((await refreshData(request)).status, 401)
+    })
+
+    it('signs admins in with a short-lived token', async () => {
+        assert.equal((await signIn(signInRequest({ username: 'test-admin' }))).status, 400)
+
+        const rejected = await signIn(signInRequest({ username: 'test-admin', password: 'wrong' }))
+        assert.equal(rejected.status, 401)
+
+        const response = await signIn(signInRequest({ username: 'test-admin', password: 'test-password' }))
+        const body = await response.json()
+        assert.equal(response.status, 200)
+        assert.equal(body.subject, 'test-admin')
+        token = body.token
+
+        assert.equal((await dashboard(adminRequest('/api/admin/dashboard', token))).status, 200)
+
+        const [failed, succeeded] = await auditLog()
+        assert.deepEqual(
+            [failed.actor, failed.action, failed.details, failed.ip],
+            ['anonymous', 'sign-in-failed', { username: 'test-admin' }, '203.0.113.7']
+        )
+        assert.deepEqual([succeeded.actor, succeeded.role, succeeded.action], ['test-admin', 'admin', 'sign-in'])
+    })
+
+    it('rejects expired and tampered tokens', async () => {
+        assert.deepEqual(verifyAdminToken(token), { subject: 'test-admin', role: 'admin' })
+        assert.equal(verifyAdminToken(token, Date.now() + ADMIN_TOKEN_TTL_MS + 1000), null)
+
+        const [payload, signature] = token.split('.')
+        const forged = Buffer.from(JSON.stringify({ sub: 'mallory', iat: 0, exp: Date.now() + 60_000 }))
+            .toString('base64url')
+        assert.equal(verifyAdminToken(`${forged}.${signature}`), null)
+        assert.equal(verifyAdminToken(`${payload}.${signature}x`), null)
+        assert.equal((await dashboard(adminRequest('/api/admin/dashboard', `${forged}.${signature}`))).status, 401)
+    })
+
+    it('records who triggered what', async () => {
+        const snapshotId = randomUUID()
+        const response = await rollback(
+            adminRequest('/api/snapshots/rollback', token, {
+                method: 'POST',
+                body: JSON.stringify({ snapshot_id: snapshotId })
+            })
+        )
+        assert.equal(response.status, 404)
+
+        const { audit_log } = await (await dashboard(adminRequest('/api/admin/dashboard', token))).json()
+        assert.equal(audit_log[0].actor, 'test-admin')
+        assert.equal(audit_log[0].action, 'rollback')
+        assert.deepEqual(audit_log[0].details, { snapshot_id: snapshotId })
+    })
+})
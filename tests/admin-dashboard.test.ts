@@ -0,0 +1,129 @@
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { GET as dashboard } from '@/app/api/admin/dashboard/route'
+import { POST as reaggregate } from '@/app/api/admin/reaggregate/route'
+import { POST as refreshData } from '@/app/api/refresh-data/route'
+import type { AdminDashboard } from '@/lib/admin-dashboard'
+import { db } from '@/lib/data-store'
+import { enqueueJob, runWorker } from '@/lib/pipeline-jobs'
+import { cronRequest, NIGHT_1, NIGHT_2, readTable, replayRecording } from './helpers'
+
+async function loadDashboard(): Promise<AdminDashboard> {
+    const response = await dashboard(cronRequest('/api/admin/dashboard'))
+    assert.equal(response.status, 200)
+    return response.json()
+}
+
+function reaggregateRequest(body: object | null) {
+    return cronRequest('/api/admin/reaggregate', { method: 'POST', body: JSON.stringify(body) })
+}
+
+describe('admin dashboard', () => {
+    const night1 = replayRecording(NIGHT_1)
+
+    after(() => {
+        delete process.env.NREL_FIXTURE_PATH
+    })
+
+    it('rejects requests without the admin secret', async () => {
+        const url = 'http://localhost:3000/api/admin'
+        assert.equal((await dashboard(new NextRequest(`${url}/dashboard`))).status, 401)
+        assert.equal(
+            (await reaggregate(new NextRequest(`${url}/reaggregate`, { method: 'POST' }))).status,
+            401
+        )
+    })
+
+    it('lists full refresh metrics', async () => {
+        const response = await refreshData(cronRequest('/api/refresh-data', { method: 'POST' }))
+        assert.equal(response.status, 200)
+
+        const { metrics } = await loadDashboard()
+        assert.equal(metrics.length, 1)
+        assert.equal(metrics[0].success, true)
+        assert.equal(metrics[0].stations_inserted, night1.length)
+        assert.ok(metrics[0].states_generated > 0)
+    })
+
+    it('follows a nightly run through its changed ZIPs', async () => {
+        process.env.NREL_FIXTURE_PATH = NIGHT_2
+        const { job } = await enqueueJob('daily-refresh', 'test')
+
+        // Nothing may rewrite production under a running job
+        assert.equal((await reaggregate(reaggregateRequest({ state: 'CO' }))).status, 409)
+        // ...and the refused attempt isn't logged as a re-aggregation
+        const audited = await readTable<{ action: string }>('admin_audit_log')
+        assert.ok(audited.every((entry) => entry.action !== 'reaggregate-state'))
+
+        let run = await runWorker({ budgetMs: 0 })
+        while (run.job!.steps.find((step) => step.name === 'detect-changes')!.status !== 'done') {
+            assert.equal((await loadDashboard()).zip_progress, null)
+            run = await runWorker({ budgetMs: 0 })
+        }
+
+        const pending = (await loadDashboard()).zip_progress!
+        assert.equal(pending.job_id, job.id)
+        assert.equal(pending.status, 'queued')
+        assert.equal(pending.completed, 0)
+        assert.ok(pending.total > 0)
+
+        while (run.job?.status === 'running') run = await runWorker({ budgetMs: 0 })
+
+        const { jobs, zip_progress, change_logs } = await loadDashboard()
+        assert.equal(jobs[0].id, job.id)
+        assert.equal(jobs[0].status, 'done')
+        assert.ok(jobs[0].steps.every((step) => step.status === 'done'))
+        assert.deepEqual(zip_progress, { ...pending, status: 'done', completed: pending.total, percent: 100 })
+        assert.equal(change_logs.length, 1)
+        assert.equal(change_logs[0].zips, pending.total)
+    })
+
+    it('re-aggregates a single state in production', async () => {
+        assert.equal((await reaggregate(reaggregateRequest({}))).status, 400)
+        assert.equal((await reaggregate(reaggregateRequest(null))).status, 400)
+        assert.equal((await reaggregate(reaggregateRequest({ state: 'ZZ' }))).status, 400)
+
+        await db.from('zip_level_data').delete().neq('zip_code', '')
+        // As scripts/ingest-vmt-arcgis.mjs leaves Denver County
+        await db.from('county_level_data').update({ vmt_per_capita: 30 }).eq('county_fips', '08031')
+        const countiesBefore = await readTable<{ id: string; state: string }>('county_level_data')
+        const statesBefore = await readTable<{ id: string; state_name: string }>('state_level_data')
+
+        const response = await reaggregate(reaggregateRequest({ state: 'co' }))
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.equal(body.state, 'CO')
+        assert.ok(body.zips_processed > 0)
+
+        // Only Colorado's ZIPs are rebuilt
+        const zips = await readTable<{ state: string }>('zip_level_data')
+        assert.equal(zips.length, body.zips_processed)
+        assert.ok(zips.every((zip) => zip.state === 'CO'))
+
+        // Other states' state and county rows are left as they were
+        const untouched = (rows: { id: string }[]) => rows.map((row) => row.id).sort()
+        const counties = await readTable<{ id: string; state: string }>('county_level_data')
+        assert.equal(body.states_processed, 1)
+        assert.equal(counties.length, countiesBefore.length)
+        assert.deepEqual(
+            untouched(counties.filter((county) => county.state !== 'CO')),
+            untouched(countiesBefore.filter((county) => county.state !== 'CO'))
+        )
+        // Rebuilt counties keep their VMT and record the model that scored them
+        type ScoredCounty = { county_fips: string; vmt_per_capita: number | null; scoring_model_version: string }
+        const scored = await readTable<ScoredCounty>('county_level_data')
+        const denver = scored.find((county) => county.county_fips === '08031')
+        assert.equal(denver?.vmt_per_capita, 30)
+        assert.equal(denver?.scoring_model_version, 'traffic-adjusted-v1')
+        assert.equal(scored.find((county) => county.county_fips === '08001')?.scoring_model_version, 'per-capita-v1')
+
+        const states = await readTable<{ id: string; state_name: string }>('state_level_data')
+        assert.equal(states.length, statesBefore.length)
+        assert.deepEqual(
+            untouched(states.filter((state) => state.state_name !== 'Colorado')),
+            untouched(statesBefore.filter((state) => state.state_name !== 'Colorado'))
+        )
+    })
+})
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { DELETE as revokeKey, GET as listKeys, POST as createKey } from '@/app/api/admin/api-keys/route'
+import { GET as chargingData } from '@/app/api/charging-data/route'
+import { GET as evScore } from '@/app/api/ev-score/route'
+import { GET as usage } from '@/app/api/usage/route'
+import { currentMonth, meterApiKey } from '@/lib/api-keys'
+import { cronRequest, readTable } from './helpers'
+
+const BASE_URL = 'http://localhost:3000'
+
+function keyed(route: string, key: string) {
+    return new NextRequest(`${BASE_URL}${route}`, { headers: { 'x-api-key': key } })
+}
+
+async function issueKey(body: object): Promise<{ key: string; api_key: { id: string; key_prefix: string } }> {
+    const response = await createKey(cronRequest('/api/admin/api-keys', { method: 'POST', body: JSON.stringify(body) }))
+    assert.equal(response.status, 201)
+    return response.json()
+}
+
+describe('API keys', () => {
+    it('are issued by admins only', async () => {
+        const request = new NextRequest(`${BASE_URL}/api/admin/api-keys`, {
+            method: 'POST',
+            body: JSON.stringify({ name: 'partner' })
+        })
+        assert.equal((await createKey(request)).status, 401)
+
+        const invalid = (body: object) =>
+            createKey(cronRequest('/api/admin/api-keys', { method: 'POST', body: JSON.stringify(body) }))
+        assert.equal((await invalid({})).status, 400)
+        assert.equal((await invalid({ name: 'partner', monthly_quota: 0 })).status, 400)
+
+        const { key, api_key } = await issueKey({ name: 'partner' })
+        assert.ok(key.startsWith(api_key.key_prefix))
+
+        // Only the hash is stored
+        const [stored] = await readTable<Record<string, unknown>>('api_keys')
+        assert.ok(!JSON.stringify(stored).includes(key))
+    })
+
+    it('turn away unknown keys instead of falling back to the IP limit', async () => {
+        const response = await evScore(keyed('/api/ev-score?lat=39.7&lng=-105', 'cic_not-a-real-key'))
+        assert.equal(response.status, 401)
+    })
+
+    it('meter requests against the key rate limit and monthly quota', async () => {
+        const { key } = await issueKey({ name: 'backend', rate_limit_per_minute: 2, monthly_quota: 3 })
+
+        const first = await chargingData(keyed('/api/charging-data?zoom=4', key))
+        assert.equal(first.status, 200)
+        assert.equal(first.headers.get('X-RateLimit-Remaining'), '1')
+        assert.equal(first.headers.get('X-Quota-Remaining'), '2')
+        assert.equal((await chargingData(keyed('/api/charging-data?zoom=4', key))).status, 200)
+
+        const limited = await chargingData(keyed('/api/charging-data?zoom=4', key))
+        assert.equal(limited.status, 429)
+        assert.equal(limited.headers.get('X-RateLimit-Remaining'), '0')
+
+        // A negative cost would refund quota
+        await assert.rejects(meterApiKey(key, -1), { message: /cost must be at least 1/ })
+
+        const response = await usage(keyed('/api/usage', key))
+        const body = await response.json()
+        assert.equal(response.status, 200)
+        assert.equal(body.name, 'backend')
+        assert.deepEqual(body.current_month, { month: currentMonth(), requests: 2, rejected: 1, remaining: 1 })
+    })
+
+    it('stop working once revoked', async () => {
+        const { key, api_key } = await issueKey({ name: 'retired' })
+        assert.equal((await chargingData(keyed('/api/charging-data?zoom=4', key))).status, 200)
+
+        const response = await revokeKey(cronRequest(`/api/admin/api-keys?id=${api_key.id}`, { method: 'DELETE' }))
+        assert.equal(response.status, 200)
+        assert.equal((await chargingData(keyed('/api/charging-data?zoom=4', key))).status, 403)
+        assert.equal((await usage(keyed('/api/usage', key))).status, 200)
+
+        const { api_keys } = await (await listKeys(cronRequest('/api/admin/api-keys'))).json()
+        const retired = api_keys.find((candidate: { id: string }) => candidate.id === api_key.id)
+        assert.ok(retired.revoked_at)
+        assert.equal(retired.current_month.requests, 1)
+
+        const audit = await readTable<{ action: string }>('admin_audit_log')
+        assert.deepEqual(
+            audit.map((entry) => entry.action).filter((action) => action === 'revoke-api-key'),
+            ['revoke-api-key']
+        )
+    })
+})
@@ -0,0 +1,40 @@
+import fs from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { db } from '@/lib/data-store'
+import { isAggregatableStation, ProcessedStation } from '@/lib/data-processor'
+import { NRELResponse, stationsFromNRELResponse } from '@/lib/providers/nrel'
+
+// Recorded NREL responses: the bundled local fixture, then the next night
+// with one station removed, two modified, two added and one malformed record
+export const NIGHT_1 = path.join(process.cwd(), 'fixtures/nrel-response.json')
+export const NIGHT_2 = path.join(process.cwd(), 'tests/fixtures/nrel/night-2.json')
+
+export function readRecording(file: string): NRELResponse {
+    return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+export function replayRecording(file: string): ProcessedStation[] {
+    return stationsFromNRELResponse(readRecording(file))
+}
+
+export async function readTable<T = Record<string, unknown>>(table: string): Promise<T[]> {
+    const { data, error } = await db.from(table).select('*')
+    if (error) throw error
+    return data as T[]
+}
+
+// What the aggregators should count for a region: public, open stations
+export function countAggregatable(
+    stations: ProcessedStation[],
+    inRegion: (station: ProcessedStation) => boolean
+): number {
+    return stations.filter((station) => isAggregatableStation(station) && inRegion(station)).length
+}
+
+export function cronRequest(route: string, init: { method?: string; body?: string } = {}): NextRequest {
+    return new NextRequest(`http://localhost:3000${route}`, {
+        ...init,
+        headers: { authorization: `Bearer ${process.env.CRON_SECRET}` }
+    })
+}
@@ -0,0 +1,138 @@
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { db } from '@/lib/data-store'
+import {
+    enqueueJob,
+    getJob,
+    MAX_STEP_RETRIES,
+    PipelineStep,
+    pruneOldJobs,
+    runWorker
+} from '@/lib/pipeline-jobs'
+import { ALL_STATE_CODES } from '@/lib/census-area-aggregation'
+import { COUNTY_STATES_PER_CHUNK } from '@/lib/pipeline-steps'
+import { countAggregatable, NIGHT_1, readTable, replayRecording } from './helpers'
+
+function stepNamed(steps: PipelineStep[], name: string): PipelineStep {
+    return steps.find((step) => step.name === name)!
+}
+
+describe('pipeline jobs', () => {
+    const night1 = replayRecording(NIGHT_1)
+
+    after(() => {
+        delete process.env.NREL_FIXTURE_PATH
+    })
+
+    it('returns the job already in progress instead of queueing another', async () => {
+        const first = await enqueueJob('daily-refresh', 'test')
+        const second = await enqueueJob('daily-refresh', 'test')
+
+        assert.equal(first.created, true)
+        assert.equal(second.created, false)
+        assert.equal(second.job.id, first.job.id)
+    })
+
+    it('resumes a job one chunk per invocation until it finishes', async () => {
+        const { job } = await enqueueJob('daily-refresh', 'test')
+        const states = new Set(night1.map((station) => station.state))
+
+        // A zero budget stops every invocation after its first chunk
+        let invocations = 0
+        let run = await runWorker({ budgetMs: 0 })
+        for (; run.job?.status === 'running'; invocations++) {
+            assert.equal(run.chunks_run, 1)
+            const censusAreas = stepNamed(run.job.steps, 'aggregate-census-areas')
+            if (censusAreas.status === 'running') {
+                const { remaining } = censusAreas.cursor as { remaining: string[] }
+                assert.ok(remaining.length < states.size)
+            }
+            run = await runWorker({ budgetMs: 0 })
+        }
+
+        assert.equal(run.job?.id, job.id)
+        assert.equal(run.job?.status, 'done')
+        assert.ok(run.job?.steps.every((step) => step.status === 'done' && step.retry_count === 0))
+        // One chunk per single-chunk step, plus one per state for census areas
+        // and one per few states for counties
+        const countyChunks = Math.ceil(ALL_STATE_CODES.length / COUNTY_STATES_PER_CHUNK)
+        assert.equal(invocations + 1, run.job!.steps.length - 2 + states.size + countyChunks)
+
+        // Aggregates built in staging come from the stations fetched this run
+        assert.equal((await readTable('charging_stations')).length, night1.length)
+        const colorado = (await readTable<{ state_name: string; charger_count: number }>('state_level_data'))
+            .find((state) => state.state_name === 'Colorado')
+        assert.equal(colorado?.charger_count, countAggregatable(night1, (s) => s.state === 'CO'))
+
+        assert.deepEqual(await runWorker({ budgetMs: 0 }), { job: null, chunks_run: 0 })
+    })
+
+    it('retries a failing step before failing the job', async () => {
+        process.env.NREL_FIXTURE_PATH = '/nonexistent/nrel-response.json'
+        const { job } = await enqueueJob('daily-refresh', 'test')
+
+        for (let retry = 1; retry <= MAX_STEP_RETRIES; retry++) {
+            const { job: retried } = await runWorker({ budgetMs: 60_000 })
+            assert.equal(retried?.status, 'running')
+            const fetchStep = stepNamed(retried!.steps, 'fetch-stations')
+            assert.equal(fetchStep.status, 'queued')
+            assert.equal(fetchStep.retry_count, retry)
+        }
+
+        const { job: failed } = await runWorker({ budgetMs: 60_000 })
+        assert.equal(failed?.status, 'failed')
+        assert.match(failed!.error!, /^fetch-stations: /)
+        assert.equal(stepNamed(failed!.steps, 'swap').status, 'queued')
+
+        // Production still holds the last successful run
+        assert.equal((await readTable('charging_stations')).length, night1.length)
+        assert.equal((await getJob(job.id))?.status, 'failed')
+    })
+
+    it('counts a chunk cut off by the time limit as a retry', async () => {
+        delete process.env.NREL_FIXTURE_PATH
+        const { job, created } = await enqueueJob('daily-refresh', 'test')
+        assert.equal(created, true)
+        const [fetchStep] = (await getJob(job.id))!.steps
+
+        // What a worker killed mid-chunk leaves behind: a running step under a lapsed lease
+        const interrupt = async () => {
+            await db
+                .from('pipeline_jobs')
+                .update({ status: 'running', locked_until: new Date(Date.now() - 1000).toISOString() })
+                .eq('id', job.id)
+            await db.from('pipeline_steps').update({ status: 'running' }).eq('id', fetchStep.id)
+        }
+
+        for (let retry = 1; retry <= MAX_STEP_RETRIES; retry++) {
+            await interrupt()
+            const run = await runWorker({ budgetMs: 0 })
+            assert.equal(run.chunks_run, 0)
+            assert.equal(stepNamed(run.job!.steps, 'fetch-stations').retry_count, retry)
+        }
+
+        await interrupt()
+        const { job: failed } = await runWorker({ budgetMs: 0 })
+        assert.equal(failed?.status, 'failed')
+        assert.match(failed!.error!, /^fetch-stations: Worker stopped before the chunk finished/)
+
+        // The next nightly run is no longer held behind it
+        assert.equal((await enqueueJob('daily-refresh', 'test')).created, true)
+    })
+
+    it('prunes finished jobs past the retention window', async () => {
+        const longAgo = new Date(Date.now() - 45 * 24 * 60 * 60 * 1000).toISOString()
+        const { data: old } = await db
+            .from('pipeline_jobs')
+            .insert({ kind: 'daily-refresh', status: 'done', triggered_by: 'test', created_at: longAgo })
+            .select('id')
+            .single()
+        await db.from('pipeline_steps').insert({ job_id: old!.id, position: 0, name: 'fetch-stations' })
+
+        assert.equal(await pruneOldJobs(30), 1)
+        assert.equal(await getJob(old!.id), null)
+        assert.equal((await readTable('pipeline_steps')).filter((step) => step.job_id === old!.id).length, 0)
+        // Recent jobs are kept, finished or not
+        assert.equal((await readTable('pipeline_jobs')).length, 4)
+    })
+})
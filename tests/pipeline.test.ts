@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    batchInsertStations,
+    clearTable,
+    swapStagingToProduction
+} from '@/lib/data-processor'
+import { ChangeDetector } from '@/lib/change-detector'
+import { SmartAggregator } from '@/lib/smart-aggregator'
+import { assignStationCounties, backfillStationCounties } from '@/lib/county-index'
+import { clearStationIndex, findStationsInBounds, getStationIndex } from '@/lib/station-index'
+import { fetchProviderStations, StationProvider } from '@/lib/providers'
+import { countAggregatable, NIGHT_1, NIGHT_2, readRecording, readTable, replayRecording } from './helpers'
+
+interface RegionRow {
+    charger_count: number
+}
+
+async function stageNight(file: string) {
+    const stations = replayRecording(file)
+    await assignStationCounties(stations)
+    await clearTable('charging_stations_staging')
+    const result = await batchInsertStations(stations, 1000, true)
+    assert.equal(result.errors, 0)
+    return stations
+}
+
+describe('nightly pipeline', () => {
+    const night1 = replayRecording(NIGHT_1)
+    const night2 = replayRecording(NIGHT_2)
+
+    it('processes every usable record in a recorded response', () => {
+        assert.equal(night1.length, readRecording(NIGHT_1).fuel_stations!.length)
+        // The malformed record without coordinates is dropped
+        assert.equal(night2.length, readRecording(NIGHT_2).fuel_stations!.length - 1)
+        assert.ok(night1.every((station) => station.source === 'nrel' && station.external_id))
+    })
+
+    it('swaps the first night into production and builds region rows', async () => {
+        const staged = await stageNight(NIGHT_1)
+        assert.equal((await readTable('charging_stations_staging')).length, staged.length)
+        assert.equal((await readTable('charging_stations')).length, 0)
+
+        assert.equal((await swapStagingToProduction()).success, true)
+        assert.equal((await readTable('charging_stations')).length, staged.length)
+
+        const result = await SmartAggregator.performFullRegeneration(false)
+        assert.equal(result.success, true)
+
+        const states = await readTable<RegionRow & { state_name: string }>('state_level_data')
+        const colorado = states.find((state) => state.state_name === 'Colorado')
+        assert.equal(colorado?.charger_count, countAggregatable(night1, (s) => s.state === 'CO'))
+
+        const counties = await readTable<RegionRow & { county_fips: string }>('county_level_data')
+        // Every fixture ZIP starting 802 is inside Denver County
+        const denver = counties.find((county) => county.county_fips === '08031')
+        assert.equal(
+            denver?.charger_count,
+            countAggregatable(night1, (s) => s.zip.startsWith('802'))
+        )
+
+        const zips = await readTable<RegionRow & { zip_code: string }>('zip_level_data')
+        assert.equal(zips.length, new Set(night1.map((station) => station.zip)).size)
+        assert.equal(
+            zips.reduce((sum, zip) => sum + zip.charger_count, 0),
+            countAggregatable(night1, () => true)
+        )
+    })
+
+    it('detects the next night\'s changes against production', async () => {
+        await stageNight(NIGHT_2)
+
+        const changes = await ChangeDetector.detectChanges(true)
+        const byType = (type: string) =>
+            changes.station_changes.filter((change) => change.change_type === type)
+
+        assert.deepEqual(byType('added').map((c) => c.station_id).sort(), [900059, 900060])
+        assert.deepEqual(byType('removed').map((c) => c.station_id), [900003])
+        assert.deepEqual(byType('modified').map((c) => c.station_id).sort(), [900010, 900050])
+        assert.equal(changes.total_changes, 5)
+        assert.deepEqual([...changes.states].sort(), ['CO', 'NY', 'TX'])
+    })
+
+    it('promotes staging to production on swap', async () => {
+        assert.equal((await swapStagingToProduction()).success, true)
+
+        const production = await readTable<{ external_id: number; ev_connector_types: string[] }>(
+            'charging_stations'
+        )
+        assert.deepEqual(
+            production.map((station) => station.external_id).sort(),
+            night2.map((station) => station.external_id).sort()
+        )
+        const modified = production.find((station) => station.external_id === 900010)
+        assert.deepEqual(modified?.ev_connector_types, ['TESLA', 'J1772COMBO'])
+
+        // The swap drops the cached index so readers see the new stations
+        assert.equal((await getStationIndex()).stations.length, night2.length)
+    })
+
+    it('looks up a bounding box with or without the index loaded', async () => {
+        const denver = { north: 39.85, south: 39.6, east: -104.85, west: -105.1 }
+        const expected = night2
+            .filter(
+                (s) =>
+                    s.latitude >= denver.south &&
+                    s.latitude <= denver.north &&
+                    s.longitude >= denver.west &&
+                    s.longitude <= denver.east
+            )
+            .map((s) => s.external_id)
+            .sort()
+        assert.ok(expected.length > 0)
+
+        clearStationIndex()
+        const queried = await findStationsInBounds(denver)
+        assert.deepEqual(queried.map((s) => s.external_id).sort(), expected)
+
+        await getStationIndex()
+        const indexed = await findStationsInBounds(denver)
+        assert.deepEqual(indexed.map((s) => s.external_id).sort(), expected)
+    })
+
+    it('finds nothing left to aggregate once staging matches production', async () => {
+        const result = await SmartAggregator.performIncrementalUpdate(['states', 'zips'], true)
+        assert.equal(result.success, true)
+        assert.equal(result.changes_detected.total_changes, 0)
+        assert.equal(result.zips_processed, 0)
+    })
+
+    it('rebuilds region rows from the swapped stations', async () => {
+        const result = await SmartAggregator.performFullRegeneration(false)
+        assert.equal(result.success, true)
+
+        const zips = await readTable<RegionRow & { zip_code: string }>('zip_level_data')
+        const zipCount = (code: string) => zips.find((zip) => zip.zip_code === code)?.charger_count
+        assert.equal(zipCount('80211'), countAggregatable(night2, (s) => s.zip === '80211'))
+        assert.equal(zipCount('80202'), countAggregatable(night2, (s) => s.zip === '80202'))
+        assert.equal(zipCount('10001'), countAggregatable(night2, (s) => s.zip === '10001'))
+    })
+
+    it('backfills missing counties in the table the stations came from', async () => {
+        // Staged without counties, as rows written before ingest assigned them
+        await clearTable('charging_stations_staging')
+        await batchInsertStations(replayRecording(NIGHT_2), 1000, true)
+        clearStationIndex()
+
+        const { stations } = await getStationIndex('charging_stations_staging')
+        assert.ok(stations.every((station) => !station.county_fips))
+        assert.equal(await backfillStationCounties(stations, 'charging_stations_staging'), stations.length)
+
+        const staged = await readTable<{ zip: string; county_fips: string | null }>('charging_stations_staging')
+        assert.ok(staged.filter((s) => s.zip.startsWith('802')).every((s) => s.county_fips === '08031'))
+    })
+
+    it('drops stations whose OCPI location id would be cut short', async () => {
+        const [station] = night1
+        const provider: StationProvider = {
+            source: 'ocpi',
+            name: 'Test OCPI',
+            isConfigured: () => true,
+            fetchStations: async () => [
+                { ...station, source: 'ocpi', source_id: 'a'.repeat(31) },
+                { ...station, source: 'ocpi', source_id: 'a'.repeat(32) }
+            ]
+        }
+
+        const stations = await fetchProviderStations(provider)
+        assert.deepEqual(stations.map((s) => s.source_id), ['a'.repeat(31)])
+    })
+})
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomUUID } from 'crypto'
+import { NextRequest } from 'next/server'
+import { GET as listSnapshots } from '@/app/api/snapshots/route'
+import { POST as rollback } from '@/app/api/snapshots/rollback/route'
+import { batchInsertStations, clearTable, swapStagingToProduction } from '@/lib/data-processor'
+import { getStationIndex } from '@/lib/station-index'
+import { cronRequest, NIGHT_1, NIGHT_2, readTable, replayRecording } from './helpers'
+
+async function swapNight(file: string, source: string) {
+    await clearTable('charging_stations_staging')
+    assert.equal((await batchInsertStations(replayRecording(file), 1000, true)).errors, 0)
+    assert.equal((await swapStagingToProduction({ source })).success, true)
+}
+
+async function productionIds(): Promise<number[]> {
+    const stations = await readTable<{ external_id: number }>('charging_stations')
+    return stations.map((station) => station.external_id).sort()
+}
+
+describe('production snapshots', () => {
+    const night1Ids = replayRecording(NIGHT_1).map((station) => station.external_id).sort()
+    const night2Ids = replayRecording(NIGHT_2).map((station) => station.external_id).sort()
+
+    it('reject requests without the cron secret', async () => {
+        const url = 'http://localhost:3000/api/snapshots'
+        assert.equal((await listSnapshots(new NextRequest(url))).status, 401)
+        assert.equal((await rollback(new NextRequest(`${url}/rollback`, { method: 'POST' }))).status, 401)
+    })
+
+    it('copies production before each swap', async () => {
+        await swapNight(NIGHT_1, 'first')
+        await swapNight(NIGHT_2, 'second')
+
+        const response = await listSnapshots(cronRequest('/api/snapshots'))
+        const { snapshots } = await response.json()
+
+        // Production was empty before the first swap
+        assert.equal(snapshots.length, 1)
+        assert.equal(snapshots[0].source, 'second')
+        assert.equal(snapshots[0].counts.charging_stations, night1Ids.length)
+        assert.equal(snapshots[0].job, null)
+    })
+
+    it('rolls production back to a snapshot', async () => {
+        const { snapshots } = await (await listSnapshots(cronRequest('/api/snapshots'))).json()
+        assert.deepEqual(await productionIds(), night2Ids)
+
+        const response = await rollback(
+            cronRequest('/api/snapshots/rollback', {
+                method: 'POST',
+                body: JSON.stringify({ snapshot_id: snapshots[0].id })
+            })
+        )
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.deepEqual(await productionIds(), night1Ids)
+        assert.equal((await getStationIndex()).stations.length, night1Ids.length)
+
+        // The rollback kept what it replaced
+        assert.equal(body.backup.source, 'rollback')
+        assert.equal(body.backup.counts.charging_stations, night2Ids.length)
+    })
+
+    it('rejects unknown snapshots', async () => {
+        const request = (body: object) =>
+            cronRequest('/api/snapshots/rollback', { method: 'POST', body: JSON.stringify(body) })
+
+        assert.equal((await rollback(request({}))).status, 400)
+        assert.equal((await rollback(request({ snapshot_id: 'latest' }))).status, 400)
+        assert.equal((await rollback(request({ snapshot_id: randomUUID() }))).status, 404)
+    })
+})
@@ -0,0 +1,173 @@
+import { after, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { POST as refreshData } from '@/app/api/refresh-data/route'
+import { POST as smartUpdate } from '@/app/api/smart-update/route'
+import { GET as dailyRefresh } from '@/app/api/cron/daily-refresh/route'
+import { GET as changesFeed } from '@/app/api/changes/route'
+import { GET as ocpiLocations } from '@/app/api/ocpi/2.2/locations/route'
+import { GET as ocpiLocation } from '@/app/api/ocpi/2.2/locations/[location_id]/route'
+import { GET as evScore } from '@/app/api/ev-score/route'
+import { ProcessedStation } from '@/lib/data-processor'
+import {
+    countAggregatable,
+    cronRequest,
+    NIGHT_1,
+    NIGHT_2,
+    readTable,
+    replayRecording
+} from './helpers'
+
+async function countChanges(type: string): Promise<number> {
+    const changes = await readTable<{ change_type: string }>('station_changes')
+    return changes.filter((change) => change.change_type === type).length
+}
+
+describe('refresh routes', () => {
+    const night1 = replayRecording(NIGHT_1)
+    const night2 = replayRecording(NIGHT_2)
+    let night2RefreshedFrom = ''
+
+    after(() => {
+        delete process.env.NREL_FIXTURE_PATH
+    })
+
+    it('reject requests without the cron secret', async () => {
+        const url = 'http://localhost:3000/api'
+        assert.equal((await refreshData(new NextRequest(`${url}/refresh-data`, { method: 'POST' }))).status, 401)
+        assert.equal((await smartUpdate(new NextRequest(`${url}/smart-update`, { method: 'POST' }))).status, 401)
+        assert.equal((await dailyRefresh(new NextRequest(`${url}/cron/daily-refresh`))).status, 401)
+    })
+
+    it('refresh-data replaces production with the fetched stations', async () => {
+        const response = await refreshData(cronRequest('/api/refresh-data', { method: 'POST' }))
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.equal(body.success, true)
+        assert.equal(body.stations_inserted, night1.length)
+        assert.deepEqual(body.stations_by_source, { nrel: night1.length })
+
+        assert.equal((await readTable('charging_stations')).length, night1.length)
+        // Against an empty production every station is new
+        assert.equal(await countChanges('added'), night1.length)
+    })
+
+    it('refresh-data records the next night in the change feed', async () => {
+        process.env.NREL_FIXTURE_PATH = NIGHT_2
+        night2RefreshedFrom = new Date().toISOString()
+        const response = await refreshData(cronRequest('/api/refresh-data', { method: 'POST' }))
+
+        assert.equal(response.status, 200)
+        const production = await readTable<{ external_id: number }>('charging_stations')
+        assert.deepEqual(
+            production.map((station) => station.external_id).sort(),
+            night2.map((station) => station.external_id).sort()
+        )
+        assert.equal(await countChanges('added'), night1.length + 2)
+        assert.equal(await countChanges('removed'), 1)
+        assert.equal(await countChanges('modified'), 2)
+    })
+
+    it('ocpi locations list only stations changed since date_from', async () => {
+        const response = await ocpiLocations(
+            new NextRequest(`http://localhost:3000/api/ocpi/2.2/locations?date_from=${night2RefreshedFrom}`)
+        )
+        const body = await response.json()
+        assert.equal(response.status, 200)
+
+        const changed = (await readTable<{ external_id: number; change_type: string; detected_at: string }>(
+            'station_changes'
+        ))
+            .filter((change) => change.change_type !== 'removed' && change.detected_at >= night2RefreshedFrom)
+            .map((change) => `nrel-${change.external_id}`)
+        // Stations the refresh left as they were keep their last_updated
+        assert.ok(changed.length > 0)
+        assert.deepEqual(body.data.map((location: { id: string }) => location.id).sort(), changed.sort())
+
+        // Every listed id resolves on the single-location endpoint
+        const [location] = body.data
+        const single = await ocpiLocation(
+            new NextRequest(`http://localhost:3000/api/ocpi/2.2/locations/${location.id}`),
+            { params: Promise.resolve({ location_id: location.id }) }
+        )
+        assert.equal(single.status, 200)
+        assert.equal((await single.json()).data.last_updated, location.last_updated)
+    })
+
+    it('changes filters on the network name, not a LIKE pattern', async () => {
+        const changes = await readTable<{ network: string }>('station_changes')
+        const network = changes[0].network
+        const totalFor = async (filter: string) => {
+            const response = await changesFeed(
+                new NextRequest(`http://localhost:3000/api/changes?network=${encodeURIComponent(filter)}`)
+            )
+            assert.equal(response.status, 200)
+            return (await response.json()).total
+        }
+
+        assert.equal(
+            await totalFor(network.toLowerCase()),
+            changes.filter((change) => change.network === network).length
+        )
+        for (const wildcard of ['%', '_'.repeat(network.length), '*']) {
+            assert.equal(await totalFor(wildcard), 0, wildcard)
+        }
+    })
+
+    it('smart-update finds staging already promoted after refresh-data', async () => {
+        const response = await smartUpdate(
+            cronRequest('/api/smart-update', { method: 'POST', body: JSON.stringify({ levels: ['states', 'zips'] }) })
+        )
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.equal(body.success, true)
+        assert.equal(body.changes_detected.total_changes, 0)
+    })
+
+    it('daily-refresh runs a refresh job to completion', async () => {
+        const response = await dailyRefresh(cronRequest('/api/cron/daily-refresh'))
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.equal(body.success, true)
+        assert.deepEqual(
+            body.results.map((result: { step: string; success: boolean }) => [result.step, result.success]),
+            [
+                ['enqueue-job', true],
+                ['run-refresh-job', true],
+                ['cleanup-old-data', true]
+            ]
+        )
+
+        const [job] = await readTable<{ id: string; status: string }>('pipeline_jobs')
+        assert.equal(job.id, body.jobId)
+        assert.equal(job.status, 'done')
+        assert.equal((await readTable('charging_stations')).length, night2.length)
+    })
+
+    it('ev-score leaves private and temporarily unavailable stations out of the address score', async () => {
+        const production = await readTable<ProcessedStation>('charging_stations')
+        const depot = production.find((station) => station.access_code === 'private')
+        assert.ok(depot)
+
+        const response = await evScore(
+            new NextRequest(`http://localhost:3000/api/ev-score?lat=${depot.latitude}&lng=${depot.longitude}`)
+        )
+        const body = await response.json()
+
+        assert.equal(response.status, 200)
+        assert.notEqual(body.chargers.nearest?.name, depot.name)
+        assert.ok(body.nearest_charger_distance > 0)
+        assert.equal(
+            body.chargers.total,
+            countAggregatable(
+                production,
+                (station) =>
+                    Math.abs(station.latitude - depot.latitude) <= 0.15 &&
+                    Math.abs(station.longitude - depot.longitude) <= 0.15
+            )
+        )
+    })
+})
@@ -0,0 +1,28 @@
+// Loaded with --import before every test file: TypeScript and the @/ alias
+// via jiti, and local data mode (lib/data-store) in a fresh directory per file
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const root = path.resolve(import.meta.dirname, '..')
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'can-i-charge-test-'))
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }))
+
+process.env.DATA_MODE = 'local'
+process.env.LOCAL_DATA_DIR = dataDir
+process.env.NEXT_PUBLIC_MAPBOX_TOKEN ||= 'test-mapbox-token'
+process.env.CRON_SECRET = 'test-cron-secret-of-at-least-32-chars'
+// One admin, test-admin / test-password, as scripts/hash-admin-password.mjs writes it
+process.env.ADMIN_TOKEN_SECRET = 'test-admin-token-secret-of-32-chars'
+process.env.ADMIN_USERS = `test-admin:test-salt:${crypto.scryptSync('test-password', 'test-salt', 32).toString('hex')}`
+process.env.JITI_ALIAS = JSON.stringify({ '@': root })
+
+// The pipeline narrates every step; TEST_VERBOSE=1 shows it
+if (!process.env.TEST_VERBOSE) {
+    console.log = () => {}
+    console.info = () => {}
+    console.warn = () => {}
+}
+
+await import('jiti/register')
@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { POST as refreshData } from '@/app/api/refresh-data/route'
+import {
+    batchInsertStations,
+    clearTable,
+    ProcessedStation,
+    swapStagingToProduction
+} from '@/lib/data-processor'
+import { validateStaging, ValidationCheck } from '@/lib/staging-validation'
+import { cronRequest, NIGHT_1, NIGHT_2, readRecording, readTable, replayRecording } from './helpers'
+
+async function stage(stations: ProcessedStation[]) {
+    await clearTable('charging_stations_staging')
+    const result = await batchInsertStations(stations, 1000, true)
+    assert.equal(result.errors, 0)
+}
+
+function check(checks: ValidationCheck[], name: ValidationCheck['name']): ValidationCheck {
+    return checks.find((candidate) => candidate.name === name)!
+}
+
+describe('staging validation', () => {
+    const night1 = replayRecording(NIGHT_1)
+
+    before(async () => {
+        await stage(night1)
+        assert.equal((await swapStagingToProduction()).success, true)
+    })
+
+    after(() => {
+        delete process.env.NREL_FIXTURE_PATH
+    })
+
+    it('passes an ordinary night', async () => {
+        await stage(replayRecording(NIGHT_2))
+        const report = await validateStaging()
+
+        assert.equal(report.passed, true)
+        assert.equal(report.production_count, night1.length)
+        assert.ok(report.checks.every((candidate) => candidate.passed))
+    })
+
+    it('blocks the swap when the fetch comes back truncated', async () => {
+        const truncated = night1.filter((station) => station.state !== 'CO')
+        await stage(truncated)
+
+        const swap = await swapStagingToProduction({ thresholds: { minStateStations: 10 } })
+        assert.equal(swap.success, false)
+        assert.match(swap.error!, /^Staging failed validation: total_count/)
+
+        const totalCount = check(swap.validation!.checks, 'total_count')
+        assert.equal(totalCount.passed, false)
+        assert.equal(totalCount.value, Math.round(((truncated.length - night1.length) / night1.length) * 10000) / 100)
+        assert.deepEqual(check(swap.validation!.checks, 'state_counts').samples, [
+            { state: 'CO', staging: 0, production: 42, delta_percent: -100 }
+        ])
+
+        // Production keeps the last good night
+        assert.equal((await readTable('charging_stations')).length, night1.length)
+    })
+
+    it('flags missing, non-US and duplicate coordinates', async () => {
+        const [first, second, third, ...rest] = structuredClone(night1)
+        const broken = [
+            { ...first, latitude: null as unknown as number },
+            { ...second, latitude: 51.5, longitude: -0.12 },
+            { ...third, latitude: rest[0].latitude, longitude: rest[0].longitude },
+            ...rest
+        ]
+        await stage(broken)
+
+        const report = await validateStaging({
+            maxNullCoordinatesPercent: 0,
+            maxOutsideUSPercent: 0,
+            maxDuplicateLocationsPercent: 0
+        })
+        assert.equal(report.passed, false)
+        // Either copy of the duplicated point can be the one reported
+        for (const [name, candidates] of [
+            ['null_coordinates', [first.external_id]],
+            ['outside_us', [second.external_id]],
+            ['duplicate_locations', [third.external_id, rest[0].external_id]]
+        ] as const) {
+            const failed = check(report.checks, name)
+            assert.equal(failed.passed, false, name)
+            assert.equal(failed.samples.length, 1, name)
+            assert.ok(
+                (candidates as readonly unknown[]).includes((failed.samples[0] as ProcessedStation).external_id),
+                name
+            )
+        }
+        assert.equal(check(report.checks, 'total_count').passed, true)
+    })
+
+    it('refresh-data reports a blocked swap', async () => {
+        const recording = readRecording(NIGHT_1)
+        const file = path.join(process.env.LOCAL_DATA_DIR!, 'truncated-nrel.json')
+        fs.writeFileSync(file, JSON.stringify({ ...recording, fuel_stations: recording.fuel_stations!.slice(0, 10) }))
+        process.env.NREL_FIXTURE_PATH = file
+
+        const response = await refreshData(cronRequest('/api/refresh-data', { method: 'POST' }))
+        const body = await response.json()
+
+        assert.equal(response.status, 422)
+        assert.equal(body.success, false)
+        assert.equal(body.validation.staging_count, 10)
+        assert.equal(check(body.validation.checks, 'total_count').passed, false)
+        assert.equal((await readTable('charging_stations')).length, night1.length)
+    })
+})
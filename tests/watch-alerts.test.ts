@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { GET as confirmWatch } from '@/app/api/watches/confirm/route'
+import { POST as createWatch } from '@/app/api/watches/route'
+import { db } from '@/lib/data-store'
+import {
+    AlertChannelType,
+    LocationWatch,
+    processWatchAlerts,
+    registerAlertChannel,
+    WatchAlert
+} from '@/lib/watch-alerts'
+import { readTable } from './helpers'
+
+const BASE_URL = 'http://localhost:3000'
+const DENVER = { lat: 39.7392, lng: -104.9903 }
+
+function watchRequest(body: object, clientIp: string = '203.0.113.20') {
+    return new NextRequest(`${BASE_URL}/api/watches`, {
+        method: 'POST',
+        headers: { 'x-forwarded-for': clientIp },
+        body: JSON.stringify({ ...DENVER, radius_miles: 5, ...body })
+    })
+}
+
+// Stand-in channels that record what they were asked to deliver
+const delivered: { channel: AlertChannelType; watch: LocationWatch; alert: WatchAlert }[] = []
+for (const channel of ['webhook', 'email'] as const) {
+    registerAlertChannel(channel, {
+        async deliver(watch, alert) {
+            delivered.push({ channel, watch, alert })
+        }
+    })
+}
+
+async function stationAddedNearby(name: string, overrides: object = {}) {
+    // Strictly after the watches' last check
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    const { error } = await db.from('station_changes').insert({
+        change_type: 'added',
+        name,
+        address: '1 Test St',
+        network: 'Test Network',
+        charger_type_detailed: 'dcfast',
+        latitude: DENVER.lat + 0.01,
+        longitude: DENVER.lng,
+        access_code: 'public',
+        status_code: 'E',
+        ...overrides,
+        detected_at: new Date().toISOString()
+    })
+    if (error) throw error
+}
+
+describe('watch alerts', () => {
+    it('rejects webhook targets on the internal network', async () => {
+        for (const target of [
+            'http://localhost:3000/api/refresh-data',
+            'http://127.0.0.1/hook',
+            'http://169.254.169.254/latest/meta-data/',
+            'http://10.0.0.5/hook',
+            'http://192.168.1.1/hook',
+            'http://[::1]/hook',
+            'http://[::ffff:127.0.0.1]/hook',
+            'ftp://203.0.113.10/hook'
+        ]) {
+            const response = await createWatch(watchRequest({ channel: 'webhook', target }))
+            assert.equal(response.status, 400, target)
+        }
+        assert.equal((await readTable('location_watches')).length, 0)
+    })
+
+    it('rejects malformed bodies and non-string labels', async () => {
+        const malformed = new NextRequest(`${BASE_URL}/api/watches`, {
+            method: 'POST',
+            headers: { 'x-forwarded-for': '203.0.113.22' },
+            body: '{"channel": "webhook",'
+        })
+        assert.equal((await createWatch(malformed)).status, 400)
+
+        for (const body of [{ label: 123 }, { address: ['1 Test St'] }]) {
+            const response = await createWatch(
+                watchRequest({ channel: 'webhook', target: 'https://203.0.113.10/hook', ...body }, '203.0.113.22')
+            )
+            assert.equal(response.status, 400, JSON.stringify(body))
+        }
+        assert.equal((await readTable('location_watches')).length, 0)
+    })
+
+    it('rejects regions that only match inherited object keys', async () => {
+        for (const region of ['constructor:x', 'toString:x', '__proto__:x']) {
+            const response = await createWatch(
+                watchRequest(
+                    { channel: 'webhook', target: 'https://203.0.113.10/hook', region },
+                    '203.0.113.21'
+                )
+            )
+            assert.equal(response.status, 400, region)
+        }
+        assert.equal((await readTable('location_watches')).length, 0)
+    })
+
+    it('delivers nearby station changes through the watch channel', async () => {
+        const response = await createWatch(
+            watchRequest({ channel: 'webhook', target: 'https://203.0.113.10/hook' })
+        )
+        const body = await response.json()
+        assert.equal(response.status, 200)
+        assert.equal(body.confirmation_required, false)
+        assert.match(body.signing_secret, /^[0-9a-f]{64}$/)
+
+        await stationAddedNearby('Fleet Depot', { access_code: 'private' })
+        await stationAddedNearby('Closed For Repairs', { status_code: 'T' })
+        await stationAddedNearby('Fast Charge Denver')
+        assert.equal(await processWatchAlerts(), 1)
+
+        const [{ channel, watch, alert }] = delivered
+        assert.equal(channel, 'webhook')
+        assert.equal(watch.id, body.watch.id)
+        assert.equal(watch.signing_secret, body.signing_secret)
+        assert.deepEqual(
+            alert.stations.map((station) => [station.change_type, station.name]),
+            [['added', 'Fast Charge Denver']]
+        )
+
+        // Changes already alerted on aren't sent again
+        assert.equal(await processWatchAlerts(), 0)
+    })
+
+    it('holds email alerts until the address is confirmed', async () => {
+        const response = await createWatch(
+            watchRequest({ channel: 'email', target: 'owner@example.com' })
+        )
+        const body = await response.json()
+        assert.equal(response.status, 200)
+        assert.equal(body.confirmation_required, true)
+        assert.equal(body.watch.confirmed_at, null)
+
+        delivered.length = 0
+        await stationAddedNearby('Level 2 Denver')
+        assert.equal(await processWatchAlerts(), 1)
+        assert.deepEqual(delivered.map((delivery) => delivery.channel), ['webhook'])
+
+        const [stored] = (await readTable<{ id: string; confirm_token: string }>('location_watches'))
+            .filter((watch) => watch.id === body.watch.id)
+        const confirmUrl = (token: string) =>
+            new NextRequest(`${BASE_URL}/api/watches/confirm?id=${body.watch.id}&token=${token}`)
+        assert.equal((await confirmWatch(confirmUrl('wrong-token'))).status, 404)
+        assert.equal((await confirmWatch(confirmUrl(stored.confirm_token))).status, 200)
+
+        delivered.length = 0
+        assert.equal(await processWatchAlerts(), 1)
+        assert.equal(delivered[0].channel, 'email')
+        assert.equal(delivered[0].alert.stations[0].name, 'Level 2 Denver')
+    })
+})
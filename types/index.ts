@@ -8,9 +8,12 @@ export interface HoveredData {
   state_name?: string
   county_name?: string
   zip_code?: string
+  area_name?: string
   state?: string
   score?: number
   charger_count?: number
   filtered_charger_count?: number
   population?: number
+  renter_share?: number | null
+  is_disadvantaged?: boolean | null
 }
\ No newline at end of file